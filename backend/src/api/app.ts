@@ -1,8 +1,14 @@
-import express, { Express } from 'express';
+import express, { Express, NextFunction, Request, Response } from 'express';
 import cors from 'cors';
 import { Pool } from 'pg';
-import { CacheService } from '../services/CacheService';
+import { VesselCache } from '../services/VesselCache';
 import { RegionalScheduler } from '../services/RegionalScheduler';
+import { AisSource } from '../services/AisSource';
+import { MessageRecorder } from '../services/MessageRecorder';
+import { PositionSpool } from '../services/PositionSpool';
+import { MetricsCollector } from '../services/MetricsCollector';
+import { PositionHistoryConfig } from '../repositories/VesselRepository';
+import { VesselStore } from '../repositories/VesselStore';
 import {
   createApiRoutes,
   errorHandler,
@@ -13,23 +19,58 @@ import {
 
 /**
  * Create and configure Express application
+ * Pass a null pool and a vesselStore to run on in-memory storage
  */
 export function createApp(
-  pool: Pool,
-  cache: CacheService,
-  aisStreamManager?: any,
-  regionalScheduler?: RegionalScheduler
+  pool: Pool | null,
+  cache: VesselCache,
+  aisSources: AisSource[] = [],
+  regionalScheduler?: RegionalScheduler,
+  recorder?: MessageRecorder,
+  positionSpool?: PositionSpool,
+  metrics?: MetricsCollector,
+  positionHistory?: PositionHistoryConfig,
+  vesselStore?: VesselStore
 ): Express {
   const app = express();
 
   // Middleware
   app.use(cors(corsConfig()));
-  app.use(express.json());
+  // GeoJSON areas posted to /api/vessels/query, such as EEZs, exceed the default 100kb
+  app.use(express.json({ limit: '5mb' }));
   app.use(express.urlencoded({ extended: true }));
-  app.use(requestLogger);
+  app.use(requestLogger(metrics));
 
-  // API routes
-  app.use('/api', createApiRoutes(pool, cache, aisStreamManager, regionalScheduler));
+  // Prometheus metrics
+  if (metrics) {
+    app.get('/metrics', async (_req: Request, res: Response, next: NextFunction) => {
+      try {
+        res.set('Content-Type', metrics.contentType);
+        res.send(await metrics.getMetrics());
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
+
+  // API routes; the mount path is kept for request metrics (see requestLogger)
+  app.use(
+    '/api',
+    (req: Request, res: Response, next: NextFunction) => {
+      res.locals.baseUrl = req.baseUrl;
+      next();
+    },
+    createApiRoutes(
+      pool,
+      cache,
+      aisSources,
+      regionalScheduler,
+      recorder,
+      positionSpool,
+      positionHistory,
+      vesselStore
+    )
+  );
 
   // Error handling
   app.use(notFoundHandler);
@@ -63,12 +63,12 @@ describe('Health Endpoint Integration Tests', () => {
 
       expect(response.body.services).toHaveProperty('database');
       expect(response.body.services).toHaveProperty('redis');
-      expect(response.body.services).toHaveProperty('aisStream');
+      expect(response.body.services).toHaveProperty('aisSources');
       
       // Validate service status values
       expect(['connected', 'disconnected', 'unknown']).toContain(response.body.services.database);
       expect(['connected', 'disconnected', 'unknown']).toContain(response.body.services.redis);
-      expect(['connected', 'disconnected', 'not_configured']).toContain(response.body.services.aisStream);
+      expect(typeof response.body.services.aisSources).toBe('object');
     });
 
     it('should return all required data status fields', async () => {
@@ -200,10 +200,10 @@ describe('Health Endpoint Integration Tests', () => {
       }
     });
 
-    it('should return not_configured for AIS stream when not provided', async () => {
+    it('should return no AIS sources when none are provided', async () => {
       const response = await request(app).get('/api/health');
 
-      expect(response.body.services.aisStream).toBe('not_configured');
+      expect(response.body.services.aisSources).toEqual({});
     });
   });
 
@@ -1,5 +1,6 @@
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
 import { createComponentLogger, ApplicationError, toErrorResponse } from '../utils';
+import { MetricsCollector } from '../services/MetricsCollector';
 
 const logger = createComponentLogger('Middleware');
 
@@ -23,6 +24,12 @@ export function errorHandler(
     ip: req.ip,
   });
 
+  // A streamed response has already started; all that is left is to cut it off
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+
   // Determine status code
   const statusCode = err instanceof ApplicationError ? err.statusCode : 500;
 
@@ -60,38 +67,45 @@ export function notFoundHandler(
 
 /**
  * Request logging middleware
- * Logs all incoming requests
+ * Logs all incoming requests and, when a metrics collector is given, records their
+ * latency per route
  */
-export function requestLogger(
-  req: Request,
-  res: Response,
-  next: NextFunction
-): void {
-  const start = Date.now();
+export function requestLogger(metrics?: MetricsCollector): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const start = Date.now();
 
-  // Log when response finishes
-  res.on('finish', () => {
-    const duration = Date.now() - start;
-    const logData = {
-      method: req.method,
-      path: req.path,
-      query: req.query,
-      statusCode: res.statusCode,
-      duration: `${duration}ms`,
-      ip: req.ip,
-    };
+    // Log when response finishes
+    res.on('finish', () => {
+      const duration = Date.now() - start;
+      // Label by route pattern to keep the number of series bounded. Express resets
+      // req.baseUrl when an error leaves the router, so the mount path is also kept
+      // in res.locals
+      const route = req.route
+        ? `${res.locals.baseUrl ?? req.baseUrl}${req.route.path}`
+        : 'unmatched';
+      metrics?.observeRequest(req.method, route, res.statusCode, duration / 1000);
 
-    // Log as info for successful requests, warn for client errors, error for server errors
-    if (res.statusCode >= 500) {
-      logger.error('Request completed with server error', undefined, logData);
-    } else if (res.statusCode >= 400) {
-      logger.warn('Request completed with client error', logData);
-    } else {
-      logger.info('Request completed', logData);
-    }
-  });
+      const logData = {
+        method: req.method,
+        path: req.path,
+        query: req.query,
+        statusCode: res.statusCode,
+        duration: `${duration}ms`,
+        ip: req.ip,
+      };
 
-  next();
+      // Log as info for successful requests, warn for client errors, error for server errors
+      if (res.statusCode >= 500) {
+        logger.error('Request completed with server error', undefined, logData);
+      } else if (res.statusCode >= 400) {
+        logger.warn('Request completed with client error', logData);
+      } else {
+        logger.info('Request completed', logData);
+      }
+    });
+
+    next();
+  };
 }
 
 /**
@@ -0,0 +1,54 @@
+import request from 'supertest';
+import { createApp } from './app';
+import { InMemoryCacheService } from '../services/InMemoryCacheService';
+import { InMemoryVesselRepository } from '../repositories/InMemoryVesselRepository';
+
+describe('Routes with in-memory storage', () => {
+  let app: ReturnType<typeof createApp>;
+
+  beforeEach(async () => {
+    const store = new InMemoryVesselRepository();
+    await store.upsertVessel({ mmsi: '244670316', name: 'MAASSTROOM', type: 70 });
+    await store.batchInsertPositions([
+      {
+        mmsi: '244670316',
+        timestamp: new Date(Date.now() - 60 * 1000),
+        latitude: 51.95,
+        longitude: 4.05,
+        sog: 0.1,
+        cog: 212,
+      },
+    ]);
+    const cache = new InMemoryCacheService();
+    await cache.connect();
+    app = createApp(null, cache, [], undefined, undefined, undefined, undefined, undefined, store);
+  });
+
+  it('should serve vessels from the in-memory store', async () => {
+    const response = await request(app)
+      .get('/api/vessels?minLat=51.8&maxLat=52.1&minLon=3.9&maxLon=4.3')
+      .expect(200);
+
+    expect(response.body.vessels).toHaveLength(1);
+    expect(response.body.vessels[0]).toMatchObject({
+      mmsi: '244670316',
+      name: 'MAASSTROOM',
+      position: { latitude: 51.95, longitude: 4.05 },
+    });
+  });
+
+  it('should report memory storage in the health check', async () => {
+    const response = await request(app).get('/api/health').expect(200);
+
+    expect(response.body.storage).toBe('memory');
+    expect(response.body.dataStatus).toMatchObject({ totalVessels: 1, vesselsWithPosition: 1 });
+  });
+
+  it('should answer 503 for endpoints that need PostgreSQL', async () => {
+    const response = await request(app).get('/api/ports').expect(503);
+
+    expect(response.body.error.code).toBe('DATABASE_NOT_AVAILABLE');
+    await request(app).get('/api/vessels/244670316/port-calls').expect(503);
+    await request(app).get('/api/admin/dead-letters').expect(503);
+  });
+});
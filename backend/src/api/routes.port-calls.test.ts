@@ -0,0 +1,85 @@
+import { Pool } from 'pg';
+import request from 'supertest';
+import { createApp } from './app';
+import { CacheService } from '../services/CacheService';
+
+const PORT_CALL_ROW = {
+  id: '7',
+  mmsi: '244670316',
+  locode: 'NLRTM',
+  port_name: 'Rotterdam',
+  arrival: new Date('2025-12-01T06:00:00Z'),
+  departure: new Date('2025-12-02T18:30:00Z'),
+  call_type: 'berth',
+};
+
+describe('Port call routes', () => {
+  let query: jest.Mock;
+  let app: ReturnType<typeof createApp>;
+
+  beforeEach(() => {
+    query = jest.fn(async (sql: string) => {
+      if (sql.includes('FROM port_calls')) {
+        return { rows: [PORT_CALL_ROW] };
+      }
+      if (sql.includes('FROM ports')) {
+        return {
+          rows: [
+            {
+              locode: 'NLRTM',
+              name: 'Rotterdam',
+              country: 'NL',
+              latitude: '51.950000',
+              longitude: '4.140000',
+              radius_nm: '8.00',
+              area: null,
+            },
+          ],
+        };
+      }
+      // Vessel lookup
+      return { rows: [{ mmsi: '244670316', name: 'EEMSLIFT HENDRIKA' }] };
+    });
+    app = createApp({ query } as unknown as Pool, {} as CacheService);
+  });
+
+  it("should list a vessel's port calls with their duration", async () => {
+    const response = await request(app)
+      .get('/api/vessels/244670316/port-calls?startTime=2025-11-01T00:00:00Z&limit=10')
+      .expect(200);
+
+    expect(response.body.portCalls).toEqual([
+      {
+        id: 7,
+        mmsi: '244670316',
+        locode: 'NLRTM',
+        portName: 'Rotterdam',
+        arrival: '2025-12-01T06:00:00.000Z',
+        departure: '2025-12-02T18:30:00.000Z',
+        durationSeconds: 131400,
+        callType: 'berth',
+      },
+    ]);
+    const [sql, values] = query.mock.calls[1];
+    expect(sql).toContain('pc.mmsi = $1');
+    expect(values).toEqual(['244670316', new Date('2025-11-01T00:00:00Z'), 10, 0]);
+  });
+
+  it('should list the calls at a port by case-insensitive UN/LOCODE', async () => {
+    const response = await request(app).get('/api/ports/nlrtm/calls').expect(200);
+
+    expect(response.body.port).toMatchObject({ locode: 'NLRTM', radiusNm: 8 });
+    expect(response.body.count).toBe(1);
+    expect(query.mock.calls[1][0]).toContain('pc.locode = $1');
+  });
+
+  it('should reject invalid parameters and unknown ports', async () => {
+    await request(app).get('/api/vessels/2446703/port-calls').expect(400);
+    await request(app).get('/api/vessels/244670316/port-calls?endTime=yesterday').expect(400);
+    await request(app).get('/api/ports/ROTTERDAM/calls').expect(400);
+    expect(query).not.toHaveBeenCalled();
+
+    query.mockResolvedValueOnce({ rows: [] });
+    await request(app).get('/api/ports/NLXXX/calls').expect(404);
+  });
+});
@@ -0,0 +1,81 @@
+import { Pool } from 'pg';
+import request from 'supertest';
+import { createApp } from './app';
+import { CacheService } from '../services/CacheService';
+
+function positionRow(timestamp: string, longitude: number) {
+  return {
+    mmsi: '244670316',
+    timestamp: new Date(timestamp),
+    latitude: '52.0',
+    longitude: String(longitude),
+    sog: '7.4',
+    cog: '90',
+  };
+}
+
+describe('Position-at route', () => {
+  let query: jest.Mock;
+  let app: ReturnType<typeof createApp>;
+
+  beforeEach(() => {
+    query = jest.fn().mockResolvedValue({
+      rows: [positionRow('2025-12-01T14:00:00Z', 4.0), positionRow('2025-12-01T15:00:00Z', 4.2)],
+    });
+    app = createApp({ query } as unknown as Pool, {} as CacheService);
+  });
+
+  it('should interpolate between the surrounding fixes', async () => {
+    const response = await request(app)
+      .get('/api/vessels/244670316/position-at?time=2025-12-01T14:30:00Z')
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      mmsi: '244670316',
+      time: '2025-12-01T14:30:00.000Z',
+      method: 'interpolated',
+      nearestFixAgeSeconds: 1800,
+    });
+    expect(response.body.position.longitude).toBeCloseTo(4.1, 3);
+    expect(response.body.uncertaintyNm).toBeGreaterThan(0);
+    expect(response.body.before.timestamp).toBe('2025-12-01T14:00:00.000Z');
+    expect(response.body.after.timestamp).toBe('2025-12-01T15:00:00.000Z');
+    // Fixes are looked for up to the default gap of two hours either side
+    expect(query.mock.calls[0][1]).toEqual([
+      '244670316',
+      new Date('2025-12-01T14:30:00Z'),
+      new Date('2025-12-01T12:30:00Z'),
+      new Date('2025-12-01T16:30:00Z'),
+    ]);
+  });
+
+  it('should refuse to interpolate across a gap larger than maxGapMinutes', async () => {
+    const response = await request(app)
+      .get('/api/vessels/244670316/position-at?time=2025-12-01T14:30:00Z&maxGapMinutes=30')
+      .expect(404);
+
+    expect(response.body.error.code).toBe('GAP_TOO_LARGE');
+    expect(response.body.error.message).toContain('60 minutes apart');
+  });
+
+  it('should report NO_DATA without fixes near the requested time', async () => {
+    query.mockResolvedValueOnce({ rows: [] });
+    const response = await request(app)
+      .get('/api/vessels/244670316/position-at?time=2025-12-01T14:30:00Z')
+      .expect(404);
+
+    expect(response.body.error.code).toBe('NO_DATA');
+  });
+
+  it('should reject invalid parameters', async () => {
+    await request(app).get('/api/vessels/244670316/position-at').expect(400);
+    await request(app).get('/api/vessels/244670316/position-at?time=yesterday').expect(400);
+    await request(app)
+      .get('/api/vessels/244670316/position-at?time=2025-12-01T14:30:00Z&deadReckoning=yes')
+      .expect(400);
+    await request(app)
+      .get('/api/vessels/244670316/position-at?time=2025-12-01T14:30:00Z&maxGapMinutes=0')
+      .expect(400);
+    expect(query).not.toHaveBeenCalled();
+  });
+});
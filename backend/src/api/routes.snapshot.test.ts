@@ -0,0 +1,67 @@
+import { Pool } from 'pg';
+import request from 'supertest';
+import { createApp } from './app';
+import { CacheService } from '../services/CacheService';
+
+describe('Snapshot route', () => {
+  let query: jest.Mock;
+  let app: ReturnType<typeof createApp>;
+  const bbox = 'minLat=51.8&maxLat=52.1&minLon=3.9&maxLon=4.3';
+
+  beforeEach(() => {
+    query = jest.fn().mockResolvedValue({
+      rows: [
+        {
+          mmsi: '244670316',
+          name: 'MAASSTROOM',
+          vessel_type: 70,
+          timestamp: new Date('2025-12-01T02:57:12Z'),
+          latitude: '51.95',
+          longitude: '4.05',
+          sog: '0.1',
+          cog: '212',
+        },
+      ],
+    });
+    app = createApp({ query } as unknown as Pool, {} as CacheService);
+  });
+
+  it('should return the last known positions in the area at the requested time', async () => {
+    const response = await request(app)
+      .get(`/api/snapshot?time=2025-12-01T03:00:00Z&${bbox}&lookbackMinutes=30`)
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      time: '2025-12-01T03:00:00.000Z',
+      lookbackMinutes: 30,
+      count: 1,
+    });
+    expect(response.body.vessels[0]).toMatchObject({
+      mmsi: '244670316',
+      name: 'MAASSTROOM',
+      position: { timestamp: '2025-12-01T02:57:12.000Z', latitude: 51.95, longitude: 4.05 },
+    });
+    expect(query.mock.calls[0][1]).toEqual([
+      new Date('2025-12-01T02:30:00Z'),
+      new Date('2025-12-01T03:00:00Z'),
+      51.8,
+      52.1,
+      3.9,
+      4.3,
+      1000,
+    ]);
+  });
+
+  it('should reject snapshots without time or area and invalid lookbacks', async () => {
+    await request(app).get(`/api/snapshot?${bbox}`).expect(400);
+    await request(app).get('/api/snapshot?time=2025-12-01T03:00:00Z').expect(400);
+    await request(app).get(`/api/snapshot?time=03:00&${bbox}`).expect(400);
+    await request(app)
+      .get(`/api/snapshot?time=2025-12-01T03:00:00Z&${bbox}&lookbackMinutes=2000`)
+      .expect(400);
+    await request(app)
+      .get('/api/snapshot?time=2025-12-01T03:00:00Z&minLat=52&maxLat=51&minLon=3&maxLon=4')
+      .expect(400);
+    expect(query).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,118 @@
+import { Pool } from 'pg';
+import request from 'supertest';
+import { createApp } from './app';
+import { CacheService } from '../services/CacheService';
+
+const PORT_AREA = {
+  type: 'Polygon',
+  coordinates: [
+    [
+      [4.0, 51.9],
+      [4.5, 51.9],
+      [4.5, 52.0],
+      [4.0, 52.0],
+      [4.0, 51.9],
+    ],
+  ],
+};
+
+describe('Spatial vessel queries', () => {
+  let query: jest.Mock;
+  let app: ReturnType<typeof createApp>;
+
+  beforeEach(() => {
+    query = jest.fn().mockResolvedValue({ rows: [] });
+    app = createApp({ query } as unknown as Pool, {} as CacheService);
+  });
+
+  it('should filter by distance from a point in meters', async () => {
+    await request(app).get('/api/vessels?lat=51.95&lon=4.1&radiusNm=5').expect(200);
+
+    const [sql, values] = query.mock.calls[0];
+    expect(sql).toContain('ST_DWithin(');
+    expect(sql).toContain('lp.timestamp IS NOT NULL');
+    expect(values.slice(0, 3)).toEqual([4.1, 51.95, 9260]);
+  });
+
+  it('should filter by distance from another vessel track', async () => {
+    await request(app)
+      .get(
+        '/api/vessels?nearMmsi=244670316&distanceNm=2&startTime=2025-12-01T00:00:00Z&endTime=2025-12-01T12:00:00Z'
+      )
+      .expect(200);
+
+    const [sql, values] = query.mock.calls[0];
+    expect(sql).toContain('ST_MakeLine(');
+    // Reports stored before migration 010 have no geog point
+    expect(sql).toMatch(/COALESCE\(\s*pr\.geog,/);
+    expect(sql).toContain('ORDER BY pr.timestamp');
+    expect(values.slice(0, 4)).toEqual([
+      '244670316',
+      new Date('2025-12-01T00:00:00Z'),
+      new Date('2025-12-01T12:00:00Z'),
+      3704,
+    ]);
+  });
+
+  it('should filter by a posted GeoJSON area together with query filters', async () => {
+    await request(app)
+      .post('/api/vessels/query?flag=nl')
+      .send({ area: { type: 'Feature', geometry: PORT_AREA } })
+      .expect(200);
+
+    const [sql, values] = query.mock.calls[0];
+    expect(sql).toContain('v.flag = $1');
+    expect(sql).toContain('ST_Intersects(lp.geog');
+    expect(values.slice(0, 2)).toEqual(['NL', JSON.stringify(PORT_AREA)]);
+  });
+
+  it('should filter by distance from a posted GeoJSON track', async () => {
+    const track = {
+      type: 'LineString',
+      coordinates: [
+        [4.0, 51.98],
+        [3.5, 52.1],
+      ],
+    };
+    await request(app).post('/api/vessels/query').send({ track, distanceNm: 1 }).expect(200);
+
+    const [, values] = query.mock.calls[0];
+    expect(values.slice(0, 2)).toEqual([JSON.stringify(track), 1852]);
+  });
+
+  it('should accept bounding boxes crossing the antimeridian', async () => {
+    await request(app).get('/api/vessels?minLat=-25&maxLat=-10&minLon=170&maxLon=-170').expect(200);
+
+    const [sql, values] = query.mock.calls[0];
+    expect(sql).toContain('lp.longitude >= $3 OR lp.longitude <= $4');
+    expect(values.slice(0, 4)).toEqual([-25, -10, 170, -170]);
+
+    await request(app).get('/api/vessels?minLat=-25&maxLat=-10&minLon=0&maxLon=0').expect(400);
+    await request(app).get('/api/vessels?minLat=-25&maxLat=-10&minLon=170&maxLon=-190').expect(400);
+  });
+
+  it('should reject invalid spatial parameters', async () => {
+    await request(app).get('/api/vessels?lat=51.95&lon=4.1').expect(400);
+    await request(app).get('/api/vessels?lat=95&lon=4.1&radiusNm=5').expect(400);
+    await request(app).get('/api/vessels?nearMmsi=244670316').expect(400);
+    await request(app).post('/api/vessels/query').send({}).expect(400);
+    await request(app)
+      .post('/api/vessels/query')
+      .send({ area: { type: 'Point', coordinates: [4.0, 51.9] } })
+      .expect(400);
+    await request(app)
+      .post('/api/vessels/query')
+      .send({
+        track: {
+          type: 'LineString',
+          coordinates: [
+            [4.0, 51.98],
+            [3.5, 52.1],
+          ],
+        },
+      })
+      .expect(400);
+
+    expect(query).not.toHaveBeenCalled();
+  });
+});
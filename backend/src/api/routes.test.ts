@@ -4,12 +4,14 @@ import { Express } from 'express';
 import { createApp } from './app';
 import { CacheService } from '../services/CacheService';
 import { VesselRepository } from '../repositories/VesselRepository';
+import { StationRepository } from '../repositories/StationRepository';
 
 describe('API Routes Integration Tests', () => {
   let app: Express;
   let pool: Pool;
   let cache: CacheService;
   let vesselRepo: VesselRepository;
+  let stationRepo: StationRepository;
 
   beforeAll(async () => {
     // Create test database connection
@@ -30,6 +32,7 @@ describe('API Routes Integration Tests', () => {
 
     // Create repository for test data setup
     vesselRepo = new VesselRepository(pool);
+    stationRepo = new StationRepository(pool);
   });
 
   afterAll(async () => {
@@ -41,6 +44,8 @@ describe('API Routes Integration Tests', () => {
     // Clean up test data
     await pool.query('DELETE FROM position_reports');
     await pool.query('DELETE FROM vessels');
+    await pool.query('DELETE FROM base_stations');
+    await pool.query('DELETE FROM aids_to_navigation');
     await cache.clearAll();
   });
 
@@ -54,7 +59,7 @@ describe('API Routes Integration Tests', () => {
       expect(response.body).toHaveProperty('services');
       expect(response.body.services).toHaveProperty('database');
       expect(response.body.services).toHaveProperty('redis');
-      expect(response.body.services).toHaveProperty('aisStream');
+      expect(response.body.services).toHaveProperty('aisSources');
     });
 
     it('should return data status information', async () => {
@@ -76,8 +81,8 @@ describe('API Routes Integration Tests', () => {
     it('should return degraded status when AIS stream is disconnected', async () => {
       const response = await request(app).get('/api/health');
 
-      // Since we don't pass aisStreamManager in tests, it should be 'not_configured'
-      expect(response.body.services.aisStream).toBe('not_configured');
+      // Since we don't pass any AIS sources in tests, none should be reported
+      expect(response.body.services.aisSources).toEqual({});
     });
   });
 
@@ -94,6 +99,7 @@ describe('API Routes Integration Tests', () => {
         mmsi: '987654321',
         name: 'Test Vessel 2',
         type: 80,
+        aisClass: 'B',
       });
 
       // Insert position reports
@@ -164,6 +170,85 @@ describe('API Routes Integration Tests', () => {
       expect(response.status).toBe(400);
       expect(response.body.error.code).toBe('INVALID_PARAMETER');
     });
+
+    it('should filter vessels by AIS class', async () => {
+      const response = await request(app).get('/api/vessels?aisClass=B');
+
+      expect(response.status).toBe(200);
+      expect(response.body.vessels).toHaveLength(1);
+      expect(response.body.vessels[0].mmsi).toBe('987654321');
+      expect(response.body.vessels[0].aisClass).toBe('B');
+    });
+
+    it('should return 400 for invalid AIS class', async () => {
+      const response = await request(app).get('/api/vessels?aisClass=C');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_PARAMETER');
+    });
+  });
+
+  describe('GET /api/base-stations and /api/aids-to-navigation', () => {
+    beforeEach(async () => {
+      await stationRepo.upsertBaseStation({
+        mmsi: '003669987',
+        timestamp: new Date(),
+        latitude: 37.8,
+        longitude: -122.4,
+        fixType: 7,
+      });
+
+      await stationRepo.upsertAidToNavigation({
+        mmsi: '993672085',
+        timestamp: new Date(),
+        name: 'GOLDEN GATE BRIDGE MID SPAN',
+        aidType: 1,
+        latitude: 37.81,
+        longitude: -122.47,
+        virtual: true,
+      });
+    });
+
+    it('should list base stations within a bounding box', async () => {
+      const response = await request(app).get(
+        '/api/base-stations?minLat=37&maxLat=38&minLon=-123&maxLon=-122'
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.count).toBe(1);
+      expect(response.body.baseStations[0].mmsi).toBe('003669987');
+    });
+
+    it('should return a base station by MMSI', async () => {
+      const response = await request(app).get('/api/base-stations/003669987');
+
+      expect(response.status).toBe(200);
+      expect(response.body.baseStation.fixType).toBe(7);
+    });
+
+    it('should return 404 for an unknown base station', async () => {
+      const response = await request(app).get('/api/base-stations/003660000');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('STATION_NOT_FOUND');
+    });
+
+    it('should filter aids to navigation by name', async () => {
+      const response = await request(app).get('/api/aids-to-navigation?name=golden');
+
+      expect(response.status).toBe(200);
+      expect(response.body.aidsToNavigation).toHaveLength(1);
+      expect(response.body.aidsToNavigation[0].virtual).toBe(true);
+    });
+
+    it('should return 400 for an invalid bounding box', async () => {
+      const response = await request(app).get(
+        '/api/aids-to-navigation?minLat=38&maxLat=37&minLon=-123&maxLon=-122'
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_PARAMETER');
+    });
   });
 
   describe('GET /api/vessels/:mmsi', () => {
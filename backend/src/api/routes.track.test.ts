@@ -0,0 +1,122 @@
+import { Pool } from 'pg';
+import request from 'supertest';
+import { createApp } from './app';
+import { CacheService } from '../services/CacheService';
+
+const START = Date.parse('2025-12-01T00:00:00Z');
+
+// A straight line east along 52°N, one fix a minute
+function positionRows(count: number, fromMinute = 0) {
+  return Array.from({ length: count }, (_, i) => ({
+    mmsi: '244670316',
+    timestamp: new Date(START + (fromMinute + i) * 60 * 1000),
+    latitude: '52.0',
+    longitude: String(4 + (fromMinute + i) * 0.01),
+    sog: '12',
+    cog: '90',
+  }));
+}
+
+describe('Track route', () => {
+  let query: jest.Mock;
+  let app: ReturnType<typeof createApp>;
+  const range = 'startTime=2025-12-01T00:00:00Z&endTime=2025-12-01T12:00:00Z';
+
+  beforeEach(() => {
+    query = jest.fn().mockResolvedValue({ rows: positionRows(10) });
+    app = createApp({ query } as unknown as Pool, {} as CacheService);
+  });
+
+  it('should simplify the track server-side', async () => {
+    const response = await request(app)
+      .get(`/api/vessels/244670316/track?${range}&tolerance=0.1`)
+      .expect(200);
+
+    expect(response.body.count).toBe(2);
+    expect(response.body.originalCount).toBe(10);
+    expect(response.body.track[1].timestamp).toBe('2025-12-01T00:09:00.000Z');
+  });
+
+  it('should page through the track with a cursor', async () => {
+    query.mockResolvedValueOnce({ rows: positionRows(4) });
+    const first = await request(app)
+      .get(`/api/vessels/244670316/track?${range}&limit=3`)
+      .expect(200);
+
+    expect(first.body.count).toBe(3);
+    expect(first.body.nextCursor).toBe('2025-12-01T00:02:00.000Z_1');
+    expect(query.mock.calls[0][1]).toEqual([
+      '244670316',
+      new Date('2025-12-01T00:00:00Z'),
+      new Date('2025-12-01T12:00:00Z'),
+      4,
+    ]);
+
+    query.mockResolvedValueOnce({ rows: positionRows(2, 3) });
+    const last = await request(app)
+      .get(`/api/vessels/244670316/track?${range}&limit=3&cursor=${first.body.nextCursor}`)
+      .expect(200);
+
+    expect(last.body.nextCursor).toBeNull();
+    expect(query.mock.calls[1][0]).toContain('timestamp >= $4');
+    expect(query.mock.calls[1][1].slice(3)).toEqual([new Date('2025-12-01T00:02:00Z'), 5]);
+  });
+
+  it('should not skip fixes sharing the timestamp at a page boundary', async () => {
+    const rows = positionRows(4);
+    rows[3].timestamp = rows[2].timestamp;
+    query.mockResolvedValueOnce({ rows });
+    const first = await request(app)
+      .get(`/api/vessels/244670316/track?${range}&limit=3`)
+      .expect(200);
+
+    expect(first.body.nextCursor).toBe('2025-12-01T00:02:00.000Z_1');
+
+    // Read again from the boundary timestamp; the fix already returned is skipped
+    query.mockResolvedValueOnce({ rows: [rows[2], rows[3], ...positionRows(1, 3)] });
+    const last = await request(app)
+      .get(`/api/vessels/244670316/track?${range}&limit=3&cursor=${first.body.nextCursor}`)
+      .expect(200);
+
+    expect(last.body.track.map((fix: { longitude: number }) => fix.longitude)).toEqual([
+      4.03, 4.03,
+    ]);
+    expect(last.body.nextCursor).toBeNull();
+  });
+
+  it('should stream the track as NDJSON in chunks', async () => {
+    query
+      .mockResolvedValueOnce({ rows: positionRows(5000) })
+      .mockResolvedValueOnce({ rows: positionRows(2, 5000) });
+
+    const response = await request(app)
+      .get(`/api/vessels/244670316/track?${range}&format=ndjson`)
+      .expect(200);
+
+    expect(response.headers['content-type']).toContain('application/x-ndjson');
+    const lines = response.text.trim().split('\n');
+    expect(lines).toHaveLength(5002);
+    expect(JSON.parse(lines[5001])).toMatchObject({ mmsi: '244670316', longitude: 54.01 });
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(query.mock.calls[1][1][3]).toEqual(new Date(START + 4999 * 60 * 1000));
+  });
+
+  it('should abort the NDJSON stream when a later chunk cannot be read', async () => {
+    query
+      .mockResolvedValueOnce({ rows: positionRows(5000) })
+      .mockRejectedValueOnce(new Error('Connection terminated unexpectedly'));
+
+    await expect(
+      request(app).get(`/api/vessels/244670316/track?${range}&format=ndjson`)
+    ).rejects.toThrow();
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject invalid simplification and paging parameters', async () => {
+    await request(app).get(`/api/vessels/244670316/track?tolerance=-1`).expect(400);
+    await request(app).get(`/api/vessels/244670316/track?maxPoints=1`).expect(400);
+    await request(app).get(`/api/vessels/244670316/track?cursor=next`).expect(400);
+    await request(app).get(`/api/vessels/244670316/track?format=ndjson&limit=10`).expect(400);
+    expect(query).not.toHaveBeenCalled();
+  });
+});
@@ -1,20 +1,99 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { VesselRepository } from '../repositories/VesselRepository';
-import { CacheService } from '../services/CacheService';
+import {
+  VesselRepository,
+  HistoryResolution,
+  PositionHistoryConfig,
+} from '../repositories/VesselRepository';
+import { VesselStore } from '../repositories/VesselStore';
+import { StationRepository, StationQuery } from '../repositories/StationRepository';
+import { RejectedPositionRepository } from '../repositories/RejectedPositionRepository';
+import { DeadLetterRepository } from '../repositories/DeadLetterRepository';
+import { PortRepository } from '../repositories/PortRepository';
+import {
+  BoundingBox,
+  DeadLetterQuery,
+  DeadLetterStage,
+  MMSICategory,
+  PortCallQuery,
+  RejectedPositionQuery,
+  SnapshotQuery,
+  VesselQuery,
+} from '../types';
+import { parseGeoJsonArea, parseGeoJsonLineString } from '../utils/geo';
+import {
+  formatTrackCursor,
+  nextTrackCursor,
+  parseTrackCursor,
+  simplifyTrack,
+  TrackCursor,
+} from '../utils/track';
+import { MMSI_CATEGORIES } from '../utils/mmsi';
+import { VesselCache } from '../services/VesselCache';
 import { RegionalScheduler } from '../services/RegionalScheduler';
+import { AisSource, AisSourceStatus, getAisSourceStatus } from '../services/AisSource';
+import { MessageRecorder } from '../services/MessageRecorder';
+import { PositionSpool } from '../services/PositionSpool';
+import { DEAD_LETTER_STAGES } from '../services/DeadLetterQueue';
+import { ReplaySource } from '../services/ReplaySource';
+import { VoyageSegmenter } from '../services/VoyageSegmenter';
+import { PositionEstimator } from '../services/PositionEstimator';
 import { Pool } from 'pg';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Area and track filters that POST /vessels/query hands on to the vessel listing
+ */
+interface SpatialQueryLocals {
+  spatialCriteria?: Pick<VesselQuery, 'area' | 'nearTrack'>;
+}
+
+// Track range segmented into voyages when none is given, and the longest accepted
+const VOYAGE_DEFAULT_RANGE_MS = 30 * DAY_MS;
+const VOYAGE_MAX_RANGE_MS = 366 * DAY_MS;
+
+// How far before a snapshot's time fixes count as a vessel's last known position
+const SNAPSHOT_DEFAULT_LOOKBACK_MS = 60 * 60 * 1000;
+
+// Fixes read from the database per chunk of a streamed track
+const TRACK_STREAM_CHUNK_SIZE = 5000;
+
+/**
+ * Simplification, paging and output format of a track request
+ */
+interface TrackOptions {
+  toleranceNm?: number;
+  maxPoints?: number;
+  limit?: number;
+  cursor?: TrackCursor;
+  format: 'json' | 'ndjson';
+}
+
 /**
  * Create API routes for vessel tracking
+ * Without a pool (STORAGE=memory) vessels are read from vesselStore, and the routes for
+ * data only kept in PostgreSQL respond with 503 DATABASE_NOT_AVAILABLE
  */
 export function createApiRoutes(
-  pool: Pool,
-  cache: CacheService,
-  aisStreamManager?: any,
-  regionalScheduler?: RegionalScheduler
+  pool: Pool | null,
+  cache: VesselCache,
+  aisSources: AisSource[] = [],
+  regionalScheduler?: RegionalScheduler,
+  recorder?: MessageRecorder,
+  positionSpool?: PositionSpool,
+  positionHistory?: PositionHistoryConfig,
+  vesselStore?: VesselStore
 ): Router {
   const router = Router();
-  const vesselRepo = new VesselRepository(pool);
+  const vesselRepo: VesselStore =
+    vesselStore || new VesselRepository(pool as Pool, positionHistory);
+  // Stations, ports, rejected positions and dead letters are only kept in PostgreSQL
+  const stationRepo = pool ? new StationRepository(pool) : null;
+  const rejectedPositionRepo = pool ? new RejectedPositionRepository(pool) : null;
+  const deadLetterRepo = pool ? new DeadLetterRepository(pool) : null;
+  const portRepo = pool ? new PortRepository(pool) : null;
+  const voyageSegmenter = new VoyageSegmenter();
+  const positionEstimator = new PositionEstimator();
 
   /**
    * GET /api/vessels
@@ -23,15 +102,25 @@ export function createApiRoutes(
    * - mmsi: Filter by MMSI
    * - name: Filter by vessel name (partial match)
    * - type: Filter by vessel type
-   * - minLat, maxLat, minLon, maxLon: Bounding box filter
+   * - minLat, maxLat, minLon, maxLon: Bounding box filter (minLon > maxLon crosses the antimeridian)
    * - speedMin, speedMax: Speed range filter
    * - hasPosition: Filter by position availability (true/false)
    * - maxPositionAgeHours: Filter by position age (in hours)
+   * - aisClass: Filter by transponder class (A or B)
+   * - flag: Filter by flag state (ISO 3166-1 alpha-2, decoded from the MMSI)
+   * - category: Filter by station category (ship, sar_aircraft, aid_to_navigation, ...)
+   * - lat, lon, radiusNm: Vessels within radiusNm nautical miles of a point
+   * - nearMmsi, distanceNm: Vessels within distanceNm nautical miles of another vessel's track
+   *   between startTime and endTime (default: last 24 hours)
    * - limit: Maximum number of results (default: 1000)
    * - offset: Pagination offset (default: 0)
    * Validates: Requirements 4.3
    */
-  router.get('/vessels', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const listVessels = async (
+    req: Request,
+    res: Response<unknown, SpatialQueryLocals>,
+    next: NextFunction
+  ): Promise<void> => {
     try {
       const {
         mmsi,
@@ -45,12 +134,22 @@ export function createApiRoutes(
         speedMax,
         hasPosition,
         maxPositionAgeHours,
+        aisClass,
+        flag,
+        category,
+        lat,
+        lon,
+        radiusNm,
+        nearMmsi,
+        distanceNm,
+        startTime,
+        endTime,
         limit,
         offset,
       } = req.query;
 
-      // Build query criteria
-      const criteria: any = {};
+      // Build query criteria; POST /vessels/query adds its area and track filters first
+      const criteria: VesselQuery = { ...res.locals.spatialCriteria };
 
       if (mmsi) {
         criteria.mmsi = String(mmsi);
@@ -97,12 +196,19 @@ export function createApiRoutes(
 
         // Validate coordinate ranges
         if (
-          isNaN(bbox.minLat) || isNaN(bbox.maxLat) ||
-          isNaN(bbox.minLon) || isNaN(bbox.maxLon) ||
-          bbox.minLat < -90 || bbox.maxLat > 90 ||
-          bbox.minLon < -180 || bbox.maxLon > 180 ||
+          isNaN(bbox.minLat) ||
+          isNaN(bbox.maxLat) ||
+          isNaN(bbox.minLon) ||
+          isNaN(bbox.maxLon) ||
+          bbox.minLat < -90 ||
+          bbox.maxLat > 90 ||
+          bbox.minLon < -180 ||
+          bbox.minLon > 180 ||
+          bbox.maxLon < -180 ||
+          bbox.maxLon > 180 ||
           bbox.minLat >= bbox.maxLat ||
-          bbox.minLon >= bbox.maxLon
+          // minLon > maxLon is a box crossing the antimeridian
+          bbox.minLon === bbox.maxLon
         ) {
           res.status(400).json({
             error: {
@@ -189,6 +295,103 @@ export function createApiRoutes(
         criteria.maxPositionAgeHours = ageHours;
       }
 
+      // Transponder class filter
+      if (aisClass !== undefined) {
+        const aisClassStr = String(aisClass).toUpperCase();
+        if (aisClassStr !== 'A' && aisClassStr !== 'B') {
+          res.status(400).json({
+            error: {
+              code: 'INVALID_PARAMETER',
+              message: 'aisClass must be "A" or "B"',
+              timestamp: new Date().toISOString(),
+            },
+          });
+          return;
+        }
+        criteria.aisClass = aisClassStr;
+      }
+
+      // Flag state and station category filters
+      if (flag !== undefined) {
+        const flagStr = String(flag).toUpperCase();
+        if (!/^[A-Z]{2}$/.test(flagStr)) {
+          sendInvalidParameter(res, 'flag must be a two-letter country code');
+          return;
+        }
+        criteria.flag = flagStr;
+      }
+
+      if (category !== undefined) {
+        const categoryStr = String(category) as MMSICategory;
+        if (!MMSI_CATEGORIES.includes(categoryStr)) {
+          sendInvalidParameter(res, `category must be one of: ${MMSI_CATEGORIES.join(', ')}`);
+          return;
+        }
+        criteria.category = categoryStr;
+      }
+
+      // Point and radius filter
+      if (lat !== undefined || lon !== undefined || radiusNm !== undefined) {
+        const radius = {
+          latitude: parseFloat(String(lat)),
+          longitude: parseFloat(String(lon)),
+          radiusNm: parseFloat(String(radiusNm)),
+        };
+        if (
+          isNaN(radius.latitude) ||
+          radius.latitude < -90 ||
+          radius.latitude > 90 ||
+          isNaN(radius.longitude) ||
+          radius.longitude < -180 ||
+          radius.longitude > 180
+        ) {
+          sendInvalidParameter(res, 'Radius search requires lat (-90 to 90) and lon (-180 to 180)');
+          return;
+        }
+        if (isNaN(radius.radiusNm) || radius.radiusNm <= 0) {
+          sendInvalidParameter(res, 'radiusNm must be a positive number of nautical miles');
+          return;
+        }
+        criteria.radius = radius;
+      }
+
+      // Distance from another vessel's track
+      if (nearMmsi !== undefined) {
+        if (!/^\d{9}$/.test(String(nearMmsi))) {
+          sendInvalidParameter(res, 'nearMmsi must be a 9-digit number');
+          return;
+        }
+        const distance = parseFloat(String(distanceNm));
+        if (isNaN(distance) || distance <= 0) {
+          sendInvalidParameter(res, 'distanceNm must be a positive number of nautical miles');
+          return;
+        }
+        const end = endTime ? new Date(String(endTime)) : new Date();
+        const start = startTime
+          ? new Date(String(startTime))
+          : new Date(end.getTime() - 24 * 60 * 60 * 1000);
+        if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+          sendInvalidParameter(res, 'Invalid startTime or endTime format. Use ISO 8601 format.');
+          return;
+        }
+        if (start >= end) {
+          sendInvalidParameter(res, 'startTime must be before endTime');
+          return;
+        }
+        criteria.nearTrack = {
+          mmsi: String(nearMmsi),
+          distanceNm: distance,
+          startTime: start,
+          endTime: end,
+        };
+      }
+
+      // Spatial filters only match vessels with a position
+      const spatial = criteria.radius || criteria.area || criteria.nearTrack;
+      if (spatial && criteria.hasPosition === undefined) {
+        criteria.hasPosition = true;
+      }
+
       // Pagination validation
       if (limit) {
         const limitNum = parseInt(String(limit), 10);
@@ -230,71 +433,135 @@ export function createApiRoutes(
     } catch (error) {
       next(error);
     }
-  });
+  };
+
+  router.get('/vessels', listVessels);
 
   /**
-   * GET /api/vessels/:mmsi
-   * Get vessel details by MMSI
-   * If vessel not found in database, subscribes to AISStream for that vessel
+   * POST /api/vessels/query
+   * List vessels inside a GeoJSON area or near a GeoJSON track
+   * Body (JSON):
+   * - area: GeoJSON Polygon or MultiPolygon (or a Feature holding one), e.g. a port area or EEZ
+   * - track: GeoJSON LineString (or a Feature holding one)
+   * - distanceNm: Maximum distance from track in nautical miles (required with track)
+   * Accepts the GET /api/vessels query parameters as further filters
    */
-  router.get('/vessels/:mmsi', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    try {
-      const { mmsi } = req.params;
+  router.post(
+    '/vessels/query',
+    (req: Request, res: Response<unknown, SpatialQueryLocals>, next: NextFunction): void => {
+      const { area, track, distanceNm } = req.body || {};
+      const spatialCriteria: SpatialQueryLocals['spatialCriteria'] = {};
 
-      // Validate MMSI format (9 digits)
-      if (!/^\d{9}$/.test(mmsi)) {
-        res.status(400).json({
-          error: {
-            code: 'INVALID_MMSI',
-            message: 'MMSI must be a 9-digit number',
-            timestamp: new Date().toISOString(),
-          },
-        });
+      if (area === undefined && track === undefined) {
+        sendInvalidParameter(res, 'Request body requires area or track');
         return;
       }
 
-      // Get vessel with latest position from database
-      const vesselWithPosition = await vesselRepo.getVesselWithPositionByMMSI(mmsi);
+      if (area !== undefined) {
+        const polygon = parseGeoJsonArea(area);
+        if (!polygon) {
+          sendInvalidParameter(
+            res,
+            'area must be a GeoJSON Polygon or MultiPolygon with closed rings of [lon, lat] positions'
+          );
+          return;
+        }
+        spatialCriteria.area = polygon;
+      }
 
-      if (!vesselWithPosition) {
-        // Vessel not in database - indicate it's not available
-        // AISStream is a passive streaming service, so we can't request specific vessels on-demand
-        // The vessel will be added to the database when AISStream broadcasts its data
-        res.status(404).json({
-          error: {
-            code: 'VESSEL_NOT_FOUND',
-            message: `Vessel with MMSI ${mmsi} not found in database. The vessel may not be currently transmitting or is outside the monitored area.`,
-            timestamp: new Date().toISOString(),
-          },
-          tracking: aisStreamManager?.isConnectionActive() || false,
-        });
-        return;
+      if (track !== undefined) {
+        const line = parseGeoJsonLineString(track);
+        if (!line) {
+          sendInvalidParameter(
+            res,
+            'track must be a GeoJSON LineString with at least two [lon, lat] positions'
+          );
+          return;
+        }
+        const distance = Number(distanceNm);
+        if (distanceNm === undefined || isNaN(distance) || distance <= 0) {
+          sendInvalidParameter(res, 'distanceNm must be a positive number of nautical miles');
+          return;
+        }
+        spatialCriteria.nearTrack = { line, distanceNm: distance };
       }
 
-      // Try to get latest position from cache (may be more recent than database)
-      let position = vesselWithPosition.position || null;
-      if (cache.isReady()) {
-        const cachedPosition = await cache.getVesselPosition(mmsi);
-        if (cachedPosition) {
-          // Use cached position if it's more recent
-          if (!position || (cachedPosition.timestamp && new Date(cachedPosition.timestamp) > new Date(position.timestamp))) {
-            position = cachedPosition;
+      res.locals.spatialCriteria = spatialCriteria;
+      next();
+    },
+    listVessels
+  );
+
+  /**
+   * GET /api/vessels/:mmsi
+   * Get vessel details by MMSI
+   * If vessel not found in database, subscribes to AISStream for that vessel
+   */
+  router.get(
+    '/vessels/:mmsi',
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const { mmsi } = req.params;
+
+        // Validate MMSI format (9 digits)
+        if (!/^\d{9}$/.test(mmsi)) {
+          res.status(400).json({
+            error: {
+              code: 'INVALID_MMSI',
+              message: 'MMSI must be a 9-digit number',
+              timestamp: new Date().toISOString(),
+            },
+          });
+          return;
+        }
+
+        // Get vessel with latest position from database
+        const vesselWithPosition = await vesselRepo.getVesselWithPositionByMMSI(mmsi);
+
+        if (!vesselWithPosition) {
+          // Vessel not in database - indicate it's not available
+          // AISStream is a passive streaming service, so we can't request specific vessels on-demand
+          // The vessel will be added to the database when AISStream broadcasts its data
+          res.status(404).json({
+            error: {
+              code: 'VESSEL_NOT_FOUND',
+              message: `Vessel with MMSI ${mmsi} not found in database. The vessel may not be currently transmitting or is outside the monitored area.`,
+              timestamp: new Date().toISOString(),
+            },
+            tracking: aisSources.some((source) => source.isConnectionActive()),
+          });
+          return;
+        }
+
+        // Try to get latest position from cache (may be more recent than database)
+        let position = vesselWithPosition.position || null;
+        if (cache.isReady()) {
+          const cachedPosition = await cache.getVesselPosition(mmsi);
+          if (cachedPosition) {
+            // Use cached position if it's more recent
+            if (
+              !position ||
+              (cachedPosition.timestamp &&
+                new Date(cachedPosition.timestamp) > new Date(position.timestamp))
+            ) {
+              position = cachedPosition;
+            }
           }
         }
-      }
 
-      // Extract vessel data without position for response
-      const { position: _, ...vessel } = vesselWithPosition;
+        // Extract vessel data without position for response
+        const { position: _, ...vessel } = vesselWithPosition;
 
-      res.json({
-        vessel,
-        position,
-        timestamp: new Date().toISOString(),
-      });
-    } catch (error) {
-      next(error);
+        res.json({
+          vessel,
+          position,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
     }
-  });
+  );
 
   /**
    * GET /api/vessels/imo/:imo
@@ -362,157 +629,1238 @@ export function createApiRoutes(
    * Query parameters:
    * - startTime: ISO 8601 timestamp (default: 24 hours ago)
    * - endTime: ISO 8601 timestamp (default: now)
+   * - resolution: raw, downsampled or auto (default: auto; downsampled for long or old ranges)
+   * - tolerance: Douglas–Peucker tolerance in nautical miles (optional)
+   * - maxPoints: Keep at most this many fixes, dropping the least significant (optional)
+   * - limit: Fixes per page; the response then carries nextCursor (optional)
+   * - cursor: nextCursor of the previous page (optional)
+   * - format: json or ndjson, streaming one fix per line (default: json)
    */
-  router.get('/vessels/:mmsi/track', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    try {
-      const { mmsi } = req.params;
-      const { startTime, endTime } = req.query;
-
-      // Validate MMSI format
-      if (!/^\d{9}$/.test(mmsi)) {
-        res.status(400).json({
-          error: {
-            code: 'INVALID_MMSI',
-            message: 'MMSI must be a 9-digit number',
-            timestamp: new Date().toISOString(),
-          },
-        });
-        return;
-      }
-
-      // Parse time range
-      let start: Date;
-      let end: Date;
+  router.get(
+    '/vessels/:mmsi/track',
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const { mmsi } = req.params;
+        const { startTime, endTime } = req.query;
+        const requestedResolution = String(req.query.resolution || 'auto');
 
-      if (startTime) {
-        start = new Date(String(startTime));
-        if (isNaN(start.getTime())) {
+        // Validate MMSI format
+        if (!/^\d{9}$/.test(mmsi)) {
           res.status(400).json({
             error: {
-              code: 'INVALID_PARAMETER',
-              message: 'Invalid startTime format. Use ISO 8601 format.',
+              code: 'INVALID_MMSI',
+              message: 'MMSI must be a 9-digit number',
               timestamp: new Date().toISOString(),
             },
           });
           return;
         }
-      } else {
-        // Default: 24 hours ago
-        start = new Date(Date.now() - 24 * 60 * 60 * 1000);
-      }
 
-      if (endTime) {
-        end = new Date(String(endTime));
-        if (isNaN(end.getTime())) {
+        // Parse time range
+        let start: Date;
+        let end: Date;
+
+        if (startTime) {
+          start = new Date(String(startTime));
+          if (isNaN(start.getTime())) {
+            res.status(400).json({
+              error: {
+                code: 'INVALID_PARAMETER',
+                message: 'Invalid startTime format. Use ISO 8601 format.',
+                timestamp: new Date().toISOString(),
+              },
+            });
+            return;
+          }
+        } else {
+          // Default: 24 hours ago
+          start = new Date(Date.now() - 24 * 60 * 60 * 1000);
+        }
+
+        if (endTime) {
+          end = new Date(String(endTime));
+          if (isNaN(end.getTime())) {
+            res.status(400).json({
+              error: {
+                code: 'INVALID_PARAMETER',
+                message: 'Invalid endTime format. Use ISO 8601 format.',
+                timestamp: new Date().toISOString(),
+              },
+            });
+            return;
+          }
+        } else {
+          // Default: now
+          end = new Date();
+        }
+
+        // Validate time range
+        if (start >= end) {
           res.status(400).json({
             error: {
               code: 'INVALID_PARAMETER',
-              message: 'Invalid endTime format. Use ISO 8601 format.',
+              message: 'startTime must be before endTime',
               timestamp: new Date().toISOString(),
             },
           });
           return;
         }
-      } else {
-        // Default: now
-        end = new Date();
-      }
 
-      // Validate time range
-      if (start >= end) {
-        res.status(400).json({
-          error: {
-            code: 'INVALID_PARAMETER',
-            message: 'startTime must be before endTime',
-            timestamp: new Date().toISOString(),
-          },
+        if (!['raw', 'downsampled', 'auto'].includes(requestedResolution)) {
+          sendInvalidParameter(res, 'resolution must be one of: raw, downsampled, auto');
+          return;
+        }
+        const resolution =
+          requestedResolution === 'auto'
+            ? vesselRepo.resolveHistoryResolution(start, end)
+            : (requestedResolution as HistoryResolution);
+
+        const options = parseTrackOptions(req);
+        if (typeof options === 'string') {
+          sendInvalidParameter(res, options);
+          return;
+        }
+
+        if (options.format === 'ndjson') {
+          await streamTrack(res, mmsi, start, end, resolution, options);
+          return;
+        }
+
+        // One extra fix tells whether there is another page
+        const fixes = await vesselRepo.getVesselHistory(mmsi, start, end, resolution, {
+          after: options.cursor,
+          limit: options.limit !== undefined ? options.limit + 1 : undefined,
         });
-        return;
-      }
+        const hasMore = options.limit !== undefined && fixes.length > options.limit;
+        const page = hasMore ? fixes.slice(0, options.limit) : fixes;
+
+        if (page.length === 0) {
+          res.status(404).json({
+            error: {
+              code: 'NO_DATA',
+              message: 'No position data available for the specified time range',
+              timestamp: new Date().toISOString(),
+            },
+          });
+          return;
+        }
 
-      const track = await vesselRepo.getVesselHistory(mmsi, start, end);
+        const simplified = options.toleranceNm !== undefined || options.maxPoints !== undefined;
+        const track = simplified ? simplifyTrack(page, options) : page;
 
-      if (track.length === 0) {
-        res.status(404).json({
-          error: {
-            code: 'NO_DATA',
-            message: 'No position data available for the specified time range',
-            timestamp: new Date().toISOString(),
-          },
+        res.json({
+          mmsi,
+          startTime: start.toISOString(),
+          endTime: end.toISOString(),
+          resolution,
+          track,
+          count: track.length,
+          ...(simplified && { originalCount: page.length }),
+          ...(options.limit !== undefined && {
+            nextCursor: hasMore ? formatTrackCursor(nextTrackCursor(page, options.cursor)) : null,
+          }),
+          timestamp: new Date().toISOString(),
         });
-        return;
+      } catch (error) {
+        next(error);
       }
-
-      res.json({
-        mmsi,
-        startTime: start.toISOString(),
-        endTime: end.toISOString(),
-        track,
-        count: track.length,
-        timestamp: new Date().toISOString(),
-      });
-    } catch (error) {
-      next(error);
     }
-  });
+  );
 
   /**
-   * GET /api/search
-   * Search vessels by name or MMSI
-   * Query parameters:
-   * - q: Search query (required)
-   * - limit: Maximum number of results (default: 100)
+   * Parse the simplification, paging and format parameters of the track endpoint
+   * Returns an error message instead of options when a parameter is invalid
    */
-  router.get('/search', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    try {
-      const { q, limit } = req.query;
+  function parseTrackOptions(req: Request): TrackOptions | string {
+    const { tolerance, maxPoints, limit, cursor } = req.query;
+    const acceptsNdjson =
+      req.accepts(['application/json', 'application/x-ndjson']) === 'application/x-ndjson';
+    const format = req.query.format ? String(req.query.format) : acceptsNdjson ? 'ndjson' : 'json';
+    if (format !== 'json' && format !== 'ndjson') {
+      return 'format must be one of: json, ndjson';
+    }
+    const options: TrackOptions = { format };
 
-      if (!q || String(q).trim().length === 0) {
-        const code = !q ? 'MISSING_PARAMETER' : 'INVALID_PARAMETER';
-        const message = !q 
-          ? 'Search query parameter "q" is required'
-          : 'Search query cannot be empty';
-        
-        res.status(400).json({
-          error: {
-            code,
-            message,
-            timestamp: new Date().toISOString(),
-          },
-        });
-        return;
+    if (tolerance !== undefined) {
+      const toleranceNm = parseFloat(String(tolerance));
+      if (isNaN(toleranceNm) || toleranceNm < 0 || toleranceNm > 100) {
+        return 'tolerance must be between 0 and 100 nautical miles';
       }
+      options.toleranceNm = toleranceNm;
+    }
 
-      const searchTerm = String(q).trim();
+    if (maxPoints !== undefined) {
+      const maxPointsNum = parseInt(String(maxPoints), 10);
+      if (isNaN(maxPointsNum) || maxPointsNum < 2 || maxPointsNum > 100000) {
+        return 'maxPoints must be between 2 and 100000';
+      }
+      options.maxPoints = maxPointsNum;
+    }
 
-      let searchLimit = 100;
-      if (limit) {
-        const limitNum = parseInt(String(limit), 10);
-        if (isNaN(limitNum) || limitNum < 1 || limitNum > 1000) {
-          res.status(400).json({
-            error: {
-              code: 'INVALID_PARAMETER',
-              message: 'Limit must be between 1 and 1000',
-              timestamp: new Date().toISOString(),
-            },
-          });
-          return;
-        }
-        searchLimit = limitNum;
+    if (limit !== undefined) {
+      const limitNum = parseInt(String(limit), 10);
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 50000) {
+        return 'Limit must be between 1 and 50000';
       }
+      options.limit = limitNum;
+    }
 
-      const results = await vesselRepo.searchVessels(searchTerm, searchLimit);
+    if (cursor !== undefined) {
+      const parsed = parseTrackCursor(String(cursor));
+      if (!parsed) {
+        return 'Invalid cursor. Pass nextCursor from the previous page.';
+      }
+      options.cursor = parsed;
+    }
 
-      res.json({
-        query: searchTerm,
-        results,
-        count: results.length,
-        timestamp: new Date().toISOString(),
-      });
-    } catch (error) {
-      next(error);
+    if (format === 'ndjson' && (options.maxPoints !== undefined || options.limit !== undefined)) {
+      return 'maxPoints and limit cannot be used with format=ndjson';
     }
-  });
+
+    return options;
+  }
+
+  /**
+   * Stream a track as NDJSON, one fix per line, reading it in chunks so long
+   * histories need neither one large query nor one large response body.
+   * With a tolerance each chunk is simplified on its own, keeping the fixes at
+   * chunk boundaries. A read that fails after the first chunk aborts the response,
+   * so clients see a truncated stream rather than a JSON error mixed into it.
+   */
+  async function streamTrack(
+    res: Response,
+    mmsi: string,
+    start: Date,
+    end: Date,
+    resolution: HistoryResolution,
+    options: TrackOptions
+  ): Promise<void> {
+    const readChunk = (after?: TrackCursor) =>
+      vesselRepo.getVesselHistory(mmsi, start, end, resolution, {
+        after,
+        limit: TRACK_STREAM_CHUNK_SIZE,
+      });
+
+    let cursor = options.cursor;
+    let chunk = await readChunk(cursor);
+    if (chunk.length === 0) {
+      res.status(404).json({
+        error: {
+          code: 'NO_DATA',
+          message: 'No position data available for the specified time range',
+          timestamp: new Date().toISOString(),
+        },
+      });
+      return;
+    }
+
+    res.status(200).type('application/x-ndjson');
+    res.setHeader('X-Track-Resolution', resolution);
+
+    // Once fixes are sent the response cannot turn into an error; abort it instead
+    try {
+      while (chunk.length > 0 && !res.destroyed) {
+        const fixes =
+          options.toleranceNm !== undefined
+            ? simplifyTrack(chunk, { toleranceNm: options.toleranceNm })
+            : chunk;
+        const lines = fixes.map((fix) => JSON.stringify(fix)).join('\n') + '\n';
+
+        if (!res.write(lines)) {
+          // Wait for the client to catch up, or to go away
+          await new Promise<void>((resolve) => {
+            const done = () => {
+              res.off('drain', done);
+              res.off('close', done);
+              resolve();
+            };
+            res.on('drain', done);
+            res.on('close', done);
+          });
+        }
+
+        if (chunk.length < TRACK_STREAM_CHUNK_SIZE) {
+          break;
+        }
+        cursor = nextTrackCursor(chunk, cursor);
+        chunk = await readChunk(cursor);
+      }
+    } catch (error) {
+      res.destroy(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    res.end();
+  }
+
+  /**
+   * GET /api/vessels/:mmsi/history/static
+   * Get changes to a vessel's static data (name, call sign, destination, draught, ...), most recent first
+   * Query parameters:
+   * - startTime: ISO 8601 timestamp (optional)
+   * - endTime: ISO 8601 timestamp (optional)
+   * - limit: Maximum number of changes (default: 500)
+   */
+  router.get(
+    '/vessels/:mmsi/history/static',
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const { mmsi } = req.params;
+        const { startTime, endTime, limit } = req.query;
+
+        if (!/^\d{9}$/.test(mmsi)) {
+          sendInvalidMMSI(res);
+          return;
+        }
+
+        const start = startTime ? new Date(String(startTime)) : undefined;
+        const end = endTime ? new Date(String(endTime)) : undefined;
+        if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+          sendInvalidParameter(res, 'Invalid startTime or endTime format. Use ISO 8601 format.');
+          return;
+        }
+        if (start && end && start >= end) {
+          sendInvalidParameter(res, 'startTime must be before endTime');
+          return;
+        }
+
+        let limitNum = 500;
+        if (limit) {
+          limitNum = parseInt(String(limit), 10);
+          if (isNaN(limitNum) || limitNum < 1 || limitNum > 10000) {
+            sendInvalidParameter(res, 'Limit must be between 1 and 10000');
+            return;
+          }
+        }
+
+        const vessel = await vesselRepo.getVesselByMMSI(mmsi);
+        if (!vessel) {
+          res.status(404).json({
+            error: {
+              code: 'VESSEL_NOT_FOUND',
+              message: `Vessel with MMSI ${mmsi} not found`,
+              timestamp: new Date().toISOString(),
+            },
+          });
+          return;
+        }
+
+        const changes = await vesselRepo.getStaticHistory(mmsi, start, end, limitNum);
+
+        res.json({
+          mmsi,
+          changes,
+          count: changes.length,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/vessels/:mmsi/port-calls
+   * Get a vessel's port calls, most recent arrival first
+   * Query parameters:
+   * - startTime: ISO 8601 timestamp, calls still in port at or after this time (optional)
+   * - endTime: ISO 8601 timestamp, calls that arrived before this time (optional)
+   * - limit: Maximum number of results (default: 100)
+   * - offset: Pagination offset (default: 0)
+   */
+  router.get(
+    '/vessels/:mmsi/port-calls',
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        if (!portRepo) {
+          sendDatabaseNotAvailable(res);
+          return;
+        }
+
+        const { mmsi } = req.params;
+        if (!/^\d{9}$/.test(mmsi)) {
+          sendInvalidMMSI(res);
+          return;
+        }
+
+        const criteria = parsePortCallQuery(req.query);
+        if (typeof criteria === 'string') {
+          sendInvalidParameter(res, criteria);
+          return;
+        }
+
+        const vessel = await vesselRepo.getVesselByMMSI(mmsi);
+        if (!vessel) {
+          res.status(404).json({
+            error: {
+              code: 'VESSEL_NOT_FOUND',
+              message: `Vessel with MMSI ${mmsi} not found`,
+              timestamp: new Date().toISOString(),
+            },
+          });
+          return;
+        }
+
+        const portCalls = await portRepo.getPortCallsByVessel(mmsi, criteria);
+
+        res.json({
+          mmsi,
+          portCalls,
+          count: portCalls.length,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/vessels/:mmsi/voyages
+   * Split a vessel's track into voyages between port calls and long stationary periods,
+   * most recent departure first
+   * Query parameters:
+   * - startTime: ISO 8601 timestamp (default: 30 days ago)
+   * - endTime: ISO 8601 timestamp (default: now)
+   */
+  router.get(
+    '/vessels/:mmsi/voyages',
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const { mmsi } = req.params;
+        if (!/^\d{9}$/.test(mmsi)) {
+          sendInvalidMMSI(res);
+          return;
+        }
+
+        const end = req.query.endTime ? new Date(String(req.query.endTime)) : new Date();
+        if (isNaN(end.getTime())) {
+          sendInvalidParameter(res, 'Invalid endTime format. Use ISO 8601 format.');
+          return;
+        }
+        const start = req.query.startTime
+          ? new Date(String(req.query.startTime))
+          : new Date(end.getTime() - VOYAGE_DEFAULT_RANGE_MS);
+        if (isNaN(start.getTime())) {
+          sendInvalidParameter(res, 'Invalid startTime format. Use ISO 8601 format.');
+          return;
+        }
+        if (start >= end) {
+          sendInvalidParameter(res, 'startTime must be before endTime');
+          return;
+        }
+        if (end.getTime() - start.getTime() > VOYAGE_MAX_RANGE_MS) {
+          sendInvalidParameter(res, 'Time range must not exceed 366 days');
+          return;
+        }
+
+        const vessel = await vesselRepo.getVesselByMMSI(mmsi);
+        if (!vessel) {
+          res.status(404).json({
+            error: {
+              code: 'VESSEL_NOT_FOUND',
+              message: `Vessel with MMSI ${mmsi} not found`,
+              timestamp: new Date().toISOString(),
+            },
+          });
+          return;
+        }
+
+        const [track, portCalls] = await Promise.all([
+          vesselRepo.getVesselHistory(mmsi, start, end),
+          portRepo
+            ? portRepo.getPortCallsByVessel(mmsi, { startTime: start, endTime: end, limit: 10000 })
+            : [],
+        ]);
+        const voyages = voyageSegmenter.segment(mmsi, track, portCalls);
+
+        res.json({
+          mmsi,
+          startTime: start.toISOString(),
+          endTime: end.toISOString(),
+          voyages,
+          count: voyages.length,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/vessels/:mmsi/position-at
+   * Estimate where a vessel was at a given time from the position reports around it
+   * Query parameters:
+   * - time: Time to estimate the position at (ISO 8601, required)
+   * - deadReckoning: Use the reported course and speed over ground (true/false, default false)
+   * - maxGapMinutes: Longest gap between fixes to interpolate across (1-1440, default 120)
+   */
+  router.get(
+    '/vessels/:mmsi/position-at',
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const { mmsi } = req.params;
+        if (!/^\d{9}$/.test(mmsi)) {
+          sendInvalidMMSI(res);
+          return;
+        }
+
+        if (!req.query.time) {
+          sendInvalidParameter(res, 'time is required');
+          return;
+        }
+        const time = new Date(String(req.query.time));
+        if (isNaN(time.getTime())) {
+          sendInvalidParameter(res, 'Invalid time format. Use ISO 8601 format.');
+          return;
+        }
+
+        const deadReckoning = req.query.deadReckoning ? String(req.query.deadReckoning) : 'false';
+        if (deadReckoning !== 'true' && deadReckoning !== 'false') {
+          sendInvalidParameter(res, 'deadReckoning must be true or false');
+          return;
+        }
+
+        let maxGapMs = positionEstimator.getMaxGapMs();
+        if (req.query.maxGapMinutes !== undefined) {
+          const minutes = Number(req.query.maxGapMinutes);
+          if (isNaN(minutes) || minutes < 1 || minutes > 1440) {
+            sendInvalidParameter(res, 'maxGapMinutes must be between 1 and 1440');
+            return;
+          }
+          maxGapMs = minutes * 60 * 1000;
+        }
+
+        const { before, after } = await vesselRepo.getSurroundingPositions(mmsi, time, maxGapMs);
+        const result = positionEstimator.estimate(time, before, after, {
+          deadReckoning: deadReckoning === 'true',
+          maxGapMs,
+        });
+
+        if (!result.estimated) {
+          res.status(404).json({
+            error: {
+              code: result.reason === 'no_data' ? 'NO_DATA' : 'GAP_TOO_LARGE',
+              message: result.message,
+              timestamp: new Date().toISOString(),
+            },
+          });
+          return;
+        }
+
+        const { estimate } = result;
+        res.json({
+          mmsi,
+          time: time.toISOString(),
+          position: { latitude: estimate.latitude, longitude: estimate.longitude },
+          method: estimate.method,
+          uncertaintyNm: estimate.uncertaintyNm,
+          nearestFixAgeSeconds: estimate.nearestFixAgeSeconds,
+          before: estimate.before,
+          after: estimate.after,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * Parse time range and pagination parameters shared by the port call endpoints
+   * Returns an error message instead of criteria when a parameter is invalid
+   */
+  function parsePortCallQuery(query: Request['query']): PortCallQuery | string {
+    const { startTime, endTime, limit, offset } = query;
+    const criteria: PortCallQuery = {};
+
+    if (startTime) {
+      criteria.startTime = new Date(String(startTime));
+      if (isNaN(criteria.startTime.getTime())) {
+        return 'Invalid startTime format. Use ISO 8601 format.';
+      }
+    }
+
+    if (endTime) {
+      criteria.endTime = new Date(String(endTime));
+      if (isNaN(criteria.endTime.getTime())) {
+        return 'Invalid endTime format. Use ISO 8601 format.';
+      }
+    }
+
+    if (criteria.startTime && criteria.endTime && criteria.startTime >= criteria.endTime) {
+      return 'startTime must be before endTime';
+    }
+
+    if (limit) {
+      const limitNum = parseInt(String(limit), 10);
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 10000) {
+        return 'Limit must be between 1 and 10000';
+      }
+      criteria.limit = limitNum;
+    }
+
+    if (offset) {
+      const offsetNum = parseInt(String(offset), 10);
+      if (isNaN(offsetNum) || offsetNum < 0) {
+        return 'Offset must be non-negative';
+      }
+      criteria.offset = offsetNum;
+    }
+
+    return criteria;
+  }
+
+  /**
+   * Parse bounding box and pagination parameters shared by the station endpoints
+   * Returns an error message instead of criteria when a parameter is invalid
+   */
+  function parseStationQuery(query: Request['query']): StationQuery | string {
+    const { name, limit, offset } = query;
+    const criteria: StationQuery = {};
+
+    const bbox = parseBoundingBox(query);
+    if (typeof bbox === 'string') {
+      return bbox;
+    }
+    if (bbox) {
+      criteria.bbox = bbox;
+    }
+
+    if (name) {
+      criteria.name = String(name);
+    }
+
+    if (limit) {
+      const limitNum = parseInt(String(limit), 10);
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 10000) {
+        return 'Limit must be between 1 and 10000';
+      }
+      criteria.limit = limitNum;
+    }
+
+    if (offset) {
+      const offsetNum = parseInt(String(offset), 10);
+      if (isNaN(offsetNum) || offsetNum < 0) {
+        return 'Offset must be non-negative';
+      }
+      criteria.offset = offsetNum;
+    }
+
+    return criteria;
+  }
+
+  /**
+   * Parse the minLat, maxLat, minLon, maxLon bounding box parameters
+   * Returns undefined when none is given and an error message when the box is invalid
+   */
+  function parseBoundingBox(query: Request['query']): BoundingBox | string | undefined {
+    const { minLat, maxLat, minLon, maxLon } = query;
+    if (!minLat && !maxLat && !minLon && !maxLon) {
+      return undefined;
+    }
+    if (!minLat || !maxLat || !minLon || !maxLon) {
+      return 'Bounding box requires all four parameters: minLat, maxLat, minLon, maxLon';
+    }
+
+    const bbox = {
+      minLat: parseFloat(String(minLat)),
+      maxLat: parseFloat(String(maxLat)),
+      minLon: parseFloat(String(minLon)),
+      maxLon: parseFloat(String(maxLon)),
+    };
+
+    if (
+      isNaN(bbox.minLat) ||
+      isNaN(bbox.maxLat) ||
+      isNaN(bbox.minLon) ||
+      isNaN(bbox.maxLon) ||
+      bbox.minLat < -90 ||
+      bbox.maxLat > 90 ||
+      bbox.minLon < -180 ||
+      bbox.minLon > 180 ||
+      bbox.maxLon < -180 ||
+      bbox.maxLon > 180 ||
+      bbox.minLat >= bbox.maxLat ||
+      // minLon > maxLon is a box crossing the antimeridian
+      bbox.minLon === bbox.maxLon
+    ) {
+      return 'Invalid bounding box coordinates';
+    }
+
+    return bbox;
+  }
+
+  /**
+   * Parse the time, lookback, area and limit of a snapshot request
+   * Returns an error message instead of criteria when a parameter is invalid
+   */
+  function parseSnapshotQuery(query: Request['query']): SnapshotQuery | string {
+    const { time, lookbackMinutes, limit } = query;
+
+    if (!time) {
+      return 'time is required';
+    }
+    const snapshotTime = new Date(String(time));
+    if (isNaN(snapshotTime.getTime())) {
+      return 'Invalid time format. Use ISO 8601 format.';
+    }
+
+    const bbox = parseBoundingBox(query);
+    if (typeof bbox === 'string') {
+      return bbox;
+    }
+    if (!bbox) {
+      return 'Bounding box is required: minLat, maxLat, minLon, maxLon';
+    }
+
+    const criteria: SnapshotQuery = {
+      time: snapshotTime,
+      lookbackMs: SNAPSHOT_DEFAULT_LOOKBACK_MS,
+      bbox,
+    };
+
+    if (lookbackMinutes !== undefined) {
+      const minutes = Number(lookbackMinutes);
+      if (isNaN(minutes) || minutes < 1 || minutes > 1440) {
+        return 'lookbackMinutes must be between 1 and 1440';
+      }
+      criteria.lookbackMs = minutes * 60 * 1000;
+    }
+
+    if (limit) {
+      const limitNum = parseInt(String(limit), 10);
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 10000) {
+        return 'Limit must be between 1 and 10000';
+      }
+      criteria.limit = limitNum;
+    }
+
+    return criteria;
+  }
+
+  function sendInvalidParameter(res: Response, message: string): void {
+    res.status(400).json({
+      error: {
+        code: 'INVALID_PARAMETER',
+        message,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  function sendInvalidMMSI(res: Response): void {
+    res.status(400).json({
+      error: {
+        code: 'INVALID_MMSI',
+        message: 'MMSI must be a 9-digit number',
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  function sendDatabaseNotAvailable(res: Response): void {
+    res.status(503).json({
+      error: {
+        code: 'DATABASE_NOT_AVAILABLE',
+        message: 'Not available with in-memory storage (STORAGE=memory)',
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  /**
+   * GET /api/base-stations
+   * List AIS base stations
+   * Query parameters:
+   * - minLat, maxLat, minLon, maxLon: Bounding box filter (minLon > maxLon crosses the antimeridian)
+   * - limit: Maximum number of results (default: 1000)
+   * - offset: Pagination offset (default: 0)
+   */
+  router.get(
+    '/base-stations',
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        if (!stationRepo) {
+          sendDatabaseNotAvailable(res);
+          return;
+        }
+
+        const criteria = parseStationQuery(req.query);
+        if (typeof criteria === 'string') {
+          sendInvalidParameter(res, criteria);
+          return;
+        }
+
+        const baseStations = await stationRepo.queryBaseStations(criteria);
+
+        res.json({
+          baseStations,
+          count: baseStations.length,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/base-stations/:mmsi
+   * Get a base station by MMSI
+   */
+  router.get(
+    '/base-stations/:mmsi',
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        if (!stationRepo) {
+          sendDatabaseNotAvailable(res);
+          return;
+        }
+
+        const { mmsi } = req.params;
+        if (!/^\d{9}$/.test(mmsi)) {
+          sendInvalidMMSI(res);
+          return;
+        }
+
+        const baseStation = await stationRepo.getBaseStationByMMSI(mmsi);
+        if (!baseStation) {
+          res.status(404).json({
+            error: {
+              code: 'STATION_NOT_FOUND',
+              message: `Base station with MMSI ${mmsi} not found`,
+              timestamp: new Date().toISOString(),
+            },
+          });
+          return;
+        }
+
+        res.json({
+          baseStation,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/aids-to-navigation
+   * List aids to navigation (buoys, beacons, virtual marks)
+   * Query parameters:
+   * - name: Filter by name (partial match)
+   * - minLat, maxLat, minLon, maxLon: Bounding box filter (minLon > maxLon crosses the antimeridian)
+   * - limit: Maximum number of results (default: 1000)
+   * - offset: Pagination offset (default: 0)
+   */
+  router.get(
+    '/aids-to-navigation',
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        if (!stationRepo) {
+          sendDatabaseNotAvailable(res);
+          return;
+        }
+
+        const criteria = parseStationQuery(req.query);
+        if (typeof criteria === 'string') {
+          sendInvalidParameter(res, criteria);
+          return;
+        }
+
+        const aidsToNavigation = await stationRepo.queryAidsToNavigation(criteria);
+
+        res.json({
+          aidsToNavigation,
+          count: aidsToNavigation.length,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/aids-to-navigation/:mmsi
+   * Get an aid to navigation by MMSI
+   */
+  router.get(
+    '/aids-to-navigation/:mmsi',
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        if (!stationRepo) {
+          sendDatabaseNotAvailable(res);
+          return;
+        }
+
+        const { mmsi } = req.params;
+        if (!/^\d{9}$/.test(mmsi)) {
+          sendInvalidMMSI(res);
+          return;
+        }
+
+        const aidToNavigation = await stationRepo.getAidToNavigationByMMSI(mmsi);
+        if (!aidToNavigation) {
+          res.status(404).json({
+            error: {
+              code: 'STATION_NOT_FOUND',
+              message: `Aid to navigation with MMSI ${mmsi} not found`,
+              timestamp: new Date().toISOString(),
+            },
+          });
+          return;
+        }
+
+        res.json({
+          aidToNavigation,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/ports
+   * List the ports watched for port calls
+   */
+  router.get('/ports', async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!portRepo) {
+        sendDatabaseNotAvailable(res);
+        return;
+      }
+
+      const ports = await portRepo.getPorts();
+
+      res.json({
+        ports,
+        count: ports.length,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/ports/:locode/calls
+   * Get the calls at a port by UN/LOCODE (e.g. NLRTM), most recent arrival first
+   * Query parameters:
+   * - startTime: ISO 8601 timestamp, calls still in port at or after this time (optional)
+   * - endTime: ISO 8601 timestamp, calls that arrived before this time (optional)
+   * - limit: Maximum number of results (default: 100)
+   * - offset: Pagination offset (default: 0)
+   */
+  router.get(
+    '/ports/:locode/calls',
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        if (!portRepo) {
+          sendDatabaseNotAvailable(res);
+          return;
+        }
+
+        const locode = req.params.locode.toUpperCase();
+        if (!/^[A-Z]{2}[A-Z2-9]{3}$/.test(locode)) {
+          sendInvalidParameter(res, 'LOCODE must be a 5-character UN/LOCODE, e.g. NLRTM');
+          return;
+        }
+
+        const criteria = parsePortCallQuery(req.query);
+        if (typeof criteria === 'string') {
+          sendInvalidParameter(res, criteria);
+          return;
+        }
+
+        const port = await portRepo.getPortByLocode(locode);
+        if (!port) {
+          res.status(404).json({
+            error: {
+              code: 'PORT_NOT_FOUND',
+              message: `Port with LOCODE ${locode} not found`,
+              timestamp: new Date().toISOString(),
+            },
+          });
+          return;
+        }
+
+        const portCalls = await portRepo.getPortCallsByPort(locode, criteria);
+
+        res.json({
+          port,
+          portCalls,
+          count: portCalls.length,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/rejected-positions
+   * List position reports quarantined by the plausibility filter, most recent first
+   * Query parameters:
+   * - mmsi: Filter by MMSI
+   * - reason: Filter by rejection reason (speed_limit or sog_mismatch)
+   * - limit: Maximum number of results (default: 100)
+   * - offset: Pagination offset (default: 0)
+   */
+  router.get(
+    '/rejected-positions',
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        if (!rejectedPositionRepo) {
+          sendDatabaseNotAvailable(res);
+          return;
+        }
+
+        const { mmsi, reason, limit, offset } = req.query;
+        const criteria: RejectedPositionQuery = {};
+
+        if (mmsi) {
+          if (!/^\d{9}$/.test(String(mmsi))) {
+            sendInvalidMMSI(res);
+            return;
+          }
+          criteria.mmsi = String(mmsi);
+        }
+
+        if (reason) {
+          if (reason !== 'speed_limit' && reason !== 'sog_mismatch') {
+            sendInvalidParameter(res, 'Reason must be speed_limit or sog_mismatch');
+            return;
+          }
+          criteria.reason = reason;
+        }
+
+        if (limit) {
+          const limitNum = parseInt(String(limit), 10);
+          if (isNaN(limitNum) || limitNum < 1 || limitNum > 10000) {
+            sendInvalidParameter(res, 'Limit must be between 1 and 10000');
+            return;
+          }
+          criteria.limit = limitNum;
+        }
+
+        if (offset) {
+          const offsetNum = parseInt(String(offset), 10);
+          if (isNaN(offsetNum) || offsetNum < 0) {
+            sendInvalidParameter(res, 'Offset must be non-negative');
+            return;
+          }
+          criteria.offset = offsetNum;
+        }
+
+        const rejectedPositions = await rejectedPositionRepo.queryRejectedPositions(criteria);
+
+        res.json({
+          rejectedPositions,
+          count: rejectedPositions.length,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/admin/dead-letters
+   * Browse messages that failed parsing, decoding or validation, most recent first,
+   * with counts per reason over the same filters
+   * Query parameters:
+   * - reason: Filter by normalized reason (as listed in the reasons counts)
+   * - stage: Filter by stage (parse, decode or validation)
+   * - mmsi: Filter by MMSI
+   * - source: Filter by AIS source name
+   * - startTime, endTime: ISO 8601 time range (optional)
+   * - limit: Maximum number of results (default: 100)
+   * - offset: Pagination offset (default: 0)
+   */
+  router.get(
+    '/admin/dead-letters',
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        if (!deadLetterRepo) {
+          sendDatabaseNotAvailable(res);
+          return;
+        }
+
+        const { reason, stage, mmsi, source, startTime, endTime, limit, offset } = req.query;
+        const criteria: DeadLetterQuery = {};
+
+        if (reason) {
+          criteria.reason = String(reason);
+        }
+
+        if (stage) {
+          if (!DEAD_LETTER_STAGES.includes(stage as DeadLetterStage)) {
+            sendInvalidParameter(res, `Stage must be one of: ${DEAD_LETTER_STAGES.join(', ')}`);
+            return;
+          }
+          criteria.stage = stage as DeadLetterStage;
+        }
+
+        if (mmsi) {
+          if (!/^\d{9}$/.test(String(mmsi))) {
+            sendInvalidMMSI(res);
+            return;
+          }
+          criteria.mmsi = String(mmsi);
+        }
+
+        if (source) {
+          criteria.source = String(source);
+        }
+
+        const start = startTime ? new Date(String(startTime)) : undefined;
+        const end = endTime ? new Date(String(endTime)) : undefined;
+        if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+          sendInvalidParameter(res, 'Invalid startTime or endTime format. Use ISO 8601 format.');
+          return;
+        }
+        if (start && end && start >= end) {
+          sendInvalidParameter(res, 'startTime must be before endTime');
+          return;
+        }
+        criteria.startTime = start;
+        criteria.endTime = end;
+
+        const page: DeadLetterQuery = {};
+        if (limit) {
+          const limitNum = parseInt(String(limit), 10);
+          if (isNaN(limitNum) || limitNum < 1 || limitNum > 10000) {
+            sendInvalidParameter(res, 'Limit must be between 1 and 10000');
+            return;
+          }
+          page.limit = limitNum;
+        }
+
+        if (offset) {
+          const offsetNum = parseInt(String(offset), 10);
+          if (isNaN(offsetNum) || offsetNum < 0) {
+            sendInvalidParameter(res, 'Offset must be non-negative');
+            return;
+          }
+          page.offset = offsetNum;
+        }
+
+        const [deadLetters, reasons] = await Promise.all([
+          deadLetterRepo.queryDeadLetters({ ...criteria, ...page }),
+          deadLetterRepo.countDeadLettersByReason(criteria),
+        ]);
+
+        res.json({
+          deadLetters,
+          count: deadLetters.length,
+          reasons,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/snapshot
+   * Last known position of every vessel in an area at a past time ("time travel")
+   * Query parameters:
+   * - time: Time of the snapshot (ISO 8601, required)
+   * - minLat, maxLat, minLon, maxLon: Area (required; minLon > maxLon crosses the antimeridian)
+   * - lookbackMinutes: Ignore fixes older than this before time (1-1440, default 60)
+   * - limit: Maximum number of vessels (default 1000, max 10000)
+   */
+  router.get(
+    '/snapshot',
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const criteria = parseSnapshotQuery(req.query);
+        if (typeof criteria === 'string') {
+          sendInvalidParameter(res, criteria);
+          return;
+        }
+
+        const vessels = await vesselRepo.getSnapshot(criteria);
+
+        res.json({
+          time: criteria.time.toISOString(),
+          lookbackMinutes: criteria.lookbackMs / 60000,
+          vessels,
+          count: vessels.length,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/search
+   * Search vessels by name or MMSI
+   * Query parameters:
+   * - q: Search query (required)
+   * - limit: Maximum number of results (default: 100)
+   */
+  router.get('/search', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { q, limit } = req.query;
+
+      if (!q || String(q).trim().length === 0) {
+        const code = !q ? 'MISSING_PARAMETER' : 'INVALID_PARAMETER';
+        const message = !q 
+          ? 'Search query parameter "q" is required'
+          : 'Search query cannot be empty';
+        
+        res.status(400).json({
+          error: {
+            code,
+            message,
+            timestamp: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      const searchTerm = String(q).trim();
+
+      let searchLimit = 100;
+      if (limit) {
+        const limitNum = parseInt(String(limit), 10);
+        if (isNaN(limitNum) || limitNum < 1 || limitNum > 1000) {
+          res.status(400).json({
+            error: {
+              code: 'INVALID_PARAMETER',
+              message: 'Limit must be between 1 and 1000',
+              timestamp: new Date().toISOString(),
+            },
+          });
+          return;
+        }
+        searchLimit = limitNum;
+      }
+
+      const results = await vesselRepo.searchVessels(searchTerm, searchLimit);
+
+      res.json({
+        query: searchTerm,
+        results,
+        count: results.length,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
 
   /**
    * GET /api/health
@@ -524,10 +1872,11 @@ export function createApiRoutes(
       const health: any = {
         status: 'healthy',
         timestamp: new Date().toISOString(),
+        storage: pool ? 'postgres' : 'memory',
         services: {
           database: 'unknown',
           redis: 'unknown',
-          aisStream: 'not_configured',
+          aisSources: {},
         },
         dataStatus: {
           totalVessels: 0,
@@ -536,15 +1885,20 @@ export function createApiRoutes(
           lastPositionUpdate: null,
           positionReportsLast24h: 0,
         },
+        spool: positionSpool ? positionSpool.getStatus() : null,
       };
 
-      // Check database connection
-      try {
-        await pool.query('SELECT 1');
+      // Check database connection; in-memory storage is always available
+      if (pool) {
+        try {
+          await pool.query('SELECT 1');
+          health.services.database = 'connected';
+        } catch (error) {
+          health.services.database = 'disconnected';
+          health.status = 'unhealthy';
+        }
+      } else {
         health.services.database = 'connected';
-      } catch (error) {
-        health.services.database = 'disconnected';
-        health.status = 'unhealthy';
       }
 
       // Check Redis connection
@@ -555,15 +1909,15 @@ export function createApiRoutes(
         health.status = 'degraded';
       }
 
-      // Check AIS stream connection status
-      if (aisStreamManager) {
-        const isConnected = aisStreamManager.isConnectionActive();
-        health.services.aisStream = isConnected ? 'connected' : 'disconnected';
-        
-        if (!isConnected && health.status === 'healthy') {
-          health.status = 'degraded';
-        }
+      // Check connection status of each AIS source by name
+      const sourceStatuses: Record<string, AisSourceStatus> = {};
+      for (const source of aisSources) {
+        sourceStatuses[source.name] = getAisSourceStatus(source);
       }
+      health.services.aisSources = sourceStatuses;
+      const anySourceDisconnected = Object.values(sourceStatuses).some(
+        (source) => source.status === 'disconnected'
+      );
 
       // Gather position data statistics (only if database is connected)
       if (health.services.database === 'connected') {
@@ -595,8 +1949,10 @@ export function createApiRoutes(
       if (health.services.database === 'disconnected') {
         health.status = 'unhealthy';
       } else if (
-        health.services.redis === 'disconnected' || 
-        health.services.aisStream === 'disconnected'
+        health.services.redis === 'disconnected' ||
+        anySourceDisconnected ||
+        // Positions are still waiting in the spool, so stored history lags behind
+        positionSpool?.hasData()
       ) {
         health.status = 'degraded';
       }
@@ -749,5 +2105,240 @@ export function createApiRoutes(
     }
   );
 
+  function sendRecorderNotAvailable(res: Response): void {
+    res.status(503).json({
+      error: {
+        code: 'RECORDER_NOT_AVAILABLE',
+        message: 'Message recorder is not configured',
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  /**
+   * GET /api/recorder
+   * Get raw message recorder status and archives
+   */
+  router.get(
+    '/recorder',
+    async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        if (!recorder) {
+          sendRecorderNotAvailable(res);
+          return;
+        }
+
+        const archives = await recorder.listArchives();
+
+        res.json({
+          ...recorder.getStatus(),
+          archives,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * POST /api/recorder/start
+   * Start recording raw messages into a new archive
+   */
+  router.post(
+    '/recorder/start',
+    async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        if (!recorder) {
+          sendRecorderNotAvailable(res);
+          return;
+        }
+
+        await recorder.start();
+
+        res.json({
+          success: true,
+          ...recorder.getStatus(),
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * POST /api/recorder/stop
+   * Stop recording and close the current archive
+   */
+  router.post(
+    '/recorder/stop',
+    async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        if (!recorder) {
+          sendRecorderNotAvailable(res);
+          return;
+        }
+
+        await recorder.stop();
+
+        res.json({
+          success: true,
+          ...recorder.getStatus(),
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/recorder/archives
+   * List recorded archives, newest first
+   */
+  router.get(
+    '/recorder/archives',
+    async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        if (!recorder) {
+          sendRecorderNotAvailable(res);
+          return;
+        }
+
+        const archives = await recorder.listArchives();
+
+        res.json({
+          archives,
+          count: archives.length,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  const replaySources = (): ReplaySource[] =>
+    aisSources.filter((source): source is ReplaySource => source instanceof ReplaySource);
+
+  /**
+   * Find a replay source by name, sending a 404 if there is none
+   */
+  function findReplaySource(req: Request, res: Response): ReplaySource | null {
+    const source = replaySources().find((replay) => replay.name === req.params.name);
+    if (!source) {
+      res.status(404).json({
+        error: {
+          code: 'REPLAY_NOT_FOUND',
+          message: `No replay source named ${req.params.name}`,
+          timestamp: new Date().toISOString(),
+        },
+      });
+      return null;
+    }
+    return source;
+  }
+
+  function sendReplayStatus(res: Response, source: ReplaySource): void {
+    res.json({
+      success: true,
+      name: source.name,
+      ...source.getReplayStatus(),
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * GET /api/replay
+   * Get the status of every replay source
+   */
+  router.get('/replay', (_req: Request, res: Response): void => {
+    res.json({
+      replays: replaySources().map((source) => ({
+        name: source.name,
+        ...source.getReplayStatus(),
+      })),
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  /**
+   * POST /api/replay/:name/pause
+   * Pause a replay at its current position
+   */
+  router.post('/replay/:name/pause', (req: Request, res: Response): void => {
+    const source = findReplaySource(req, res);
+    if (!source) {
+      return;
+    }
+
+    source.pause();
+    sendReplayStatus(res, source);
+  });
+
+  /**
+   * POST /api/replay/:name/resume
+   * Resume a paused replay, or restart a finished one
+   */
+  router.post('/replay/:name/resume', (req: Request, res: Response): void => {
+    const source = findReplaySource(req, res);
+    if (!source) {
+      return;
+    }
+
+    source.resume();
+    sendReplayStatus(res, source);
+  });
+
+  /**
+   * POST /api/replay/:name/seek
+   * Jump to a recorded time
+   * Body: { time: ISO 8601 timestamp }
+   */
+  router.post(
+    '/replay/:name/seek',
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const source = findReplaySource(req, res);
+        if (!source) {
+          return;
+        }
+
+        const time = new Date(req.body?.time);
+        if (isNaN(time.getTime())) {
+          sendInvalidParameter(res, 'time must be an ISO 8601 timestamp');
+          return;
+        }
+
+        await source.seek(time);
+        sendReplayStatus(res, source);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * POST /api/replay/:name/speed
+   * Change playback speed
+   * Body: { speed: positive number or "max" }
+   */
+  router.post('/replay/:name/speed', (req: Request, res: Response): void => {
+    const source = findReplaySource(req, res);
+    if (!source) {
+      return;
+    }
+
+    const speed = req.body?.speed === 'max' ? 'max' : Number(req.body?.speed);
+    if (speed !== 'max' && !(speed > 0)) {
+      sendInvalidParameter(res, 'speed must be a positive number or "max"');
+      return;
+    }
+
+    source.setSpeed(speed);
+    sendReplayStatus(res, source);
+  });
+
   return router;
 }
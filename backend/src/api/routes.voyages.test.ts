@@ -0,0 +1,93 @@
+import { Pool } from 'pg';
+import request from 'supertest';
+import { createApp } from './app';
+import { CacheService } from '../services/CacheService';
+
+function positionRow(hours: number, latitude: number, longitude: number, sog: number) {
+  return {
+    mmsi: '244670316',
+    timestamp: new Date(Date.parse('2025-12-01T00:00:00Z') + hours * 60 * 60 * 1000),
+    latitude: String(latitude),
+    longitude: String(longitude),
+    sog: String(sog),
+    cog: '90',
+  };
+}
+
+describe('Voyage routes', () => {
+  let query: jest.Mock;
+  let app: ReturnType<typeof createApp>;
+
+  beforeEach(() => {
+    query = jest.fn(async (sql: string) => {
+      if (sql.includes('FROM port_calls')) {
+        return {
+          rows: [
+            {
+              id: '7',
+              mmsi: '244670316',
+              locode: 'NLRTM',
+              port_name: 'Rotterdam',
+              arrival: new Date('2025-11-30T00:00:00Z'),
+              departure: new Date('2025-12-01T02:00:00Z'),
+              call_type: 'berth',
+            },
+          ],
+        };
+      }
+      if (sql.includes('position_reports')) {
+        return {
+          rows: [
+            positionRow(2, 51.95, 4.14, 0),
+            positionRow(4, 52.3, 3.9, 12),
+            positionRow(8, 53.0, 5.0, 13),
+          ],
+        };
+      }
+      // Vessel lookup
+      return { rows: [{ mmsi: '244670316', name: 'EEMSLIFT HENDRIKA' }] };
+    });
+    app = createApp({ query } as unknown as Pool, {} as CacheService);
+  });
+
+  it("should segment a vessel's track into voyages", async () => {
+    const response = await request(app)
+      .get(
+        '/api/vessels/244670316/voyages?startTime=2025-12-01T00:00:00Z&endTime=2025-12-02T00:00:00Z'
+      )
+      .expect(200);
+
+    expect(response.body.count).toBe(1);
+    expect(response.body.voyages[0]).toMatchObject({
+      origin: { locode: 'NLRTM', portName: 'Rotterdam' },
+      destination: null,
+      departure: '2025-12-01T02:00:00.000Z',
+      arrival: null,
+      maxSpeedKnots: 13,
+      positionCount: 3,
+    });
+
+    const portCallQuery = query.mock.calls.find(([sql]) => sql.includes('FROM port_calls'));
+    expect(portCallQuery[1]).toEqual([
+      '244670316',
+      new Date('2025-12-01T00:00:00Z'),
+      new Date('2025-12-02T00:00:00Z'),
+      10000,
+      0,
+    ]);
+  });
+
+  it('should reject invalid parameters and unknown vessels', async () => {
+    await request(app).get('/api/vessels/2446703/voyages').expect(400);
+    await request(app).get('/api/vessels/244670316/voyages?startTime=soon').expect(400);
+    await request(app)
+      .get(
+        '/api/vessels/244670316/voyages?startTime=2024-01-01T00:00:00Z&endTime=2025-12-01T00:00:00Z'
+      )
+      .expect(400);
+    expect(query).not.toHaveBeenCalled();
+
+    query.mockResolvedValueOnce({ rows: [] });
+    await request(app).get('/api/vessels/244670316/voyages').expect(404);
+  });
+});
@@ -0,0 +1,152 @@
+import 'dotenv/config';
+import { createPool, closePool } from './db/connection';
+import { VesselRepository } from './repositories';
+import { CacheService, DataPipeline } from './services';
+import { PositionReport } from './types';
+import { createComponentLogger } from './utils';
+
+const logger = createComponentLogger('IngestionBenchmark');
+
+// Synthetic vessels use MID 200, which is not allocated to any flag state
+const FIRST_MMSI = 200000000;
+const REPORT_INTERVAL_SECONDS = 10;
+const STEP_DEGREES = 0.0005; // About 11 knots at a 10 second reporting interval
+
+interface SyntheticVessel {
+  mmsi: string;
+  latitude: number;
+  longitude: number;
+  cog: number;
+}
+
+function createSyntheticVessels(count: number): SyntheticVessel[] {
+  return Array.from({ length: count }, (_, i) => ({
+    mmsi: String(FIRST_MMSI + i),
+    latitude: Math.random() * 120 - 60,
+    longitude: Math.random() * 340 - 170,
+    cog: Math.random() * 360,
+  }));
+}
+
+function nextPosition(vessel: SyntheticVessel, timestamp: Date): PositionReport {
+  const radians = (vessel.cog * Math.PI) / 180;
+  vessel.latitude += STEP_DEGREES * Math.cos(radians);
+  vessel.longitude +=
+    (STEP_DEGREES * Math.sin(radians)) / Math.cos((vessel.latitude * Math.PI) / 180);
+
+  return {
+    mmsi: vessel.mmsi,
+    timestamp,
+    latitude: vessel.latitude,
+    longitude: vessel.longitude,
+    sog: 11,
+    cog: vessel.cog,
+    true_heading: Math.round(vessel.cog) % 360,
+    navigational_status: 0,
+    aisClass: 'A',
+  };
+}
+
+/**
+ * Measure sustained ingestion throughput of DataPipeline against the configured
+ * PostgreSQL and Redis. Synthetic vessels report round-robin as fast as the pipeline
+ * accepts them; flushes happen inline, so the rate includes the database writes.
+ * Synthetic vessels and their positions are deleted afterwards unless BENCHMARK_KEEP_DATA=true
+ */
+async function main(): Promise<void> {
+  const durationSeconds = parseInt(process.env.BENCHMARK_DURATION_SECONDS || '30', 10);
+  const vesselCount = parseInt(process.env.BENCHMARK_VESSELS || '10000', 10);
+  const batchSize = parseInt(process.env.BENCHMARK_BATCH_SIZE || '1000', 10);
+  const batchInterval = parseInt(process.env.BENCHMARK_BATCH_INTERVAL_MS || '1000', 10);
+  const keepData = process.env.BENCHMARK_KEEP_DATA === 'true';
+
+  const pool = createPool();
+  const cacheService = new CacheService(process.env.REDIS_URL);
+  await cacheService.connect();
+
+  const pipeline = new DataPipeline(new VesselRepository(pool), cacheService, {
+    batchSize,
+    batchInterval,
+  });
+
+  let processed = 0;
+  let inserted = 0;
+  let batches = 0;
+  let errors = 0;
+  pipeline.on('batchProcessed', (event: { inserted: number }) => {
+    batches++;
+    inserted += event.inserted;
+  });
+  pipeline.on('ingestionError', () => {
+    errors++;
+  });
+
+  const vessels = createSyntheticVessels(vesselCount);
+  logger.info('Starting ingestion benchmark', {
+    durationSeconds,
+    vessels: vesselCount,
+    batchSize,
+    batchInterval: `${batchInterval}ms`,
+  });
+
+  pipeline.start();
+  const startedAt = Date.now();
+  const deadline = startedAt + durationSeconds * 1000;
+
+  let lastProcessed = 0;
+  const progress = setInterval(() => {
+    logger.info('Progress', {
+      messagesPerSecond: Math.round((processed - lastProcessed) / 5),
+      processed,
+      inserted,
+      queued: pipeline.getQueueSize(),
+    });
+    lastProcessed = processed;
+  }, 5000);
+
+  // Simulated time starts a day back so positions never lie in the future
+  let simulatedTime = startedAt - 24 * 60 * 60 * 1000;
+  while (Date.now() < deadline) {
+    const timestamp = new Date(simulatedTime);
+    for (const vessel of vessels) {
+      await pipeline.processPosition(nextPosition(vessel, timestamp));
+      processed++;
+      if (processed % 1000 === 0 && Date.now() >= deadline) {
+        break;
+      }
+    }
+    simulatedTime += REPORT_INTERVAL_SECONDS * 1000;
+  }
+
+  // The final flush counts towards the measured time
+  await pipeline.stop();
+  const elapsedSeconds = (Date.now() - startedAt) / 1000;
+  clearInterval(progress);
+
+  logger.info('Ingestion benchmark finished', {
+    elapsedSeconds: Number(elapsedSeconds.toFixed(1)),
+    processed,
+    inserted,
+    batches,
+    errors,
+    messagesPerSecond: Math.round(processed / elapsedSeconds),
+    insertedPerSecond: Math.round(inserted / elapsedSeconds),
+  });
+
+  if (!keepData) {
+    const mmsis = vessels.map((vessel) => vessel.mmsi);
+    await pool.query('DELETE FROM vessels WHERE mmsi = ANY($1)', [mmsis]);
+    for (const mmsi of mmsis) {
+      await cacheService.removeVessel(mmsi);
+    }
+    logger.info('Removed synthetic vessels', { count: mmsis.length });
+  }
+
+  await cacheService.disconnect();
+  await closePool();
+}
+
+main().catch((error) => {
+  logger.error('Ingestion benchmark failed', error);
+  process.exit(1);
+});
@@ -0,0 +1,185 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Pool } from 'pg';
+import { MigrationRunner } from './MigrationRunner';
+import { MigrationError } from '../utils';
+
+interface AppliedRow {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+/**
+ * Pool whose clients keep schema_migrations in memory and record every other statement
+ */
+function fakePool(applied: AppliedRow[] = []) {
+  const statements: string[] = [];
+  const client = {
+    query: jest.fn(async (sql: string, params: any[] = []) => {
+      if (sql.startsWith('SELECT version, name, checksum')) {
+        return { rows: [...applied].sort((a, b) => a.version - b.version) };
+      }
+      if (sql.startsWith('INSERT INTO schema_migrations')) {
+        const [version, name, checksum] = params;
+        applied.push({ version, name, checksum, applied_at: new Date() });
+        return { rows: [] };
+      }
+      if (sql.startsWith('DELETE FROM schema_migrations')) {
+        applied.splice(
+          applied.findIndex((row) => row.version === params[0]),
+          1
+        );
+        return { rows: [] };
+      }
+      if (!sql.includes('CREATE TABLE IF NOT EXISTS') && !sql.includes('pg_advisory')) {
+        statements.push(sql.trim());
+      }
+      if (sql.includes('FAIL')) {
+        throw Object.assign(new Error('syntax error at or near "FAIL"'), { code: '42601' });
+      }
+      return { rows: [] };
+    }),
+    release: jest.fn(),
+  };
+
+  return {
+    pool: { connect: jest.fn().mockResolvedValue(client) } as unknown as Pool,
+    client,
+    applied,
+    statements,
+  };
+}
+
+describe('MigrationRunner', () => {
+  let directory: string;
+
+  function writeMigration(file: string, sql: string): void {
+    fs.writeFileSync(path.join(directory, file), sql);
+  }
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+    writeMigration('000-initial.sql', 'CREATE TABLE a ();');
+    writeMigration('000-initial.down.sql', 'DROP TABLE a;');
+    writeMigration('002-add-c.sql', 'CREATE TABLE c ();');
+    writeMigration('002-add-c.down.sql', 'DROP TABLE c;');
+    writeMigration('001-add-b.sql', '-- migrate:no-transaction\nCREATE INDEX CONCURRENTLY b;');
+    writeMigration('README.md', '# Migrations');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should load migrations in version order with their down files', () => {
+    const migrations = new MigrationRunner(fakePool().pool, { directory }).loadMigrations();
+
+    expect(migrations.map((m) => [m.version, m.name, m.transactional])).toEqual([
+      [0, 'initial', true],
+      [1, 'add-b', false],
+      [2, 'add-c', true],
+    ]);
+    expect(migrations[0].downPath).toBe(path.join(directory, '000-initial.down.sql'));
+    expect(migrations[1].downPath).toBeNull();
+  });
+
+  it('should give the same checksum to CRLF and LF line endings', () => {
+    const runner = new MigrationRunner(fakePool().pool, { directory });
+    writeMigration('003-multiline.sql', 'CREATE TABLE d ();\nCREATE TABLE e ();\n');
+    const lf = runner.loadMigrations()[3].checksum;
+
+    writeMigration('003-multiline.sql', 'CREATE TABLE d ();\r\nCREATE TABLE e ();\r\n');
+    expect(runner.loadMigrations()[3].checksum).toBe(lf);
+  });
+
+  it('should reject duplicate versions and down files without an up file', () => {
+    const runner = new MigrationRunner(fakePool().pool, { directory });
+
+    writeMigration('002-other.sql', 'SELECT 1;');
+    expect(() => runner.loadMigrations()).toThrow(MigrationError);
+
+    fs.unlinkSync(path.join(directory, '002-other.sql'));
+    writeMigration('009-orphan.down.sql', 'SELECT 1;');
+    expect(() => runner.loadMigrations()).toThrow('Down migration without up migration');
+  });
+
+  it('should apply pending migrations in order and record them', async () => {
+    const { pool, applied, statements } = fakePool();
+    const runner = new MigrationRunner(pool, { directory });
+
+    const result = await runner.up();
+
+    expect(result.map((m) => m.version)).toEqual([0, 1, 2]);
+    expect(statements).toEqual([
+      'BEGIN',
+      'CREATE TABLE a ();',
+      'COMMIT',
+      '-- migrate:no-transaction\nCREATE INDEX CONCURRENTLY b;',
+      'BEGIN',
+      'CREATE TABLE c ();',
+      'COMMIT',
+    ]);
+    expect(applied.map((row) => row.version)).toEqual([0, 1, 2]);
+
+    // A second run finds nothing to do
+    expect(await runner.up()).toEqual([]);
+  });
+
+  it('should stop at the version given by to', async () => {
+    const { pool, applied } = fakePool();
+    await new MigrationRunner(pool, { directory }).up({ to: 1 });
+
+    expect(applied.map((row) => row.version)).toEqual([0, 1]);
+  });
+
+  it('should roll back and leave a failed migration unrecorded', async () => {
+    writeMigration('003-broken.sql', 'FAIL;');
+    const { pool, applied, statements } = fakePool();
+
+    await expect(new MigrationRunner(pool, { directory }).up()).rejects.toThrow(
+      'Migration 003-broken failed'
+    );
+    expect(applied.map((row) => row.version)).toEqual([0, 1, 2]);
+    expect(statements.slice(-2)).toEqual(['FAIL;', 'ROLLBACK']);
+  });
+
+  it('should revert the latest migration and refuse one without a down file', async () => {
+    const { pool, applied, statements } = fakePool();
+    const runner = new MigrationRunner(pool, { directory });
+    await runner.up();
+    statements.length = 0;
+
+    const reverted = await runner.down();
+    expect(reverted.map((m) => m.version)).toEqual([2]);
+    expect(statements).toEqual(['BEGIN', 'DROP TABLE c;', 'COMMIT']);
+    expect(applied.map((row) => row.version)).toEqual([0, 1]);
+
+    await expect(runner.down({ to: -1 })).rejects.toThrow('Migration 1 has no down migration');
+    expect(applied.map((row) => row.version)).toEqual([0, 1]);
+  });
+
+  it('should report changed and missing migrations and refuse to migrate', async () => {
+    const { pool, applied } = fakePool();
+    const runner = new MigrationRunner(pool, { directory });
+    await runner.up();
+    applied.push({ version: 7, name: 'removed', checksum: 'f'.repeat(64), applied_at: new Date() });
+
+    writeMigration('002-add-c.sql', 'CREATE TABLE c (id INTEGER);');
+    writeMigration('003-add-d.sql', 'CREATE TABLE d ();');
+
+    const status = await runner.getStatus();
+    expect(status.map((entry) => [entry.version, entry.state])).toEqual([
+      [0, 'applied'],
+      [1, 'applied'],
+      [2, 'changed'],
+      [3, 'pending'],
+      [7, 'missing'],
+    ]);
+    expect((await runner.verify()).map((entry) => entry.version)).toEqual([2, 7]);
+    await expect(runner.up()).rejects.toThrow('Applied migrations differ from the migration files');
+    expect(applied.map((row) => row.version)).not.toContain(3);
+  });
+});
@@ -0,0 +1,386 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Pool, PoolClient } from 'pg';
+import { createComponentLogger, isPgError, MigrationError } from '../utils';
+
+/**
+ * Configuration options for MigrationRunner
+ */
+export interface MigrationRunnerConfig {
+  /** Directory holding NNN-name.sql migrations and their NNN-name.down.sql counterparts */
+  directory: string;
+  /** Table that records applied migrations (default: schema_migrations) */
+  tableName?: string;
+}
+
+/**
+ * A migration file pair found in the migrations directory
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  upPath: string;
+  downPath: string | null;
+  checksum: string;
+  transactional: boolean;
+}
+
+/**
+ * State of a migration compared with the database
+ * - applied: recorded with the checksum of the current file
+ * - pending: not applied yet
+ * - changed: applied, but the file changed since (checksum drift)
+ * - missing: applied, but the file no longer exists
+ */
+export type MigrationState = 'applied' | 'pending' | 'changed' | 'missing';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState;
+  appliedAt: Date | null;
+  checksum: string | null;
+  appliedChecksum: string | null;
+}
+
+/**
+ * Options for up; applies every pending migration unless `to` is given
+ */
+export interface MigrateUpOptions {
+  to?: number;
+}
+
+/**
+ * Options for down; reverts the latest migration unless `steps` or `to` is given
+ * `to` reverts every migration above that version
+ */
+export interface MigrateDownOptions {
+  steps?: number;
+  to?: number;
+}
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+/**
+ * database/migrations at the repository root, from both src/db and dist/db
+ */
+export const DEFAULT_MIGRATIONS_DIR = path.resolve(__dirname, '../../../database/migrations');
+
+const MIGRATION_PATTERN = /^(\d+)-([a-z0-9][a-z0-9-]*?)(\.down)?\.sql$/;
+const NO_TRANSACTION_DIRECTIVE = /^--\s*migrate:no-transaction\s*$/m;
+
+// Key for pg_advisory_lock so that concurrent runners (e.g. several backend instances
+// starting at once) apply migrations one at a time
+const ADVISORY_LOCK_KEY = 727_361_016;
+
+/**
+ * Read a migration file with line endings normalized, so that a checkout with CRLF
+ * line endings does not count as drift
+ */
+function readMigrationFile(filePath: string): string {
+  return fs.readFileSync(filePath, 'utf8').replace(/\r\n/g, '\n');
+}
+
+function checksumOf(sql: string): string {
+  return crypto.createHash('sha256').update(sql).digest('hex');
+}
+
+/**
+ * MigrationRunner applies versioned SQL migrations and records them in schema_migrations
+ *
+ * Migrations are NNN-name.sql files applied in version order, each in its own transaction
+ * unless the file contains a `-- migrate:no-transaction` line (needed for statements such
+ * as CREATE INDEX CONCURRENTLY). NNN-name.down.sql reverts it. The checksum of every
+ * applied file is stored, and up/down refuse to run when an applied file has changed.
+ */
+export class MigrationRunner {
+  private directory: string;
+  private tableName: string;
+  private logger = createComponentLogger('MigrationRunner');
+
+  constructor(private pool: Pool, config: MigrationRunnerConfig) {
+    this.directory = config.directory;
+    this.tableName = config.tableName || 'schema_migrations';
+  }
+
+  /**
+   * Read the migrations directory, ordered by version
+   */
+  loadMigrations(): Migration[] {
+    if (!fs.existsSync(this.directory)) {
+      throw new MigrationError('Migrations directory not found', { directory: this.directory });
+    }
+
+    const ups = new Map<number, { name: string; file: string }>();
+    const downs = new Map<number, string>();
+
+    for (const file of fs.readdirSync(this.directory).sort()) {
+      const match = MIGRATION_PATTERN.exec(file);
+      if (!match) {
+        continue;
+      }
+
+      const version = parseInt(match[1], 10);
+      if (match[3]) {
+        downs.set(version, file);
+        continue;
+      }
+
+      const existing = ups.get(version);
+      if (existing) {
+        throw new MigrationError(`Duplicate migration version ${version}`, {
+          files: [existing.file, file],
+        });
+      }
+      ups.set(version, { name: match[2], file });
+    }
+
+    for (const [version, file] of downs) {
+      if (!ups.has(version)) {
+        throw new MigrationError(`Down migration without up migration: ${file}`, { version });
+      }
+    }
+
+    return [...ups.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([version, { name, file }]) => {
+        const sql = readMigrationFile(path.join(this.directory, file));
+        const downFile = downs.get(version);
+        return {
+          version,
+          name,
+          upPath: path.join(this.directory, file),
+          downPath: downFile ? path.join(this.directory, downFile) : null,
+          checksum: checksumOf(sql),
+          transactional: !NO_TRANSACTION_DIRECTIVE.test(sql),
+        };
+      });
+  }
+
+  /**
+   * Compare the migrations directory with the applied migrations
+   */
+  async getStatus(): Promise<MigrationStatus[]> {
+    const migrations = this.loadMigrations();
+    const client = await this.pool.connect();
+    try {
+      await this.ensureTable(client);
+      return this.buildStatus(migrations, await this.getApplied(client));
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Return applied migrations whose file has changed or disappeared
+   */
+  async verify(): Promise<MigrationStatus[]> {
+    const status = await this.getStatus();
+    return status.filter((entry) => entry.state === 'changed' || entry.state === 'missing');
+  }
+
+  /**
+   * Apply pending migrations in version order
+   * Returns the migrations that were applied
+   */
+  async up(options: MigrateUpOptions = {}): Promise<Migration[]> {
+    const migrations = this.loadMigrations();
+
+    return this.withLock(async (client) => {
+      const applied = await this.getApplied(client);
+      this.assertNoDrift(this.buildStatus(migrations, applied));
+
+      const appliedVersions = new Set(applied.map((migration) => migration.version));
+      const pending = migrations.filter(
+        (migration) =>
+          !appliedVersions.has(migration.version) &&
+          (options.to === undefined || migration.version <= options.to)
+      );
+
+      for (const migration of pending) {
+        const sql = readMigrationFile(migration.upPath);
+        await this.apply(client, migration, sql, async (durationMs) => {
+          await client.query(
+            `INSERT INTO ${this.tableName} (version, name, checksum, execution_ms)
+             VALUES ($1, $2, $3, $4)`,
+            [migration.version, migration.name, migration.checksum, durationMs]
+          );
+        });
+      }
+
+      return pending;
+    });
+  }
+
+  /**
+   * Revert applied migrations, newest first
+   * Returns the migrations that were reverted
+   */
+  async down(options: MigrateDownOptions = {}): Promise<Migration[]> {
+    const migrations = this.loadMigrations();
+    const byVersion = new Map(migrations.map((migration) => [migration.version, migration]));
+
+    return this.withLock(async (client) => {
+      const applied = await this.getApplied(client);
+      this.assertNoDrift(this.buildStatus(migrations, applied));
+
+      const newestFirst = [...applied].reverse();
+      const { to } = options;
+      const targets =
+        to !== undefined
+          ? newestFirst.filter((migration) => migration.version > to)
+          : newestFirst.slice(0, options.steps ?? 1);
+
+      // Drift was ruled out above, so every applied migration has a file
+      const reverted = targets.map((target) => byVersion.get(target.version) as Migration);
+      const irreversible = reverted.find((migration) => !migration.downPath);
+      if (irreversible) {
+        throw new MigrationError(`Migration ${irreversible.version} has no down migration`, {
+          version: irreversible.version,
+          name: irreversible.name,
+        });
+      }
+
+      for (const migration of reverted) {
+        const sql = readMigrationFile(migration.downPath as string);
+        await this.apply(client, migration, sql, async () => {
+          await client.query(`DELETE FROM ${this.tableName} WHERE version = $1`, [
+            migration.version,
+          ]);
+        });
+      }
+
+      return reverted;
+    });
+  }
+
+  /**
+   * Run a migration's SQL and record the result, in one transaction when the migration allows it
+   */
+  private async apply(
+    client: PoolClient,
+    migration: Migration,
+    sql: string,
+    record: (durationMs: number) => Promise<void>
+  ): Promise<void> {
+    const label = `${String(migration.version).padStart(3, '0')}-${migration.name}`;
+    const startedAt = Date.now();
+
+    try {
+      if (migration.transactional) {
+        await client.query('BEGIN');
+      }
+      await client.query(sql);
+      await record(Date.now() - startedAt);
+      if (migration.transactional) {
+        await client.query('COMMIT');
+      }
+    } catch (error) {
+      if (migration.transactional) {
+        await client.query('ROLLBACK').catch(() => undefined);
+      }
+      throw new MigrationError(`Migration ${label} failed`, {
+        version: migration.version,
+        originalError: error instanceof Error ? error.message : String(error),
+        errorCode: isPgError(error) ? error.code : undefined,
+      });
+    }
+
+    this.logger.info('Migration completed', {
+      migration: label,
+      durationMs: Date.now() - startedAt,
+    });
+  }
+
+  private buildStatus(migrations: Migration[], applied: AppliedMigration[]): MigrationStatus[] {
+    const appliedByVersion = new Map(applied.map((migration) => [migration.version, migration]));
+    const status: MigrationStatus[] = migrations.map((migration) => {
+      const record = appliedByVersion.get(migration.version);
+      appliedByVersion.delete(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: !record ? 'pending' : record.checksum === migration.checksum ? 'applied' : 'changed',
+        appliedAt: record?.appliedAt || null,
+        checksum: migration.checksum,
+        appliedChecksum: record?.checksum || null,
+      };
+    });
+
+    for (const record of appliedByVersion.values()) {
+      status.push({
+        version: record.version,
+        name: record.name,
+        state: 'missing',
+        appliedAt: record.appliedAt,
+        checksum: null,
+        appliedChecksum: record.checksum,
+      });
+    }
+
+    return status.sort((a, b) => a.version - b.version);
+  }
+
+  private assertNoDrift(status: MigrationStatus[]): void {
+    const drifted = status.filter(
+      (entry) => entry.state === 'changed' || entry.state === 'missing'
+    );
+    if (drifted.length > 0) {
+      throw new MigrationError('Applied migrations differ from the migration files', {
+        migrations: drifted.map((entry) => ({
+          version: entry.version,
+          name: entry.name,
+          state: entry.state,
+        })),
+      });
+    }
+  }
+
+  private async getApplied(client: PoolClient): Promise<AppliedMigration[]> {
+    const result = await client.query(
+      `SELECT version, name, checksum, applied_at FROM ${this.tableName} ORDER BY version`
+    );
+    return result.rows.map((row) => ({
+      version: row.version,
+      name: row.name,
+      checksum: row.checksum,
+      appliedAt: row.applied_at,
+    }));
+  }
+
+  private async ensureTable(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ${this.tableName} (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        checksum CHAR(64) NOT NULL,
+        applied_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        execution_ms INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+  }
+
+  /**
+   * Run an operation on one connection while holding the migration advisory lock
+   */
+  private async withLock<T>(operation: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [ADVISORY_LOCK_KEY]);
+      try {
+        await this.ensureTable(client);
+        return await operation(client);
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [ADVISORY_LOCK_KEY]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { Pool } from 'pg';
+import { StoragePolicyManager } from './StoragePolicyManager';
+import { ConfigurationError } from '../utils';
+
+/**
+ * Pool answering the job lookup with the given policies; every other statement is recorded
+ * existing maps "<policy>:<relation>" to whether its age matches the configuration
+ */
+function fakePool(existing: Record<string, boolean> = {}) {
+  const statements: { sql: string; params: unknown[] }[] = [];
+  const query = jest.fn(async (sql: string, params: unknown[]) => {
+    if (sql.includes('timescaledb_information.jobs')) {
+      const policy = params[0] === 'policy_retention' ? 'retention' : 'compression';
+      const unchanged = existing[`${policy}:${params[1]}`];
+      return { rows: unchanged === undefined ? [] : [{ unchanged }] };
+    }
+    statements.push({ sql, params });
+    return { rows: [] };
+  });
+
+  return { pool: { query } as unknown as Pool, statements };
+}
+
+describe('StoragePolicyManager', () => {
+  it('should add configured policies and leave the others absent', async () => {
+    const { pool, statements } = fakePool();
+
+    await new StoragePolicyManager(pool, { rawRetentionDays: 90, compressAfterDays: 7 }).apply();
+
+    expect(statements).toEqual([
+      {
+        sql: 'SELECT add_retention_policy($1::regclass, make_interval(days => $2))',
+        params: ['position_reports', 90],
+      },
+      {
+        sql: 'SELECT add_compression_policy($1::regclass, make_interval(days => $2))',
+        params: ['position_reports', 7],
+      },
+    ]);
+  });
+
+  it('should keep unchanged policies and replace changed ones', async () => {
+    const { pool, statements } = fakePool({
+      'retention:position_reports': true,
+      'compression:position_reports': false,
+    });
+
+    await new StoragePolicyManager(pool, { rawRetentionDays: 90, compressAfterDays: 14 }).apply();
+
+    expect(statements.map((statement) => statement.sql)).toEqual([
+      'SELECT remove_compression_policy($1::regclass, if_exists => TRUE)',
+      'SELECT add_compression_policy($1::regclass, make_interval(days => $2))',
+    ]);
+  });
+
+  it('should remove policies that are no longer configured', async () => {
+    const { pool, statements } = fakePool({ 'retention:position_reports_10m': true });
+
+    await new StoragePolicyManager(pool, {}).apply();
+
+    expect(statements).toEqual([
+      {
+        sql: 'SELECT remove_retention_policy($1::regclass, if_exists => TRUE)',
+        params: ['position_reports_10m'],
+      },
+    ]);
+  });
+
+  it('should reject raw retention within the aggregate refresh window', () => {
+    expect(() => new StoragePolicyManager(fakePool().pool, { rawRetentionDays: 3 })).toThrow(
+      ConfigurationError
+    );
+    expect(() => new StoragePolicyManager(fakePool().pool, { compressAfterDays: 1.5 })).toThrow(
+      'compressAfterDays must be a positive number of days'
+    );
+  });
+});
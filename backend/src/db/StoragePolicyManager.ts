@@ -0,0 +1,140 @@
+import { Pool } from 'pg';
+import { createComponentLogger, ConfigurationError, DatabaseError, isPgError } from '../utils';
+
+/**
+ * Configuration options for StoragePolicyManager
+ * A missing or null age removes the policy
+ */
+export interface StoragePolicyConfig {
+  /** Drop raw position chunks older than this many days (default: keep forever) */
+  rawRetentionDays?: number | null;
+  /** Compress raw position chunks older than this many days (default: no compression) */
+  compressAfterDays?: number | null;
+  /** Drop downsampled positions older than this many days (default: keep forever) */
+  downsampledRetentionDays?: number | null;
+}
+
+/**
+ * Continuous aggregate holding the last fix per vessel per 10 minutes (migration 008)
+ */
+export const DOWNSAMPLED_POSITIONS_VIEW = 'position_reports_10m';
+
+/**
+ * Days refreshed by the continuous aggregate policy (migration 009)
+ * Raw positions must be kept longer, or a refresh empties the aggregate where chunks were dropped
+ */
+export const AGGREGATE_REFRESH_WINDOW_DAYS = 3;
+
+interface PolicyDefinition {
+  policy: 'retention' | 'compression';
+  relation: string;
+  days: number | null;
+}
+
+const POLICY_PROCEDURES = {
+  retention: { proc: 'policy_retention', configKey: 'drop_after' },
+  compression: { proc: 'policy_compression', configKey: 'compress_after' },
+};
+
+/**
+ * StoragePolicyManager applies TimescaleDB retention and compression policies
+ *
+ * The policies live in the database, so they are compared with the configuration on
+ * startup and only replaced when the configured age changed.
+ */
+export class StoragePolicyManager {
+  private logger = createComponentLogger('StoragePolicyManager');
+  private policies: PolicyDefinition[];
+
+  constructor(private pool: Pool, config: StoragePolicyConfig = {}) {
+    const rawRetentionDays = validDays('rawRetentionDays', config.rawRetentionDays);
+    if (rawRetentionDays !== null && rawRetentionDays <= AGGREGATE_REFRESH_WINDOW_DAYS) {
+      throw new ConfigurationError(
+        `Raw position retention must be longer than ${AGGREGATE_REFRESH_WINDOW_DAYS} days, the downsampled aggregate refresh window`,
+        { rawRetentionDays }
+      );
+    }
+
+    this.policies = [
+      { policy: 'retention', relation: 'position_reports', days: rawRetentionDays },
+      {
+        policy: 'compression',
+        relation: 'position_reports',
+        days: validDays('compressAfterDays', config.compressAfterDays),
+      },
+      {
+        policy: 'retention',
+        relation: DOWNSAMPLED_POSITIONS_VIEW,
+        days: validDays('downsampledRetentionDays', config.downsampledRetentionDays),
+      },
+    ];
+  }
+
+  /**
+   * Add, replace or remove policies so that the database matches the configuration
+   */
+  async apply(): Promise<void> {
+    for (const definition of this.policies) {
+      try {
+        await this.applyPolicy(definition);
+      } catch (error) {
+        const dbError = new DatabaseError(`Failed to apply ${definition.policy} policy`, {
+          relation: definition.relation,
+          days: definition.days,
+          originalError: error instanceof Error ? error.message : String(error),
+          errorCode: isPgError(error) ? error.code : undefined,
+        });
+        this.logger.logDatabaseError(dbError, `apply ${definition.policy} policy`);
+        throw dbError;
+      }
+    }
+  }
+
+  private async applyPolicy({ policy, relation, days }: PolicyDefinition): Promise<void> {
+    const { proc, configKey } = POLICY_PROCEDURES[policy];
+
+    // Jobs of a continuous aggregate are registered on its materialization hypertable
+    const existing = await this.pool.query(
+      `SELECT (j.config->>$3)::interval = make_interval(days => $4) AS unchanged
+       FROM timescaledb_information.jobs j
+       LEFT JOIN timescaledb_information.continuous_aggregates a
+         ON a.materialization_hypertable_name = j.hypertable_name
+       WHERE j.proc_name = $1 AND (j.hypertable_name = $2 OR a.view_name = $2)`,
+      [proc, relation, configKey, days ?? 0]
+    );
+
+    if (existing.rows.length > 0) {
+      if (days !== null && existing.rows[0].unchanged) {
+        return;
+      }
+      await this.pool.query(`SELECT remove_${policy}_policy($1::regclass, if_exists => TRUE)`, [
+        relation,
+      ]);
+    }
+
+    if (days !== null) {
+      await this.pool.query(
+        `SELECT add_${policy}_policy($1::regclass, make_interval(days => $2))`,
+        [relation, days]
+      );
+    }
+
+    if (existing.rows.length > 0 || days !== null) {
+      this.logger.info('Storage policy updated', {
+        policy,
+        relation,
+        days: days ?? 'removed',
+      });
+    }
+  }
+}
+
+function validDays(name: string, value: number | null | undefined): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new ConfigurationError(`${name} must be a positive number of days`, { [name]: value });
+  }
+  return value;
+}
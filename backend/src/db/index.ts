@@ -1 +1,17 @@
 export { createPool, getPool, closePool } from './connection';
+export {
+  MigrationRunner,
+  MigrationRunnerConfig,
+  Migration,
+  MigrationState,
+  MigrationStatus,
+  MigrateUpOptions,
+  MigrateDownOptions,
+  DEFAULT_MIGRATIONS_DIR,
+} from './MigrationRunner';
+export {
+  StoragePolicyManager,
+  StoragePolicyConfig,
+  DOWNSAMPLED_POSITIONS_VIEW,
+  AGGREGATE_REFRESH_WINDOW_DAYS,
+} from './StoragePolicyManager';
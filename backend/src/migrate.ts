@@ -0,0 +1,94 @@
+import 'dotenv/config';
+import { createPool, closePool } from './db/connection';
+import { MigrationRunner, DEFAULT_MIGRATIONS_DIR } from './db/MigrationRunner';
+import { createComponentLogger, ConfigurationError } from './utils';
+
+const logger = createComponentLogger('Migrate');
+
+const USAGE = 'Usage: npm run migrate -- <status|up|down|verify> [--to <version>] [--steps <n>]';
+
+/**
+ * Read a numeric --name option from the arguments
+ */
+function numberOption(args: string[], name: string): number | undefined {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const value = parseInt(args[index + 1], 10);
+  if (isNaN(value) || value < 0) {
+    throw new ConfigurationError(`--${name} needs a non-negative number`, { usage: USAGE });
+  }
+  return value;
+}
+
+/**
+ * Apply, revert or inspect schema migrations
+ * - status: list every migration with its state
+ * - up: apply pending migrations (--to stops after that version)
+ * - down: revert the latest migration (--steps reverts several, --to reverts everything above it)
+ * - verify: exit with status 1 when an applied migration file has changed or disappeared
+ */
+async function main(): Promise<void> {
+  const [command = 'status', ...args] = process.argv.slice(2);
+  const runner = new MigrationRunner(createPool(), {
+    directory: process.env.MIGRATIONS_DIR || DEFAULT_MIGRATIONS_DIR,
+  });
+
+  try {
+    switch (command) {
+      case 'status': {
+        for (const entry of await runner.getStatus()) {
+          logger.info(`${String(entry.version).padStart(3, '0')}-${entry.name}`, {
+            state: entry.state,
+            appliedAt: entry.appliedAt,
+          });
+        }
+        break;
+      }
+
+      case 'up': {
+        const applied = await runner.up({ to: numberOption(args, 'to') });
+        logger.info(applied.length > 0 ? 'Applied migrations' : 'Database schema up to date', {
+          versions: applied.map((migration) => migration.version),
+        });
+        break;
+      }
+
+      case 'down': {
+        const reverted = await runner.down({
+          to: numberOption(args, 'to'),
+          steps: numberOption(args, 'steps'),
+        });
+        logger.info('Reverted migrations', {
+          versions: reverted.map((migration) => migration.version),
+        });
+        break;
+      }
+
+      case 'verify': {
+        const drifted = await runner.verify();
+        if (drifted.length > 0) {
+          logger.error('Applied migrations differ from the migration files', undefined, {
+            migrations: drifted.map((entry) => `${entry.version}-${entry.name} (${entry.state})`),
+          });
+          process.exitCode = 1;
+        } else {
+          logger.info('Applied migrations match the migration files');
+        }
+        break;
+      }
+
+      default:
+        throw new ConfigurationError(`Unknown migrate command "${command}"`, { usage: USAGE });
+    }
+  } finally {
+    await closePool();
+  }
+}
+
+main().catch((error) => {
+  logger.error('Migration failed', error);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+import 'dotenv/config';
+import { MockAISStreamServer } from './services/MockAISStreamServer';
+import { BoundingBox } from './types';
+import { createComponentLogger, ConfigurationError } from './utils';
+
+const logger = createComponentLogger('MockAISStream');
+
+/**
+ * Parse MOCK_AISSTREAM_AREA ("minLat,minLon,maxLat,maxLon")
+ */
+function parseArea(value: string | undefined): BoundingBox | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const [minLat, minLon, maxLat, maxLon] = value.split(',').map(Number);
+  if ([minLat, minLon, maxLat, maxLon].some((n) => n === undefined || isNaN(n))) {
+    throw new ConfigurationError(`Invalid MOCK_AISSTREAM_AREA "${value}"`, { value });
+  }
+  return { minLat, minLon, maxLat, maxLon };
+}
+
+/**
+ * Run a standalone mock AISStream server for offline development
+ * Point the backend at it with AIS_SOURCES=aisstream=ws://localhost:8765
+ */
+async function main(): Promise<void> {
+  const server = new MockAISStreamServer({
+    port: parseInt(process.env.MOCK_AISSTREAM_PORT || '8765', 10),
+    host: process.env.MOCK_AISSTREAM_HOST,
+    apiKeys: process.env.MOCK_AISSTREAM_API_KEYS?.split(',').filter((key) => key.length > 0),
+    intervalMs: parseInt(process.env.MOCK_AISSTREAM_INTERVAL_MS || '1000', 10),
+    fixturePath: process.env.MOCK_AISSTREAM_FIXTURE,
+    syntheticVessels: parseInt(process.env.MOCK_AISSTREAM_VESSELS || '50', 10),
+    syntheticArea: parseArea(process.env.MOCK_AISSTREAM_AREA),
+  });
+
+  server.on('subscribed', (subscription) => {
+    logger.info('Client subscribed', { boundingBoxes: subscription.BoundingBoxes.length });
+  });
+  server.on('subscriptionUpdated', (subscription) => {
+    logger.info('Client updated subscription', {
+      boundingBoxes: subscription.BoundingBoxes.length,
+    });
+  });
+
+  await server.start();
+
+  for (const signal of ['SIGTERM', 'SIGINT'] as NodeJS.Signals[]) {
+    process.on(signal, async () => {
+      logger.info(`Received ${signal}, stopping mock AISStream server`);
+      await server.stop();
+      process.exit(0);
+    });
+  }
+}
+
+main().catch((error) => {
+  logger.error('Mock AISStream server failed to start', error);
+  process.exit(1);
+});
@@ -0,0 +1,146 @@
+import { Pool } from 'pg';
+import { DeadLetter, DeadLetterQuery, DeadLetterReasonCount } from '../types';
+import { createComponentLogger, DatabaseError, isPgError } from '../utils';
+
+/**
+ * DeadLetterRepository keeps AIS messages that failed parsing, decoding or
+ * validation, with their raw payload, so parser bugs and bad transponders can be traced
+ */
+export class DeadLetterRepository {
+  private logger = createComponentLogger('DeadLetterRepository');
+
+  constructor(private pool: Pool) {}
+
+  /**
+   * Store a batch of dead letters
+   */
+  async insertDeadLetters(letters: Omit<DeadLetter, 'id'>[]): Promise<void> {
+    if (letters.length === 0) {
+      return;
+    }
+
+    const query = `
+      INSERT INTO dead_letters (
+        received_at, source, stage, message_type, mmsi, reason, detail, payload
+      )
+      SELECT * FROM unnest(
+        $1::timestamp[], $2::varchar[], $3::varchar[], $4::varchar[],
+        $5::varchar[], $6::varchar[], $7::text[], $8::text[]
+      );
+    `;
+
+    const values = [
+      letters.map((letter) => letter.receivedAt),
+      letters.map((letter) => letter.source),
+      letters.map((letter) => letter.stage),
+      letters.map((letter) => letter.messageType),
+      letters.map((letter) => letter.mmsi),
+      letters.map((letter) => letter.reason),
+      letters.map((letter) => letter.detail),
+      letters.map((letter) => letter.payload),
+    ];
+
+    try {
+      await this.pool.query(query, values);
+    } catch (error) {
+      const dbError = new DatabaseError('Failed to store dead letters', {
+        count: letters.length,
+        originalError: error instanceof Error ? error.message : String(error),
+        errorCode: isPgError(error) ? error.code : undefined,
+      });
+      this.logger.logDatabaseError(dbError, 'insertDeadLetters');
+      throw dbError;
+    }
+  }
+
+  /**
+   * Delete the oldest dead letters so that at most maxRows remain
+   * Returns the number of rows deleted
+   */
+  async trimDeadLetters(maxRows: number): Promise<number> {
+    const result = await this.pool.query(
+      'DELETE FROM dead_letters WHERE id <= (SELECT MAX(id) FROM dead_letters) - $1',
+      [maxRows]
+    );
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Query dead letters, most recent first
+   */
+  async queryDeadLetters(criteria: DeadLetterQuery = {}): Promise<DeadLetter[]> {
+    const { conditions, values } = this.buildConditions(criteria);
+    values.push(criteria.limit || 100, criteria.offset || 0);
+
+    const query = `
+      SELECT * FROM dead_letters
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY received_at DESC, id DESC
+      LIMIT $${values.length - 1} OFFSET $${values.length};
+    `;
+
+    const result = await this.pool.query(query, values);
+    return result.rows.map((row) => this.mapRowToDeadLetter(row));
+  }
+
+  /**
+   * Count dead letters per reason and stage, most frequent first
+   * Uses the same filters as queryDeadLetters, without pagination
+   */
+  async countDeadLettersByReason(criteria: DeadLetterQuery = {}): Promise<DeadLetterReasonCount[]> {
+    const { conditions, values } = this.buildConditions(criteria);
+
+    const query = `
+      SELECT reason, stage, COUNT(*)::int AS count, MAX(received_at) AS last_seen
+      FROM dead_letters
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      GROUP BY reason, stage
+      ORDER BY count DESC, reason;
+    `;
+
+    const result = await this.pool.query(query, values);
+    return result.rows.map((row) => ({
+      reason: row.reason,
+      stage: row.stage,
+      count: row.count,
+      lastSeen: row.last_seen,
+    }));
+  }
+
+  private buildConditions(criteria: DeadLetterQuery): { conditions: string[]; values: unknown[] } {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    const filters: Array<[string, unknown]> = [
+      ['reason = $', criteria.reason],
+      ['stage = $', criteria.stage],
+      ['mmsi = $', criteria.mmsi],
+      ['source = $', criteria.source],
+      ['received_at >= $', criteria.startTime],
+      ['received_at <= $', criteria.endTime],
+    ];
+
+    for (const [condition, value] of filters) {
+      if (value !== undefined) {
+        values.push(value);
+        conditions.push(`${condition}${values.length}`);
+      }
+    }
+
+    return { conditions, values };
+  }
+
+  private mapRowToDeadLetter(row: any): DeadLetter {
+    return {
+      id: parseInt(row.id, 10),
+      receivedAt: row.received_at,
+      source: row.source,
+      stage: row.stage,
+      messageType: row.message_type,
+      mmsi: row.mmsi,
+      reason: row.reason,
+      detail: row.detail,
+      payload: row.payload,
+    };
+  }
+}
@@ -0,0 +1,650 @@
+import {
+  Vessel,
+  PositionReport,
+  VesselQuery,
+  VesselWithPosition,
+  VesselStaticChange,
+  ShipStaticData,
+  VesselStub,
+  SnapshotQuery,
+} from '../types';
+import {
+  decodeMMSI,
+  distanceToLineNm,
+  isInBoundingBox,
+  isPointInArea,
+  skipSeenFixes,
+} from '../utils';
+import {
+  HistoryPage,
+  HistoryResolution,
+  PositionHistoryConfig,
+  selectHistoryResolution,
+} from './VesselRepository';
+import { VesselStore } from './VesselStore';
+
+/** Bucket width of downsampled history, matching the position_reports_10m aggregate */
+const DOWNSAMPLE_BUCKET_MS = 10 * 60 * 1000;
+
+/** Static fields whose changes are recorded, under the column names VesselRepository uses */
+const TRACKED_FIELDS: [string, (vessel: Vessel) => unknown][] = [
+  ['name', (vessel) => vessel.name],
+  ['call_sign', (vessel) => vessel.callSign],
+  ['imo_number', (vessel) => vessel.imoNumber],
+  ['vessel_type', (vessel) => vessel.vesselType],
+  ['draught', (vessel) => vessel.draught],
+  ['destination', (vessel) => vessel.destination],
+  ['eta', (vessel) => vessel.eta],
+  ['ais_class', (vessel) => vessel.aisClass],
+];
+
+/**
+ * Configuration for the in-memory vessel repository
+ */
+export interface InMemoryVesselRepositoryConfig {
+  /** Choice between raw and downsampled history, as for VesselRepository */
+  history?: PositionHistoryConfig;
+  /** Position reports older than this are dropped as new ones arrive (default: kept forever) */
+  retentionMs?: number | null;
+}
+
+/**
+ * Text form of a static field value, or null when unset
+ */
+function toText(value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/**
+ * Dimensions recorded as one 'A/B/C/D' value, skipping unknown ones like concat_ws
+ */
+function dimensionsText(vessel: Vessel): string | null {
+  const parts = [vessel.dimensionA, vessel.dimensionB, vessel.dimensionC, vessel.dimensionD]
+    .filter((value) => value !== undefined)
+    .map(String);
+  return parts.length > 0 ? parts.join('/') : null;
+}
+
+/**
+ * Index of the first fix at or after a time in a track sorted by timestamp
+ */
+function lowerBound(track: PositionReport[], time: number): number {
+  let low = 0;
+  let high = track.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (track[middle].timestamp.getTime() < time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/**
+ * Case-insensitive substring match, like ILIKE '%term%'
+ */
+function containsIgnoringCase(value: string | undefined, term: string): boolean {
+  return value !== undefined && value.toLowerCase().includes(term.toLowerCase());
+}
+
+/**
+ * Most recent position first, vessels without a position last
+ */
+function latestFirst(a: VesselWithPosition, b: VesselWithPosition): number {
+  const timeA = a.position ? a.position.timestamp.getTime() : -Infinity;
+  const timeB = b.position ? b.position.timestamp.getTime() : -Infinity;
+  return timeA === timeB ? 0 : timeA > timeB ? -1 : 1;
+}
+
+/**
+ * InMemoryVesselRepository keeps vessels and position reports in process memory
+ *
+ * Follows the query semantics of VesselRepository (filters, ordering, history resolution,
+ * static change history) without PostgreSQL, for demos and tests with STORAGE=memory.
+ * Nothing survives a restart.
+ */
+export class InMemoryVesselRepository implements VesselStore {
+  private vessels = new Map<string, Vessel>();
+  // Position reports per vessel, oldest first
+  private tracks = new Map<string, PositionReport[]>();
+  private staticChanges: VesselStaticChange[] = [];
+  private historyConfig: PositionHistoryConfig;
+  private retentionMs: number | null;
+
+  constructor(config: InMemoryVesselRepositoryConfig = {}) {
+    this.historyConfig = config.history || {};
+    this.retentionMs = config.retentionMs ?? null;
+  }
+
+  /**
+   * Upsert vessel metadata by MMSI
+   * Fields missing from the update keep their stored values
+   */
+  async upsertVessel(vessel: ShipStaticData): Promise<Vessel> {
+    const decoded = decodeMMSI(vessel.mmsi);
+    const existing = this.vessels.get(vessel.mmsi);
+    const now = new Date();
+
+    const updated: Vessel = {
+      mmsi: vessel.mmsi,
+      imoNumber: vessel.imo || existing?.imoNumber,
+      name: vessel.name || existing?.name,
+      callSign: vessel.callSign || existing?.callSign,
+      vesselType: vessel.type || existing?.vesselType,
+      dimensionA: vessel.dimensions?.a || existing?.dimensionA,
+      dimensionB: vessel.dimensions?.b || existing?.dimensionB,
+      dimensionC: vessel.dimensions?.c || existing?.dimensionC,
+      dimensionD: vessel.dimensions?.d || existing?.dimensionD,
+      draught: vessel.draught || existing?.draught,
+      destination: vessel.destination || existing?.destination,
+      eta: vessel.eta || existing?.eta,
+      aisClass: vessel.aisClass || existing?.aisClass,
+      flag: decoded.flag || undefined,
+      flagCountry: decoded.flag ? decoded.country || undefined : undefined,
+      stationCategory: decoded.category,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+
+    this.recordStaticChanges(existing, updated, now);
+    this.vessels.set(vessel.mmsi, updated);
+    return { ...updated };
+  }
+
+  /**
+   * Create placeholder vessel records for MMSIs seen in position reports
+   * Existing vessels are left untouched; returns the number of stubs created
+   */
+  async insertVesselStubs(stubs: VesselStub[]): Promise<number> {
+    let created = 0;
+    for (const stub of stubs) {
+      if (this.vessels.has(stub.mmsi)) {
+        continue;
+      }
+      const decoded = decodeMMSI(stub.mmsi);
+      const now = new Date();
+      this.vessels.set(stub.mmsi, {
+        mmsi: stub.mmsi,
+        aisClass: stub.aisClass,
+        flag: decoded.flag || undefined,
+        flagCountry: decoded.flag ? decoded.country || undefined : undefined,
+        stationCategory: decoded.category,
+        createdAt: now,
+        updatedAt: now,
+      });
+      created++;
+    }
+    return created;
+  }
+
+  /**
+   * Store position reports
+   * Duplicates on (mmsi, timestamp) and positions for unknown vessels are skipped
+   * Returns the number of position reports stored
+   */
+  async batchInsertPositions(positions: PositionReport[]): Promise<number> {
+    let inserted = 0;
+    const touched = new Set<string>();
+
+    for (const position of positions) {
+      if (!this.vessels.has(position.mmsi)) {
+        continue;
+      }
+      let track = this.tracks.get(position.mmsi);
+      if (!track) {
+        track = [];
+        this.tracks.set(position.mmsi, track);
+      }
+
+      // Keep the track in time order and skip reports already stored
+      const time = position.timestamp.getTime();
+      const index = lowerBound(track, time);
+      if (index < track.length && track[index].timestamp.getTime() === time) {
+        continue;
+      }
+      track.splice(index, 0, {
+        mmsi: position.mmsi,
+        timestamp: new Date(time),
+        latitude: position.latitude,
+        longitude: position.longitude,
+        sog: position.sog,
+        cog: position.cog,
+        true_heading: position.true_heading,
+        navigational_status: position.navigational_status,
+        rate_of_turn: position.rate_of_turn,
+        altitude: position.altitude,
+      });
+      touched.add(position.mmsi);
+      inserted++;
+    }
+
+    if (this.retentionMs !== null) {
+      const cutoff = Date.now() - this.retentionMs;
+      for (const mmsi of touched) {
+        const track = this.tracks.get(mmsi) ?? [];
+        track.splice(0, lowerBound(track, cutoff));
+      }
+    }
+
+    return inserted;
+  }
+
+  /**
+   * Query vessels with various filters, most recently reported first
+   * Position filters apply to each vessel's latest position
+   */
+  async queryVessels(criteria: VesselQuery): Promise<VesselWithPosition[]> {
+    const conditions: ((vessel: VesselWithPosition) => boolean)[] = [];
+    // Conditions on the latest position; vessels without one never match
+    const positionConditions: ((position: PositionReport, vessel: Vessel) => boolean)[] = [];
+
+    if (criteria.mmsi) {
+      conditions.push((vessel) => vessel.mmsi === criteria.mmsi);
+    }
+
+    if (criteria.name) {
+      const name = criteria.name;
+      conditions.push((vessel) => containsIgnoringCase(vessel.name, name));
+    }
+
+    if (criteria.type !== undefined) {
+      conditions.push((vessel) => vessel.vesselType === criteria.type);
+    }
+
+    if (criteria.aisClass) {
+      conditions.push((vessel) => vessel.aisClass === criteria.aisClass);
+    }
+
+    if (criteria.flag) {
+      conditions.push((vessel) => vessel.flag === criteria.flag);
+    }
+
+    if (criteria.category) {
+      conditions.push((vessel) => vessel.stationCategory === criteria.category);
+    }
+
+    if (criteria.hasPosition !== undefined) {
+      conditions.push((vessel) => !!vessel.position === criteria.hasPosition);
+    }
+
+    if (criteria.maxPositionAgeHours !== undefined) {
+      const minTimestamp = Date.now() - criteria.maxPositionAgeHours * 60 * 60 * 1000;
+      positionConditions.push((position) => position.timestamp.getTime() > minTimestamp);
+    }
+
+    if (criteria.bbox) {
+      const bbox = criteria.bbox;
+      positionConditions.push((position) =>
+        isInBoundingBox(position.latitude, position.longitude, bbox)
+      );
+    }
+
+    if (criteria.radius) {
+      const { latitude, longitude, radiusNm } = criteria.radius;
+      positionConditions.push(
+        (position) =>
+          distanceToLineNm(position.latitude, position.longitude, [[longitude, latitude]]) <=
+          radiusNm
+      );
+    }
+
+    if (criteria.area) {
+      const area = criteria.area;
+      positionConditions.push((position) =>
+        isPointInArea(position.latitude, position.longitude, area)
+      );
+    }
+
+    if (criteria.nearTrack?.line) {
+      const { line, distanceNm } = criteria.nearTrack;
+      positionConditions.push(
+        (position) =>
+          distanceToLineNm(position.latitude, position.longitude, line.coordinates) <= distanceNm
+      );
+    } else if (criteria.nearTrack?.mmsi) {
+      // The track vessel's reports joined in time order; a vessel without reports matches nothing
+      const { mmsi, startTime, endTime, distanceNm } = criteria.nearTrack;
+      const line = this.fixesBetween(this.tracks.get(mmsi) || [], startTime, endTime).map((fix) => [
+        fix.longitude,
+        fix.latitude,
+      ]);
+      positionConditions.push(
+        (position, vessel) =>
+          vessel.mmsi !== mmsi &&
+          distanceToLineNm(position.latitude, position.longitude, line) <= distanceNm
+      );
+    }
+
+    if (criteria.speedMin !== undefined) {
+      const speedMin = criteria.speedMin;
+      positionConditions.push((position) => position.sog !== undefined && position.sog >= speedMin);
+    }
+
+    if (criteria.speedMax !== undefined) {
+      const speedMax = criteria.speedMax;
+      positionConditions.push((position) => position.sog !== undefined && position.sog <= speedMax);
+    }
+
+    if (positionConditions.length > 0) {
+      conditions.push((vessel) => {
+        const position = vessel.position;
+        return !!position && positionConditions.every((condition) => condition(position, vessel));
+      });
+    }
+
+    const limit = criteria.limit || 1000;
+    const offset = criteria.offset || 0;
+
+    return this.allWithPosition()
+      .filter((vessel) => conditions.every((condition) => condition(vessel)))
+      .sort(latestFirst)
+      .slice(offset, offset + limit);
+  }
+
+  async getVesselByMMSI(mmsi: string): Promise<Vessel | null> {
+    const vessel = this.vessels.get(mmsi);
+    return vessel ? { ...vessel } : null;
+  }
+
+  /**
+   * Get vessel with latest position by MMSI
+   */
+  async getVesselWithPositionByMMSI(mmsi: string): Promise<VesselWithPosition | null> {
+    const vessel = this.vessels.get(mmsi);
+    return vessel ? this.withLatestPosition(vessel) : null;
+  }
+
+  /**
+   * Get the position history of a vessel, oldest first
+   * With resolution 'auto' the source is picked from the range (see selectHistoryResolution);
+   * downsampled history keeps the last report per vessel per 10 minutes
+   */
+  async getVesselHistory(
+    mmsi: string,
+    startTime: Date,
+    endTime: Date,
+    resolution: HistoryResolution | 'auto' = 'auto',
+    page: HistoryPage = {}
+  ): Promise<PositionReport[]> {
+    const source =
+      resolution === 'auto' ? this.resolveHistoryResolution(startTime, endTime) : resolution;
+    const track = this.tracks.get(mmsi) || [];
+    let fixes = this.fixesBetween(
+      source === 'raw' ? track : this.downsample(track),
+      startTime,
+      endTime
+    );
+
+    if (page.after) {
+      const after = page.after.timestamp.getTime();
+      fixes = skipSeenFixes(
+        fixes.filter((fix) => fix.timestamp.getTime() >= after),
+        page.after
+      );
+    }
+    if (page.limit) {
+      fixes = fixes.slice(0, page.limit);
+    }
+    return fixes.map((fix) => ({ ...fix }));
+  }
+
+  /**
+   * Get the fixes of a vessel around a time: the latest at or before it and the earliest after it
+   * Fixes more than windowMs away are ignored
+   */
+  async getSurroundingPositions(
+    mmsi: string,
+    time: Date,
+    windowMs: number
+  ): Promise<{ before: PositionReport | null; after: PositionReport | null }> {
+    const track = this.tracks.get(mmsi) || [];
+    const index = lowerBound(track, time.getTime() + 1);
+    const before = track[index - 1];
+    const after = track[index];
+
+    return {
+      before:
+        before && time.getTime() - before.timestamp.getTime() <= windowMs ? { ...before } : null,
+      after: after && after.timestamp.getTime() - time.getTime() <= windowMs ? { ...after } : null,
+    };
+  }
+
+  /**
+   * Rebuild the last known position of every vessel in an area at a past time
+   * A vessel is included when its latest fix within the lookback lies in the area
+   */
+  async getSnapshot(criteria: SnapshotQuery): Promise<VesselWithPosition[]> {
+    const { time, lookbackMs, bbox, limit = 1000 } = criteria;
+    const start = new Date(time.getTime() - lookbackMs);
+    const source = this.resolveHistoryResolution(start, time);
+    const vessels: VesselWithPosition[] = [];
+
+    for (const [mmsi, track] of this.tracks) {
+      const fixes = this.fixesBetween(
+        source === 'raw' ? track : this.downsample(track),
+        start,
+        time
+      ).filter((fix) => fix.timestamp.getTime() > start.getTime());
+      const latest = fixes[fixes.length - 1];
+      const vessel = this.vessels.get(mmsi);
+      if (vessel && latest && isInBoundingBox(latest.latitude, latest.longitude, bbox)) {
+        vessels.push({ ...vessel, position: { ...latest } });
+      }
+    }
+
+    return vessels.sort((a, b) => a.mmsi.localeCompare(b.mmsi)).slice(0, limit);
+  }
+
+  /**
+   * Resolution that getVesselHistory uses for a range with resolution 'auto'
+   */
+  resolveHistoryResolution(startTime: Date, endTime: Date): HistoryResolution {
+    return selectHistoryResolution(startTime, endTime, this.historyConfig);
+  }
+
+  /**
+   * Get the static data change history of a vessel, most recent first
+   */
+  async getStaticHistory(
+    mmsi: string,
+    startTime?: Date,
+    endTime?: Date,
+    limit = 500
+  ): Promise<VesselStaticChange[]> {
+    return this.staticChanges
+      .filter(
+        (change) =>
+          change.mmsi === mmsi &&
+          (!startTime || change.changedAt >= startTime) &&
+          (!endTime || change.changedAt <= endTime)
+      )
+      .reverse()
+      .slice(0, limit)
+      .map((change) => ({ ...change }));
+  }
+
+  async getLatestPositions(limit = 1000): Promise<VesselWithPosition[]> {
+    return this.allWithPosition()
+      .filter((vessel) => vessel.position)
+      .sort(latestFirst)
+      .slice(0, limit);
+  }
+
+  /**
+   * Search vessels by name, MMSI or IMO number
+   * Exact MMSI matches come first, then vessels with recent positions
+   */
+  async searchVessels(searchTerm: string, limit = 100): Promise<VesselWithPosition[]> {
+    const term = searchTerm.trim();
+    const isExactMMSI = /^\d{9}$/.test(term);
+
+    return this.allWithPosition()
+      .filter((vessel) =>
+        isExactMMSI
+          ? vessel.mmsi === term
+          : containsIgnoringCase(vessel.name, searchTerm) ||
+            vessel.mmsi.includes(searchTerm) ||
+            (vessel.imoNumber !== undefined && String(vessel.imoNumber).includes(searchTerm))
+      )
+      .sort((a, b) => Number(a.mmsi !== term) - Number(b.mmsi !== term) || latestFirst(a, b))
+      .slice(0, limit);
+  }
+
+  /**
+   * Get vessel by IMO number
+   */
+  async getVesselByIMO(imoNumber: string): Promise<Vessel | null> {
+    const vessel = this.findByIMO(imoNumber);
+    return vessel ? { ...vessel } : null;
+  }
+
+  /**
+   * Get vessel with latest position by IMO number
+   */
+  async getVesselWithPositionByIMO(imoNumber: string): Promise<VesselWithPosition | null> {
+    const vessel = this.findByIMO(imoNumber);
+    return vessel ? this.withLatestPosition(vessel) : null;
+  }
+
+  async getVesselsInBounds(
+    minLat: number,
+    maxLat: number,
+    minLon: number,
+    maxLon: number,
+    limit = 1000
+  ): Promise<VesselWithPosition[]> {
+    return this.queryVessels({
+      bbox: { minLat, maxLat, minLon, maxLon },
+      limit,
+    });
+  }
+
+  async countPositions(mmsi: string, timestamp: Date): Promise<number> {
+    const track = this.tracks.get(mmsi) || [];
+    const index = lowerBound(track, timestamp.getTime());
+    return index < track.length && track[index].timestamp.getTime() === timestamp.getTime() ? 1 : 0;
+  }
+
+  async countVessels(): Promise<number> {
+    return this.vessels.size;
+  }
+
+  async countVesselsWithPosition(): Promise<number> {
+    return [...this.tracks.values()].filter((track) => track.length > 0).length;
+  }
+
+  async countVesselsWithRecentPosition(thresholdHours: number): Promise<number> {
+    const threshold = Date.now() - thresholdHours * 60 * 60 * 1000;
+    return [...this.tracks.values()].filter(
+      (track) => track.length > 0 && track[track.length - 1].timestamp.getTime() > threshold
+    ).length;
+  }
+
+  async getLatestPositionTimestamp(): Promise<Date | null> {
+    let latest: number | null = null;
+    for (const track of this.tracks.values()) {
+      if (track.length > 0) {
+        latest = Math.max(latest ?? -Infinity, track[track.length - 1].timestamp.getTime());
+      }
+    }
+    return latest === null ? null : new Date(latest);
+  }
+
+  async countPositionReports(startTime: Date, endTime: Date): Promise<number> {
+    let count = 0;
+    for (const track of this.tracks.values()) {
+      count += this.fixesBetween(track, startTime, endTime).length;
+    }
+    return count;
+  }
+
+  /**
+   * Append the changed static fields of a vessel to its change history
+   * Fields seen for the first time are not changes; an IMO number already known under
+   * another MMSI records a re-registration ('mmsi', and 'flag' when it differs)
+   */
+  private recordStaticChanges(
+    existing: Vessel | undefined,
+    updated: Vessel,
+    changedAt: Date
+  ): void {
+    const record = (field: string, oldValue: string | null, newValue: string | null) => {
+      this.staticChanges.push({ mmsi: updated.mmsi, field, oldValue, newValue, changedAt });
+    };
+
+    if (existing) {
+      for (const [field, read] of TRACKED_FIELDS) {
+        const oldValue = toText(read(existing));
+        const newValue = toText(read(updated));
+        if (oldValue !== null && oldValue !== newValue) {
+          record(field, oldValue, newValue);
+        }
+      }
+
+      const oldDimensions = dimensionsText(existing);
+      const newDimensions = dimensionsText(updated);
+      if (oldDimensions !== null && oldDimensions !== newDimensions) {
+        record('dimensions', oldDimensions, newDimensions);
+      }
+    }
+
+    if (updated.imoNumber !== undefined && existing?.imoNumber !== updated.imoNumber) {
+      const previous = [...this.vessels.values()]
+        .filter((vessel) => vessel.imoNumber === updated.imoNumber && vessel.mmsi !== updated.mmsi)
+        .sort((a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0))[0];
+
+      if (previous) {
+        record('mmsi', previous.mmsi, updated.mmsi);
+        if ((previous.flag ?? null) !== (updated.flag ?? null)) {
+          record('flag', previous.flag ?? null, updated.flag ?? null);
+        }
+      }
+    }
+  }
+
+  /**
+   * Fixes of a track between two times, inclusive; a missing bound is open
+   */
+  private fixesBetween(
+    track: PositionReport[],
+    startTime?: Date,
+    endTime?: Date
+  ): PositionReport[] {
+    const from = startTime ? lowerBound(track, startTime.getTime()) : 0;
+    const to = endTime ? lowerBound(track, endTime.getTime() + 1) : track.length;
+    return track.slice(from, to);
+  }
+
+  /**
+   * Last fix per 10 minute bucket, oldest first
+   */
+  private downsample(track: PositionReport[]): PositionReport[] {
+    return track.filter(
+      (fix, index) =>
+        index === track.length - 1 ||
+        Math.floor(track[index + 1].timestamp.getTime() / DOWNSAMPLE_BUCKET_MS) !==
+          Math.floor(fix.timestamp.getTime() / DOWNSAMPLE_BUCKET_MS)
+    );
+  }
+
+  private withLatestPosition(vessel: Vessel): VesselWithPosition {
+    const track = this.tracks.get(vessel.mmsi);
+    const latest = track && track[track.length - 1];
+    return latest ? { ...vessel, position: { ...latest } } : { ...vessel };
+  }
+
+  private allWithPosition(): VesselWithPosition[] {
+    return [...this.vessels.values()].map((vessel) => this.withLatestPosition(vessel));
+  }
+
+  private findByIMO(imoNumber: string): Vessel | undefined {
+    return [...this.vessels.values()].find(
+      (vessel) => vessel.imoNumber !== undefined && String(vessel.imoNumber) === imoNumber
+    );
+  }
+}
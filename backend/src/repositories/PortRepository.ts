@@ -0,0 +1,210 @@
+import { Pool } from 'pg';
+import { OpenPortCall, Port, PortCall, PortCallQuery, PortCallType } from '../types';
+import { createComponentLogger, DatabaseError, parseGeoJsonArea } from '../utils';
+
+/**
+ * PortRepository reads the ports table and stores the port calls
+ * detected by PortCallDetector
+ */
+export class PortRepository {
+  private logger = createComponentLogger('PortRepository');
+
+  constructor(private pool: Pool) {}
+
+  /**
+   * Get all ports with their areas as GeoJSON
+   */
+  async getPorts(): Promise<Port[]> {
+    const query = `
+      SELECT locode, name, country, latitude, longitude, radius_nm,
+             ST_AsGeoJSON(area)::json AS area
+      FROM ports
+      ORDER BY locode;
+    `;
+
+    const result = await this.pool.query(query);
+    return result.rows.map((row) => this.mapRowToPort(row));
+  }
+
+  /**
+   * Get a port by UN/LOCODE
+   */
+  async getPortByLocode(locode: string): Promise<Port | null> {
+    const query = `
+      SELECT locode, name, country, latitude, longitude, radius_nm,
+             ST_AsGeoJSON(area)::json AS area
+      FROM ports
+      WHERE locode = $1;
+    `;
+
+    const result = await this.pool.query(query, [locode]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return this.mapRowToPort(result.rows[0]);
+  }
+
+  /**
+   * Record a vessel's arrival in port; the call stays open until closePortCall
+   * Returns the id of the new port call
+   */
+  async openPortCall(
+    mmsi: string,
+    locode: string,
+    arrival: Date,
+    callType: PortCallType | null
+  ): Promise<number> {
+    const query = `
+      INSERT INTO port_calls (mmsi, locode, arrival, call_type)
+      VALUES ($1, $2, $3, $4)
+      RETURNING id;
+    `;
+
+    try {
+      const result = await this.pool.query(query, [mmsi, locode, arrival, callType]);
+      return parseInt(result.rows[0].id, 10);
+    } catch (error) {
+      const dbError = new DatabaseError('Failed to open port call', {
+        mmsi,
+        locode,
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+      this.logger.logDatabaseError(dbError, 'openPortCall');
+      throw dbError;
+    }
+  }
+
+  /**
+   * Record a vessel's departure and where it stayed during the call
+   */
+  async closePortCall(id: number, departure: Date, callType: PortCallType | null): Promise<void> {
+    const query = `
+      UPDATE port_calls
+      SET departure = $2, call_type = $3
+      WHERE id = $1;
+    `;
+
+    try {
+      await this.pool.query(query, [id, departure, callType]);
+    } catch (error) {
+      const dbError = new DatabaseError('Failed to close port call', {
+        id,
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+      this.logger.logDatabaseError(dbError, 'closePortCall');
+      throw dbError;
+    }
+  }
+
+  /**
+   * Get the calls of vessels that are still in port, so detection can resume after a restart
+   * Each call comes with the time of the vessel's latest stored report inside the port area
+   */
+  async getOpenPortCalls(): Promise<OpenPortCall[]> {
+    const query = `
+      SELECT pc.*, p.name AS port_name,
+        (
+          SELECT MAX(pr.timestamp)
+          FROM position_reports pr
+          WHERE pr.mmsi = pc.mmsi
+            AND pr.timestamp >= pc.arrival
+            AND CASE
+              WHEN p.area IS NOT NULL THEN ST_Intersects(
+                p.area,
+                ST_SetSRID(ST_MakePoint(pr.longitude, pr.latitude), 4326)::geography
+              )
+              ELSE ST_DWithin(
+                ST_SetSRID(ST_MakePoint(p.longitude, p.latitude), 4326)::geography,
+                ST_SetSRID(ST_MakePoint(pr.longitude, pr.latitude), 4326)::geography,
+                p.radius_nm * 1852 -- meters per nautical mile
+              )
+            END
+        ) AS last_inside
+      FROM port_calls pc
+      JOIN ports p ON p.locode = pc.locode
+      WHERE pc.departure IS NULL;
+    `;
+
+    const result = await this.pool.query(query);
+    return result.rows.map((row) => {
+      const call = this.mapRowToPortCall(row);
+      return { ...call, lastInside: row.last_inside ?? call.arrival };
+    });
+  }
+
+  /**
+   * Get a vessel's port calls, most recent arrival first
+   */
+  async getPortCallsByVessel(mmsi: string, criteria: PortCallQuery = {}): Promise<PortCall[]> {
+    return this.queryPortCalls('pc.mmsi', mmsi, criteria);
+  }
+
+  /**
+   * Get the calls at a port, most recent arrival first
+   */
+  async getPortCallsByPort(locode: string, criteria: PortCallQuery = {}): Promise<PortCall[]> {
+    return this.queryPortCalls('pc.locode', locode, criteria);
+  }
+
+  private async queryPortCalls(
+    column: 'pc.mmsi' | 'pc.locode',
+    value: string,
+    criteria: PortCallQuery
+  ): Promise<PortCall[]> {
+    const conditions = [`${column} = $1`];
+    const values: unknown[] = [value];
+
+    if (criteria.startTime) {
+      values.push(criteria.startTime);
+      conditions.push(`(pc.departure IS NULL OR pc.departure >= $${values.length})`);
+    }
+
+    if (criteria.endTime) {
+      values.push(criteria.endTime);
+      conditions.push(`pc.arrival < $${values.length}`);
+    }
+
+    values.push(criteria.limit || 100, criteria.offset || 0);
+
+    const query = `
+      SELECT pc.*, p.name AS port_name
+      FROM port_calls pc
+      JOIN ports p ON p.locode = pc.locode
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY pc.arrival DESC, pc.id DESC
+      LIMIT $${values.length - 1} OFFSET $${values.length};
+    `;
+
+    const result = await this.pool.query(query, values);
+    return result.rows.map((row) => this.mapRowToPortCall(row));
+  }
+
+  private mapRowToPort(row: any): Port {
+    return {
+      locode: row.locode,
+      name: row.name,
+      country: row.country,
+      latitude: parseFloat(row.latitude),
+      longitude: parseFloat(row.longitude),
+      radiusNm: row.radius_nm !== null ? parseFloat(row.radius_nm) : undefined,
+      area: row.area ? parseGeoJsonArea(row.area) || undefined : undefined,
+    };
+  }
+
+  private mapRowToPortCall(row: any): PortCall {
+    const arrival: Date = row.arrival;
+    const departure: Date | null = row.departure ?? null;
+    return {
+      id: parseInt(row.id, 10),
+      mmsi: row.mmsi,
+      locode: row.locode,
+      portName: row.port_name ?? undefined,
+      arrival,
+      departure,
+      durationSeconds: departure
+        ? Math.round((departure.getTime() - arrival.getTime()) / 1000)
+        : null,
+      callType: row.call_type ?? null,
+    };
+  }
+}
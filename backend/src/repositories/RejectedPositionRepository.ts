@@ -0,0 +1,119 @@
+import { Pool } from 'pg';
+import { RejectedPosition, RejectedPositionQuery } from '../types';
+import { createComponentLogger, DatabaseError } from '../utils';
+
+/**
+ * RejectedPositionRepository keeps position reports quarantined by the
+ * plausibility filter, so they can be reviewed without polluting position_reports
+ */
+export class RejectedPositionRepository {
+  private logger = createComponentLogger('RejectedPositionRepository');
+
+  constructor(private pool: Pool) {}
+
+  /**
+   * Store a quarantined position report
+   */
+  async insertRejectedPosition(rejected: RejectedPosition): Promise<void> {
+    const { position } = rejected;
+    const query = `
+      INSERT INTO rejected_positions (
+        mmsi, timestamp, latitude, longitude, sog, cog, true_heading,
+        navigational_status, altitude, reason, implied_speed, speed_limit,
+        distance_nm, elapsed_seconds, previous_latitude, previous_longitude,
+        previous_timestamp
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17);
+    `;
+
+    const values = [
+      position.mmsi,
+      position.timestamp,
+      position.latitude,
+      position.longitude,
+      position.sog ?? null,
+      position.cog ?? null,
+      position.true_heading ?? null,
+      position.navigational_status ?? null,
+      position.altitude ?? null,
+      rejected.reason,
+      rejected.impliedSpeedKnots,
+      rejected.limitKnots,
+      rejected.distanceNm,
+      rejected.elapsedSeconds,
+      rejected.previousLatitude,
+      rejected.previousLongitude,
+      rejected.previousTimestamp,
+    ];
+
+    try {
+      await this.pool.query(query, values);
+    } catch (error) {
+      const dbError = new DatabaseError('Failed to store rejected position', {
+        mmsi: position.mmsi,
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+      this.logger.logDatabaseError(dbError, 'insertRejectedPosition');
+      throw dbError;
+    }
+  }
+
+  /**
+   * Query quarantined position reports, most recent first
+   */
+  async queryRejectedPositions(criteria: RejectedPositionQuery = {}): Promise<RejectedPosition[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    if (criteria.mmsi) {
+      values.push(criteria.mmsi);
+      conditions.push(`mmsi = $${values.length}`);
+    }
+
+    if (criteria.reason) {
+      values.push(criteria.reason);
+      conditions.push(`reason = $${values.length}`);
+    }
+
+    values.push(criteria.limit || 100, criteria.offset || 0);
+
+    const query = `
+      SELECT * FROM rejected_positions
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY timestamp DESC, id DESC
+      LIMIT $${values.length - 1} OFFSET $${values.length};
+    `;
+
+    const result = await this.pool.query(query, values);
+    return result.rows.map((row) => this.mapRowToRejectedPosition(row));
+  }
+
+  private mapRowToRejectedPosition(row: any): RejectedPosition {
+    const optionalNumber = (value: unknown): number | undefined =>
+      value === null || value === undefined ? undefined : parseFloat(String(value));
+
+    return {
+      id: parseInt(row.id, 10),
+      position: {
+        mmsi: row.mmsi,
+        timestamp: row.timestamp,
+        latitude: parseFloat(row.latitude),
+        longitude: parseFloat(row.longitude),
+        sog: optionalNumber(row.sog),
+        cog: optionalNumber(row.cog),
+        true_heading: row.true_heading ?? undefined,
+        navigational_status: row.navigational_status ?? undefined,
+        altitude: row.altitude ?? undefined,
+      },
+      reason: row.reason,
+      impliedSpeedKnots: parseFloat(row.implied_speed),
+      limitKnots: parseFloat(row.speed_limit),
+      distanceNm: parseFloat(row.distance_nm),
+      elapsedSeconds: parseFloat(row.elapsed_seconds),
+      previousLatitude: parseFloat(row.previous_latitude),
+      previousLongitude: parseFloat(row.previous_longitude),
+      previousTimestamp: row.previous_timestamp,
+      createdAt: row.created_at,
+    };
+  }
+}
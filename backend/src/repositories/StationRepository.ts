@@ -0,0 +1,243 @@
+import { Pool } from 'pg';
+import {
+  AidToNavigation,
+  AidToNavigationReport,
+  BaseStation,
+  BaseStationReport,
+  BoundingBox,
+} from '../types';
+import { createComponentLogger, crossesAntimeridian, DatabaseError } from '../utils';
+
+/**
+ * Query options for fixed stations
+ */
+export interface StationQuery {
+  bbox?: BoundingBox;
+  name?: string; // Aids to navigation only
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * StationRepository persists fixed AIS stations: base stations and aids to navigation
+ * Each station keeps only its latest report
+ */
+export class StationRepository {
+  private logger = createComponentLogger('StationRepository');
+
+  constructor(private pool: Pool) {}
+
+  /**
+   * Upsert a base station by MMSI
+   */
+  async upsertBaseStation(report: BaseStationReport): Promise<BaseStation> {
+    const query = `
+      INSERT INTO base_stations (mmsi, latitude, longitude, fix_type, station_time, last_seen)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (mmsi)
+      DO UPDATE SET
+        latitude = EXCLUDED.latitude,
+        longitude = EXCLUDED.longitude,
+        fix_type = COALESCE(EXCLUDED.fix_type, base_stations.fix_type),
+        station_time = COALESCE(EXCLUDED.station_time, base_stations.station_time),
+        last_seen = GREATEST(EXCLUDED.last_seen, base_stations.last_seen)
+      RETURNING *;
+    `;
+
+    const values = [
+      report.mmsi,
+      report.latitude,
+      report.longitude,
+      report.fixType ?? null,
+      report.stationTime || null,
+      report.timestamp,
+    ];
+
+    try {
+      const result = await this.pool.query(query, values);
+      return this.mapRowToBaseStation(result.rows[0]);
+    } catch (error) {
+      const dbError = new DatabaseError('Failed to upsert base station', {
+        mmsi: report.mmsi,
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+      this.logger.logDatabaseError(dbError, 'upsertBaseStation');
+      throw dbError;
+    }
+  }
+
+  /**
+   * Upsert an aid to navigation by MMSI
+   */
+  async upsertAidToNavigation(report: AidToNavigationReport): Promise<AidToNavigation> {
+    const query = `
+      INSERT INTO aids_to_navigation (
+        mmsi, name, aid_type, latitude, longitude,
+        dimension_a, dimension_b, dimension_c, dimension_d,
+        is_virtual, off_position, last_seen
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      ON CONFLICT (mmsi)
+      DO UPDATE SET
+        name = COALESCE(EXCLUDED.name, aids_to_navigation.name),
+        aid_type = COALESCE(EXCLUDED.aid_type, aids_to_navigation.aid_type),
+        latitude = EXCLUDED.latitude,
+        longitude = EXCLUDED.longitude,
+        dimension_a = COALESCE(EXCLUDED.dimension_a, aids_to_navigation.dimension_a),
+        dimension_b = COALESCE(EXCLUDED.dimension_b, aids_to_navigation.dimension_b),
+        dimension_c = COALESCE(EXCLUDED.dimension_c, aids_to_navigation.dimension_c),
+        dimension_d = COALESCE(EXCLUDED.dimension_d, aids_to_navigation.dimension_d),
+        is_virtual = COALESCE(EXCLUDED.is_virtual, aids_to_navigation.is_virtual),
+        off_position = COALESCE(EXCLUDED.off_position, aids_to_navigation.off_position),
+        last_seen = GREATEST(EXCLUDED.last_seen, aids_to_navigation.last_seen)
+      RETURNING *;
+    `;
+
+    const values = [
+      report.mmsi,
+      report.name || null,
+      report.aidType ?? null,
+      report.latitude,
+      report.longitude,
+      report.dimensions?.a ?? null,
+      report.dimensions?.b ?? null,
+      report.dimensions?.c ?? null,
+      report.dimensions?.d ?? null,
+      report.virtual ?? null,
+      report.offPosition ?? null,
+      report.timestamp,
+    ];
+
+    try {
+      const result = await this.pool.query(query, values);
+      return this.mapRowToAidToNavigation(result.rows[0]);
+    } catch (error) {
+      const dbError = new DatabaseError('Failed to upsert aid to navigation', {
+        mmsi: report.mmsi,
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+      this.logger.logDatabaseError(dbError, 'upsertAidToNavigation');
+      throw dbError;
+    }
+  }
+
+  /**
+   * Query base stations, most recently seen first
+   */
+  async queryBaseStations(criteria: StationQuery = {}): Promise<BaseStation[]> {
+    const { whereClause, values } = this.buildConditions(criteria, false);
+    values.push(criteria.limit || 1000, criteria.offset || 0);
+
+    const query = `
+      SELECT * FROM base_stations
+      ${whereClause}
+      ORDER BY last_seen DESC
+      LIMIT $${values.length - 1} OFFSET $${values.length};
+    `;
+
+    const result = await this.pool.query(query, values);
+    return result.rows.map((row) => this.mapRowToBaseStation(row));
+  }
+
+  /**
+   * Query aids to navigation, most recently seen first
+   */
+  async queryAidsToNavigation(criteria: StationQuery = {}): Promise<AidToNavigation[]> {
+    const { whereClause, values } = this.buildConditions(criteria, true);
+    values.push(criteria.limit || 1000, criteria.offset || 0);
+
+    const query = `
+      SELECT * FROM aids_to_navigation
+      ${whereClause}
+      ORDER BY last_seen DESC
+      LIMIT $${values.length - 1} OFFSET $${values.length};
+    `;
+
+    const result = await this.pool.query(query, values);
+    return result.rows.map((row) => this.mapRowToAidToNavigation(row));
+  }
+
+  async getBaseStationByMMSI(mmsi: string): Promise<BaseStation | null> {
+    const result = await this.pool.query(`SELECT * FROM base_stations WHERE mmsi = $1;`, [mmsi]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return this.mapRowToBaseStation(result.rows[0]);
+  }
+
+  async getAidToNavigationByMMSI(mmsi: string): Promise<AidToNavigation | null> {
+    const result = await this.pool.query(`SELECT * FROM aids_to_navigation WHERE mmsi = $1;`, [
+      mmsi,
+    ]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return this.mapRowToAidToNavigation(result.rows[0]);
+  }
+
+  private buildConditions(
+    criteria: StationQuery,
+    allowName: boolean
+  ): { whereClause: string; values: unknown[] } {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    if (criteria.bbox) {
+      // A box crossing the antimeridian matches longitudes east of minLon or west of maxLon
+      const longitudeJoin = crossesAntimeridian(criteria.bbox) ? 'OR' : 'AND';
+      const index = values.length;
+      conditions.push(
+        `latitude BETWEEN $${index + 1} AND $${index + 2}
+        AND (longitude >= $${index + 3} ${longitudeJoin} longitude <= $${index + 4})`
+      );
+      values.push(
+        criteria.bbox.minLat,
+        criteria.bbox.maxLat,
+        criteria.bbox.minLon,
+        criteria.bbox.maxLon
+      );
+    }
+
+    if (allowName && criteria.name) {
+      conditions.push(`name ILIKE $${values.length + 1}`);
+      values.push(`%${criteria.name}%`);
+    }
+
+    return {
+      whereClause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      values,
+    };
+  }
+
+  private mapRowToBaseStation(row: any): BaseStation {
+    return {
+      mmsi: row.mmsi,
+      latitude: parseFloat(row.latitude),
+      longitude: parseFloat(row.longitude),
+      fixType: row.fix_type ?? undefined,
+      stationTime: row.station_time ?? undefined,
+      lastSeen: row.last_seen,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapRowToAidToNavigation(row: any): AidToNavigation {
+    return {
+      mmsi: row.mmsi,
+      name: row.name ?? undefined,
+      aidType: row.aid_type ?? undefined,
+      latitude: parseFloat(row.latitude),
+      longitude: parseFloat(row.longitude),
+      dimensionA: row.dimension_a ?? undefined,
+      dimensionB: row.dimension_b ?? undefined,
+      dimensionC: row.dimension_c ?? undefined,
+      dimensionD: row.dimension_d ?? undefined,
+      virtual: row.is_virtual ?? undefined,
+      offPosition: row.off_position ?? undefined,
+      lastSeen: row.last_seen,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
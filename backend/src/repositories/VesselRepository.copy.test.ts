@@ -0,0 +1,33 @@
+import { toCopyRow } from './VesselRepository';
+
+describe('toCopyRow', () => {
+  it('should encode a position report in COPY text format', () => {
+    const timestamp = new Date(2025, 11, 1, 10, 5, 7, 42);
+
+    const row = toCopyRow({
+      mmsi: '244670316',
+      timestamp,
+      latitude: 51.9,
+      longitude: 4.05,
+      sog: 12.5,
+      cog: 285,
+      true_heading: 290,
+      navigational_status: 0,
+    });
+
+    expect(row).toBe(
+      '244670316\t2025-12-01 10:05:07.042\t51.9\t4.05\t12.5\t285\t290\t0\t\\N\t\\N\n'
+    );
+  });
+
+  it('should escape characters that would break the row', () => {
+    const row = toCopyRow({
+      mmsi: 'a\tb\\c\nd',
+      timestamp: new Date(2025, 0, 1),
+      latitude: 0,
+      longitude: 0,
+    });
+
+    expect(row.startsWith('a\\tb\\\\c\\nd\t')).toBe(true);
+  });
+});
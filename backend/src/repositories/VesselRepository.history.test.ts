@@ -0,0 +1,139 @@
+import { Pool } from 'pg';
+import { VesselRepository, selectHistoryResolution } from './VesselRepository';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+describe('selectHistoryResolution', () => {
+  const now = new Date('2025-12-01T12:00:00Z');
+
+  it('should use raw positions for short, recent ranges', () => {
+    const start = new Date(now.getTime() - 24 * HOUR);
+    expect(selectHistoryResolution(start, now, {}, now)).toBe('raw');
+  });
+
+  it('should use downsampled positions for ranges longer than maxRawRangeMs', () => {
+    const start = new Date(now.getTime() - 3 * DAY);
+    expect(selectHistoryResolution(start, now, {}, now)).toBe('downsampled');
+    expect(selectHistoryResolution(start, now, { maxRawRangeMs: 7 * DAY }, now)).toBe('raw');
+  });
+
+  it('should use downsampled positions for ranges starting before raw retention', () => {
+    const start = new Date(now.getTime() - 31 * DAY);
+    const end = new Date(start.getTime() + 6 * HOUR);
+
+    expect(selectHistoryResolution(start, end, { rawRetentionMs: 30 * DAY }, now)).toBe(
+      'downsampled'
+    );
+    expect(selectHistoryResolution(start, end, { rawRetentionMs: null }, now)).toBe('raw');
+  });
+});
+
+describe('VesselRepository.getVesselHistory', () => {
+  let query: jest.Mock;
+  let repository: VesselRepository;
+
+  beforeEach(() => {
+    query = jest.fn().mockResolvedValue({
+      rows: [{ mmsi: '244670316', timestamp: new Date(), latitude: '51.9', longitude: '4.05' }],
+    });
+    repository = new VesselRepository({ query } as unknown as Pool, { maxRawRangeMs: 48 * HOUR });
+  });
+
+  it('should read position_reports for ranges within maxRawRangeMs', async () => {
+    const end = new Date();
+    await repository.getVesselHistory('244670316', new Date(end.getTime() - 6 * HOUR), end);
+
+    expect(query.mock.calls[0][0]).toContain('FROM position_reports\n');
+  });
+
+  it('should read the downsampled aggregate for long ranges', async () => {
+    const end = new Date();
+    const history = await repository.getVesselHistory(
+      '244670316',
+      new Date(end.getTime() - 30 * DAY),
+      end
+    );
+
+    expect(query.mock.calls[0][0]).toContain('FROM position_reports_10m');
+    expect(history[0]).toMatchObject({ mmsi: '244670316', latitude: 51.9, longitude: 4.05 });
+  });
+
+  it('should use the requested resolution instead of choosing one', async () => {
+    const end = new Date();
+    await repository.getVesselHistory(
+      '244670316',
+      new Date(end.getTime() - HOUR),
+      end,
+      'downsampled'
+    );
+
+    expect(query.mock.calls[0][0]).toContain('FROM position_reports_10m');
+  });
+
+  it('should read one page after the last fix of the previous page', async () => {
+    const end = new Date();
+    const start = new Date(end.getTime() - 30 * DAY);
+    const after = new Date(end.getTime() - 10 * DAY);
+    await repository.getVesselHistory('244670316', start, end, 'downsampled', {
+      after: { timestamp: after, seen: 1 },
+      limit: 500,
+    });
+
+    const [sql, values] = query.mock.calls[0];
+    expect(sql).toContain('timestamp >= $4');
+    expect(sql).toContain('LIMIT $5');
+    expect(values).toEqual(['244670316', start, end, after, 501]);
+  });
+});
+
+describe('VesselRepository.getSnapshot', () => {
+  let query: jest.Mock;
+  const northSea = { minLat: 50, maxLat: 55, minLon: 0, maxLon: 5 };
+
+  beforeEach(() => {
+    query = jest.fn().mockResolvedValue({
+      rows: [
+        {
+          mmsi: '244670316',
+          name: 'MAASSTROOM',
+          timestamp: new Date(),
+          latitude: '51.9',
+          longitude: '4.05',
+        },
+      ],
+    });
+  });
+
+  it('should rebuild the last position of each vessel from raw positions', async () => {
+    const repository = new VesselRepository({ query } as unknown as Pool);
+    const time = new Date(Date.now() - 6 * HOUR);
+    const vessels = await repository.getSnapshot({ time, lookbackMs: HOUR, bbox: northSea });
+
+    const [sql, values] = query.mock.calls[0];
+    expect(sql).toContain('FROM position_reports p');
+    expect(sql).toContain('CROSS JOIN LATERAL');
+    expect(values).toEqual([new Date(time.getTime() - HOUR), time, 50, 55, 0, 5, 1000]);
+    expect(vessels[0]).toMatchObject({
+      mmsi: '244670316',
+      name: 'MAASSTROOM',
+      position: { latitude: 51.9, longitude: 4.05 },
+    });
+  });
+
+  it('should read downsampled positions past raw retention and cross the antimeridian', async () => {
+    const repository = new VesselRepository({ query } as unknown as Pool, {
+      rawRetentionMs: 30 * DAY,
+    });
+    await repository.getSnapshot({
+      time: new Date(Date.now() - 60 * DAY),
+      lookbackMs: HOUR,
+      bbox: { minLat: -20, maxLat: -10, minLon: 170, maxLon: -170 },
+    });
+
+    const [sql] = query.mock.calls[0];
+    expect(sql).toContain('FROM position_reports_10m p');
+    expect(sql).toContain('ORDER BY bucket DESC');
+    expect(sql).toContain('lp.longitude >= $5 OR lp.longitude <= $6');
+  });
+});
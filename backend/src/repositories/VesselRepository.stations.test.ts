@@ -0,0 +1,66 @@
+import { Pool } from 'pg';
+import { VesselRepository } from './VesselRepository';
+import { AISStreamParser } from '../services/AISStreamParser';
+import { BaseStationReport } from '../types';
+
+/**
+ * Parse an AISStream base station report from a Dutch coast station
+ * AISStream sends the MMSI 002442000 as the number 2442000
+ */
+function parseCoastStation(): BaseStationReport {
+  const parser = new AISStreamParser();
+  const reports: BaseStationReport[] = [];
+  parser.on('baseStation', (report) => reports.push(report));
+  parser.parse(
+    JSON.stringify({
+      MessageType: 'BaseStationReport',
+      Message: {
+        BaseStationReport: { UserID: 2442000, Latitude: 51.98, Longitude: 4.12, FixType: 1 },
+      },
+      MetaData: { MMSI: 2442000, time_utc: '2025-12-01 10:30:00 +0000 UTC' },
+    })
+  );
+  return reports[0];
+}
+
+describe('VesselRepository - coast stations from AISStream', () => {
+  let query: jest.Mock;
+  let repository: VesselRepository;
+
+  beforeEach(() => {
+    query = jest.fn();
+    repository = new VesselRepository({ query } as unknown as Pool);
+  });
+
+  it('should stub a coast station with its category and flag', async () => {
+    query.mockResolvedValue({ rowCount: 1, rows: [] });
+    const { mmsi } = parseCoastStation();
+
+    await repository.insertVesselStubs([{ mmsi }]);
+
+    const [mmsis, aisClasses, flags, categories] = query.mock.calls[0][1];
+    expect(mmsis).toEqual(['002442000']);
+    expect(aisClasses).toEqual([null]);
+    expect(flags).toEqual(['NL']);
+    expect(categories).toEqual(['coast_station']);
+  });
+
+  it('should upsert a coast station with its category and flag', async () => {
+    query.mockResolvedValue({
+      rows: [{ mmsi: '002442000', flag: 'NL', station_category: 'coast_station' }],
+    });
+    const { mmsi } = parseCoastStation();
+
+    const vessel = await repository.upsertVessel({ mmsi });
+
+    const values = query.mock.calls[0][1];
+    expect(values[0]).toBe('002442000');
+    expect(values.slice(-2)).toEqual(['NL', 'coast_station']);
+    expect(vessel).toMatchObject({
+      mmsi: '002442000',
+      flag: 'NL',
+      flagCountry: 'Netherlands',
+      stationCategory: 'coast_station',
+    });
+  });
+});
@@ -121,6 +121,56 @@ describe('VesselRepository', () => {
 
       expect(count).toBe(1);
     });
+
+    it('should skip positions for unknown vessels and keep the newest as latest position', async () => {
+      const inserted = await repository.batchInsertPositions([
+        {
+          mmsi: '123456789',
+          timestamp: new Date('2025-12-01T12:05:00Z'),
+          latitude: 37.8,
+          longitude: -122.4,
+        },
+        {
+          mmsi: '123456789',
+          timestamp: new Date('2025-12-01T12:00:00Z'),
+          latitude: 37.7,
+          longitude: -122.5,
+        },
+        {
+          mmsi: '987654000',
+          timestamp: new Date('2025-12-01T12:00:00Z'),
+          latitude: 37.7,
+          longitude: -122.5,
+        },
+      ]);
+
+      expect(inserted).toBe(2);
+
+      const latest = await pool.query(
+        'SELECT latitude FROM vessel_latest_positions WHERE mmsi = $1',
+        ['123456789']
+      );
+      expect(parseFloat(latest.rows[0].latitude)).toBeCloseTo(37.8);
+    });
+  });
+
+  describe('insertVesselStubs', () => {
+    it('should create placeholders without touching existing vessels', async () => {
+      await pool.query('DELETE FROM vessels WHERE mmsi = $1', ['244670999']);
+
+      const created = await repository.insertVesselStubs([
+        { mmsi: '123456789', aisClass: 'B' },
+        { mmsi: '244670999', aisClass: 'A' },
+      ]);
+
+      expect(created).toBe(1);
+
+      const existing = await repository.getVesselByMMSI('123456789');
+      expect(existing?.name).toBe('Test Vessel');
+
+      const stub = await repository.getVesselByMMSI('244670999');
+      expect(stub).toMatchObject({ aisClass: 'A', flag: 'NL', stationCategory: 'ship' });
+    });
   });
 
   describe('queryVessels', () => {
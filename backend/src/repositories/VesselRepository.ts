@@ -1,30 +1,144 @@
 import { Pool } from 'pg';
+import { from as copyFrom } from 'pg-copy-streams';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import {
   Vessel,
   PositionReport,
   VesselQuery,
   VesselWithPosition,
+  VesselStaticChange,
   ShipStaticData,
+  VesselStub,
+  SnapshotQuery,
 } from '../types';
-import { createComponentLogger, DatabaseError } from '../utils';
+import { DOWNSAMPLED_POSITIONS_VIEW } from '../db/StoragePolicyManager';
+import {
+  createComponentLogger,
+  crossesAntimeridian,
+  DatabaseError,
+  decodeMMSI,
+  isPgError,
+  nauticalMilesToMeters,
+  skipSeenFixes,
+  TrackCursor,
+} from '../utils';
+import { VesselStore } from './VesselStore';
+
+const POSITION_COLUMNS =
+  'mmsi, timestamp, latitude, longitude, sog, cog, true_heading, navigational_status, rate_of_turn, altitude';
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+/**
+ * Format a value for PostgreSQL's COPY text format
+ * Dates are written in local time, the same way node-postgres sends TIMESTAMP parameters
+ */
+function toCopyValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '\\N';
+  }
+  if (value instanceof Date) {
+    return (
+      `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())} ` +
+      `${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}` +
+      `.${pad(value.getMilliseconds(), 3)}`
+    );
+  }
+  return String(value).replace(/[\\\t\n\r]/g, (char) =>
+    char === '\\' ? '\\\\' : char === '\t' ? '\\t' : char === '\n' ? '\\n' : '\\r'
+  );
+}
+
+/**
+ * Encode a position report as one COPY row, in POSITION_COLUMNS order
+ */
+export function toCopyRow(pos: PositionReport): string {
+  return (
+    [
+      pos.mmsi,
+      pos.timestamp,
+      pos.latitude,
+      pos.longitude,
+      pos.sog,
+      pos.cog,
+      pos.true_heading,
+      pos.navigational_status,
+      pos.rate_of_turn,
+      pos.altitude,
+    ]
+      .map(toCopyValue)
+      .join('\t') + '\n'
+  );
+}
+
+/**
+ * Source of a position history
+ * - raw: every stored report from position_reports
+ * - downsampled: the last report per vessel per 10 minutes, from position_reports_10m
+ */
+export type HistoryResolution = 'raw' | 'downsampled';
+
+/**
+ * Configuration for choosing between raw and downsampled position history
+ */
+export interface PositionHistoryConfig {
+  /** Ranges longer than this read downsampled positions (default: 48 hours) */
+  maxRawRangeMs?: number;
+  /** How long raw positions are kept; ranges starting earlier read downsampled positions (default: forever) */
+  rawRetentionMs?: number | null;
+}
+
+/**
+ * One page of a position history, for reading long histories in chunks
+ */
+export interface HistoryPage {
+  /** Only fixes after this cursor, i.e. where the previous page ended */
+  after?: TrackCursor;
+  /** Maximum number of fixes */
+  limit?: number;
+}
 
-export class VesselRepository {
+const DEFAULT_MAX_RAW_RANGE_MS = 48 * 60 * 60 * 1000;
+
+/**
+ * Pick raw positions for short, recent ranges and downsampled positions for long ranges
+ * or ranges reaching back past raw retention
+ */
+export function selectHistoryResolution(
+  startTime: Date,
+  endTime: Date,
+  config: PositionHistoryConfig = {},
+  now: Date = new Date()
+): HistoryResolution {
+  const maxRawRangeMs = config.maxRawRangeMs ?? DEFAULT_MAX_RAW_RANGE_MS;
+  if (endTime.getTime() - startTime.getTime() > maxRawRangeMs) {
+    return 'downsampled';
+  }
+  if (config.rawRetentionMs && startTime.getTime() < now.getTime() - config.rawRetentionMs) {
+    return 'downsampled';
+  }
+  return 'raw';
+}
+
+export class VesselRepository implements VesselStore {
   private logger = createComponentLogger('VesselRepository');
 
-  constructor(private pool: Pool) {}
+  constructor(private pool: Pool, private historyConfig: PositionHistoryConfig = {}) {}
 
   /**
    * Upsert vessel metadata by MMSI
    * If vessel exists, update metadata; otherwise insert new vessel
    */
   async upsertVessel(vessel: ShipStaticData): Promise<Vessel> {
+    const decoded = decodeMMSI(vessel.mmsi);
     const query = `
       INSERT INTO vessels (
         mmsi, imo_number, name, call_sign, vessel_type,
         dimension_a, dimension_b, dimension_c, dimension_d,
-        draught, destination, eta
+        draught, destination, eta, ais_class, flag, station_category
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
       ON CONFLICT (mmsi) 
       DO UPDATE SET
         imo_number = COALESCE(EXCLUDED.imo_number, vessels.imo_number),
@@ -38,6 +152,9 @@ export class VesselRepository {
         draught = COALESCE(EXCLUDED.draught, vessels.draught),
         destination = COALESCE(EXCLUDED.destination, vessels.destination),
         eta = COALESCE(EXCLUDED.eta, vessels.eta),
+        ais_class = COALESCE(EXCLUDED.ais_class, vessels.ais_class),
+        flag = EXCLUDED.flag,
+        station_category = EXCLUDED.station_category,
         updated_at = CURRENT_TIMESTAMP
       RETURNING *;
     `;
@@ -55,6 +172,9 @@ export class VesselRepository {
       vessel.draught || null,
       vessel.destination || null,
       vessel.eta || null,
+      vessel.aisClass || null,
+      decoded.flag,
+      decoded.category,
     ];
 
     try {
@@ -71,187 +191,141 @@ export class VesselRepository {
   }
 
   /**
-   * Batch insert position reports
-   * Uses ON CONFLICT to prevent duplicate entries based on (mmsi, timestamp)
-   * Pre-filters positions for vessels that exist to prevent foreign key violations
-   * Compatible with TimescaleDB hypertables
+   * Create placeholder vessel records for MMSIs seen in position reports
+   * Existing vessels are left untouched; returns the number of stubs created
    */
-  async batchInsertPositions(positions: PositionReport[]): Promise<void> {
-    if (positions.length === 0) {
-      return;
-    }
-
-    // PostgreSQL has a parameter limit of ~65535
-    // With 9 parameters per position, max batch size is ~1000 for safety
-    const MAX_BATCH_SIZE = 1000;
-
-    // If batch is too large, split it into smaller chunks
-    if (positions.length > MAX_BATCH_SIZE) {
-      this.logger.info('Batch size exceeds maximum, splitting into chunks', {
-        totalPositions: positions.length,
-        maxBatchSize: MAX_BATCH_SIZE,
-        chunks: Math.ceil(positions.length / MAX_BATCH_SIZE),
-      });
-
-      for (let i = 0; i < positions.length; i += MAX_BATCH_SIZE) {
-        const chunk = positions.slice(i, i + MAX_BATCH_SIZE);
-        await this.batchInsertPositions(chunk);
-      }
-      return;
+  async insertVesselStubs(stubs: VesselStub[]): Promise<number> {
+    if (stubs.length === 0) {
+      return 0;
     }
 
-    // First, get the list of existing vessel MMSIs to filter positions
-    const uniqueMMSIs = [...new Set(positions.map((p) => p.mmsi))];
-
-    let existingMMSIs: Set<string>;
-    try {
-      const existingVesselsQuery = `SELECT mmsi FROM vessels WHERE mmsi = ANY($1)`;
-      const existingResult = await this.pool.query(existingVesselsQuery, [uniqueMMSIs]);
-      existingMMSIs = new Set(existingResult.rows.map((r: { mmsi: string }) => r.mmsi));
-    } catch (error) {
-      this.logger.error('Failed to query existing vessels', error instanceof Error ? error : new Error(String(error)));
-      throw error;
+    const mmsis: string[] = [];
+    const aisClasses: (string | null)[] = [];
+    const flags: (string | null)[] = [];
+    const categories: string[] = [];
+
+    for (const stub of stubs) {
+      const decoded = decodeMMSI(stub.mmsi);
+      mmsis.push(stub.mmsi);
+      aisClasses.push(stub.aisClass || null);
+      flags.push(decoded.flag);
+      categories.push(decoded.category);
     }
 
-    // Filter positions to only include those with existing vessels
-    const validPositions = positions.filter((p) => existingMMSIs.has(p.mmsi));
-
-    if (validPositions.length === 0) {
-      this.logger.debug('No valid positions to insert (all vessels missing)', {
-        totalPositions: positions.length,
-        uniqueMMSIs: uniqueMMSIs.length,
-      });
-      return;
-    }
-
-    // Build values array for batch insert with proper $N placeholders
-    const values: any[] = [];
-    const placeholders: string[] = [];
-
-    validPositions.forEach((pos, index) => {
-      const offset = index * 9;
-      placeholders.push(
-        `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8}, $${offset + 9})`
-      );
-      values.push(
-        pos.mmsi,
-        pos.timestamp,
-        pos.latitude,
-        pos.longitude,
-        pos.sog ?? null,
-        pos.cog ?? null,
-        pos.true_heading ?? null,
-        pos.navigational_status ?? null,
-        pos.rate_of_turn ?? null
-      );
-    });
-
-    // Direct INSERT compatible with TimescaleDB hypertables
     const query = `
-      INSERT INTO position_reports (
-        mmsi, timestamp, latitude, longitude, sog, cog, 
-        true_heading, navigational_status, rate_of_turn
-      )
-      VALUES ${placeholders.join(', ')}
-      ON CONFLICT (mmsi, timestamp) DO NOTHING;
+      INSERT INTO vessels (mmsi, ais_class, flag, station_category)
+      SELECT * FROM unnest($1::varchar[], $2::char(1)[], $3::char(2)[], $4::varchar[])
+      ON CONFLICT (mmsi) DO NOTHING;
     `;
 
     try {
-      const result = await this.pool.query(query, values);
-
-      const inserted = result.rowCount || 0;
-      const skipped = positions.length - validPositions.length;
-
-      if (inserted > 0) {
-        this.logger.debug('Batch insert successful', {
-          inserted,
-          skippedMissingVessel: skipped,
-          total: positions.length,
-        });
-
-        // Manually update vessel_latest_positions table
-        // (needed when database doesn't support triggers)
-        await this.updateLatestPositions(validPositions);
-      }
+      const result = await this.pool.query(query, [mmsis, aisClasses, flags, categories]);
+      return result.rowCount || 0;
     } catch (error) {
-      console.error('Raw database error:', error);
-
-      const dbError = new DatabaseError('Failed to batch insert positions', {
-        batchSize: validPositions.length,
-        parameterCount: values.length,
+      const dbError = new DatabaseError('Failed to insert vessel stubs', {
+        count: stubs.length,
         originalError: error instanceof Error ? error.message : String(error),
-        errorCode: (error as any)?.code,
-        errorDetail: (error as any)?.detail,
+        errorCode: isPgError(error) ? error.code : undefined,
       });
-      this.logger.logDatabaseError(dbError, 'batchInsertPositions');
+      this.logger.logDatabaseError(dbError, 'insertVesselStubs');
       throw dbError;
     }
   }
 
   /**
-   * Update vessel_latest_positions table with new positions
-   * This is needed when the database doesn't support triggers
+   * Batch insert position reports
+   * Streams the batch into a session-local staging table with COPY, then moves it into
+   * position_reports and vessel_latest_positions with two set-based statements.
+   * Duplicates on (mmsi, timestamp) and positions for unknown vessels are skipped.
+   * Compatible with TimescaleDB hypertables
+   * Returns the number of position reports inserted
    */
-  private async updateLatestPositions(positions: PositionReport[]): Promise<void> {
-    if (positions.length === 0) return;
-
-    // Group positions by MMSI and keep only the latest for each vessel
-    const latestByMMSI = new Map<string, PositionReport>();
-    for (const pos of positions) {
-      const existing = latestByMMSI.get(pos.mmsi);
-      if (!existing || new Date(pos.timestamp) > new Date(existing.timestamp)) {
-        latestByMMSI.set(pos.mmsi, pos);
-      }
+  async batchInsertPositions(positions: PositionReport[]): Promise<number> {
+    if (positions.length === 0) {
+      return 0;
     }
 
-    const latestPositions = Array.from(latestByMMSI.values());
-    
-    // Build batch upsert query
-    const values: any[] = [];
-    const placeholders: string[] = [];
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Temp tables live per connection; ON COMMIT DELETE ROWS empties it for the next batch
+      await client.query(`
+        CREATE TEMP TABLE IF NOT EXISTS position_reports_staging (
+          mmsi VARCHAR(20) NOT NULL,
+          timestamp TIMESTAMP NOT NULL,
+          latitude DECIMAL(9,6) NOT NULL,
+          longitude DECIMAL(10,6) NOT NULL,
+          sog DECIMAL(4,1),
+          cog DECIMAL(5,1),
+          true_heading INTEGER,
+          navigational_status INTEGER,
+          rate_of_turn INTEGER,
+          altitude INTEGER
+        ) ON COMMIT DELETE ROWS;
+      `);
 
-    latestPositions.forEach((pos, index) => {
-      const offset = index * 8;
-      placeholders.push(
-        `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8})`
-      );
-      values.push(
-        pos.mmsi,
-        pos.timestamp,
-        pos.latitude,
-        pos.longitude,
-        pos.sog ?? null,
-        pos.cog ?? null,
-        pos.true_heading ?? null,
-        pos.navigational_status ?? null
+      await pipeline(
+        Readable.from(positions.map(toCopyRow)),
+        client.query(copyFrom(`COPY position_reports_staging (${POSITION_COLUMNS}) FROM STDIN`))
       );
-    });
 
-    const query = `
-      INSERT INTO vessel_latest_positions (
-        mmsi, timestamp, latitude, longitude, sog, cog, true_heading, navigational_status
-      )
-      VALUES ${placeholders.join(', ')}
-      ON CONFLICT (mmsi) DO UPDATE SET
-        timestamp = EXCLUDED.timestamp,
-        latitude = EXCLUDED.latitude,
-        longitude = EXCLUDED.longitude,
-        sog = EXCLUDED.sog,
-        cog = EXCLUDED.cog,
-        true_heading = EXCLUDED.true_heading,
-        navigational_status = EXCLUDED.navigational_status
-      WHERE EXCLUDED.timestamp > vessel_latest_positions.timestamp;
-    `;
+      // Insert new reports and fold the latest one per vessel into vessel_latest_positions
+      const result = await client.query(`
+        WITH inserted AS (
+          INSERT INTO position_reports (${POSITION_COLUMNS}, geog)
+          SELECT ${POSITION_COLUMNS},
+            ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography
+          FROM position_reports_staging s
+          WHERE EXISTS (SELECT 1 FROM vessels v WHERE v.mmsi = s.mmsi)
+          ON CONFLICT (mmsi, timestamp) DO NOTHING
+          RETURNING mmsi, timestamp, latitude, longitude, sog, cog, true_heading, navigational_status
+        ),
+        latest AS (
+          INSERT INTO vessel_latest_positions (
+            mmsi, timestamp, latitude, longitude, sog, cog, true_heading, navigational_status
+          )
+          SELECT DISTINCT ON (mmsi) *
+          FROM inserted
+          ORDER BY mmsi, timestamp DESC
+          ON CONFLICT (mmsi) DO UPDATE SET
+            timestamp = EXCLUDED.timestamp,
+            latitude = EXCLUDED.latitude,
+            longitude = EXCLUDED.longitude,
+            sog = EXCLUDED.sog,
+            cog = EXCLUDED.cog,
+            true_heading = EXCLUDED.true_heading,
+            navigational_status = EXCLUDED.navigational_status
+          WHERE EXCLUDED.timestamp > vessel_latest_positions.timestamp
+        )
+        SELECT COUNT(*)::int AS inserted FROM inserted;
+      `);
 
-    try {
-      await this.pool.query(query, values);
+      await client.query('COMMIT');
+
+      const inserted: number = result.rows[0].inserted;
+      this.logger.debug('Batch insert successful', {
+        inserted,
+        skipped: positions.length - inserted,
+        total: positions.length,
+      });
+      return inserted;
     } catch (error) {
-      // Log but don't throw - this is a best-effort optimization
-      this.logger.error('Failed to update latest positions', error instanceof Error ? error : new Error(String(error)));
+      await client.query('ROLLBACK').catch(() => undefined);
+
+      const dbError = new DatabaseError('Failed to batch insert positions', {
+        batchSize: positions.length,
+        originalError: error instanceof Error ? error.message : String(error),
+        errorCode: isPgError(error) ? error.code : undefined,
+        errorDetail: isPgError(error) ? error.detail : undefined,
+      });
+      this.logger.logDatabaseError(dbError, 'batchInsertPositions');
+      throw dbError;
+    } finally {
+      client.release();
     }
   }
 
-
   /**
    * Query vessels with various filters
    * Uses latest_vessel_positions view to ensure only current positions are considered
@@ -278,6 +352,21 @@ export class VesselRepository {
       values.push(criteria.type);
     }
 
+    if (criteria.aisClass) {
+      conditions.push(`v.ais_class = $${paramIndex++}`);
+      values.push(criteria.aisClass);
+    }
+
+    if (criteria.flag) {
+      conditions.push(`v.flag = $${paramIndex++}`);
+      values.push(criteria.flag);
+    }
+
+    if (criteria.category) {
+      conditions.push(`v.station_category = $${paramIndex++}`);
+      values.push(criteria.category);
+    }
+
     if (criteria.hasPosition !== undefined) {
       if (criteria.hasPosition) {
         conditions.push(`lp.timestamp IS NOT NULL`);
@@ -292,9 +381,11 @@ export class VesselRepository {
     }
 
     if (criteria.bbox) {
+      // A box crossing the antimeridian matches longitudes east of minLon or west of maxLon
+      const longitudeJoin = crossesAntimeridian(criteria.bbox) ? 'OR' : 'AND';
       conditions.push(`
         lp.latitude BETWEEN $${paramIndex++} AND $${paramIndex++}
-        AND lp.longitude BETWEEN $${paramIndex++} AND $${paramIndex++}
+        AND (lp.longitude >= $${paramIndex++} ${longitudeJoin} lp.longitude <= $${paramIndex++})
       `);
       values.push(
         criteria.bbox.minLat,
@@ -304,6 +395,71 @@ export class VesselRepository {
       );
     }
 
+    // Spatial filters use the GiST index on vessel_latest_positions.geog; distances in meters
+    if (criteria.radius) {
+      conditions.push(`
+        ST_DWithin(
+          lp.geog,
+          ST_SetSRID(ST_MakePoint($${paramIndex++}, $${paramIndex++}), 4326)::geography,
+          $${paramIndex++}
+        )
+      `);
+      values.push(
+        criteria.radius.longitude,
+        criteria.radius.latitude,
+        nauticalMilesToMeters(criteria.radius.radiusNm)
+      );
+    }
+
+    if (criteria.area) {
+      conditions.push(
+        `ST_Intersects(lp.geog, ST_SetSRID(ST_GeomFromGeoJSON($${paramIndex++}), 4326)::geography)`
+      );
+      values.push(JSON.stringify(criteria.area));
+    }
+
+    if (criteria.nearTrack?.line) {
+      conditions.push(`
+        ST_DWithin(
+          lp.geog,
+          ST_SetSRID(ST_GeomFromGeoJSON($${paramIndex++}), 4326)::geography,
+          $${paramIndex++}
+        )
+      `);
+      values.push(
+        JSON.stringify(criteria.nearTrack.line),
+        nauticalMilesToMeters(criteria.nearTrack.distanceNm)
+      );
+    } else if (criteria.nearTrack?.mmsi) {
+      // The track vessel's reports joined in time order; a vessel without reports matches nothing.
+      // Reports stored before migration 010 have no geog point
+      const mmsiParam = paramIndex++;
+      conditions.push(`
+        v.mmsi <> $${mmsiParam}
+        AND ST_DWithin(
+          lp.geog,
+          (
+            SELECT ST_MakeLine(
+              COALESCE(
+                pr.geog,
+                ST_SetSRID(ST_MakePoint(pr.longitude, pr.latitude), 4326)::geography
+              )::geometry
+              ORDER BY pr.timestamp
+            )::geography
+            FROM position_reports pr
+            WHERE pr.mmsi = $${mmsiParam} AND pr.timestamp BETWEEN $${paramIndex++} AND $${paramIndex++}
+          ),
+          $${paramIndex++}
+        )
+      `);
+      values.push(
+        criteria.nearTrack.mmsi,
+        criteria.nearTrack.startTime,
+        criteria.nearTrack.endTime,
+        nauticalMilesToMeters(criteria.nearTrack.distanceNm)
+      );
+    }
+
     if (criteria.speedMin !== undefined) {
       conditions.push(`lp.sog >= $${paramIndex++}`);
       values.push(criteria.speedMin);
@@ -325,7 +481,8 @@ export class VesselRepository {
       SELECT 
         v.mmsi, v.imo_number, v.name, v.call_sign, v.vessel_type,
         v.dimension_a, v.dimension_b, v.dimension_c, v.dimension_d,
-        v.draught, v.destination, v.eta, v.created_at, v.updated_at,
+        v.draught, v.destination, v.eta, v.ais_class, v.flag, v.station_category,
+        v.created_at, v.updated_at,
         lp.timestamp, lp.latitude, lp.longitude, lp.sog, lp.cog,
         lp.true_heading, lp.navigational_status, NULL as rate_of_turn
       FROM vessels v
@@ -359,7 +516,8 @@ export class VesselRepository {
       SELECT 
         v.mmsi, v.imo_number, v.name, v.call_sign, v.vessel_type,
         v.dimension_a, v.dimension_b, v.dimension_c, v.dimension_d,
-        v.draught, v.destination, v.eta, v.created_at, v.updated_at,
+        v.draught, v.destination, v.eta, v.ais_class, v.flag, v.station_category,
+        v.created_at, v.updated_at,
         lp.timestamp, lp.latitude, lp.longitude, lp.sog, lp.cog,
         lp.true_heading, lp.navigational_status, NULL as rate_of_turn
       FROM vessels v
@@ -373,23 +531,230 @@ export class VesselRepository {
     return this.mapRowToVesselWithPosition(result.rows[0]);
   }
 
-  async getVesselHistory(mmsi: string, startTime: Date, endTime: Date): Promise<PositionReport[]> {
-    const query = `
+  /**
+   * Get the position history of a vessel, oldest first
+   * With resolution 'auto' the source is picked from the range (see selectHistoryResolution);
+   * pass the resolution explicitly when reading a range page by page
+   */
+  async getVesselHistory(
+    mmsi: string,
+    startTime: Date,
+    endTime: Date,
+    resolution: HistoryResolution | 'auto' = 'auto',
+    page: HistoryPage = {}
+  ): Promise<PositionReport[]> {
+    const source =
+      resolution === 'auto' ? this.resolveHistoryResolution(startTime, endTime) : resolution;
+
+    const values: unknown[] = [mmsi, startTime, endTime];
+    let pageConditions = '';
+    let limitClause = '';
+
+    // Fixes at the cursor's timestamp are read again and the ones already returned skipped
+    if (page.after) {
+      values.push(page.after.timestamp);
+      pageConditions =
+        source === 'raw'
+          ? `AND timestamp >= $${values.length}`
+          : `AND bucket >= time_bucket(INTERVAL '10 minutes', $${values.length}::timestamp)
+        AND timestamp >= $${values.length}`;
+    }
+
+    if (page.limit) {
+      values.push(page.limit + (page.after?.seen ?? 0));
+      limitClause = `LIMIT $${values.length}`;
+    }
+
+    // Buckets are filtered first so the aggregate's (mmsi, bucket) index is used
+    const query =
+      source === 'raw'
+        ? `
       SELECT mmsi, timestamp, latitude, longitude, sog, cog,
-        true_heading, navigational_status, rate_of_turn
+        true_heading, navigational_status, rate_of_turn, altitude
       FROM position_reports
       WHERE mmsi = $1 AND timestamp BETWEEN $2 AND $3
-      ORDER BY timestamp ASC;
+        ${pageConditions}
+      ORDER BY timestamp ASC, id ASC
+      ${limitClause};
+    `
+        : `
+      SELECT mmsi, timestamp, latitude, longitude, sog, cog,
+        true_heading, navigational_status, rate_of_turn, altitude
+      FROM ${DOWNSAMPLED_POSITIONS_VIEW}
+      WHERE mmsi = $1
+        AND bucket BETWEEN time_bucket(INTERVAL '10 minutes', $2::timestamp) AND $3
+        AND timestamp BETWEEN $2 AND $3
+        ${pageConditions}
+      ORDER BY bucket ASC
+      ${limitClause};
     `;
-    const result = await this.pool.query(query, [mmsi, startTime, endTime]);
-    return result.rows.map((row) => this.mapRowToPositionReport(row));
+    const result = await this.pool.query(query, values);
+    const fixes = skipSeenFixes(
+      result.rows.map((row) => this.mapRowToPositionReport(row)),
+      page.after
+    );
+    return page.limit ? fixes.slice(0, page.limit) : fixes;
+  }
+
+  /**
+   * Get the fixes of a vessel around a time: the latest at or before it and the earliest after it
+   * Fixes more than windowMs away are ignored, so each side is one index lookup
+   */
+  async getSurroundingPositions(
+    mmsi: string,
+    time: Date,
+    windowMs: number
+  ): Promise<{ before: PositionReport | null; after: PositionReport | null }> {
+    const query = `
+      (SELECT ${POSITION_COLUMNS}
+      FROM position_reports
+      WHERE mmsi = $1 AND timestamp <= $2 AND timestamp >= $3
+      ORDER BY timestamp DESC
+      LIMIT 1)
+      UNION ALL
+      (SELECT ${POSITION_COLUMNS}
+      FROM position_reports
+      WHERE mmsi = $1 AND timestamp > $2 AND timestamp <= $4
+      ORDER BY timestamp ASC
+      LIMIT 1);
+    `;
+    const values = [
+      mmsi,
+      time,
+      new Date(time.getTime() - windowMs),
+      new Date(time.getTime() + windowMs),
+    ];
+
+    try {
+      const result = await this.pool.query(query, values);
+      const fixes = result.rows.map((row) => this.mapRowToPositionReport(row));
+      return {
+        before: fixes.find((fix) => fix.timestamp.getTime() <= time.getTime()) ?? null,
+        after: fixes.find((fix) => fix.timestamp.getTime() > time.getTime()) ?? null,
+      };
+    } catch (error) {
+      const dbError = new DatabaseError('Failed to get surrounding positions', {
+        mmsi,
+        time: time.toISOString(),
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+      this.logger.logDatabaseError(dbError, 'getSurroundingPositions');
+      throw dbError;
+    }
+  }
+
+  /**
+   * Rebuild the last known position of every vessel in an area at a past time
+   *
+   * Vessels with any fix in the area during the lookback are candidates; each candidate's
+   * latest fix at or before time is then looked up through the (mmsi, timestamp) index and
+   * kept if it still lies in the area, so vessels that had left by then are not included.
+   * Lookbacks reaching past raw retention read the downsampled positions.
+   */
+  async getSnapshot(criteria: SnapshotQuery): Promise<VesselWithPosition[]> {
+    const { time, lookbackMs, bbox, limit = 1000 } = criteria;
+    const start = new Date(time.getTime() - lookbackMs);
+    const source = this.resolveHistoryResolution(start, time);
+    const table = source === 'raw' ? 'position_reports' : DOWNSAMPLED_POSITIONS_VIEW;
+    // Buckets are filtered and ordered by so the aggregate's (mmsi, bucket) index is used
+    const bucketCondition =
+      source === 'raw'
+        ? ''
+        : `AND bucket BETWEEN time_bucket(INTERVAL '10 minutes', $1::timestamp) AND $2`;
+    const latestFirst = source === 'raw' ? 'timestamp DESC' : 'bucket DESC';
+
+    // A box crossing the antimeridian matches longitudes east of minLon or west of maxLon
+    const longitudeJoin = crossesAntimeridian(bbox) ? 'OR' : 'AND';
+    const inBox = (alias: string) => `
+        ${alias}.latitude BETWEEN $3 AND $4
+        AND (${alias}.longitude >= $5 ${longitudeJoin} ${alias}.longitude <= $6)`;
+
+    const query = `
+      SELECT
+        v.imo_number, v.name, v.call_sign, v.vessel_type,
+        v.dimension_a, v.dimension_b, v.dimension_c, v.dimension_d,
+        v.draught, v.destination, v.eta, v.ais_class, v.flag, v.station_category,
+        v.created_at, v.updated_at,
+        lp.mmsi, lp.timestamp, lp.latitude, lp.longitude, lp.sog, lp.cog,
+        lp.true_heading, lp.navigational_status, lp.rate_of_turn
+      FROM (
+        SELECT DISTINCT p.mmsi
+        FROM ${table} p
+        WHERE p.timestamp > $1 AND p.timestamp <= $2
+          ${bucketCondition}
+          AND ${inBox('p')}
+      ) candidates
+      CROSS JOIN LATERAL (
+        SELECT ${POSITION_COLUMNS}
+        FROM ${table}
+        WHERE mmsi = candidates.mmsi AND timestamp > $1 AND timestamp <= $2
+          ${bucketCondition}
+        ORDER BY ${latestFirst}
+        LIMIT 1
+      ) lp
+      LEFT JOIN vessels v ON v.mmsi = lp.mmsi
+      WHERE ${inBox('lp')}
+      ORDER BY lp.mmsi
+      LIMIT $7;
+    `;
+    const values = [start, time, bbox.minLat, bbox.maxLat, bbox.minLon, bbox.maxLon, limit];
+
+    try {
+      const result = await this.pool.query(query, values);
+      return result.rows.map((row) => this.mapRowToVesselWithPosition(row));
+    } catch (error) {
+      const dbError = new DatabaseError('Failed to get vessel snapshot', {
+        time: time.toISOString(),
+        lookbackMs,
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+      this.logger.logDatabaseError(dbError, 'getSnapshot');
+      throw dbError;
+    }
+  }
+
+  /**
+   * Resolution that getVesselHistory uses for a range with resolution 'auto'
+   */
+  resolveHistoryResolution(startTime: Date, endTime: Date): HistoryResolution {
+    return selectHistoryResolution(startTime, endTime, this.historyConfig);
+  }
+
+  /**
+   * Get the static data change history of a vessel, most recent first
+   */
+  async getStaticHistory(
+    mmsi: string,
+    startTime?: Date,
+    endTime?: Date,
+    limit = 500
+  ): Promise<VesselStaticChange[]> {
+    const query = `
+      SELECT mmsi, field, old_value, new_value, changed_at
+      FROM vessel_static_history
+      WHERE mmsi = $1
+        AND ($2::timestamp IS NULL OR changed_at >= $2)
+        AND ($3::timestamp IS NULL OR changed_at <= $3)
+      ORDER BY changed_at DESC, id DESC
+      LIMIT $4;
+    `;
+
+    const result = await this.pool.query(query, [mmsi, startTime || null, endTime || null, limit]);
+    return result.rows.map((row) => ({
+      mmsi: row.mmsi,
+      field: row.field,
+      oldValue: row.old_value,
+      newValue: row.new_value,
+      changedAt: row.changed_at,
+    }));
   }
 
   async getLatestPositions(limit: number = 1000): Promise<VesselWithPosition[]> {
     const query = `
       SELECT v.mmsi, v.imo_number, v.name, v.call_sign, v.vessel_type,
         v.dimension_a, v.dimension_b, v.dimension_c, v.dimension_d,
-        v.draught, v.destination, v.eta, v.created_at, v.updated_at,
+        v.draught, v.destination, v.eta, v.ais_class, v.flag, v.station_category,
+        v.created_at, v.updated_at,
         p.timestamp, p.latitude, p.longitude, p.sog, p.cog,
         p.true_heading, p.navigational_status, p.rate_of_turn
       FROM latest_vessel_positions p
@@ -412,13 +777,18 @@ export class VesselRepository {
       SELECT 
         v.mmsi, v.imo_number, v.name, v.call_sign, v.vessel_type,
         v.dimension_a, v.dimension_b, v.dimension_c, v.dimension_d,
-        v.draught, v.destination, v.eta, v.created_at, v.updated_at,
+        v.draught, v.destination, v.eta, v.ais_class, v.flag, v.station_category,
+        v.created_at, v.updated_at,
         lp.timestamp, lp.latitude, lp.longitude, lp.sog, lp.cog,
         lp.true_heading, lp.navigational_status, NULL as rate_of_turn
       FROM vessels v
       LEFT JOIN latest_vessel_positions lp ON v.mmsi = lp.mmsi
       WHERE 
-        ${isExactMMSI ? 'v.mmsi = $1' : 'v.name ILIKE $1 OR v.mmsi LIKE $2 OR v.imo_number LIKE $3'}
+        ${
+          isExactMMSI
+            ? 'v.mmsi = $1'
+            : 'v.name ILIKE $1 OR v.mmsi LIKE $2 OR v.imo_number::text LIKE $3'
+        }
       ORDER BY 
         -- Prioritize exact MMSI matches
         CASE WHEN v.mmsi = $${isExactMMSI ? '1' : '4'} THEN 0 ELSE 1 END,
@@ -466,7 +836,8 @@ export class VesselRepository {
       SELECT 
         v.mmsi, v.imo_number, v.name, v.call_sign, v.vessel_type,
         v.dimension_a, v.dimension_b, v.dimension_c, v.dimension_d,
-        v.draught, v.destination, v.eta, v.created_at, v.updated_at,
+        v.draught, v.destination, v.eta, v.ais_class, v.flag, v.station_category,
+        v.created_at, v.updated_at,
         lp.timestamp, lp.latitude, lp.longitude, lp.sog, lp.cog,
         lp.true_heading, lp.navigational_status, NULL as rate_of_turn
       FROM vessels v
@@ -586,6 +957,10 @@ export class VesselRepository {
       draught: row.draught ? parseFloat(row.draught) : undefined,
       destination: row.destination,
       eta: row.eta,
+      aisClass: row.ais_class || undefined,
+      flag: row.flag || undefined,
+      flagCountry: row.flag ? decodeMMSI(row.mmsi).country || undefined : undefined,
+      stationCategory: row.station_category || undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -602,6 +977,7 @@ export class VesselRepository {
       true_heading: row.true_heading,
       navigational_status: row.navigational_status,
       rate_of_turn: row.rate_of_turn,
+      altitude: row.altitude ?? undefined,
     };
   }
 
@@ -0,0 +1,356 @@
+import { Pool } from 'pg';
+import { PositionReport, VesselWithPosition } from '../types';
+import { VesselStore } from './VesselStore';
+import { VesselRepository } from './VesselRepository';
+import { InMemoryVesselRepository } from './InMemoryVesselRepository';
+
+/**
+ * Contract tests shared by every VesselStore implementation
+ * The PostgreSQL implementation runs when TEST_DATABASE_URL points at a migrated database;
+ * its vessel and position tables are emptied before each test
+ */
+
+const MINUTE = 60 * 1000;
+const NOW = Math.floor(Date.now() / MINUTE) * MINUTE;
+
+const MAASSTROOM = '244670316';
+const ELBE_PILOT = '211331640';
+const PACIFIC_STAR = '366999712';
+const NO_POSITION = '538006555';
+
+const ROTTERDAM = { minLat: 51.8, maxLat: 52.1, minLon: 3.9, maxLon: 4.3 };
+const ANTIMERIDIAN = { minLat: 0, maxLat: 20, minLon: 170, maxLon: -170 };
+
+function minutesAgo(minutes: number): Date {
+  return new Date(NOW - minutes * MINUTE);
+}
+
+function fix(
+  mmsi: string,
+  minutes: number,
+  latitude: number,
+  longitude: number,
+  sog = 10
+): PositionReport {
+  return { mmsi, timestamp: minutesAgo(minutes), latitude, longitude, sog, cog: 90 };
+}
+
+function mmsis(vessels: VesselWithPosition[]): string[] {
+  return vessels.map((vessel) => vessel.mmsi);
+}
+
+/**
+ * Four vessels: in Rotterdam, in Hamburg (having left Rotterdam), near the antimeridian
+ * and one without positions, most recently reported first
+ */
+async function addFleet(store: VesselStore): Promise<void> {
+  await store.upsertVessel({ mmsi: MAASSTROOM, name: 'MAASSTROOM', type: 70, imo: 9395044 });
+  await store.upsertVessel({ mmsi: ELBE_PILOT, name: 'ELBE PILOT', type: 50 });
+  await store.upsertVessel({ mmsi: PACIFIC_STAR, name: 'PACIFIC STAR', type: 70 });
+  await store.insertVesselStubs([{ mmsi: NO_POSITION }]);
+  await store.batchInsertPositions([
+    fix(ELBE_PILOT, 30, 51.95, 4.06, 11.5),
+    fix(MAASSTROOM, 1, 51.95, 4.05, 0.5),
+    fix(ELBE_PILOT, 2, 53.54, 9.97, 12.3),
+    fix(PACIFIC_STAR, 3, 10, 179.8, 15),
+  ]);
+}
+
+function vesselStoreContract(getStore: () => VesselStore): void {
+  let store: VesselStore;
+
+  beforeEach(() => {
+    store = getStore();
+  });
+
+  it('should upsert static data, keeping fields missing from an update', async () => {
+    await store.upsertVessel({ mmsi: MAASSTROOM, name: 'MAASSTROOM', type: 70, imo: 9395044 });
+    await store.upsertVessel({ mmsi: MAASSTROOM, destination: 'ROTTERDAM' });
+
+    expect(await store.getVesselByMMSI(MAASSTROOM)).toMatchObject({
+      mmsi: MAASSTROOM,
+      name: 'MAASSTROOM',
+      vesselType: 70,
+      destination: 'ROTTERDAM',
+      flag: 'NL',
+      stationCategory: 'ship',
+    });
+    expect((await store.getVesselByIMO('9395044'))?.mmsi).toBe(MAASSTROOM);
+    expect(await store.getVesselByMMSI(ELBE_PILOT)).toBeNull();
+  });
+
+  it('should record static data changes, most recent first', async () => {
+    await store.upsertVessel({ mmsi: MAASSTROOM, name: 'MAAS' });
+    await store.upsertVessel({ mmsi: MAASSTROOM, name: 'MAASSTROOM', destination: 'HAMBURG' });
+    await store.upsertVessel({ mmsi: MAASSTROOM, destination: 'ROTTERDAM' });
+
+    const changes = (await store.getStaticHistory(MAASSTROOM)).map(
+      ({ field, oldValue, newValue }) => ({ field, oldValue, newValue })
+    );
+    // A destination seen for the first time is not a change
+    expect(changes).toEqual([
+      { field: 'destination', oldValue: 'HAMBURG', newValue: 'ROTTERDAM' },
+      { field: 'name', oldValue: 'MAAS', newValue: 'MAASSTROOM' },
+    ]);
+  });
+
+  it('should create stubs only for unknown vessels', async () => {
+    await store.upsertVessel({ mmsi: MAASSTROOM, name: 'MAASSTROOM' });
+
+    const created = await store.insertVesselStubs([
+      { mmsi: MAASSTROOM },
+      { mmsi: ELBE_PILOT, aisClass: 'B' },
+    ]);
+
+    expect(created).toBe(1);
+    expect((await store.getVesselByMMSI(MAASSTROOM))?.name).toBe('MAASSTROOM');
+    expect((await store.getVesselByMMSI(ELBE_PILOT))?.aisClass).toBe('B');
+    expect(await store.countVessels()).toBe(2);
+  });
+
+  it('should store positions, skipping duplicates and unknown vessels', async () => {
+    await store.insertVesselStubs([{ mmsi: MAASSTROOM }]);
+
+    expect(
+      await store.batchInsertPositions([
+        fix(MAASSTROOM, 10, 51.9, 4.0),
+        fix(MAASSTROOM, 5, 51.92, 4.02),
+        fix(ELBE_PILOT, 5, 53.54, 9.97),
+      ])
+    ).toBe(2);
+    expect(
+      await store.batchInsertPositions([
+        fix(MAASSTROOM, 5, 51.92, 4.02),
+        fix(MAASSTROOM, 1, 51.95, 4.05),
+      ])
+    ).toBe(1);
+
+    expect(await store.countPositions(MAASSTROOM, minutesAgo(5))).toBe(1);
+    expect(await store.countPositionReports(minutesAgo(60), minutesAgo(0))).toBe(3);
+    const vessel = await store.getVesselWithPositionByMMSI(MAASSTROOM);
+    expect(vessel?.position).toMatchObject({ latitude: 51.95, longitude: 4.05 });
+    expect(vessel?.position?.timestamp).toEqual(minutesAgo(1));
+  });
+
+  it('should query vessels by their latest position, most recently reported first', async () => {
+    await addFleet(store);
+
+    expect(mmsis(await store.queryVessels({}))).toEqual([
+      MAASSTROOM,
+      ELBE_PILOT,
+      PACIFIC_STAR,
+      NO_POSITION,
+    ]);
+    // ELBE PILOT was in Rotterdam half an hour ago, but is in Hamburg now
+    expect(mmsis(await store.queryVessels({ bbox: ROTTERDAM }))).toEqual([MAASSTROOM]);
+    expect(mmsis(await store.queryVessels({ bbox: ANTIMERIDIAN }))).toEqual([PACIFIC_STAR]);
+    expect(mmsis(await store.queryVessels({ name: 'elbe' }))).toEqual([ELBE_PILOT]);
+    expect(mmsis(await store.queryVessels({ type: 70 }))).toEqual([MAASSTROOM, PACIFIC_STAR]);
+    expect(mmsis(await store.queryVessels({ speedMin: 10 }))).toEqual([ELBE_PILOT, PACIFIC_STAR]);
+    expect(mmsis(await store.queryVessels({ speedMax: 1 }))).toEqual([MAASSTROOM]);
+    expect(mmsis(await store.queryVessels({ hasPosition: false }))).toEqual([NO_POSITION]);
+    expect(mmsis(await store.queryVessels({ limit: 2, offset: 1 }))).toEqual([
+      ELBE_PILOT,
+      PACIFIC_STAR,
+    ]);
+  });
+
+  it('should filter vessels by distance from a point, an area and a track', async () => {
+    await addFleet(store);
+
+    expect(
+      mmsis(await store.queryVessels({ radius: { latitude: 51.95, longitude: 4.0, radiusNm: 5 } }))
+    ).toEqual([MAASSTROOM]);
+    expect(
+      mmsis(
+        await store.queryVessels({
+          area: {
+            type: 'Polygon',
+            coordinates: [
+              [
+                [9.5, 53.3],
+                [10.5, 53.3],
+                [10.5, 53.8],
+                [9.5, 53.8],
+                [9.5, 53.3],
+              ],
+            ],
+          },
+        })
+      )
+    ).toEqual([ELBE_PILOT]);
+    expect(
+      mmsis(
+        await store.queryVessels({
+          nearTrack: {
+            distanceNm: 1,
+            line: {
+              type: 'LineString',
+              coordinates: [
+                [4.05, 51.95],
+                [9.97, 53.54],
+              ],
+            },
+          },
+        })
+      )
+    ).toEqual([MAASSTROOM, ELBE_PILOT]);
+    // ELBE PILOT's own track passes MAASSTROOM; the track vessel itself is left out
+    expect(
+      mmsis(
+        await store.queryVessels({
+          nearTrack: {
+            distanceNm: 1,
+            mmsi: ELBE_PILOT,
+            startTime: minutesAgo(60),
+            endTime: minutesAgo(0),
+          },
+        })
+      )
+    ).toEqual([MAASSTROOM]);
+  });
+
+  it('should search by name, MMSI and IMO number', async () => {
+    await addFleet(store);
+
+    expect(mmsis(await store.searchVessels(MAASSTROOM))).toEqual([MAASSTROOM]);
+    expect(mmsis(await store.searchVessels('star'))).toEqual([PACIFIC_STAR]);
+    expect(mmsis(await store.searchVessels('9395044'))).toEqual([MAASSTROOM]);
+    // Partial MMSIs match too, most recently reported first
+    expect(mmsis(await store.searchVessels('3'))).toEqual([
+      MAASSTROOM,
+      ELBE_PILOT,
+      PACIFIC_STAR,
+      NO_POSITION,
+    ]);
+  });
+
+  it('should read position history in time order, page by page', async () => {
+    await store.insertVesselStubs([{ mmsi: MAASSTROOM }]);
+    await store.batchInsertPositions(
+      [50, 40, 30, 20, 10].map((minutes) => fix(MAASSTROOM, minutes, 51.9, 4.0 + minutes / 100))
+    );
+    const times = (fixes: PositionReport[]) => fixes.map((f) => f.timestamp.getTime());
+
+    expect(times(await store.getVesselHistory(MAASSTROOM, minutesAgo(45), minutesAgo(15)))).toEqual(
+      [minutesAgo(40), minutesAgo(30), minutesAgo(20)].map((d) => d.getTime())
+    );
+    expect(
+      times(
+        await store.getVesselHistory(MAASSTROOM, minutesAgo(60), minutesAgo(0), 'raw', {
+          after: { timestamp: minutesAgo(40), seen: 1 },
+          limit: 2,
+        })
+      )
+    ).toEqual([minutesAgo(30), minutesAgo(20)].map((d) => d.getTime()));
+
+    const { before, after } = await store.getSurroundingPositions(
+      MAASSTROOM,
+      minutesAgo(25),
+      30 * MINUTE
+    );
+    expect(before?.timestamp).toEqual(minutesAgo(30));
+    expect(after?.timestamp).toEqual(minutesAgo(20));
+    expect(await store.getSurroundingPositions(MAASSTROOM, minutesAgo(25), 3 * MINUTE)).toEqual({
+      before: null,
+      after: null,
+    });
+  });
+
+  it('should rebuild a snapshot of the vessels in an area at a past time', async () => {
+    await store.insertVesselStubs([
+      { mmsi: MAASSTROOM },
+      { mmsi: ELBE_PILOT },
+      { mmsi: PACIFIC_STAR },
+    ]);
+    await store.batchInsertPositions([
+      // Still in Rotterdam at the snapshot time, left afterwards
+      fix(MAASSTROOM, 50, 51.95, 4.05),
+      fix(MAASSTROOM, 30, 51.96, 4.06),
+      fix(MAASSTROOM, 10, 53.54, 9.97),
+      // Left Rotterdam before the snapshot time
+      fix(ELBE_PILOT, 40, 51.95, 4.05),
+      fix(ELBE_PILOT, 25, 53.54, 9.97),
+      // Only seen before the lookback
+      fix(PACIFIC_STAR, 90, 51.95, 4.05),
+    ]);
+
+    const snapshot = await store.getSnapshot({
+      time: minutesAgo(20),
+      lookbackMs: 60 * MINUTE,
+      bbox: ROTTERDAM,
+    });
+
+    expect(mmsis(snapshot)).toEqual([MAASSTROOM]);
+    expect(snapshot[0].position?.timestamp).toEqual(minutesAgo(30));
+  });
+
+  it('should count vessels and position reports', async () => {
+    await addFleet(store);
+
+    expect(await store.countVessels()).toBe(4);
+    expect(await store.countVesselsWithPosition()).toBe(3);
+    expect(await store.countVesselsWithRecentPosition(1)).toBe(3);
+    expect(await store.getLatestPositionTimestamp()).toEqual(minutesAgo(1));
+    expect(await store.countPositionReports(minutesAgo(60), minutesAgo(0))).toBe(4);
+    expect(await store.countPositionReports(minutesAgo(60), minutesAgo(10))).toBe(1);
+    expect(mmsis(await store.getLatestPositions(2))).toEqual([MAASSTROOM, ELBE_PILOT]);
+  });
+}
+
+describe('InMemoryVesselRepository', () => {
+  vesselStoreContract(() => new InMemoryVesselRepository());
+
+  it('should drop position reports older than the retention', async () => {
+    const store = new InMemoryVesselRepository({ retentionMs: 60 * MINUTE });
+    await store.insertVesselStubs([{ mmsi: MAASSTROOM }]);
+    await store.batchInsertPositions([
+      fix(MAASSTROOM, 90, 51.9, 4.0),
+      fix(MAASSTROOM, 30, 51.95, 4.05),
+    ]);
+
+    expect(await store.countPositionReports(minutesAgo(120), minutesAgo(0))).toBe(1);
+  });
+
+  it('should keep the last fix per 10 minutes in downsampled history', async () => {
+    const store = new InMemoryVesselRepository();
+    await store.insertVesselStubs([{ mmsi: MAASSTROOM }]);
+    const start = new Date('2025-12-01T10:00:00Z').getTime();
+    await store.batchInsertPositions(
+      [0, 4, 9, 12, 25].map((minutes) => ({
+        ...fix(MAASSTROOM, 0, 51.9, 4.0),
+        timestamp: new Date(start + minutes * MINUTE),
+      }))
+    );
+
+    const history = await store.getVesselHistory(
+      MAASSTROOM,
+      new Date(start),
+      new Date(start + 30 * MINUTE),
+      'downsampled'
+    );
+    expect(history.map((f) => (f.timestamp.getTime() - start) / MINUTE)).toEqual([9, 12, 25]);
+  });
+});
+
+const describeWithDatabase = process.env.TEST_DATABASE_URL ? describe : describe.skip;
+
+describeWithDatabase('VesselRepository', () => {
+  let pool: Pool;
+
+  beforeAll(() => {
+    pool = new Pool({ connectionString: process.env.TEST_DATABASE_URL });
+  });
+
+  afterAll(async () => {
+    await pool.end();
+  });
+
+  beforeEach(async () => {
+    await pool.query(
+      'TRUNCATE vessels, position_reports, vessel_latest_positions, vessel_static_history CASCADE'
+    );
+  });
+
+  vesselStoreContract(() => new VesselRepository(pool));
+});
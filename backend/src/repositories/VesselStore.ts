@@ -0,0 +1,76 @@
+import {
+  Vessel,
+  PositionReport,
+  VesselQuery,
+  VesselWithPosition,
+  VesselStaticChange,
+  ShipStaticData,
+  VesselStub,
+  SnapshotQuery,
+} from '../types';
+import { HistoryPage, HistoryResolution } from './VesselRepository';
+
+/**
+ * Storage for vessels, their static data history and position reports
+ *
+ * Implementations:
+ * - VesselRepository: PostgreSQL/TimescaleDB
+ * - InMemoryVesselRepository: process memory, for demos and tests (STORAGE=memory)
+ *
+ * Both follow the same semantics; see VesselStore.contract.test.ts
+ */
+export interface VesselStore {
+  /** Insert or update static data; missing fields keep their stored values */
+  upsertVessel(vessel: ShipStaticData): Promise<Vessel>;
+  /** Create placeholder vessels, leaving existing ones untouched; returns the number created */
+  insertVesselStubs(stubs: VesselStub[]): Promise<number>;
+  /** Store position reports, skipping duplicates and unknown vessels; returns the number stored */
+  batchInsertPositions(positions: PositionReport[]): Promise<number>;
+  /** Vessels with their latest position, most recently reported first */
+  queryVessels(criteria: VesselQuery): Promise<VesselWithPosition[]>;
+  getVesselByMMSI(mmsi: string): Promise<Vessel | null>;
+  getVesselWithPositionByMMSI(mmsi: string): Promise<VesselWithPosition | null>;
+  getVesselByIMO(imoNumber: string): Promise<Vessel | null>;
+  getVesselWithPositionByIMO(imoNumber: string): Promise<VesselWithPosition | null>;
+  /** Position history of a vessel, oldest first */
+  getVesselHistory(
+    mmsi: string,
+    startTime: Date,
+    endTime: Date,
+    resolution?: HistoryResolution | 'auto',
+    page?: HistoryPage
+  ): Promise<PositionReport[]>;
+  /** The latest fix at or before time and the earliest after it, each within windowMs */
+  getSurroundingPositions(
+    mmsi: string,
+    time: Date,
+    windowMs: number
+  ): Promise<{ before: PositionReport | null; after: PositionReport | null }>;
+  /** Last known position at a past time of every vessel in an area, ordered by MMSI */
+  getSnapshot(criteria: SnapshotQuery): Promise<VesselWithPosition[]>;
+  /** Resolution that getVesselHistory uses for a range with resolution 'auto' */
+  resolveHistoryResolution(startTime: Date, endTime: Date): HistoryResolution;
+  /** Static data changes of a vessel, most recent first */
+  getStaticHistory(
+    mmsi: string,
+    startTime?: Date,
+    endTime?: Date,
+    limit?: number
+  ): Promise<VesselStaticChange[]>;
+  getLatestPositions(limit?: number): Promise<VesselWithPosition[]>;
+  /** Vessels by name, MMSI or IMO number; exact MMSI matches first */
+  searchVessels(searchTerm: string, limit?: number): Promise<VesselWithPosition[]>;
+  getVesselsInBounds(
+    minLat: number,
+    maxLat: number,
+    minLon: number,
+    maxLon: number,
+    limit?: number
+  ): Promise<VesselWithPosition[]>;
+  countPositions(mmsi: string, timestamp: Date): Promise<number>;
+  countVessels(): Promise<number>;
+  countVesselsWithPosition(): Promise<number>;
+  countVesselsWithRecentPosition(thresholdHours: number): Promise<number>;
+  getLatestPositionTimestamp(): Promise<Date | null>;
+  countPositionReports(startTime: Date, endTime: Date): Promise<number>;
+}
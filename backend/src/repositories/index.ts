@@ -1 +1,16 @@
-export { VesselRepository } from './VesselRepository';
+export {
+  VesselRepository,
+  HistoryPage,
+  HistoryResolution,
+  PositionHistoryConfig,
+  selectHistoryResolution,
+} from './VesselRepository';
+export { VesselStore } from './VesselStore';
+export {
+  InMemoryVesselRepository,
+  InMemoryVesselRepositoryConfig,
+} from './InMemoryVesselRepository';
+export { StationRepository } from './StationRepository';
+export { RejectedPositionRepository } from './RejectedPositionRepository';
+export { DeadLetterRepository } from './DeadLetterRepository';
+export { PortRepository } from './PortRepository';
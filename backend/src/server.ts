@@ -2,18 +2,48 @@ import 'dotenv/config';
 import http from 'http';
 import { createApp } from './api/app';
 import { createPool, closePool } from './db/connection';
-import { VesselRepository } from './repositories/VesselRepository';
+import { MigrationRunner, DEFAULT_MIGRATIONS_DIR } from './db/MigrationRunner';
+import { StoragePolicyManager, StoragePolicyConfig } from './db/StoragePolicyManager';
+import { VesselRepository, PositionHistoryConfig } from './repositories/VesselRepository';
+import { VesselStore } from './repositories/VesselStore';
+import { InMemoryVesselRepository } from './repositories/InMemoryVesselRepository';
+import { StationRepository } from './repositories/StationRepository';
+import { RejectedPositionRepository } from './repositories/RejectedPositionRepository';
+import { DeadLetterRepository } from './repositories/DeadLetterRepository';
+import { PortRepository } from './repositories/PortRepository';
 import {
   CacheService,
+  VesselCache,
+  InMemoryCacheService,
   AISStreamManager,
   DataPipeline,
   WebSocketServer,
   RegionalScheduler,
+  MessageRecorder,
+  DeadLetterQueue,
+  MetricsCollector,
+  PortCallDetector,
+  PositionSpool,
+  SpoolOverflowPolicy,
+  SPOOL_OVERFLOW_POLICIES,
+  AisSource,
+  AisSourceConfig,
+  loadAisSourceConfigs,
+  createAisSource,
 } from './services';
 import { createComponentLogger, ConfigurationError } from './utils';
 
 const logger = createComponentLogger('Server');
 
+/**
+ * Where vessels, positions and the cache are kept
+ * - postgres: PostgreSQL/TimescaleDB and Redis (default)
+ * - memory: process memory, for demos without Docker; data is lost on restart
+ */
+type StorageMode = 'postgres' | 'memory';
+
+const STORAGE_MODES: StorageMode[] = ['postgres', 'memory'];
+
 /**
  * Main server class that wires up all backend services
  * Validates: Requirements 2.1, 2.2, 6.4, 6.5
@@ -21,11 +51,17 @@ const logger = createComponentLogger('Server');
 class Server {
   private httpServer: http.Server | null = null;
   private pool: ReturnType<typeof createPool> | null = null;
-  private cacheService: CacheService | null = null;
-  private aisStreamManager: AISStreamManager | null = null;
+  private cacheService: VesselCache | null = null;
+  private aisSources: AisSource[] = [];
+  private aisStreamManagers: AISStreamManager[] = [];
   private dataPipeline: DataPipeline | null = null;
   private wsServer: WebSocketServer | null = null;
   private regionalScheduler: RegionalScheduler | null = null;
+  private recorder: MessageRecorder | null = null;
+  private positionSpool: PositionSpool | null = null;
+  private deadLetterQueue: DeadLetterQueue | null = null;
+  private portCallDetector: PortCallDetector | null = null;
+  private metrics: MetricsCollector | null = null;
   private isShuttingDown = false;
 
   /**
@@ -35,64 +71,170 @@ class Server {
     try {
       logger.info('Starting Smart AIS MVP Backend...');
 
-      // Validate required environment variables
-      this.validateEnvironment();
-
-      // Initialize database connection with connection pooling
-      logger.info('Initializing database connection...');
-      this.pool = createPool();
-      await this.testDatabaseConnection();
-      logger.info('Database connection established');
+      // Load AIS source configuration and validate required environment variables
+      const storage = this.getStorageMode();
+      const sourceConfigs = loadAisSourceConfigs();
+      this.validateEnvironment(sourceConfigs, storage);
+
+      const maxRawRangeMs =
+        parseInt(process.env.POSITION_RAW_RANGE_HOURS || '48', 10) * 60 * 60 * 1000;
+      let positionHistory: PositionHistoryConfig;
+      let vesselRepository: VesselStore;
+      let stationRepository: StationRepository | undefined;
+      let rejectedPositionRepository: RejectedPositionRepository | undefined;
+
+      if (storage === 'memory') {
+        // Stations, rejected positions, port calls and dead letters need PostgreSQL
+        const retentionHours = parseInt(process.env.MEMORY_RETENTION_HOURS || '24', 10);
+        logger.warn('Using in-memory storage; data is lost on restart', { retentionHours });
+        positionHistory = { maxRawRangeMs };
+        this.cacheService = new InMemoryCacheService();
+        await this.cacheService.connect();
+        vesselRepository = new InMemoryVesselRepository({
+          history: positionHistory,
+          retentionMs: retentionHours > 0 ? retentionHours * 60 * 60 * 1000 : null,
+        });
+      } else {
+        // Initialize database connection with connection pooling
+        logger.info('Initializing database connection...');
+        this.pool = createPool();
+        await this.testDatabaseConnection();
+        logger.info('Database connection established');
+
+        // Apply pending schema migrations (npm run migrate when disabled)
+        if (process.env.MIGRATE_ON_STARTUP !== 'false') {
+          await this.runMigrations();
+        }
 
-      // Initialize Redis connection
-      logger.info('Initializing Redis connection...');
-      this.cacheService = new CacheService(process.env.REDIS_URL);
-      await this.cacheService.connect();
-      logger.info('Redis connection established');
+        // Apply position retention and compression policies
+        const storagePolicies = this.getStoragePolicyConfig();
+        await new StoragePolicyManager(this.pool, storagePolicies).apply();
+        positionHistory = {
+          maxRawRangeMs,
+          rawRetentionMs: storagePolicies.rawRetentionDays
+            ? storagePolicies.rawRetentionDays * 24 * 60 * 60 * 1000
+            : null,
+        };
+
+        // Initialize Redis connection
+        logger.info('Initializing Redis connection...');
+        this.cacheService = new CacheService(process.env.REDIS_URL);
+        await this.cacheService.connect();
+        logger.info('Redis connection established');
+
+        // Initialize repositories
+        vesselRepository = new VesselRepository(this.pool, positionHistory);
+        stationRepository = new StationRepository(this.pool);
+        rejectedPositionRepository = new RejectedPositionRepository(this.pool);
+      }
 
-      // Initialize repository
-      const vesselRepository = new VesselRepository(this.pool);
+      // Initialize the disk spool that holds positions while the database is unavailable
+      if (this.pool && process.env.SPOOL_ENABLED !== 'false') {
+        const overflowPolicy = process.env.SPOOL_OVERFLOW_POLICY || 'drop_oldest';
+        if (!SPOOL_OVERFLOW_POLICIES.includes(overflowPolicy as SpoolOverflowPolicy)) {
+          throw new ConfigurationError(`Invalid SPOOL_OVERFLOW_POLICY "${overflowPolicy}"`, {
+            allowed: SPOOL_OVERFLOW_POLICIES,
+          });
+        }
+        this.positionSpool = new PositionSpool({
+          directory: process.env.SPOOL_DIR || './spool',
+          maxSegmentBytes: parseInt(process.env.SPOOL_SEGMENT_MB || '16', 10) * 1024 * 1024,
+          maxTotalBytes: parseInt(process.env.SPOOL_MAX_MB || '1024', 10) * 1024 * 1024,
+          overflowPolicy: overflowPolicy as SpoolOverflowPolicy,
+        });
+        await this.positionSpool.open();
+      }
 
-      // Initialize AISStreamManager with API key
-      logger.info('Initializing AISStream manager...');
-      const apiKey = process.env.AISSTREAM_API_KEY!;
-      this.aisStreamManager = new AISStreamManager(apiKey);
+      // Initialize port call detection against the ports table
+      if (this.pool && process.env.PORT_CALLS_ENABLED !== 'false') {
+        this.portCallDetector = new PortCallDetector(new PortRepository(this.pool), {
+          minDwellMs: parseInt(process.env.PORT_CALL_MIN_DWELL_MINUTES || '15', 10) * 60 * 1000,
+          staleVisitMs: parseInt(process.env.PORT_CALL_STALE_HOURS || '12', 10) * 60 * 60 * 1000,
+        });
+        await this.portCallDetector.load();
+        this.portCallDetector.start();
+        logger.info('Port call detection enabled', {
+          ports: this.portCallDetector.getPortCount(),
+        });
+      }
 
-      // Initialize DataPipeline and connect to AISStreamManager events
+      // Initialize DataPipeline
       logger.info('Initializing data pipeline...');
-      this.dataPipeline = new DataPipeline(vesselRepository, this.cacheService, {
-        batchSize: parseInt(process.env.BATCH_SIZE || '100', 10),
-        batchInterval: parseInt(process.env.BATCH_INTERVAL_MS || '5000', 10),
-      });
+      this.dataPipeline = new DataPipeline(
+        vesselRepository,
+        this.cacheService,
+        {
+          batchSize: parseInt(process.env.BATCH_SIZE || '100', 10),
+          batchInterval: parseInt(process.env.BATCH_INTERVAL_MS || '5000', 10),
+          plausibility:
+            process.env.PLAUSIBILITY_FILTER_ENABLED === 'false'
+              ? false
+              : {
+                  defaultMaxSpeedKnots: parseFloat(
+                    process.env.PLAUSIBILITY_MAX_SPEED_KNOTS || '50'
+                  ),
+                },
+          spoolReplayInterval: parseInt(process.env.SPOOL_REPLAY_INTERVAL_MS || '5000', 10),
+        },
+        stationRepository,
+        rejectedPositionRepository,
+        this.positionSpool || undefined,
+        this.portCallDetector || undefined
+      );
 
-      // Connect DataPipeline to AISStreamManager events
-      this.aisStreamManager.on('position', (position) => {
-        this.dataPipeline?.processPosition(position).catch((error) => {
-          logger.error('Failed to process position', error);
-        });
-      });
+      // Initialize Prometheus metrics (served at /metrics)
+      if (process.env.METRICS_ENABLED !== 'false') {
+        this.metrics = new MetricsCollector();
+        if (this.pool) {
+          this.metrics.observePool(this.pool);
+        }
+        this.metrics.observeCache(this.cacheService);
+        this.metrics.observePipeline(this.dataPipeline);
+      }
 
-      this.aisStreamManager.on('staticData', (staticData) => {
-        this.dataPipeline?.processStaticData(staticData).catch((error) => {
-          logger.error('Failed to process static data', error);
+      // Initialize dead-letter store for messages that fail parsing, decoding or validation
+      if (this.pool && process.env.DEAD_LETTER_ENABLED !== 'false') {
+        this.deadLetterQueue = new DeadLetterQueue(new DeadLetterRepository(this.pool), {
+          maxRows: parseInt(process.env.DEAD_LETTER_MAX_ROWS || '100000', 10),
+          flushInterval: parseInt(process.env.DEAD_LETTER_FLUSH_INTERVAL_MS || '5000', 10),
         });
-      });
-
-      this.aisStreamManager.on('error', (error) => {
-        logger.logAISStreamError(error);
-      });
+        this.deadLetterQueue.start();
+
+        const deadLetterQueue = this.deadLetterQueue;
+        this.dataPipeline.on('validationError', (event) => {
+          deadLetterQueue.record({
+            stage: 'validation',
+            messageType: event.type,
+            reason: event.reason,
+            mmsi: event.mmsi,
+            payload: event.data,
+          });
+        });
+      }
 
-      this.aisStreamManager.on('connected', () => {
-        logger.info('AISStream connected successfully');
+      // Initialize raw message recorder (started on demand via /api/recorder)
+      this.recorder = new MessageRecorder({
+        directory: process.env.RECORDER_DIR || './recordings',
+        maxFileBytes: parseInt(process.env.RECORDER_MAX_FILE_MB || '64', 10) * 1024 * 1024,
+        maxFileAgeMs: parseInt(process.env.RECORDER_ROTATE_MINUTES || '60', 10) * 60 * 1000,
+        retentionMs: parseInt(process.env.RECORDER_RETENTION_HOURS || '168', 10) * 60 * 60 * 1000,
       });
-
-      this.aisStreamManager.on('disconnected', (info) => {
-        logger.warn('AISStream disconnected', info);
+      this.recorder.on('error', (error) => {
+        logger.error('Message recorder failed', error);
       });
+      if (process.env.RECORDER_ENABLED === 'true') {
+        await this.recorder.start();
+      }
 
-      this.aisStreamManager.on('reconnecting', (info) => {
-        logger.info('AISStream reconnecting...', info);
+      // Initialize AIS sources and connect them to the pipeline
+      logger.info('Initializing AIS sources...', {
+        sources: sourceConfigs.map((config) => `${config.name} (${config.type})`),
       });
+      this.aisSources = sourceConfigs.map((config) => createAisSource(config));
+      this.aisSources.forEach((source) => this.attachSource(source));
+      this.aisStreamManagers = this.aisSources.filter(
+        (source): source is AISStreamManager => source instanceof AISStreamManager
+      );
 
       // Start data pipeline
       this.dataPipeline.start();
@@ -116,13 +258,12 @@ class Server {
           bounds: region.bounds,
         });
 
-        // Update AISStreamManager subscription
-        this.aisStreamManager?.updateSubscription({
-          boundingBoxes: [region.bounds],
-        });
-
-        // Reconnect to apply new subscription
-        this.reconnectAISStream();
+        // Update the subscription of every AISStream source on its open connection
+        for (const manager of this.aisStreamManagers) {
+          manager.updateSubscription({
+            boundingBoxes: [region.bounds],
+          });
+        }
       });
 
       this.regionalScheduler.on('cycleComplete', () => {
@@ -133,8 +274,13 @@ class Server {
       const app = createApp(
         this.pool,
         this.cacheService,
-        this.aisStreamManager,
-        this.regionalScheduler
+        this.aisSources,
+        this.regionalScheduler,
+        this.recorder,
+        this.positionSpool || undefined,
+        this.metrics || undefined,
+        positionHistory,
+        vesselRepository
       );
 
       // Create HTTP server
@@ -146,6 +292,7 @@ class Server {
       logger.info('Initializing WebSocket server...');
       this.wsServer = new WebSocketServer();
       this.wsServer.initialize(this.httpServer);
+      this.metrics?.observeWebSocketServer(this.wsServer);
 
       // Connect DataPipeline to WebSocket server for broadcasting
       this.dataPipeline.on('vesselUpdate', (update) => {
@@ -174,14 +321,26 @@ class Server {
       logger.info('Using global coverage for initial AISStream connection');
 
       // Set initial subscription to global coverage before connecting
-      this.aisStreamManager.updateSubscription({
-        boundingBoxes: [globalBounds],
-      });
+      for (const manager of this.aisStreamManagers) {
+        manager.updateSubscription({
+          boundingBoxes: [globalBounds],
+        });
+      }
 
-      // Connect to AISStream with initial region
-      logger.info('Connecting to AISStream...');
-      await this.aisStreamManager.connect();
-      logger.info('AISStream connection established');
+      // Connect all AIS sources; sources that fail keep retrying in the background
+      logger.info('Connecting AIS sources...');
+      const results = await Promise.allSettled(this.aisSources.map((source) => source.connect()));
+      results.forEach((result, index) => {
+        const source = this.aisSources[index];
+        if (result.status === 'fulfilled') {
+          logger.info('AIS source connection established', { source: source.name });
+        } else {
+          logger.warn('AIS source failed to connect, will retry', {
+            source: source.name,
+            error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+          });
+        }
+      });
 
       // Now start regional scheduler (skip initial emit since we already connected with initial region)
       this.regionalScheduler.start(true);
@@ -204,33 +363,81 @@ class Server {
   }
 
   /**
-   * Reconnect to AISStream with updated subscription
-   * Used when regional scheduler changes the bounding box
+   * Forward a source's messages to the data pipeline and log its lifecycle events
    */
-  private async reconnectAISStream(): Promise<void> {
-    if (!this.aisStreamManager) {
-      return;
-    }
+  private attachSource(source: AisSource): void {
+    this.metrics?.observeSource(source);
 
-    try {
-      logger.info('Reconnecting to AISStream with new subscription...');
-      this.aisStreamManager.disconnect();
+    source.on('raw', (message) => {
+      this.recorder?.record(message);
+    });
 
-      // Small delay before reconnecting
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+    source.on('invalidMessage', (message) => {
+      this.deadLetterQueue?.record(message);
+    });
 
-      await this.aisStreamManager.connect();
-      logger.info('AISStream reconnected successfully');
-    } catch (error) {
-      logger.error('Failed to reconnect to AISStream', error);
+    source.on('position', (position) => {
+      this.dataPipeline?.processPosition(position).catch((error) => {
+        logger.error('Failed to process position', error, { source: source.name });
+      });
+    });
+
+    source.on('staticData', (staticData) => {
+      this.dataPipeline?.processStaticData(staticData).catch((error) => {
+        logger.error('Failed to process static data', error, { source: source.name });
+      });
+    });
+
+    source.on('baseStation', (report) => {
+      this.dataPipeline?.processBaseStation(report).catch((error) => {
+        logger.error('Failed to process base station report', error, { source: source.name });
+      });
+    });
+
+    source.on('aidToNavigation', (report) => {
+      this.dataPipeline?.processAidToNavigation(report).catch((error) => {
+        logger.error('Failed to process aid-to-navigation report', error, { source: source.name });
+      });
+    });
+
+    source.on('error', (error) => {
+      logger.logAISStreamError(error, { source: source.name });
+    });
+
+    source.on('connected', () => {
+      logger.info('AIS source connected successfully', { source: source.name });
+    });
+
+    source.on('disconnected', (info) => {
+      logger.warn('AIS source disconnected', { source: source.name, ...info });
+    });
+
+    source.on('reconnecting', (info) => {
+      logger.info('AIS source reconnecting...', { source: source.name, ...info });
+    });
+  }
+
+  /**
+   * Read the storage mode from STORAGE (default: postgres)
+   */
+  private getStorageMode(): StorageMode {
+    const storage = process.env.STORAGE || 'postgres';
+    if (!STORAGE_MODES.includes(storage as StorageMode)) {
+      throw new ConfigurationError(`Invalid STORAGE "${storage}"`, { allowed: STORAGE_MODES });
     }
+    return storage as StorageMode;
   }
 
   /**
    * Validate required environment variables
+   * The AISStream API key is only required when an AISStream source is configured;
+   * in-memory storage needs neither PostgreSQL nor Redis
    */
-  private validateEnvironment(): void {
-    const required = ['AISSTREAM_API_KEY', 'DATABASE_URL', 'REDIS_URL'];
+  private validateEnvironment(sourceConfigs: AisSourceConfig[], storage: StorageMode): void {
+    const required = storage === 'memory' ? [] : ['DATABASE_URL', 'REDIS_URL'];
+    if (sourceConfigs.some((config) => config.type === 'aisstream' && !config.apiKey)) {
+      required.unshift('AISSTREAM_API_KEY');
+    }
     const missing = required.filter((key) => !process.env[key]);
 
     if (missing.length > 0) {
@@ -263,6 +470,45 @@ class Server {
     }
   }
 
+  /**
+   * Apply pending migrations from database/migrations
+   * Fails startup when an applied migration file has changed since it was applied
+   */
+  private async runMigrations(): Promise<void> {
+    if (!this.pool) {
+      throw new Error('Database pool not initialized');
+    }
+
+    const runner = new MigrationRunner(this.pool, {
+      directory: process.env.MIGRATIONS_DIR || DEFAULT_MIGRATIONS_DIR,
+    });
+    const applied = await runner.up();
+    logger.info('Database schema up to date', {
+      applied: applied.map((migration) => migration.version),
+    });
+  }
+
+  /**
+   * Read position retention and compression ages from the environment
+   * 0 turns a policy off; compression defaults to 7 days, retention to forever
+   */
+  private getStoragePolicyConfig(): StoragePolicyConfig {
+    const days = (name: string, defaultDays: number | null): number | null => {
+      const value = process.env[name];
+      if (value === undefined || value === '') {
+        return defaultDays;
+      }
+      const parsed = Number(value);
+      return parsed === 0 ? null : parsed;
+    };
+
+    return {
+      rawRetentionDays: days('POSITION_RETENTION_DAYS', null),
+      compressAfterDays: days('POSITION_COMPRESS_AFTER_DAYS', 7),
+      downsampledRetentionDays: days('POSITION_DOWNSAMPLED_RETENTION_DAYS', null),
+    };
+  }
+
   /**
    * Setup graceful shutdown handlers
    * Validates: Requirements 6.5
@@ -309,9 +555,10 @@ class Server {
 
     try {
       // Stop accepting new connections
-      if (this.httpServer) {
+      const httpServer = this.httpServer;
+      if (httpServer) {
         await new Promise<void>((resolve) => {
-          this.httpServer!.close(() => {
+          httpServer.close(() => {
             logger.info('HTTP server closed');
             resolve();
           });
@@ -324,10 +571,16 @@ class Server {
         logger.info('Regional scheduler stopped');
       }
 
-      // Disconnect from AISStream
-      if (this.aisStreamManager) {
-        this.aisStreamManager.disconnect();
-        logger.info('AISStream disconnected');
+      // Disconnect all AIS sources
+      for (const source of this.aisSources) {
+        source.disconnect();
+        logger.info('AIS source disconnected', { source: source.name });
+      }
+
+      // Close the current recorder archive
+      if (this.recorder) {
+        await this.recorder.stop();
+        logger.info('Message recorder stopped');
       }
 
       // Stop data pipeline (flushes remaining batches)
@@ -336,6 +589,17 @@ class Server {
         logger.info('Data pipeline stopped');
       }
 
+      // Stop closing stale port calls
+      if (this.portCallDetector) {
+        this.portCallDetector.stop();
+      }
+
+      // Write remaining dead letters
+      if (this.deadLetterQueue) {
+        await this.deadLetterQueue.stop();
+        logger.info('Dead-letter queue stopped');
+      }
+
       // Close WebSocket server
       if (this.wsServer) {
         await this.wsServer.close();
@@ -345,7 +609,7 @@ class Server {
       // Disconnect from Redis
       if (this.cacheService) {
         await this.cacheService.disconnect();
-        logger.info('Redis disconnected');
+        logger.info('Cache disconnected');
       }
 
       // Close database connection pool
@@ -0,0 +1,229 @@
+import { AISStreamManager } from './AISStreamManager';
+import { AISStreamMessage } from './AISStreamParser';
+import { MockAISStreamServer, MockSubscription } from './MockAISStreamServer';
+import { PositionReport } from '../types';
+
+function positionMessage(mmsi: number, latitude: number, longitude: number): AISStreamMessage {
+  return {
+    MessageType: 'PositionReport',
+    MetaData: { MMSI: mmsi, latitude, longitude },
+    Message: { PositionReport: { UserID: mmsi, Latitude: latitude, Longitude: longitude } },
+  };
+}
+
+const NORTH_SEA = { minLat: 50, minLon: 0, maxLat: 55, maxLon: 5 };
+const US_EAST = { minLat: 35, minLon: -75, maxLat: 45, maxLon: -65 };
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('AISStreamManager', () => {
+  let server: MockAISStreamServer;
+  let manager: AISStreamManager;
+  let updates: MockSubscription[];
+  let disconnects: number;
+
+  beforeEach(async () => {
+    server = new MockAISStreamServer({
+      intervalMs: 20,
+      messages: [positionMessage(244670316, 52, 3), positionMessage(366053209, 40, -70)],
+    });
+    updates = [];
+    disconnects = 0;
+    server.on('subscriptionUpdated', (subscription: MockSubscription) =>
+      updates.push(subscription)
+    );
+    server.on('clientDisconnected', () => disconnects++);
+    const port = await server.start();
+
+    manager = new AISStreamManager('test-key', `ws://127.0.0.1:${port}`, 'mock', {
+      subscriptionDebounceMs: 50,
+    });
+    manager.updateSubscription({ boundingBoxes: [NORTH_SEA] });
+  });
+
+  afterEach(async () => {
+    manager.disconnect();
+    await server.stop();
+  });
+
+  it('should switch bounding boxes on the open connection without reconnecting', async () => {
+    const positions: PositionReport[] = [];
+    manager.on('position', (position: PositionReport) => positions.push(position));
+    await manager.connect();
+    await sleep(60);
+
+    manager.updateSubscription({ boundingBoxes: [US_EAST] });
+    await sleep(120);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].BoundingBoxes).toEqual([
+      [
+        [35, -75],
+        [45, -65],
+      ],
+    ]);
+    expect(disconnects).toBe(0);
+    expect(positions[0].mmsi).toBe('244670316');
+    expect(positions[positions.length - 1].mmsi).toBe('366053209');
+  });
+
+  it('should send boxes crossing the antimeridian as their eastern and western parts', async () => {
+    await manager.connect();
+    await sleep(20);
+
+    manager.updateSubscription({
+      boundingBoxes: [{ minLat: -25, minLon: 170, maxLat: -10, maxLon: -170 }],
+    });
+    manager.flushSubscription();
+    await sleep(50);
+
+    expect(updates[0].BoundingBoxes).toEqual([
+      [
+        [-25, 170],
+        [-10, 180],
+      ],
+      [
+        [-25, -180],
+        [-10, -170],
+      ],
+    ]);
+  });
+
+  it('should debounce rapid changes into a single update with the latest options', async () => {
+    await manager.connect();
+    await sleep(20);
+
+    manager.updateSubscription({ boundingBoxes: [US_EAST] });
+    manager.updateSubscription({ messageTypes: ['PositionReport'] });
+    manager.updateSubscription({ mmsiFilters: ['366053209'] });
+    await sleep(120);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({
+      FilterMessageTypes: ['PositionReport'],
+      FiltersShipMMSI: ['366053209'],
+    });
+  });
+
+  it('should not resend a subscription that has not changed', async () => {
+    await manager.connect();
+    await sleep(20);
+
+    manager.updateSubscription({ boundingBoxes: [{ ...NORTH_SEA }] });
+    manager.flushSubscription();
+    await sleep(50);
+
+    expect(updates).toHaveLength(0);
+  });
+
+  it('should reconnect with the new subscription when it cannot be sent in place', async () => {
+    await manager.connect();
+    await sleep(20);
+
+    const connected = new Promise<void>((resolve) => manager.once('connected', () => resolve()));
+    const subscribed = new Promise<MockSubscription>((resolve) =>
+      server.once('subscribed', resolve)
+    );
+    // Simulate a connection that can no longer take writes
+    const ws = (manager as unknown as { ws: { send: () => void } }).ws;
+    ws.send = () => {
+      throw new Error('socket write failed');
+    };
+
+    manager.updateSubscription({ boundingBoxes: [US_EAST] });
+    manager.flushSubscription();
+    await connected;
+
+    expect((await subscribed).BoundingBoxes).toEqual([
+      [
+        [35, -75],
+        [45, -65],
+      ],
+    ]);
+    expect(disconnects).toBe(1);
+  });
+});
+
+describe('AISStreamManager reconnect policy', () => {
+  let server: MockAISStreamServer;
+  let manager: AISStreamManager;
+
+  function createManager(port: number, apiKey = 'test-key'): AISStreamManager {
+    const created = new AISStreamManager(apiKey, `ws://127.0.0.1:${port}`, 'mock', {
+      reconnect: {
+        initialDelayMs: 10,
+        maxDelayMs: 20,
+        jitter: 0,
+        authFailureThreshold: 2,
+        circuitOpenMs: 60000,
+      },
+    });
+    created.on('error', () => undefined);
+    return created;
+  }
+
+  async function waitUntil(condition: () => boolean): Promise<void> {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await sleep(10);
+    }
+  }
+
+  afterEach(async () => {
+    manager.disconnect();
+    await server.stop();
+  });
+
+  it('should open the circuit after repeated API key rejections', async () => {
+    server = new MockAISStreamServer({ apiKeys: ['test-key'], messages: [] });
+    manager = createManager(await server.start(), 'wrong-key');
+
+    await manager.connect();
+    await waitUntil(() => manager.getStatistics().reconnect?.circuit === 'open');
+
+    expect(manager.getStatistics().reconnect).toMatchObject({
+      circuit: 'open',
+      consecutiveAuthFailures: 2,
+      lastFailure: 'auth',
+      lastFailureReason: 'Api Key Is Not Valid',
+    });
+    expect(server.getStatus().connectionsRejected).toBe(2);
+  });
+
+  it('should reconnect after a dropped connection and report it as a network failure', async () => {
+    server = new MockAISStreamServer({
+      intervalMs: 10,
+      messages: [positionMessage(244670316, 52, 3)],
+    });
+    manager = createManager(await server.start());
+    await manager.connect();
+    await sleep(30);
+
+    const reconnected = new Promise<void>((resolve) => manager.once('connected', () => resolve()));
+    server.dropClients();
+    await reconnected;
+    await sleep(30);
+
+    expect(manager.getStatistics()).toMatchObject({
+      isConnected: true,
+      reconnectAttempts: 1,
+      reconnect: { circuit: 'closed', attempts: 0, lastFailure: 'network' },
+    });
+  });
+
+  it('should keep retrying past the old five-attempt limit', async () => {
+    server = new MockAISStreamServer({ messages: [] });
+    const port = await server.start();
+    await server.stop();
+    manager = createManager(port);
+
+    let attempts = 0;
+    manager.on('reconnecting', () => attempts++);
+    await manager.connect().catch(() => undefined);
+    await waitUntil(() => attempts > 6);
+
+    expect(attempts).toBeGreaterThan(6);
+    expect(manager.getStatistics().reconnect?.exhausted).toBe(false);
+  });
+});
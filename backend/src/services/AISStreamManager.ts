@@ -1,7 +1,21 @@
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
-import { PositionReport, ShipStaticData, VesselDimensions } from '../types';
-import { createComponentLogger, AISStreamError } from '../utils';
+import {
+  AidToNavigationReport,
+  BaseStationReport,
+  InvalidAisMessage,
+  PositionReport,
+  ShipStaticData,
+} from '../types';
+import { createComponentLogger, AISStreamError, splitAtAntimeridian } from '../utils';
+import { AisSource, RawAisMessage } from './AisSource';
+import { AISStreamParser } from './AISStreamParser';
+import {
+  ReconnectFailureKind,
+  ReconnectPolicy,
+  ReconnectPolicyConfig,
+  ReconnectPolicyState,
+} from './ReconnectPolicy';
 
 /**
  * Subscription options for AISStream API
@@ -19,6 +33,26 @@ interface BoundingBox {
   maxLon: number;
 }
 
+/**
+ * Tuning options for AISStreamManager
+ */
+export interface AISStreamManagerOptions {
+  /** Wait this long for further subscription changes before sending them (default: 500 ms) */
+  subscriptionDebounceMs?: number;
+  /** Backoff, retry limit and circuit breaker settings */
+  reconnect?: ReconnectPolicyConfig;
+}
+
+/**
+ * Subscription message in AISStream wire format
+ */
+interface AISStreamSubscriptionMessage {
+  APIKey: string;
+  BoundingBoxes: number[][][];
+  FilterMessageTypes: string[];
+  FiltersShipMMSI?: string[];
+}
+
 /**
  * Connection statistics for monitoring
  */
@@ -29,71 +63,65 @@ export interface ConnectionStatistics {
   errors: number;
   lastMessage: Date | null;
   reconnectAttempts: number;
+  /** Reconnect policy state, for sources that have one */
+  reconnect?: ReconnectPolicyState;
 }
 
 /**
- * AISStream message types
+ * Message types subscribed to by default
  */
-interface AISStreamMessage {
-  MessageType: string;
-  Message?: {
-    PositionReport?: AISPositionReport;
-    ShipStaticData?: AISShipStaticData;
-  };
-  MetaData?: {
-    MMSI?: number;
-    ShipName?: string;
-    time_utc?: string;
-  };
-}
-
-interface AISPositionReport {
-  Latitude?: number;
-  Longitude?: number;
-  Sog?: number;
-  Cog?: number;
-  TrueHeading?: number;
-  NavigationalStatus?: number;
-  RateOfTurn?: number;
-  UserID?: number;
-}
+const DEFAULT_MESSAGE_TYPES = [
+  'PositionReport',
+  'ShipStaticData',
+  'StandardClassBPositionReport',
+  'ExtendedClassBPositionReport',
+  'StaticDataReport',
+  'BaseStationReport',
+  'AidsToNavigationReport',
+  'StandardSearchAndRescueAircraftReport',
+];
+
+// HTTP statuses on the WebSocket upgrade that mean the credentials were refused
+const AUTH_REJECTION_PATTERN = /Unexpected server response: (401|403)/;
 
-interface AISShipStaticData {
-  Name?: string;
-  Type?: number;
-  ImoNumber?: number;
-  CallSign?: string;
-  Dimension?: {
-    A?: number;
-    B?: number;
-    C?: number;
-    D?: number;
-  };
-  Destination?: string;
-  Eta?: {
-    Month?: number;
-    Day?: number;
-    Hour?: number;
-    Minute?: number;
-  };
-  Draught?: number;
-  UserID?: number;
+/**
+ * Order-insensitive form of a subscription, used to skip resending unchanged subscriptions
+ */
+function subscriptionKey(message: AISStreamSubscriptionMessage): string {
+  return JSON.stringify({
+    apiKey: message.APIKey,
+    boundingBoxes: message.BoundingBoxes.map((box) => JSON.stringify(box)).sort(),
+    messageTypes: [...message.FilterMessageTypes].sort(),
+    mmsi: [...(message.FiltersShipMMSI || [])].sort(),
+  });
 }
 
 /**
  * AISStreamManager manages WebSocket connection to AISStream API
  * Handles authentication, message parsing, and reconnection logic
+ * Subscription changes are sent on the open connection; AISStream replaces
+ * the previous subscription without reconnecting
  */
-export class AISStreamManager extends EventEmitter {
+export class AISStreamManager extends EventEmitter implements AisSource {
+  readonly kind = 'aisstream' as const;
+  readonly name: string;
   private ws: WebSocket | null = null;
   private apiKey: string;
   private wsUrl: string = 'wss://stream.aisstream.io/v0/stream';
   private isConnected: boolean = false;
   private reconnectAttempts: number = 0;
-  private maxReconnectAttempts: number = 5;
   private reconnectTimeout: NodeJS.Timeout | null = null;
+  private reconnectPolicy: ReconnectPolicy;
+  // Set once the server sends data after authentication
+  private authenticated = false;
+  // Why the server rejected the current connection, if it did
+  private rejectionReason: string | null = null;
   private authenticationSent: boolean = false;
   private connectionStartTime: Date | null = null;
+  private subscriptionDebounceMs: number;
+  private subscriptionTimer: NodeJS.Timeout | null = null;
+  // Subscription last sent on the current connection
+  private sentSubscriptionKey: string | null = null;
 
   // Statistics
   private stats: ConnectionStatistics = {
@@ -107,17 +135,65 @@ export class AISStreamManager extends EventEmitter {
 
   // Subscription configuration
   private subscriptionOptions: SubscriptionOptions = {
-    messageTypes: ['PositionReport', 'ShipStaticData'],
+    messageTypes: DEFAULT_MESSAGE_TYPES,
   };
 
+  private parser = new AISStreamParser();
   private logger = createComponentLogger('AISStreamManager');
 
-  constructor(apiKey: string, wsUrl?: string) {
+  constructor(
+    apiKey: string,
+    wsUrl?: string,
+    name = 'aisstream',
+    options: AISStreamManagerOptions = {}
+  ) {
     super();
     this.apiKey = apiKey;
+    this.name = name;
     if (wsUrl) {
       this.wsUrl = wsUrl;
     }
+    this.subscriptionDebounceMs = options.subscriptionDebounceMs ?? 500;
+    this.reconnectPolicy = new ReconnectPolicy(options.reconnect);
+
+    this.parser.on('position', (position: PositionReport) => {
+      this.stats.messagesProcessed++;
+      this.emit('position', position);
+    });
+
+    this.parser.on('staticData', (staticData: ShipStaticData) => {
+      this.stats.messagesProcessed++;
+      this.emit('staticData', staticData);
+    });
+
+    this.parser.on('baseStation', (report: BaseStationReport) => {
+      this.stats.messagesProcessed++;
+      this.emit('baseStation', report);
+    });
+
+    this.parser.on('aidToNavigation', (report: AidToNavigationReport) => {
+      this.stats.messagesProcessed++;
+      this.emit('aidToNavigation', report);
+    });
+
+    this.parser.on('error', (error: Error) => {
+      this.stats.errors++;
+      this.emit('error', error);
+    });
+
+    this.parser.on('invalidMessage', (message: InvalidAisMessage) => {
+      this.emit('invalidMessage', { ...message, source: this.name });
+    });
+
+    this.parser.on('serverError', (message: string) => {
+      this.stats.errors++;
+      this.rejectionReason = message;
+      const rejectionError = new AISStreamError('AISStream rejected the connection', {
+        reason: message,
+      });
+      this.logger.logAISStreamError(rejectionError, { source: this.name });
+      this.emit('error', rejectionError);
+    });
   }
 
   /**
@@ -136,10 +212,13 @@ export class AISStreamManager extends EventEmitter {
           this.stats.isConnected = true;
           this.reconnectAttempts = 0;
           this.authenticationSent = false;
+          this.authenticated = false;
+          this.rejectionReason = null;
+          this.reconnectPolicy.recordConnected();
 
           // Send authentication message within 3 seconds
           this.sendAuthentication();
-          
+
           this.emit('connected');
           resolve();
         });
@@ -154,16 +233,28 @@ export class AISStreamManager extends EventEmitter {
           this.isConnected = false;
           this.stats.isConnected = false;
           this.authenticationSent = false;
-          
+          this.sentSubscriptionKey = null;
+
           this.emit('disconnected', { code, reason: reason.toString() });
-          
-          // Attempt reconnection with exponential backoff
-          this.scheduleReconnect();
+
+          // Attempt reconnection with backoff, unless disconnect() closed it
+          if (this.ws) {
+            const kind: ReconnectFailureKind = this.rejectionReason ? 'auth' : 'network';
+            this.reconnectPolicy.recordFailure(
+              kind,
+              this.rejectionReason || reason.toString() || `Connection closed (${code})`
+            );
+            this.rejectionReason = null;
+            this.scheduleReconnect(kind);
+          }
         });
 
         // Error occurred
         this.ws.on('error', (error: Error) => {
           this.stats.errors++;
+          if (AUTH_REJECTION_PATTERN.test(error.message)) {
+            this.rejectionReason = error.message;
+          }
           const aisError = new AISStreamError('WebSocket error occurred', {
             originalError: error.message,
             isConnected: this.isConnected,
@@ -172,7 +263,7 @@ export class AISStreamManager extends EventEmitter {
             reconnectAttempts: this.reconnectAttempts,
           });
           this.emit('error', aisError);
-          
+
           if (!this.isConnected) {
             reject(aisError);
           }
@@ -193,7 +284,6 @@ export class AISStreamManager extends EventEmitter {
         this.ws.on('open', () => {
           clearTimeout(connectionTimeout);
         });
-
       } catch (error) {
         reject(error);
       }
@@ -209,33 +299,14 @@ export class AISStreamManager extends EventEmitter {
       return;
     }
 
-    // Convert bounding boxes to AISStream format: [[lat1, lon1], [lat2, lon2]]
-    let boundingBoxes: number[][][] = [
-      // Default: Global coverage
-      [
-        [-90, -180],
-        [90, 180],
-      ],
-    ];
-
-    if (this.subscriptionOptions.boundingBoxes && this.subscriptionOptions.boundingBoxes.length > 0) {
-      boundingBoxes = this.subscriptionOptions.boundingBoxes.map((bbox) => [
-        [bbox.minLat, bbox.minLon],
-        [bbox.maxLat, bbox.maxLon],
-      ]);
-    }
-
-    const authMessage = {
-      APIKey: this.apiKey,
-      BoundingBoxes: boundingBoxes,
-      FilterMessageTypes: this.subscriptionOptions.messageTypes || ['PositionReport', 'ShipStaticData'],
-    };
+    const authMessage = this.buildSubscriptionMessage();
 
     try {
       this.ws.send(JSON.stringify(authMessage));
       this.authenticationSent = true;
+      this.sentSubscriptionKey = subscriptionKey(authMessage);
       this.logger.info('Authentication message sent');
-      
+
       // Verify authentication was sent within 3 seconds
       if (this.connectionStartTime) {
         const authTime = new Date().getTime() - this.connectionStartTime.getTime();
@@ -249,196 +320,130 @@ export class AISStreamManager extends EventEmitter {
       }
     } catch (error) {
       this.stats.errors++;
-      const authError = new AISStreamError(
-        'Failed to send authentication',
-        { originalError: error instanceof Error ? error.message : String(error) }
-      );
+      const authError = new AISStreamError('Failed to send authentication', {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
       this.logger.logAISStreamError(authError);
       this.emit('error', authError);
     }
   }
 
   /**
-   * Handle incoming WebSocket messages
-   * Parses and emits appropriate events
+   * Build the subscription message from the current subscription options
    */
-  private handleMessage(data: WebSocket.Data): void {
-    this.stats.messagesReceived++;
-    this.stats.lastMessage = new Date();
+  private buildSubscriptionMessage(): AISStreamSubscriptionMessage {
+    // Convert bounding boxes to AISStream format: [[lat1, lon1], [lat2, lon2]]
+    // AISStream expects minLon < maxLon, so boxes crossing the antimeridian are sent as two boxes
+    let boundingBoxes: number[][][] = [
+      // Default: Global coverage
+      [
+        [-90, -180],
+        [90, 180],
+      ],
+    ];
 
-    try {
-      const message: AISStreamMessage = JSON.parse(data.toString());
-
-      // Parse Position Report messages
-      if (message.MessageType === 'PositionReport' && message.Message?.PositionReport) {
-        const positionReport = this.parsePositionReport(message);
-        if (positionReport) {
-          this.stats.messagesProcessed++;
-          this.emit('position', positionReport);
-        }
-      }
+    if (
+      this.subscriptionOptions.boundingBoxes &&
+      this.subscriptionOptions.boundingBoxes.length > 0
+    ) {
+      boundingBoxes = this.subscriptionOptions.boundingBoxes
+        .flatMap(splitAtAntimeridian)
+        .map((bbox) => [
+          [bbox.minLat, bbox.minLon],
+          [bbox.maxLat, bbox.maxLon],
+        ]);
+    }
 
-      // Parse Ship Static Data messages
-      if (message.MessageType === 'ShipStaticData' && message.Message?.ShipStaticData) {
-        const staticData = this.parseShipStaticData(message);
-        if (staticData) {
-          this.stats.messagesProcessed++;
-          this.emit('staticData', staticData);
-        }
-      }
+    const message: AISStreamSubscriptionMessage = {
+      APIKey: this.apiKey,
+      BoundingBoxes: boundingBoxes,
+      FilterMessageTypes: this.subscriptionOptions.messageTypes || DEFAULT_MESSAGE_TYPES,
+    };
 
-    } catch (error) {
-      this.stats.errors++;
-      this.logger.logInvalidMessage('Unknown', data.toString(), 
-        error instanceof Error ? error.message : String(error)
-      );
-      this.emit('error', new Error(`Failed to parse message: ${error}`));
+    if (this.subscriptionOptions.mmsiFilters && this.subscriptionOptions.mmsiFilters.length > 0) {
+      message.FiltersShipMMSI = this.subscriptionOptions.mmsiFilters;
     }
+
+    return message;
   }
 
   /**
-   * Parse Position Report message
-   * Extracts: latitude, longitude, SOG, COG, MMSI, timestamp
+   * Handle incoming WebSocket messages
+   * Parses and emits appropriate events
    */
-  private parsePositionReport(message: AISStreamMessage): PositionReport | null {
-    try {
-      const pr = message.Message?.PositionReport;
-      const metadata = message.MetaData;
-
-      if (!pr || !metadata) {
-        return null;
-      }
-
-      // Extract MMSI from UserID or MetaData
-      const mmsi = (pr.UserID || metadata.MMSI)?.toString();
-      if (!mmsi) {
-        return null;
-      }
-
-      // Validate required fields
-      if (pr.Latitude === undefined || pr.Longitude === undefined) {
-        return null;
-      }
+  private handleMessage(data: WebSocket.Data): void {
+    this.stats.messagesReceived++;
+    this.stats.lastMessage = new Date();
 
-      // Parse timestamp
-      const timestamp = metadata.time_utc ? new Date(metadata.time_utc) : new Date();
-
-      return {
-        mmsi,
-        timestamp,
-        latitude: pr.Latitude,
-        longitude: pr.Longitude,
-        sog: pr.Sog,
-        cog: pr.Cog,
-        true_heading: pr.TrueHeading,
-        navigational_status: pr.NavigationalStatus,
-        rate_of_turn: pr.RateOfTurn,
+    if (this.listenerCount('raw') > 0) {
+      const raw: RawAisMessage = {
+        source: this.name,
+        format: 'aisstream-json',
+        receivedAt: this.stats.lastMessage,
+        data: data.toString(),
       };
-    } catch (error) {
-      this.logger.logInvalidMessage('PositionReport', message, 
-        error instanceof Error ? error.message : String(error)
-      );
-      this.emit('error', new Error(`Failed to parse Position Report: ${error}`));
-      return null;
+      this.emit('raw', raw);
     }
-  }
-
-  /**
-   * Parse Ship Static Data message
-   * Extracts: vessel name, type, dimensions, destination
-   */
-  private parseShipStaticData(message: AISStreamMessage): ShipStaticData | null {
-    try {
-      const ssd = message.Message?.ShipStaticData;
-      const metadata = message.MetaData;
 
-      if (!ssd || !metadata) {
-        return null;
-      }
+    this.parser.parse(data.toString(), this.stats.lastMessage);
 
-      // Extract MMSI from UserID or MetaData
-      const mmsi = (ssd.UserID || metadata.MMSI)?.toString();
-      if (!mmsi) {
-        return null;
-      }
-
-      // Parse dimensions
-      let dimensions: VesselDimensions | undefined;
-      if (ssd.Dimension) {
-        dimensions = {
-          a: ssd.Dimension.A || 0,
-          b: ssd.Dimension.B || 0,
-          c: ssd.Dimension.C || 0,
-          d: ssd.Dimension.D || 0,
-        };
-      }
-
-      // Parse ETA if available
-      let eta: Date | undefined;
-      if (ssd.Eta && ssd.Eta.Month && ssd.Eta.Day) {
-        const currentYear = new Date().getFullYear();
-        eta = new Date(
-          currentYear,
-          ssd.Eta.Month - 1,
-          ssd.Eta.Day,
-          ssd.Eta.Hour || 0,
-          ssd.Eta.Minute || 0
-        );
-      }
-
-      return {
-        mmsi,
-        name: ssd.Name || metadata.ShipName,
-        type: ssd.Type,
-        imo: ssd.ImoNumber,
-        callSign: ssd.CallSign,
-        dimensions,
-        destination: ssd.Destination,
-        eta,
-        draught: ssd.Draught,
-      };
-    } catch (error) {
-      this.logger.logInvalidMessage('ShipStaticData', message, 
-        error instanceof Error ? error.message : String(error)
-      );
-      this.emit('error', new Error(`Failed to parse Ship Static Data: ${error}`));
-      return null;
+    // Data rather than an error after subscribing means the API key was accepted
+    if (!this.authenticated && !this.rejectionReason) {
+      this.authenticated = true;
+      this.reconnectPolicy.recordAuthenticated();
     }
   }
 
   /**
-   * Schedule reconnection with exponential backoff
-   * Attempts up to 5 reconnections
+   * Schedule reconnection according to the reconnect policy
+   * Network failures back off with jitter; repeated auth failures open the circuit
    */
-  private scheduleReconnect(): void {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+  private scheduleReconnect(kind: ReconnectFailureKind): void {
+    // Clear any existing reconnect timeout
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+
+    const delay = this.reconnectPolicy.nextDelay();
+    const policy = this.reconnectPolicy.getState();
+    if (delay === null) {
       const maxAttemptsError = new AISStreamError(
-        `Max reconnection attempts (${this.maxReconnectAttempts}) reached`
+        `Max reconnection attempts (${policy.attempts}) reached`
       );
-      this.logger.logAISStreamError(maxAttemptsError, {
-        maxAttempts: this.maxReconnectAttempts,
-      });
+      this.logger.logAISStreamError(maxAttemptsError, { source: this.name });
       this.emit('error', maxAttemptsError);
       return;
     }
 
-    // Clear any existing reconnect timeout
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
-    }
-
-    // Calculate exponential backoff delay: 2^attempt * 1000ms
-    const delay = Math.pow(2, this.reconnectAttempts) * 1000;
-    this.reconnectAttempts++;
+    this.reconnectAttempts = policy.attempts;
     this.stats.reconnectAttempts = this.reconnectAttempts;
 
-    this.logger.info('Scheduling reconnection', {
+    if (policy.circuit === 'open') {
+      this.logger.warn('AISStream keeps rejecting authentication, pausing reconnection', {
+        source: this.name,
+        consecutiveAuthFailures: policy.consecutiveAuthFailures,
+        reason: policy.lastFailureReason,
+        retryAt: policy.nextAttemptAt?.toISOString(),
+      });
+    } else {
+      this.logger.info('Scheduling reconnection', {
+        source: this.name,
+        attempt: this.reconnectAttempts,
+        delay: `${delay}ms`,
+        reason: kind,
+      });
+    }
+    this.emit('reconnecting', {
       attempt: this.reconnectAttempts,
-      delay: `${delay}ms`,
+      delay,
+      reason: kind,
+      circuit: policy.circuit,
     });
-    this.emit('reconnecting', { attempt: this.reconnectAttempts, delay });
 
     this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.reconnectPolicy.beginAttempt();
       this.connect().catch((error) => {
         const reconnectError = new AISStreamError(
           `Reconnection attempt ${this.reconnectAttempts} failed`,
@@ -454,6 +459,11 @@ export class AISStreamManager extends EventEmitter {
    * Disconnect from AISStream
    */
   disconnect(): void {
+    if (this.subscriptionTimer) {
+      clearTimeout(this.subscriptionTimer);
+      this.subscriptionTimer = null;
+    }
+
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
       this.reconnectTimeout = null;
@@ -471,20 +481,76 @@ export class AISStreamManager extends EventEmitter {
 
   /**
    * Update subscription options
-   * Note: Requires reconnection to take effect
+   * While connected, changes are debounced and then sent on the open connection;
+   * otherwise they are used when the next connection authenticates
    */
   updateSubscription(options: SubscriptionOptions): void {
     this.subscriptionOptions = {
       ...this.subscriptionOptions,
       ...options,
     };
+
+    if (!this.isConnected) {
+      return;
+    }
+
+    if (this.subscriptionTimer) {
+      clearTimeout(this.subscriptionTimer);
+    }
+    this.subscriptionTimer = setTimeout(
+      () => this.flushSubscription(),
+      this.subscriptionDebounceMs
+    );
+  }
+
+  /**
+   * Send pending subscription changes now instead of waiting for the debounce
+   * Unchanged subscriptions are not resent. If the connection cannot take the
+   * update, it is dropped and the reconnect authenticates with the new subscription.
+   */
+  flushSubscription(): void {
+    if (this.subscriptionTimer) {
+      clearTimeout(this.subscriptionTimer);
+      this.subscriptionTimer = null;
+    }
+
+    if (!this.ws || !this.isConnected) {
+      return;
+    }
+
+    const message = this.buildSubscriptionMessage();
+    const key = subscriptionKey(message);
+    if (key === this.sentSubscriptionKey) {
+      this.logger.debug('Subscription unchanged, not resending', { source: this.name });
+      return;
+    }
+
+    try {
+      if (this.ws.readyState !== WebSocket.OPEN) {
+        throw new Error('WebSocket is not open');
+      }
+      this.ws.send(JSON.stringify(message));
+      this.sentSubscriptionKey = key;
+      this.logger.info('Subscription updated on open connection', {
+        source: this.name,
+        boundingBoxes: message.BoundingBoxes.length,
+      });
+      this.emit('subscriptionUpdated', { ...this.subscriptionOptions });
+    } catch (error) {
+      this.logger.warn('Failed to send subscription update, reconnecting', {
+        source: this.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      // The close handler schedules a reconnect, which sends the new subscription
+      this.ws.terminate();
+    }
   }
 
   /**
    * Get connection statistics
    */
   getStatistics(): ConnectionStatistics {
-    return { ...this.stats };
+    return { ...this.stats, reconnect: this.reconnectPolicy.getState() };
   }
 
   /**
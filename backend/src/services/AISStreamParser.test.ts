@@ -0,0 +1,301 @@
+import { AISStreamMessage, AISStreamParser, parseTimeUtc } from './AISStreamParser';
+import {
+  AidToNavigationReport,
+  BaseStationReport,
+  InvalidAisMessage,
+  PositionReport,
+  ShipStaticData,
+} from '../types';
+
+const TIME_UTC = '2025-12-01 10:30:00.123456789 +0000 UTC';
+
+function message(
+  MessageType: string,
+  body: Record<string, unknown>,
+  MMSI: number,
+  ShipName = ''
+): string {
+  const payload: AISStreamMessage = {
+    MessageType,
+    Message: { [MessageType]: body },
+    MetaData: { MMSI, ShipName, latitude: 51.9, longitude: 4.05, time_utc: TIME_UTC },
+  };
+  return JSON.stringify(payload);
+}
+
+describe('AISStreamParser', () => {
+  let parser: AISStreamParser;
+  let positions: PositionReport[];
+  let staticData: ShipStaticData[];
+  let baseStations: BaseStationReport[];
+  let aidsToNavigation: AidToNavigationReport[];
+  let invalid: InvalidAisMessage[];
+
+  beforeEach(() => {
+    parser = new AISStreamParser();
+    positions = [];
+    staticData = [];
+    baseStations = [];
+    aidsToNavigation = [];
+    invalid = [];
+    parser.on('position', (position) => positions.push(position));
+    parser.on('staticData', (data) => staticData.push(data));
+    parser.on('baseStation', (report) => baseStations.push(report));
+    parser.on('aidToNavigation', (report) => aidsToNavigation.push(report));
+    parser.on('invalidMessage', (report) => invalid.push(report));
+    parser.on('error', () => undefined);
+  });
+
+  describe('parseTimeUtc', () => {
+    it('should parse Go-formatted times to millisecond precision', () => {
+      expect(parseTimeUtc(TIME_UTC, new Date(0))).toEqual(
+        new Date(Date.UTC(2025, 11, 1, 10, 30, 0, 123))
+      );
+    });
+
+    it('should fall back when the time is missing or unreadable', () => {
+      const fallback = new Date(Date.UTC(2025, 11, 1));
+      expect(parseTimeUtc(undefined, fallback)).toBe(fallback);
+      expect(parseTimeUtc('yesterday', fallback)).toBe(fallback);
+    });
+  });
+
+  it('should parse a standard Class B position report', () => {
+    parser.parse(
+      message(
+        'StandardClassBPositionReport',
+        {
+          UserID: 244670316,
+          Latitude: 51.9,
+          Longitude: 4.05,
+          Sog: 6.2,
+          Cog: 181.5,
+          TrueHeading: 180,
+        },
+        244670316
+      )
+    );
+
+    expect(positions).toEqual([
+      {
+        mmsi: '244670316',
+        timestamp: new Date(Date.UTC(2025, 11, 1, 10, 30, 0, 123)),
+        latitude: 51.9,
+        longitude: 4.05,
+        sog: 6.2,
+        cog: 181.5,
+        true_heading: 180,
+        navigational_status: undefined,
+        rate_of_turn: undefined,
+        aisClass: 'B',
+      },
+    ]);
+  });
+
+  it('should emit a position and static data for an extended Class B report', () => {
+    parser.parse(
+      message(
+        'ExtendedClassBPositionReport',
+        {
+          UserID: 244670316,
+          Latitude: 51.9,
+          Longitude: 4.05,
+          Sog: 5,
+          Name: 'SEA BREEZE          ',
+          Type: 37,
+          Dimension: { A: 8, B: 4, C: 2, D: 2 },
+        },
+        244670316
+      )
+    );
+
+    expect(positions).toHaveLength(1);
+    expect(positions[0]).toMatchObject({ mmsi: '244670316', sog: 5, aisClass: 'B' });
+    expect(staticData).toEqual([
+      {
+        mmsi: '244670316',
+        name: 'SEA BREEZE',
+        type: 37,
+        dimensions: { a: 8, b: 4, c: 2, d: 2 },
+        aisClass: 'B',
+      },
+    ]);
+  });
+
+  it('should parse part A of a static data report', () => {
+    parser.parse(
+      message(
+        'StaticDataReport',
+        { UserID: 244670316, PartNumber: false, ReportA: { Valid: true, Name: 'SEA BREEZE  ' } },
+        244670316
+      )
+    );
+
+    expect(staticData).toEqual([{ mmsi: '244670316', name: 'SEA BREEZE', aisClass: 'B' }]);
+  });
+
+  it('should parse part B of a static data report', () => {
+    parser.parse(
+      message(
+        'StaticDataReport',
+        {
+          UserID: 244670316,
+          PartNumber: true,
+          ReportB: {
+            Valid: true,
+            ShipType: 37,
+            CallSign: 'PD1234 ',
+            Dimension: { A: 8, B: 4, C: 2, D: 2 },
+          },
+        },
+        244670316
+      )
+    );
+
+    expect(staticData).toEqual([
+      {
+        mmsi: '244670316',
+        type: 37,
+        callSign: 'PD1234',
+        dimensions: { a: 8, b: 4, c: 2, d: 2 },
+        aisClass: 'B',
+      },
+    ]);
+  });
+
+  it('should ignore a static data report part that is not valid', () => {
+    parser.parse(
+      message(
+        'StaticDataReport',
+        { UserID: 244670316, PartNumber: false, ReportA: { Valid: false, Name: '' } },
+        244670316
+      )
+    );
+
+    expect(staticData).toEqual([]);
+  });
+
+  it('should parse a base station report with a zero-padded MMSI', () => {
+    parser.parse(
+      message(
+        'BaseStationReport',
+        {
+          UserID: 2442000,
+          UtcYear: 2025,
+          UtcMonth: 12,
+          UtcDay: 1,
+          UtcHour: 10,
+          UtcMinute: 29,
+          UtcSecond: 59,
+          Latitude: 51.98,
+          Longitude: 4.12,
+          FixType: 1,
+        },
+        2442000
+      )
+    );
+
+    expect(baseStations).toEqual([
+      {
+        mmsi: '002442000',
+        timestamp: new Date(Date.UTC(2025, 11, 1, 10, 30, 0, 123)),
+        latitude: 51.98,
+        longitude: 4.12,
+        fixType: 1,
+        stationTime: new Date(Date.UTC(2025, 11, 1, 10, 29, 59)),
+      },
+    ]);
+  });
+
+  it('should leave the station time unset when the base station has no UTC time', () => {
+    parser.parse(
+      message(
+        'BaseStationReport',
+        { UserID: 2442000, UtcYear: 0, UtcMonth: 0, UtcDay: 0, Latitude: 51.98, Longitude: 4.12 },
+        2442000
+      )
+    );
+
+    expect(baseStations).toHaveLength(1);
+    expect(baseStations[0].stationTime).toBeUndefined();
+  });
+
+  it('should parse an aid-to-navigation report', () => {
+    parser.parse(
+      message(
+        'AidsToNavigationReport',
+        {
+          UserID: 992446001,
+          Type: 14,
+          Name: 'MAASMOND BUOY NORTH ',
+          NameExtension: 'EAST',
+          Latitude: 51.99,
+          Longitude: 4.01,
+          Dimension: { A: 1, B: 1, C: 1, D: 1 },
+          OffPosition: false,
+          VirtualAtoN: true,
+        },
+        992446001
+      )
+    );
+
+    expect(aidsToNavigation).toEqual([
+      {
+        mmsi: '992446001',
+        timestamp: new Date(Date.UTC(2025, 11, 1, 10, 30, 0, 123)),
+        name: 'MAASMOND BUOY NORTH EAST',
+        aidType: 14,
+        latitude: 51.99,
+        longitude: 4.01,
+        dimensions: { a: 1, b: 1, c: 1, d: 1 },
+        virtual: true,
+        offPosition: false,
+      },
+    ]);
+  });
+
+  it('should parse a SAR aircraft report with its altitude and no AIS class', () => {
+    parser.parse(
+      message(
+        'StandardSearchAndRescueAircraftReport',
+        { UserID: 111244501, Altitude: 300, Sog: 120, Cog: 45, Latitude: 52.1, Longitude: 3.9 },
+        111244501
+      )
+    );
+
+    expect(positions).toHaveLength(1);
+    expect(positions[0]).toMatchObject({
+      mmsi: '111244501',
+      latitude: 52.1,
+      longitude: 3.9,
+      sog: 120,
+      cog: 45,
+      altitude: 300,
+    });
+    expect(positions[0].aisClass).toBeUndefined();
+  });
+
+  it('should zero-pad MMSIs taken from the metadata', () => {
+    parser.parse(
+      message('StandardClassBPositionReport', { Latitude: 51.9, Longitude: 4.05 }, 24467031)
+    );
+
+    expect(positions[0].mmsi).toBe('024467031');
+  });
+
+  it('should report unparseable messages as invalid', () => {
+    parser.parse('{"MessageType": ');
+
+    expect(invalid).toHaveLength(1);
+    expect(invalid[0]).toMatchObject({ stage: 'parse', messageType: 'Unknown' });
+  });
+
+  it('should emit AISStream error messages as server errors', () => {
+    const serverErrors: string[] = [];
+    parser.on('serverError', (error) => serverErrors.push(error));
+
+    parser.parse('{"error": "Api Key Is Not Valid"}');
+
+    expect(serverErrors).toEqual(['Api Key Is Not Valid']);
+  });
+});
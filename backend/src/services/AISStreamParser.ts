@@ -0,0 +1,514 @@
+import { EventEmitter } from 'events';
+import {
+  AidToNavigationReport,
+  BaseStationReport,
+  InvalidAisMessage,
+  PositionReport,
+  ShipStaticData,
+  VesselDimensions,
+} from '../types';
+import { createComponentLogger } from '../utils';
+
+/**
+ * AISStream message types
+ */
+export interface AISStreamMessage {
+  MessageType: string;
+  Message?: {
+    PositionReport?: AISPositionReport;
+    ShipStaticData?: AISShipStaticData;
+    StandardClassBPositionReport?: AISPositionReport;
+    ExtendedClassBPositionReport?: AISExtendedClassBPositionReport;
+    StaticDataReport?: AISStaticDataReport;
+    BaseStationReport?: AISBaseStationReport;
+    AidsToNavigationReport?: AISAidsToNavigationReport;
+    StandardSearchAndRescueAircraftReport?: AISSearchAndRescueAircraftReport;
+  };
+  MetaData?: {
+    MMSI?: number;
+    ShipName?: string;
+    latitude?: number;
+    longitude?: number;
+    time_utc?: string;
+  };
+}
+
+interface AISPositionReport {
+  Latitude?: number;
+  Longitude?: number;
+  Sog?: number;
+  Cog?: number;
+  TrueHeading?: number;
+  NavigationalStatus?: number;
+  RateOfTurn?: number;
+  UserID?: number;
+}
+
+interface AISDimension {
+  A?: number;
+  B?: number;
+  C?: number;
+  D?: number;
+}
+
+interface AISExtendedClassBPositionReport extends AISPositionReport {
+  Name?: string;
+  Type?: number;
+  Dimension?: AISDimension;
+}
+
+interface AISStaticDataReport {
+  UserID?: number;
+  PartNumber?: boolean; // false = part A (name), true = part B (type, call sign, dimensions)
+  ReportA?: {
+    Valid?: boolean;
+    Name?: string;
+  };
+  ReportB?: {
+    Valid?: boolean;
+    ShipType?: number;
+    CallSign?: string;
+    Dimension?: AISDimension;
+  };
+}
+
+interface AISBaseStationReport {
+  UserID?: number;
+  UtcYear?: number;
+  UtcMonth?: number;
+  UtcDay?: number;
+  UtcHour?: number;
+  UtcMinute?: number;
+  UtcSecond?: number;
+  Latitude?: number;
+  Longitude?: number;
+  FixType?: number;
+}
+
+interface AISAidsToNavigationReport {
+  UserID?: number;
+  Type?: number;
+  Name?: string;
+  NameExtension?: string;
+  Latitude?: number;
+  Longitude?: number;
+  Dimension?: AISDimension;
+  OffPosition?: boolean;
+  VirtualAtoN?: boolean;
+}
+
+interface AISSearchAndRescueAircraftReport {
+  UserID?: number;
+  Altitude?: number;
+  Sog?: number;
+  Cog?: number;
+  Latitude?: number;
+  Longitude?: number;
+}
+
+interface AISShipStaticData {
+  Name?: string;
+  Type?: number;
+  ImoNumber?: number;
+  CallSign?: string;
+  Dimension?: AISDimension;
+  Destination?: string;
+  Eta?: {
+    Month?: number;
+    Day?: number;
+    Hour?: number;
+    Minute?: number;
+  };
+  Draught?: number;
+  MaximumStaticDraught?: number;
+  UserID?: number;
+}
+
+// AISStream sends Go-formatted times, e.g. "2025-12-01 10:30:00.123456789 +0000 UTC"
+const GO_TIME_PATTERN =
+  /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2})(?:\.(\d+))? ([+-]\d{2})(\d{2})(?: \w+)?$/;
+
+/**
+ * Parse a MetaData.time_utc value, falling back when it is missing or unreadable
+ */
+export function parseTimeUtc(value: string | undefined, fallback: Date): Date {
+  if (!value) {
+    return fallback;
+  }
+
+  const match = GO_TIME_PATTERN.exec(value);
+  const time = match
+    ? new Date(
+        `${match[1]}T${match[2]}.${(match[3] || '0').substring(0, 3).padEnd(3, '0')}${match[4]}:${
+          match[5]
+        }`
+      )
+    : new Date(value);
+  return isNaN(time.getTime()) ? fallback : time;
+}
+
+/**
+ * Format a numeric AISStream MMSI as the 9-digit string used everywhere else,
+ * restoring the leading zeros of coast station (00) and group call (0) MMSIs
+ */
+function formatMmsi(id: number | undefined): string | undefined {
+  return id ? String(id).padStart(9, '0') : undefined;
+}
+
+/**
+ * AISStreamParser parses AISStream JSON messages into typed models
+ * Emits the same position/staticData/baseStation/aidToNavigation events as NMEADecoder,
+ * so live and recorded AISStream messages share one code path, plus 'serverError'
+ * (string) for error messages sent by AISStream itself and 'invalidMessage'
+ * (InvalidAisMessage) for messages that could not be parsed
+ */
+export class AISStreamParser extends EventEmitter {
+  private logger = createComponentLogger('AISStreamParser');
+
+  /**
+   * Parse a single AISStream message
+   * receivedAt is used as the report time when the message carries no time_utc
+   */
+  parse(data: string, receivedAt: Date = new Date()): void {
+    try {
+      const message: AISStreamMessage & { error?: string } = JSON.parse(data);
+
+      // AISStream reports rejected API keys and subscriptions as {"error": "..."}
+      if (typeof message.error === 'string') {
+        this.emit('serverError', message.error);
+        return;
+      }
+
+      switch (message.MessageType) {
+        case 'PositionReport':
+        case 'StandardClassBPositionReport':
+        case 'StandardSearchAndRescueAircraftReport': {
+          const positionReport = this.parsePositionReport(message, receivedAt);
+          if (positionReport) {
+            this.emit('position', positionReport);
+          }
+          break;
+        }
+
+        // Extended Class B reports carry both a position and static data
+        case 'ExtendedClassBPositionReport': {
+          const positionReport = this.parsePositionReport(message, receivedAt);
+          const staticData = this.parseExtendedClassBStaticData(message);
+          if (positionReport) {
+            this.emit('position', positionReport);
+          }
+          if (staticData) {
+            this.emit('staticData', staticData);
+          }
+          break;
+        }
+
+        case 'ShipStaticData':
+        case 'StaticDataReport': {
+          const staticData =
+            message.MessageType === 'ShipStaticData'
+              ? this.parseShipStaticData(message)
+              : this.parseStaticDataReport(message);
+          if (staticData) {
+            this.emit('staticData', staticData);
+          }
+          break;
+        }
+
+        case 'BaseStationReport': {
+          const baseStation = this.parseBaseStationReport(message, receivedAt);
+          if (baseStation) {
+            this.emit('baseStation', baseStation);
+          }
+          break;
+        }
+
+        case 'AidsToNavigationReport': {
+          const aidToNavigation = this.parseAidsToNavigationReport(message, receivedAt);
+          if (aidToNavigation) {
+            this.emit('aidToNavigation', aidToNavigation);
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.logger.logInvalidMessage('Unknown', data, reason);
+      this.reportInvalid('Unknown', reason, data, receivedAt);
+      this.emit('error', new Error(`Failed to parse message: ${error}`));
+    }
+  }
+
+  /**
+   * Emit a message that could not be parsed, with its MMSI when the metadata has one
+   */
+  private reportInvalid(
+    messageType: string,
+    reason: string,
+    payload: string | AISStreamMessage,
+    receivedAt?: Date
+  ): void {
+    const mmsi = typeof payload === 'string' ? undefined : formatMmsi(payload.MetaData?.MMSI);
+    const invalid: InvalidAisMessage = {
+      stage: 'parse',
+      messageType,
+      reason,
+      mmsi,
+      payload,
+      receivedAt,
+    };
+    this.emit('invalidMessage', invalid);
+  }
+
+  /**
+   * Parse Class A, Class B and SAR aircraft position reports
+   * Extracts: latitude, longitude, SOG, COG, MMSI, timestamp
+   */
+  private parsePositionReport(message: AISStreamMessage, receivedAt: Date): PositionReport | null {
+    try {
+      const body = message.Message;
+      const sar = body?.StandardSearchAndRescueAircraftReport;
+      const pr: AISPositionReport | undefined =
+        body?.PositionReport ||
+        body?.StandardClassBPositionReport ||
+        body?.ExtendedClassBPositionReport ||
+        sar;
+      const metadata = message.MetaData;
+
+      if (!pr || !metadata) {
+        return null;
+      }
+
+      // Extract MMSI from UserID or MetaData
+      const mmsi = formatMmsi(pr.UserID || metadata.MMSI);
+      if (!mmsi) {
+        return null;
+      }
+
+      // Validate required fields
+      if (pr.Latitude === undefined || pr.Longitude === undefined) {
+        return null;
+      }
+
+      // Parse timestamp
+      const timestamp = parseTimeUtc(metadata.time_utc, receivedAt);
+
+      const position: PositionReport = {
+        mmsi,
+        timestamp,
+        latitude: pr.Latitude,
+        longitude: pr.Longitude,
+        sog: pr.Sog,
+        cog: pr.Cog,
+        true_heading: pr.TrueHeading,
+        navigational_status: pr.NavigationalStatus,
+        rate_of_turn: pr.RateOfTurn,
+      };
+
+      if (sar) {
+        position.altitude = sar.Altitude;
+      } else {
+        position.aisClass = body?.PositionReport ? 'A' : 'B';
+      }
+
+      return position;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.logger.logInvalidMessage('PositionReport', message, reason);
+      this.reportInvalid('PositionReport', reason, message);
+      this.emit('error', new Error(`Failed to parse Position Report: ${error}`));
+      return null;
+    }
+  }
+
+  /**
+   * Parse Ship Static Data message
+   * Extracts: vessel name, type, dimensions, destination
+   */
+  private parseShipStaticData(message: AISStreamMessage): ShipStaticData | null {
+    try {
+      const ssd = message.Message?.ShipStaticData;
+      const metadata = message.MetaData;
+
+      if (!ssd || !metadata) {
+        return null;
+      }
+
+      // Extract MMSI from UserID or MetaData
+      const mmsi = formatMmsi(ssd.UserID || metadata.MMSI);
+      if (!mmsi) {
+        return null;
+      }
+
+      // Parse dimensions
+      let dimensions: VesselDimensions | undefined;
+      if (ssd.Dimension) {
+        dimensions = {
+          a: ssd.Dimension.A || 0,
+          b: ssd.Dimension.B || 0,
+          c: ssd.Dimension.C || 0,
+          d: ssd.Dimension.D || 0,
+        };
+      }
+
+      // Parse ETA if available
+      let eta: Date | undefined;
+      if (ssd.Eta && ssd.Eta.Month && ssd.Eta.Day) {
+        const currentYear = new Date().getFullYear();
+        eta = new Date(
+          currentYear,
+          ssd.Eta.Month - 1,
+          ssd.Eta.Day,
+          ssd.Eta.Hour || 0,
+          ssd.Eta.Minute || 0
+        );
+      }
+
+      return {
+        mmsi,
+        name: ssd.Name || metadata.ShipName,
+        type: ssd.Type,
+        imo: ssd.ImoNumber,
+        callSign: ssd.CallSign,
+        dimensions,
+        destination: ssd.Destination,
+        eta,
+        draught: ssd.MaximumStaticDraught ?? ssd.Draught,
+        aisClass: 'A',
+      };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.logger.logInvalidMessage('ShipStaticData', message, reason);
+      this.reportInvalid('ShipStaticData', reason, message);
+      this.emit('error', new Error(`Failed to parse Ship Static Data: ${error}`));
+      return null;
+    }
+  }
+
+  /**
+   * Parse the static part of an Extended Class B position report
+   */
+  private parseExtendedClassBStaticData(message: AISStreamMessage): ShipStaticData | null {
+    const report = message.Message?.ExtendedClassBPositionReport;
+    const mmsi = formatMmsi(report?.UserID || message.MetaData?.MMSI);
+    if (!report || !mmsi) {
+      return null;
+    }
+
+    return {
+      mmsi,
+      name: report.Name?.trim() || undefined,
+      type: report.Type || undefined,
+      dimensions: this.parseDimension(report.Dimension),
+      aisClass: 'B',
+    };
+  }
+
+  /**
+   * Parse a Class B static data report
+   * Part A carries the name; part B carries type, call sign and dimensions
+   */
+  private parseStaticDataReport(message: AISStreamMessage): ShipStaticData | null {
+    const report = message.Message?.StaticDataReport;
+    const mmsi = formatMmsi(report?.UserID || message.MetaData?.MMSI);
+    if (!report || !mmsi) {
+      return null;
+    }
+
+    if (!report.PartNumber) {
+      if (!report.ReportA?.Valid) {
+        return null;
+      }
+      return { mmsi, name: report.ReportA.Name?.trim() || undefined, aisClass: 'B' };
+    }
+
+    if (!report.ReportB?.Valid) {
+      return null;
+    }
+    return {
+      mmsi,
+      type: report.ReportB.ShipType || undefined,
+      callSign: report.ReportB.CallSign?.trim() || undefined,
+      dimensions: this.parseDimension(report.ReportB.Dimension),
+      aisClass: 'B',
+    };
+  }
+
+  /**
+   * Parse a base station report
+   */
+  private parseBaseStationReport(
+    message: AISStreamMessage,
+    receivedAt: Date
+  ): BaseStationReport | null {
+    const report = message.Message?.BaseStationReport;
+    const mmsi = formatMmsi(report?.UserID || message.MetaData?.MMSI);
+    if (!report || !mmsi || report.Latitude === undefined || report.Longitude === undefined) {
+      return null;
+    }
+
+    // Year 0 / month 0 mean the station has no UTC time available
+    let stationTime: Date | undefined;
+    if (report.UtcYear && report.UtcMonth && report.UtcDay) {
+      stationTime = new Date(
+        Date.UTC(
+          report.UtcYear,
+          report.UtcMonth - 1,
+          report.UtcDay,
+          report.UtcHour || 0,
+          report.UtcMinute || 0,
+          report.UtcSecond || 0
+        )
+      );
+    }
+
+    return {
+      mmsi,
+      timestamp: parseTimeUtc(message.MetaData?.time_utc, receivedAt),
+      latitude: report.Latitude,
+      longitude: report.Longitude,
+      fixType: report.FixType,
+      stationTime,
+    };
+  }
+
+  /**
+   * Parse an aid-to-navigation report
+   */
+  private parseAidsToNavigationReport(
+    message: AISStreamMessage,
+    receivedAt: Date
+  ): AidToNavigationReport | null {
+    const report = message.Message?.AidsToNavigationReport;
+    const mmsi = formatMmsi(report?.UserID || message.MetaData?.MMSI);
+    if (!report || !mmsi || report.Latitude === undefined || report.Longitude === undefined) {
+      return null;
+    }
+
+    const name = `${report.Name || ''}${report.NameExtension || ''}`.trim();
+
+    return {
+      mmsi,
+      timestamp: parseTimeUtc(message.MetaData?.time_utc, receivedAt),
+      name: name || undefined,
+      aidType: report.Type,
+      latitude: report.Latitude,
+      longitude: report.Longitude,
+      dimensions: this.parseDimension(report.Dimension),
+      virtual: report.VirtualAtoN,
+      offPosition: report.OffPosition,
+    };
+  }
+
+  private parseDimension(dimension?: AISDimension): VesselDimensions | undefined {
+    if (!dimension) {
+      return undefined;
+    }
+    return {
+      a: dimension.A || 0,
+      b: dimension.B || 0,
+      c: dimension.C || 0,
+      d: dimension.D || 0,
+    };
+  }
+}
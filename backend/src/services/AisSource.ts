@@ -0,0 +1,87 @@
+import { EventEmitter } from 'events';
+import { ConnectionStatistics } from './AISStreamManager';
+
+/**
+ * Supported AIS source implementations
+ */
+export type AisSourceKind = 'aisstream' | 'nmea-tcp' | 'nmea-udp' | 'replay';
+
+/**
+ * Common interface for anything that produces AIS messages
+ *
+ * Implementations emit:
+ * - 'position' (PositionReport)
+ * - 'staticData' (ShipStaticData)
+ * - 'baseStation' (BaseStationReport)
+ * - 'aidToNavigation' (AidToNavigationReport)
+ * - 'raw' (RawAisMessage) for every message as received, before parsing
+ * - 'invalidMessage' (InvalidAisMessage) for messages that failed parsing or decoding
+ * - 'connected', 'disconnected', 'reconnecting', 'error'
+ */
+export interface AisSource extends EventEmitter {
+  readonly name: string;
+  readonly kind: AisSourceKind;
+  connect(): Promise<void>;
+  disconnect(): void;
+  getStatistics(): ConnectionStatistics;
+  isConnectionActive(): boolean;
+}
+
+/**
+ * Format of a raw message as it came off the wire
+ */
+export type RawAisMessageFormat = 'aisstream-json' | 'nmea';
+
+/**
+ * A message exactly as received from a source, with its receive time
+ */
+export interface RawAisMessage {
+  source: string;
+  format: RawAisMessageFormat;
+  receivedAt: Date;
+  data: string;
+}
+
+/**
+ * Configuration for a single AIS source
+ */
+export interface AisSourceConfig {
+  name: string;
+  type: AisSourceKind;
+  enabled?: boolean;
+  /** AISStream API key (defaults to AISSTREAM_API_KEY) */
+  apiKey?: string;
+  /** AISStream WebSocket URL */
+  url?: string;
+  /** TCP host to connect to, or UDP address to bind */
+  host?: string;
+  port?: number;
+  /** Replay: recorded file or directory to play back */
+  path?: string;
+  /** Replay: multiple of real time, or 'max' (default: 1) */
+  speed?: number | 'max';
+  /** Replay: start over at the end of the recording */
+  loop?: boolean;
+  /** Replay: keep recorded times ('preserve') or restamp with the current time ('now', default) */
+  timestamps?: 'preserve' | 'now';
+}
+
+/**
+ * Status summary of a source, as reported by the health endpoint
+ */
+export interface AisSourceStatus {
+  kind: AisSourceKind;
+  status: 'connected' | 'disconnected';
+  statistics: ConnectionStatistics;
+}
+
+/**
+ * Build the status summary for a source
+ */
+export function getAisSourceStatus(source: AisSource): AisSourceStatus {
+  return {
+    kind: source.kind,
+    status: source.isConnectionActive() ? 'connected' : 'disconnected',
+    statistics: source.getStatistics(),
+  };
+}
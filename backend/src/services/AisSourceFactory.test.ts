@@ -0,0 +1,138 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadAisSourceConfigs, createAisSource } from './AisSourceFactory';
+import { AISStreamManager } from './AISStreamManager';
+import { NMEATcpSource } from './NMEATcpSource';
+import { NMEAUdpSource } from './NMEAUdpSource';
+import { ReplaySource } from './ReplaySource';
+import { ConfigurationError } from '../utils';
+
+describe('AisSourceFactory', () => {
+  describe('loadAisSourceConfigs', () => {
+    it('should default to a single AISStream source', () => {
+      expect(loadAisSourceConfigs({})).toEqual([{ name: 'aisstream', type: 'aisstream' }]);
+    });
+
+    it('should parse name=url entries from AIS_SOURCES', () => {
+      const configs = loadAisSourceConfigs({
+        AIS_SOURCES:
+          'primary=aisstream, mock=ws://localhost:8080/stream, rtl=tcp://127.0.0.1:10110, shore=udp://0.0.0.0:10111',
+      });
+
+      expect(configs).toEqual([
+        { name: 'primary', type: 'aisstream' },
+        { name: 'mock', type: 'aisstream', url: 'ws://localhost:8080/stream' },
+        { name: 'rtl', type: 'nmea-tcp', host: '127.0.0.1', port: 10110 },
+        { name: 'shore', type: 'nmea-udp', host: '0.0.0.0', port: 10111 },
+      ]);
+    });
+
+    it('should read sources from a JSON file and skip disabled ones', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ais-sources-'));
+      const file = path.join(dir, 'sources.json');
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          sources: [
+            { name: 'rtl', type: 'nmea-tcp', host: 'localhost', port: 10110 },
+            { name: 'old', type: 'nmea-udp', port: 10111, enabled: false },
+          ],
+        })
+      );
+
+      try {
+        const configs = loadAisSourceConfigs({ AIS_SOURCES_FILE: file });
+        expect(configs.map((config) => config.name)).toEqual(['rtl']);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject unsupported protocols', () => {
+      expect(() => loadAisSourceConfigs({ AIS_SOURCES: 'x=http://localhost:80' })).toThrow(
+        ConfigurationError
+      );
+    });
+
+    it('should reject entries without a port', () => {
+      expect(() => loadAisSourceConfigs({ AIS_SOURCES: 'rtl=tcp://localhost' })).toThrow(
+        ConfigurationError
+      );
+    });
+
+    it('should parse file: replay entries with playback options', () => {
+      const configs = loadAisSourceConfigs({
+        AIS_SOURCES:
+          'replay=file:///data/recordings?speed=10&loop=true&timestamps=preserve,fast=file:logs/day.nmea?speed=max',
+      });
+
+      expect(configs).toEqual([
+        {
+          name: 'replay',
+          type: 'replay',
+          path: '/data/recordings',
+          speed: 10,
+          loop: true,
+          timestamps: 'preserve',
+        },
+        { name: 'fast', type: 'replay', path: 'logs/day.nmea', speed: 'max' },
+      ]);
+    });
+
+    it('should reject invalid replay options', () => {
+      expect(() => loadAisSourceConfigs({ AIS_SOURCES: 'r=file:///data?speed=0' })).toThrow(
+        'invalid speed'
+      );
+      expect(() =>
+        loadAisSourceConfigs({ AIS_SOURCES: 'r=file:///data?timestamps=shifted' })
+      ).toThrow('invalid timestamps');
+    });
+
+    it('should reject duplicate source names', () => {
+      expect(() =>
+        loadAisSourceConfigs({ AIS_SOURCES: 'a=tcp://localhost:1,a=udp://0.0.0.0:2' })
+      ).toThrow('Duplicate AIS source name');
+    });
+  });
+
+  describe('createAisSource', () => {
+    it('should create an AISStream source using the API key from the environment', () => {
+      const source = createAisSource(
+        { name: 'aisstream', type: 'aisstream' },
+        { AISSTREAM_API_KEY: 'test-key' }
+      );
+
+      expect(source).toBeInstanceOf(AISStreamManager);
+      expect(source.name).toBe('aisstream');
+      expect(source.kind).toBe('aisstream');
+    });
+
+    it('should require an API key for AISStream sources', () => {
+      expect(() => createAisSource({ name: 'aisstream', type: 'aisstream' }, {})).toThrow(
+        ConfigurationError
+      );
+    });
+
+    it('should create NMEA TCP and UDP sources', () => {
+      const tcp = createAisSource({ name: 'rtl', type: 'nmea-tcp', host: 'localhost', port: 1 });
+      const udp = createAisSource({ name: 'shore', type: 'nmea-udp', port: 2 });
+
+      expect(tcp).toBeInstanceOf(NMEATcpSource);
+      expect(udp).toBeInstanceOf(NMEAUdpSource);
+      expect(tcp.isConnectionActive()).toBe(false);
+    });
+
+    it('should create replay sources', () => {
+      const source = createAisSource({
+        name: 'replay',
+        type: 'replay',
+        path: '/data',
+        speed: 'max',
+      });
+
+      expect(source).toBeInstanceOf(ReplaySource);
+      expect(source.kind).toBe('replay');
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import fs from 'fs';
+import { AisSource, AisSourceConfig, AisSourceKind } from './AisSource';
+import { AISStreamManager } from './AISStreamManager';
+import { NMEATcpSource } from './NMEATcpSource';
+import { NMEAUdpSource } from './NMEAUdpSource';
+import { ReplaySource } from './ReplaySource';
+import { ConfigurationError } from '../utils';
+
+const SOURCE_KINDS: AisSourceKind[] = ['aisstream', 'nmea-tcp', 'nmea-udp', 'replay'];
+
+/**
+ * Load AIS source configuration
+ *
+ * Sources are read from (first match wins):
+ * - AIS_SOURCES_FILE: path to a JSON file holding an array of AisSourceConfig
+ *   (or an object with a "sources" array)
+ * - AIS_SOURCES: comma-separated "name=url" entries, e.g.
+ *   "aisstream=wss://stream.aisstream.io/v0/stream,rtl=tcp://127.0.0.1:10110,shore=udp://0.0.0.0:10111"
+ *   Replays use file: URLs with optional speed, loop and timestamps parameters, e.g.
+ *   "replay=file:///data/recordings?speed=10&loop=true&timestamps=preserve"
+ * - Otherwise a single AISStream source named "aisstream"
+ */
+export function loadAisSourceConfigs(env: NodeJS.ProcessEnv = process.env): AisSourceConfig[] {
+  let configs: AisSourceConfig[];
+
+  if (env.AIS_SOURCES_FILE) {
+    configs = readConfigFile(env.AIS_SOURCES_FILE);
+  } else if (env.AIS_SOURCES) {
+    configs = env.AIS_SOURCES.split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry.length > 0)
+      .map(parseSourceEntry);
+  } else {
+    configs = [{ name: 'aisstream', type: 'aisstream' }];
+  }
+
+  const enabled = configs.filter((config) => config.enabled !== false);
+  enabled.forEach(validateSourceConfig);
+
+  const names = new Set<string>();
+  for (const config of enabled) {
+    if (names.has(config.name)) {
+      throw new ConfigurationError(`Duplicate AIS source name: ${config.name}`, {
+        name: config.name,
+      });
+    }
+    names.add(config.name);
+  }
+
+  return enabled;
+}
+
+/**
+ * Create an AIS source from its configuration
+ */
+export function createAisSource(
+  config: AisSourceConfig,
+  env: NodeJS.ProcessEnv = process.env
+): AisSource {
+  switch (config.type) {
+    case 'aisstream': {
+      const apiKey = config.apiKey || env.AISSTREAM_API_KEY;
+      if (!apiKey) {
+        throw new ConfigurationError(`AIS source "${config.name}" requires an AISStream API key`, {
+          name: config.name,
+        });
+      }
+      return new AISStreamManager(apiKey, config.url, config.name, {
+        subscriptionDebounceMs: optionalNumber(env.AISSTREAM_SUBSCRIPTION_DEBOUNCE_MS),
+        reconnect: {
+          initialDelayMs: optionalNumber(env.AISSTREAM_RECONNECT_INITIAL_MS),
+          maxDelayMs: optionalNumber(env.AISSTREAM_RECONNECT_MAX_MS),
+          jitter: optionalNumber(env.AISSTREAM_RECONNECT_JITTER),
+          maxAttempts: optionalNumber(env.AISSTREAM_RECONNECT_MAX_ATTEMPTS),
+          authFailureThreshold: optionalNumber(env.AISSTREAM_AUTH_FAILURE_THRESHOLD),
+          circuitOpenMs: optionalNumber(env.AISSTREAM_CIRCUIT_OPEN_MS),
+        },
+      });
+    }
+    case 'nmea-tcp':
+      return new NMEATcpSource(config.name, {
+        host: config.host as string,
+        port: Number(config.port),
+      });
+    case 'nmea-udp':
+      return new NMEAUdpSource(config.name, {
+        port: Number(config.port),
+        bindAddress: config.host,
+      });
+    case 'replay':
+      return new ReplaySource(config.name, {
+        path: config.path as string,
+        speed:
+          config.speed === undefined || config.speed === 'max'
+            ? config.speed
+            : Number(config.speed),
+        loop: config.loop,
+        timestamps: config.timestamps,
+      });
+  }
+}
+
+/**
+ * Parse an optional numeric environment variable
+ */
+function optionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Parse a "name=url" source entry
+ */
+function parseSourceEntry(entry: string): AisSourceConfig {
+  const separator = entry.indexOf('=');
+  if (separator <= 0) {
+    throw new ConfigurationError(`Invalid AIS_SOURCES entry "${entry}" (expected name=url)`, {
+      entry,
+    });
+  }
+
+  const name = entry.substring(0, separator).trim();
+  const value = entry.substring(separator + 1).trim();
+
+  // Shorthand for the default AISStream endpoint
+  if (value === 'aisstream') {
+    return { name, type: 'aisstream' };
+  }
+
+  if (value.startsWith('file:')) {
+    return parseReplayEntry(name, value);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new ConfigurationError(`Invalid AIS source URL "${value}"`, { name, value });
+  }
+
+  switch (url.protocol) {
+    case 'ws:':
+    case 'wss:':
+      return { name, type: 'aisstream', url: value };
+    case 'tcp:':
+      return { name, type: 'nmea-tcp', host: url.hostname, port: parseInt(url.port, 10) };
+    case 'udp:':
+      return { name, type: 'nmea-udp', host: url.hostname, port: parseInt(url.port, 10) };
+    default:
+      throw new ConfigurationError(`Unsupported AIS source protocol "${url.protocol}"`, {
+        name,
+        value,
+      });
+  }
+}
+
+/**
+ * Parse a "file:" replay entry
+ * Paths are used as written (not URL-decoded) so relative paths work too
+ */
+function parseReplayEntry(name: string, value: string): AisSourceConfig {
+  const [location, query = ''] = value.substring('file:'.length).split('?', 2);
+  const params = new URLSearchParams(query);
+  const config: AisSourceConfig = {
+    name,
+    type: 'replay',
+    path: location.startsWith('//') ? location.substring(2) : location,
+  };
+
+  const speed = params.get('speed');
+  if (speed !== null) {
+    config.speed = speed === 'max' ? 'max' : Number(speed);
+  }
+  if (params.has('loop')) {
+    config.loop = params.get('loop') !== 'false';
+  }
+  const timestamps = params.get('timestamps');
+  if (timestamps !== null) {
+    config.timestamps = timestamps as AisSourceConfig['timestamps'];
+  }
+
+  return config;
+}
+
+/**
+ * Read source configuration from a JSON file
+ */
+function readConfigFile(path: string): AisSourceConfig[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new ConfigurationError(`Failed to read AIS sources file ${path}`, {
+      path,
+      originalError: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const sources = Array.isArray(parsed) ? parsed : (parsed as { sources?: unknown })?.sources;
+  if (!Array.isArray(sources)) {
+    throw new ConfigurationError(`AIS sources file ${path} must contain an array of sources`, {
+      path,
+    });
+  }
+  return sources as AisSourceConfig[];
+}
+
+/**
+ * Validate a single source configuration
+ */
+function validateSourceConfig(config: AisSourceConfig): void {
+  if (!config.name || typeof config.name !== 'string') {
+    throw new ConfigurationError('AIS source is missing a name', { config });
+  }
+
+  if (!SOURCE_KINDS.includes(config.type)) {
+    throw new ConfigurationError(`AIS source "${config.name}" has unknown type "${config.type}"`, {
+      name: config.name,
+      type: config.type,
+    });
+  }
+
+  if (config.type === 'nmea-tcp' && !config.host) {
+    throw new ConfigurationError(`AIS source "${config.name}" requires a host`, {
+      name: config.name,
+    });
+  }
+
+  if (config.type === 'replay') {
+    validateReplayConfig(config);
+    return;
+  }
+
+  if (config.type !== 'aisstream') {
+    const port = Number(config.port);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new ConfigurationError(`AIS source "${config.name}" requires a valid port`, {
+        name: config.name,
+        port: config.port,
+      });
+    }
+  }
+}
+
+/**
+ * Validate replay-specific options
+ */
+function validateReplayConfig(config: AisSourceConfig): void {
+  if (!config.path) {
+    throw new ConfigurationError(`AIS source "${config.name}" requires a path`, {
+      name: config.name,
+    });
+  }
+
+  if (config.speed !== undefined && config.speed !== 'max' && !(Number(config.speed) > 0)) {
+    throw new ConfigurationError(
+      `AIS source "${config.name}" has invalid speed "${config.speed}" (expected a positive number or "max")`,
+      { name: config.name, speed: config.speed }
+    );
+  }
+
+  if (config.timestamps !== undefined && !['preserve', 'now'].includes(config.timestamps)) {
+    throw new ConfigurationError(
+      `AIS source "${config.name}" has invalid timestamps "${config.timestamps}" (expected "preserve" or "now")`,
+      { name: config.name, timestamps: config.timestamps }
+    );
+  }
+}
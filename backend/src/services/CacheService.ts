@@ -1,15 +1,27 @@
 import { createClient, RedisClientType } from 'redis';
 import { PositionReport, ShipStaticData, BoundingBox } from '../types';
-import { createComponentLogger, CacheError } from '../utils';
+import { createComponentLogger, CacheError, isInBoundingBox, splitAtAntimeridian } from '../utils';
+import { VesselCache } from './VesselCache';
+
+/**
+ * Cache statistics for monitoring
+ * Reads count as hits or misses; errors count failed Redis commands and client errors
+ */
+export interface CacheStatistics {
+  hits: number;
+  misses: number;
+  errors: number;
+}
 
 /**
  * CacheService manages Redis cache for vessel positions and metadata
  * Provides fast access to recent vessel data and geospatial queries
  */
-export class CacheService {
+export class CacheService implements VesselCache {
   private client: RedisClientType;
   private isConnected: boolean = false;
   private logger = createComponentLogger('CacheService');
+  private stats: CacheStatistics = { hits: 0, misses: 0, errors: 0 };
 
   // TTL values in seconds
   private readonly POSITION_TTL = 60; // 60 seconds for positions
@@ -31,6 +43,7 @@ export class CacheService {
         originalError: err.message,
       });
       this.logger.error('Redis client error', cacheError);
+      this.stats.errors++;
       this.isConnected = false;
     });
 
@@ -90,6 +103,7 @@ export class CacheService {
         true_heading: position.true_heading,
         navigational_status: position.navigational_status,
         rate_of_turn: position.rate_of_turn,
+        altitude: position.altitude,
       });
 
       // Use pipeline for atomic operations
@@ -111,6 +125,7 @@ export class CacheService {
       
       await pipeline.exec();
     } catch (error) {
+      this.stats.errors++;
       const cacheError = new CacheError('Failed to set vessel position', {
         mmsi,
         originalError: error instanceof Error ? error.message : String(error),
@@ -124,8 +139,7 @@ export class CacheService {
    * Get vessel position from cache
    */
   async getVesselPosition(mmsi: string): Promise<PositionReport | null> {
-    const key = `${this.POSITION_PREFIX}${mmsi}`;
-    const data = await this.client.get(key);
+    const data = await this.read(`${this.POSITION_PREFIX}${mmsi}`);
     
     if (!data) {
       return null;
@@ -142,6 +156,7 @@ export class CacheService {
       true_heading: parsed.true_heading,
       navigational_status: parsed.navigational_status,
       rate_of_turn: parsed.rate_of_turn,
+      altitude: parsed.altitude,
     };
   }
 
@@ -170,8 +185,7 @@ export class CacheService {
    * Get vessel metadata from cache
    */
   async getVesselMetadata(mmsi: string): Promise<ShipStaticData | null> {
-    const key = `${this.METADATA_PREFIX}${mmsi}`;
-    const data = await this.client.get(key);
+    const data = await this.read(`${this.METADATA_PREFIX}${mmsi}`);
     
     if (!data) {
       return null;
@@ -191,6 +205,31 @@ export class CacheService {
     };
   }
 
+  /**
+   * Read a key, counting the hit, miss or error
+   */
+  private async read(key: string): Promise<string | null> {
+    try {
+      const data = await this.client.get(key);
+      if (data) {
+        this.stats.hits++;
+      } else {
+        this.stats.misses++;
+      }
+      return data;
+    } catch (error) {
+      this.stats.errors++;
+      throw error;
+    }
+  }
+
+  /**
+   * Get cache hit, miss and error counts
+   */
+  getStatistics(): CacheStatistics {
+    return { ...this.stats };
+  }
+
   /**
    * Get count of active vessels (vessels with recent position updates)
    */
@@ -200,9 +239,39 @@ export class CacheService {
 
   /**
    * Get vessels within a bounding box using Redis geospatial commands
+   * Boxes crossing the antimeridian are searched as their eastern and western parts
    * Returns array of MMSIs
    */
   async getVesselsInBounds(bbox: BoundingBox): Promise<string[]> {
+    const candidates = new Set<string>();
+    for (const part of splitAtAntimeridian(bbox)) {
+      const results = await this.searchAroundBounds(part);
+      results.forEach((mmsi) => candidates.add(mmsi));
+    }
+
+    if (candidates.size === 0) {
+      return [];
+    }
+
+    // Filter results to exact bounding box
+    // Redis geoSearch returns circular area, we need rectangular
+    const vesselsInBounds: string[] = [];
+
+    for (const mmsi of candidates) {
+      // Get position to verify it's within exact bounding box
+      const position = await this.getVesselPosition(mmsi);
+      if (position && isInBoundingBox(position.latitude, position.longitude, bbox)) {
+        vesselsInBounds.push(mmsi);
+      }
+    }
+
+    return vesselsInBounds;
+  }
+
+  /**
+   * Search the circle enclosing a bounding box that does not cross the antimeridian
+   */
+  private async searchAroundBounds(bbox: BoundingBox): Promise<string[]> {
     // Calculate center point and search radius
     const centerLat = (bbox.minLat + bbox.maxLat) / 2;
     const centerLon = (bbox.minLon + bbox.maxLon) / 2;
@@ -221,31 +290,7 @@ export class CacheService {
       { radius: radiusMeters, unit: 'm' }
     );
 
-    if (!results || results.length === 0) {
-      return [];
-    }
-
-    // Filter results to exact bounding box
-    // Redis geoSearch returns circular area, we need rectangular
-    const vesselsInBounds: string[] = [];
-    
-    for (const mmsi of results) {
-      
-      // Get position to verify it's within exact bounding box
-      const position = await this.getVesselPosition(mmsi);
-      if (position) {
-        if (
-          position.latitude >= bbox.minLat &&
-          position.latitude <= bbox.maxLat &&
-          position.longitude >= bbox.minLon &&
-          position.longitude <= bbox.maxLon
-        ) {
-          vesselsInBounds.push(mmsi);
-        }
-      }
-    }
-
-    return vesselsInBounds;
+    return results || [];
   }
 
   /**
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DataPipeline } from './DataPipeline';
+import { PositionSpool } from './PositionSpool';
+import { VesselRepository } from '../repositories/VesselRepository';
+import { CacheService } from './CacheService';
+import { PositionReport } from '../types';
+
+function position(minutes: number): PositionReport {
+  return {
+    mmsi: '244670316',
+    timestamp: new Date(Date.UTC(2025, 11, 1, 10, minutes)),
+    latitude: 51.9,
+    longitude: 4.05,
+  };
+}
+
+function connectionRefused(): Error {
+  return Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:5432'), {
+    code: 'ECONNREFUSED',
+  });
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('DataPipeline - Spool', () => {
+  let directory: string;
+  let spool: PositionSpool;
+  let vesselRepository: { insertVesselStubs: jest.Mock; batchInsertPositions: jest.Mock };
+  let dataPipeline: DataPipeline;
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ais-pipeline-spool-'));
+    spool = new PositionSpool({ directory });
+    await spool.open();
+
+    vesselRepository = {
+      insertVesselStubs: jest.fn().mockResolvedValue(1),
+      batchInsertPositions: jest.fn().mockImplementation(async (batch) => batch.length),
+    };
+    const cacheService = { setVesselPosition: jest.fn().mockResolvedValue(undefined) };
+
+    dataPipeline = new DataPipeline(
+      vesselRepository as unknown as VesselRepository,
+      cacheService as unknown as CacheService,
+      { batchSize: 2, batchInterval: 60000, plausibility: false, spoolReplayInterval: 20 },
+      undefined,
+      undefined,
+      spool
+    );
+  });
+
+  afterEach(async () => {
+    await dataPipeline.stop();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should spool batches while the database is down and replay them in order', async () => {
+    dataPipeline.start();
+    vesselRepository.insertVesselStubs.mockRejectedValue(connectionRefused());
+
+    const spooled: number[] = [];
+    dataPipeline.on('batchSpooled', (event) => spooled.push(event.count));
+
+    for (let i = 0; i < 4; i++) {
+      await dataPipeline.processPosition(position(i));
+    }
+
+    expect(spooled).toEqual([2, 2]);
+    expect(dataPipeline.getSpoolStatus()).toMatchObject({ depth: 4 });
+    expect(vesselRepository.batchInsertPositions).not.toHaveBeenCalled();
+
+    // Database comes back
+    vesselRepository.insertVesselStubs.mockResolvedValue(1);
+    const replayed = new Promise((resolve) => dataPipeline.once('spoolReplayed', resolve));
+    await replayed;
+
+    const inserted = vesselRepository.batchInsertPositions.mock.calls.flatMap(([batch]) =>
+      batch.map((p: PositionReport) => p.timestamp.getUTCMinutes())
+    );
+    expect(inserted).toEqual([0, 1, 2, 3]);
+    expect(vesselRepository.insertVesselStubs).toHaveBeenLastCalledWith([
+      { mmsi: '244670316', aisClass: undefined },
+    ]);
+    expect(spool.hasData()).toBe(false);
+  });
+
+  it('should not spool batches the database rejects', async () => {
+    dataPipeline.start();
+    vesselRepository.batchInsertPositions.mockRejectedValue(new Error('value too long'));
+    const errors: string[] = [];
+    dataPipeline.on('ingestionError', (event) => errors.push(event.stage));
+
+    await dataPipeline.processPosition(position(0));
+    await dataPipeline.processPosition(position(1));
+    await wait(50);
+
+    expect(spool.hasData()).toBe(false);
+    expect(errors).toEqual(['batch_insert']);
+  });
+
+  it('should not start a flush while another one is still writing', async () => {
+    dataPipeline.start();
+    let finishFirst: () => void = () => undefined;
+    vesselRepository.batchInsertPositions.mockImplementationOnce(
+      (batch) => new Promise((resolve) => (finishFirst = () => resolve(batch.length)))
+    );
+
+    const first = Promise.all([0, 1].map((i) => dataPipeline.processPosition(position(i))));
+    await wait(10);
+    const rest = Promise.all([2, 3, 4, 5].map((i) => dataPipeline.processPosition(position(i))));
+    await wait(10);
+    expect(vesselRepository.batchInsertPositions).toHaveBeenCalledTimes(1);
+
+    finishFirst();
+    await Promise.all([first, rest]);
+
+    const batches = vesselRepository.batchInsertPositions.mock.calls.map(([batch]) =>
+      batch.map((p: PositionReport) => p.timestamp.getUTCMinutes())
+    );
+    expect(batches).toEqual([
+      [0, 1],
+      [2, 3, 4, 5],
+    ]);
+  });
+});
@@ -1,8 +1,32 @@
 import { EventEmitter } from 'events';
-import { PositionReport, ShipStaticData } from '../types';
-import { VesselRepository } from '../repositories/VesselRepository';
-import { CacheService } from './CacheService';
-import { createComponentLogger, DatabaseError, CacheError } from '../utils';
+import {
+  AidToNavigationReport,
+  AisClass,
+  BaseStationReport,
+  PositionReport,
+  ShipStaticData,
+  VesselStub,
+} from '../types';
+import { VesselStore } from '../repositories/VesselStore';
+import { StationRepository } from '../repositories/StationRepository';
+import { RejectedPositionRepository } from '../repositories/RejectedPositionRepository';
+import { VesselCache } from './VesselCache';
+import { PositionSpool, SpoolStatus } from './PositionSpool';
+import { PortCallDetector } from './PortCallDetector';
+import {
+  PlausibilityFilter,
+  PlausibilityFilterConfig,
+  PlausibilityVerdict,
+} from './PlausibilityFilter';
+import {
+  createComponentLogger,
+  DatabaseError,
+  CacheError,
+  isDatabaseUnavailableError,
+} from '../utils';
+
+// Upper bound on remembered vessel MMSIs, well above the number of vessels seen worldwide
+const MAX_KNOWN_VESSELS = 1_000_000;
 
 /**
  * Configuration options for DataPipeline
@@ -10,6 +34,8 @@ import { createComponentLogger, DatabaseError, CacheError } from '../utils';
 export interface DataPipelineConfig {
   batchSize?: number; // Number of positions to batch before writing
   batchInterval?: number; // Time in milliseconds to wait before flushing batch
+  plausibility?: PlausibilityFilterConfig | false; // Plausibility filter options, false to disable
+  spoolReplayInterval?: number; // Time in milliseconds between spool replay attempts
 }
 
 /**
@@ -17,26 +43,49 @@ export interface DataPipelineConfig {
  * batches writes to database, updates cache, and broadcasts to connected clients
  */
 export class DataPipeline extends EventEmitter {
-  private vesselRepository: VesselRepository;
-  private cacheService: CacheService;
+  private vesselRepository: VesselStore;
+  private cacheService: VesselCache;
+  private stationRepository: StationRepository | null;
+  private rejectedPositionRepository: RejectedPositionRepository | null;
+  private positionSpool: PositionSpool | null;
+  private portCallDetector: PortCallDetector | null;
+  private plausibilityFilter: PlausibilityFilter | null;
   private positionQueue: PositionReport[] = [];
+  private knownVessels = new Set<string>();
+  private pendingVesselStubs = new Map<string, VesselStub>();
   private batchSize: number;
   private batchInterval: number;
   private batchTimer: NodeJS.Timeout | null = null;
+  private flushInFlight: Promise<void> | null = null;
+  private followUpFlush: Promise<void> | null = null;
+  private spoolReplayInterval: number;
+  private spoolReplayTimer: NodeJS.Timeout | null = null;
+  private spoolReplay: Promise<void> | null = null;
   private isRunning: boolean = false;
 
   private logger = createComponentLogger('DataPipeline');
 
   constructor(
-    vesselRepository: VesselRepository,
-    cacheService: CacheService,
-    config: DataPipelineConfig = {}
+    vesselRepository: VesselStore,
+    cacheService: VesselCache,
+    config: DataPipelineConfig = {},
+    stationRepository?: StationRepository,
+    rejectedPositionRepository?: RejectedPositionRepository,
+    positionSpool?: PositionSpool,
+    portCallDetector?: PortCallDetector
   ) {
     super();
     this.vesselRepository = vesselRepository;
     this.cacheService = cacheService;
+    this.stationRepository = stationRepository || null;
+    this.rejectedPositionRepository = rejectedPositionRepository || null;
+    this.positionSpool = positionSpool || null;
+    this.portCallDetector = portCallDetector || null;
+    this.plausibilityFilter =
+      config.plausibility === false ? null : new PlausibilityFilter(config.plausibility);
     this.batchSize = config.batchSize || 100;
     this.batchInterval = config.batchInterval || 5000; // 5 seconds default
+    this.spoolReplayInterval = config.spoolReplayInterval || 5000;
   }
 
   /**
@@ -50,6 +99,12 @@ export class DataPipeline extends EventEmitter {
 
     this.isRunning = true;
     this.scheduleBatchFlush();
+    this.plausibilityFilter?.start();
+
+    // Deliver positions spooled before the last shutdown
+    if (this.positionSpool?.hasData()) {
+      this.replaySpool();
+    }
     this.logger.info('Data pipeline started', {
       batchSize: this.batchSize,
       batchInterval: `${this.batchInterval}ms`,
@@ -67,6 +122,7 @@ export class DataPipeline extends EventEmitter {
     }
 
     this.isRunning = false;
+    this.plausibilityFilter?.stop();
 
     // Clear batch timer
     if (this.batchTimer) {
@@ -74,7 +130,13 @@ export class DataPipeline extends EventEmitter {
       this.batchTimer = null;
     }
 
-    // Flush remaining positions
+    if (this.spoolReplayTimer) {
+      clearTimeout(this.spoolReplayTimer);
+      this.spoolReplayTimer = null;
+    }
+    await this.spoolReplay;
+
+    // Flush remaining positions (spooled if the database is unavailable)
     await this.flushBatch();
     
     this.logger.info('Data pipeline stopped');
@@ -102,8 +164,15 @@ export class DataPipeline extends EventEmitter {
         return;
       }
 
-      // Ensure vessel exists before adding position to queue
-      await this.ensureVesselExists(position.mmsi);
+      // Quarantine teleports and GPS jumps instead of storing them
+      const verdict = this.plausibilityFilter?.check(position);
+      if (verdict && !verdict.accepted) {
+        await this.quarantinePosition(position, verdict);
+        return;
+      }
+
+      // Queue a placeholder vessel for the next flush if this MMSI is new to us
+      this.trackVessel(position.mmsi, position.aisClass);
 
       // Add to batch queue
       this.positionQueue.push(position);
@@ -138,6 +207,11 @@ export class DataPipeline extends EventEmitter {
         });
       }
 
+      // Open and close port calls as the vessel enters and leaves port areas
+      if (this.portCallDetector) {
+        await this.detectPortCall(this.portCallDetector, position);
+      }
+
       // Flush batch if size threshold reached
       if (this.positionQueue.length >= this.batchSize) {
         await this.flushBatch();
@@ -176,6 +250,87 @@ export class DataPipeline extends EventEmitter {
     }
   }
 
+  /**
+   * Feed an accepted position to the port call detector
+   */
+  private async detectPortCall(
+    detector: PortCallDetector,
+    position: PositionReport
+  ): Promise<void> {
+    try {
+      await detector.observe(position);
+    } catch (error) {
+      // Repository already logs the DatabaseError
+      this.emit('ingestionError', {
+        stage: 'port_call',
+        mmsi: position.mmsi,
+        timestamp: position.timestamp.toISOString(),
+        reason: 'Port call detection failure',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Keep an implausible position report out of position_reports
+   * Emits positionRejected and stores the report for review when a repository is configured
+   */
+  private async quarantinePosition(
+    position: PositionReport,
+    verdict: Exclude<PlausibilityVerdict, { accepted: true }>
+  ): Promise<void> {
+    const timestamp = position.timestamp.toISOString();
+
+    this.logger.warn('Position rejected as implausible', {
+      mmsi: position.mmsi,
+      timestamp,
+      reason: verdict.reason,
+      message: verdict.message,
+      impliedSpeedKnots: Math.round(verdict.impliedSpeedKnots * 10) / 10,
+      distanceNm: Math.round(verdict.distanceNm * 1000) / 1000,
+    });
+
+    this.emit('positionRejected', {
+      mmsi: position.mmsi,
+      timestamp,
+      reason: verdict.reason,
+      message: verdict.message,
+      impliedSpeedKnots: verdict.impliedSpeedKnots,
+      limitKnots: verdict.limitKnots,
+      distanceNm: verdict.distanceNm,
+      elapsedSeconds: verdict.elapsedSeconds,
+      position,
+      previous: verdict.previous,
+    });
+
+    if (!this.rejectedPositionRepository) {
+      return;
+    }
+
+    try {
+      await this.rejectedPositionRepository.insertRejectedPosition({
+        position,
+        reason: verdict.reason,
+        impliedSpeedKnots: verdict.impliedSpeedKnots,
+        limitKnots: verdict.limitKnots,
+        distanceNm: verdict.distanceNm,
+        elapsedSeconds: verdict.elapsedSeconds,
+        previousLatitude: verdict.previous.latitude,
+        previousLongitude: verdict.previous.longitude,
+        previousTimestamp: verdict.previous.timestamp,
+      });
+    } catch (error) {
+      // Repository already logs the DatabaseError
+      this.emit('ingestionError', {
+        stage: 'quarantine',
+        mmsi: position.mmsi,
+        timestamp,
+        reason: 'Database operation failure',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Process ship static data
    * Validates data, updates database and cache
@@ -230,6 +385,10 @@ export class DataPipeline extends EventEmitter {
         return;
       }
 
+      this.knownVessels.add(staticData.mmsi);
+      this.pendingVesselStubs.delete(staticData.mmsi);
+      this.plausibilityFilter?.setShipType(staticData.mmsi, staticData.type);
+
       // Update cache
       try {
         await this.cacheService.setVesselMetadata(staticData.mmsi, staticData);
@@ -292,6 +451,86 @@ export class DataPipeline extends EventEmitter {
     }
   }
 
+  /**
+   * Process a base station report
+   * Validates and upserts the station; base stations have no track history
+   */
+  async processBaseStation(report: BaseStationReport): Promise<void> {
+    await this.processStation('baseStation', report, async () => {
+      await this.stationRepository?.upsertBaseStation(report);
+    });
+  }
+
+  /**
+   * Process an aid-to-navigation report
+   * Validates and upserts the aid; only the latest report is kept
+   */
+  async processAidToNavigation(report: AidToNavigationReport): Promise<void> {
+    await this.processStation('aidToNavigation', report, async () => {
+      await this.stationRepository?.upsertAidToNavigation(report);
+    });
+  }
+
+  /**
+   * Shared validation and persistence for fixed stations
+   */
+  private async processStation(
+    type: 'baseStation' | 'aidToNavigation',
+    report: BaseStationReport | AidToNavigationReport,
+    upsert: () => Promise<void>
+  ): Promise<void> {
+    const mmsi = report.mmsi || 'unknown';
+    const timestamp = report.timestamp?.toISOString() || new Date().toISOString();
+
+    if (!this.stationRepository) {
+      return;
+    }
+
+    const errors: string[] = [];
+    if (!report.mmsi || !/^\d{9}$/.test(report.mmsi)) {
+      errors.push(`Invalid MMSI format: ${report.mmsi} (must be 9 digits)`);
+    }
+    if (report.latitude === undefined || report.latitude < -90 || report.latitude > 90) {
+      errors.push(`Latitude out of range: ${report.latitude} (must be -90 to 90)`);
+    }
+    if (report.longitude === undefined || report.longitude < -180 || report.longitude > 180) {
+      errors.push(`Longitude out of range: ${report.longitude} (must be -180 to 180)`);
+    }
+
+    if (errors.length > 0) {
+      this.logger.warn('Station validation failed', {
+        type,
+        mmsi,
+        timestamp,
+        failureReason: errors[0],
+        validationErrors: errors,
+      });
+      this.emit('validationError', {
+        type,
+        mmsi,
+        timestamp,
+        reason: errors[0],
+        errors,
+        data: report,
+      });
+      this.emit('invalidData', { type, mmsi, timestamp, reason: 'Validation failed' });
+      return;
+    }
+
+    try {
+      await upsert();
+    } catch (error) {
+      // Repository already logs the DatabaseError
+      this.emit('ingestionError', {
+        stage: 'database_upsert',
+        mmsi,
+        timestamp,
+        reason: 'Database operation failure',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Validate position report data
    * Checks for required fields and valid ranges
@@ -323,6 +562,7 @@ export class DataPipeline extends EventEmitter {
         timestamp: position.timestamp?.toISOString() || 'missing',
         reason: validationResult.reason,
         errors: validationResult.errors,
+        data: position,
       });
     }
     
@@ -367,9 +607,10 @@ export class DataPipeline extends EventEmitter {
       errors.push(`Longitude out of range: ${position.longitude} (must be -180 to 180)`);
     }
 
-    // Validate SOG if present (0 to 102.3 knots)
-    if (position.sog !== undefined && (position.sog < 0 || position.sog > 102.3)) {
-      errors.push(`SOG out of range: ${position.sog} (must be 0 to 102.3 knots)`);
+    // Validate SOG if present (0 to 102.3 knots, or 0 to 1023 knots for SAR aircraft)
+    const maxSog = position.altitude !== undefined ? 1023 : 102.3;
+    if (position.sog !== undefined && (position.sog < 0 || position.sog > maxSog)) {
+      errors.push(`SOG out of range: ${position.sog} (must be 0 to ${maxSog} knots)`);
     }
 
     // Validate COG if present (0 to 360 degrees)
@@ -403,31 +644,21 @@ export class DataPipeline extends EventEmitter {
   }
 
   /**
-   * Ensure vessel exists in database, create placeholder if not
-   * This prevents foreign key constraint violations when position reports arrive before static data
+   * Remember MMSIs that have a vessel row, so position reports need no per-message lookup
+   * Unknown MMSIs are collected and created as placeholders in bulk when the batch is flushed,
+   * which prevents foreign key violations when positions arrive before static data
    */
-  private async ensureVesselExists(mmsi: string): Promise<void> {
-    try {
-      // Check if vessel exists in database
-      const vessel = await this.vesselRepository.getVesselByMMSI(mmsi);
-      
-      if (!vessel) {
-        // Create placeholder vessel record
-        const placeholderVessel: ShipStaticData = {
-          mmsi,
-          // All other fields are optional and will be updated when static data arrives
-        };
-        
-        await this.vesselRepository.upsertVessel(placeholderVessel);
-        this.logger.debug('Created placeholder vessel', { mmsi });
-      }
-    } catch (error) {
-      // Log error but don't throw - we'll let the database handle the constraint
-      this.logger.warn('Failed to ensure vessel exists', {
-        mmsi,
-        error: error instanceof Error ? error.message : String(error),
-      });
+  private trackVessel(mmsi: string, aisClass?: AisClass): void {
+    if (this.knownVessels.has(mmsi) || this.pendingVesselStubs.has(mmsi)) {
+      return;
+    }
+
+    // Forget everything rather than grow without bound; stub inserts are idempotent
+    if (this.knownVessels.size >= MAX_KNOWN_VESSELS) {
+      this.knownVessels.clear();
     }
+
+    this.pendingVesselStubs.set(mmsi, { mmsi, aisClass });
   }
 
   /**
@@ -462,6 +693,7 @@ export class DataPipeline extends EventEmitter {
         timestamp: new Date().toISOString(),
         reason: validationResult.reason,
         errors: validationResult.errors,
+        data: staticData,
       });
     }
     
@@ -537,27 +769,73 @@ export class DataPipeline extends EventEmitter {
 
   /**
    * Flush the current batch of positions to the database
+   * When the database is unavailable the batch goes to the spool instead, and while the
+   * spool holds older positions new batches queue up behind them to keep replay in order.
+   * Flushes never overlap: a flush requested while one is running waits for it
    */
-  private async flushBatch(): Promise<void> {
+  private flushBatch(): Promise<void> {
+    if (this.flushInFlight) {
+      // Positions queued meanwhile go out in a single flush once this one is done
+      if (!this.followUpFlush) {
+        this.followUpFlush = this.flushInFlight.then(() => {
+          this.followUpFlush = null;
+          return this.flushBatch();
+        });
+      }
+      return this.followUpFlush;
+    }
+
+    this.flushInFlight = this.writeQueuedBatch().finally(() => {
+      this.flushInFlight = null;
+    });
+    return this.flushInFlight;
+  }
+
+  /**
+   * Write the queued positions, or spool them when the database is unavailable
+   */
+  private async writeQueuedBatch(): Promise<void> {
     if (this.positionQueue.length === 0) {
       return;
     }
 
     const batch = [...this.positionQueue];
     this.positionQueue = [];
+    const stubs = [...this.pendingVesselStubs.values()];
+    this.pendingVesselStubs.clear();
     const timestamp = new Date().toISOString();
 
+    if (this.positionSpool?.hasData()) {
+      await this.spoolBatch(this.positionSpool, batch, timestamp);
+      return;
+    }
+
     try {
-      await this.vesselRepository.batchInsertPositions(batch);
-      this.logger.debug('Batch processed successfully', { 
+      const startedAt = Date.now();
+      const inserted = await this.writeBatch(batch, stubs);
+      const durationMs = Date.now() - startedAt;
+      this.logger.debug('Batch processed successfully', {
         count: batch.length,
+        inserted,
+        durationMs,
         timestamp,
       });
-      this.emit('batchProcessed', { 
+      this.emit('batchProcessed', {
         count: batch.length,
+        inserted,
+        durationMs,
         timestamp,
       });
     } catch (error) {
+      if (this.positionSpool && isDatabaseUnavailableError(error)) {
+        this.logger.warn('Database unavailable, spooling batch', {
+          batchSize: batch.length,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await this.spoolBatch(this.positionSpool, batch, timestamp);
+        return;
+      }
+
       const dbError = new DatabaseError('Failed to flush batch', {
         batchSize: batch.length,
         originalError: error instanceof Error ? error.message : String(error),
@@ -591,6 +869,148 @@ export class DataPipeline extends EventEmitter {
     }
   }
 
+  /**
+   * Create placeholder vessels, then insert the positions
+   * Returns the number of positions inserted
+   */
+  private async writeBatch(batch: PositionReport[], stubs: VesselStub[]): Promise<number> {
+    if (stubs.length > 0) {
+      const created = await this.vesselRepository.insertVesselStubs(stubs);
+      stubs.forEach((stub) => this.knownVessels.add(stub.mmsi));
+      this.logger.debug('Created placeholder vessels', { count: created });
+    }
+
+    return this.vesselRepository.batchInsertPositions(batch);
+  }
+
+  /**
+   * Write a batch to the spool and make sure a replay is scheduled
+   */
+  private async spoolBatch(
+    spool: PositionSpool,
+    batch: PositionReport[],
+    timestamp: string
+  ): Promise<void> {
+    try {
+      if (await spool.append(batch)) {
+        this.emit('batchSpooled', {
+          count: batch.length,
+          depth: spool.getDepth(),
+          timestamp,
+        });
+      } else {
+        this.emit('ingestionError', {
+          stage: 'spool_overflow',
+          timestamp,
+          reason: 'Spool full, batch dropped',
+          batchSize: batch.length,
+        });
+      }
+    } catch (error) {
+      this.logger.error(
+        'Failed to spool batch',
+        error instanceof Error ? error : new Error(String(error)),
+        { batchSize: batch.length }
+      );
+      this.emit('ingestionError', {
+        stage: 'spool',
+        timestamp,
+        reason: 'Spool write failure',
+        batchSize: batch.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    this.scheduleSpoolReplay();
+  }
+
+  /**
+   * Replay the spool into the database, oldest batch first
+   * Stops at the first batch that fails because the database is still unavailable
+   * and tries again after spoolReplayInterval
+   */
+  private replaySpool(): void {
+    const spool = this.positionSpool;
+    if (!spool || this.spoolReplay) {
+      return;
+    }
+
+    this.spoolReplay = spool
+      .replay((positions) => this.replayBatch(positions))
+      .then((replayed) => {
+        if (replayed > 0) {
+          this.logger.info('Replayed spooled positions', { count: replayed });
+          this.emit('spoolReplayed', { count: replayed, timestamp: new Date().toISOString() });
+        }
+      })
+      .catch((error) => {
+        this.logger.warn('Spool replay interrupted, will retry', {
+          depth: spool.getDepth(),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        this.spoolReplay = null;
+        if (spool.hasData()) {
+          this.scheduleSpoolReplay();
+        }
+      });
+  }
+
+  /**
+   * Write one spooled batch; batches the database rejects are reported and skipped
+   * so that a bad batch cannot block the spool
+   */
+  private async replayBatch(positions: PositionReport[]): Promise<void> {
+    const stubs = new Map<string, VesselStub>();
+    for (const position of positions) {
+      if (!this.knownVessels.has(position.mmsi) && !stubs.has(position.mmsi)) {
+        stubs.set(position.mmsi, { mmsi: position.mmsi, aisClass: position.aisClass });
+      }
+    }
+
+    const timestamp = new Date().toISOString();
+    try {
+      const startedAt = Date.now();
+      const inserted = await this.writeBatch(positions, [...stubs.values()]);
+      this.emit('batchProcessed', {
+        count: positions.length,
+        inserted,
+        durationMs: Date.now() - startedAt,
+        timestamp,
+        replayed: true,
+      });
+    } catch (error) {
+      if (isDatabaseUnavailableError(error)) {
+        throw error;
+      }
+
+      this.logger.error(
+        'Spooled batch rejected by database',
+        error instanceof Error ? error : new Error(String(error)),
+        { batchSize: positions.length }
+      );
+      this.emit('ingestionError', {
+        stage: 'spool_replay',
+        timestamp,
+        reason: 'Spooled batch database insert failure',
+        batchSize: positions.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private scheduleSpoolReplay(): void {
+    if (!this.isRunning || this.spoolReplayTimer || this.spoolReplay) {
+      return;
+    }
+
+    this.spoolReplayTimer = setTimeout(() => {
+      this.spoolReplayTimer = null;
+      this.replaySpool();
+    }, this.spoolReplayInterval);
+  }
+
   /**
    * Schedule the next batch flush
    */
@@ -612,6 +1032,13 @@ export class DataPipeline extends EventEmitter {
     return this.positionQueue.length;
   }
 
+  /**
+   * Get spool status, or null when no spool is configured
+   */
+  getSpoolStatus(): SpoolStatus | null {
+    return this.positionSpool?.getStatus() || null;
+  }
+
   /**
    * Check if pipeline is running
    */
@@ -0,0 +1,90 @@
+import { DataPipeline } from './DataPipeline';
+import { VesselRepository } from '../repositories/VesselRepository';
+import { CacheService } from './CacheService';
+import { PositionReport } from '../types';
+
+function position(mmsi: string, minutes: number): PositionReport {
+  return {
+    mmsi,
+    timestamp: new Date(Date.UTC(2025, 11, 1, 10, minutes)),
+    latitude: 51.9,
+    longitude: 4.05,
+    aisClass: 'A',
+  };
+}
+
+describe('DataPipeline - Vessel Stubs', () => {
+  let vesselRepository: {
+    getVesselByMMSI: jest.Mock;
+    upsertVessel: jest.Mock;
+    insertVesselStubs: jest.Mock;
+    batchInsertPositions: jest.Mock;
+  };
+  let dataPipeline: DataPipeline;
+
+  beforeEach(() => {
+    vesselRepository = {
+      getVesselByMMSI: jest.fn(),
+      upsertVessel: jest.fn().mockResolvedValue({}),
+      insertVesselStubs: jest.fn().mockResolvedValue(0),
+      batchInsertPositions: jest.fn().mockImplementation(async (batch) => batch.length),
+    };
+    const cacheService = {
+      setVesselPosition: jest.fn().mockResolvedValue(undefined),
+      setVesselMetadata: jest.fn().mockResolvedValue(undefined),
+    };
+
+    dataPipeline = new DataPipeline(
+      vesselRepository as unknown as VesselRepository,
+      cacheService as unknown as CacheService,
+      { batchSize: 3, plausibility: false }
+    );
+  });
+
+  it('should create stubs for new vessels once per batch, before the positions', async () => {
+    await dataPipeline.processPosition(position('244670316', 0));
+    await dataPipeline.processPosition(position('244670316', 1));
+    await dataPipeline.processPosition(position('366053209', 1));
+
+    expect(vesselRepository.getVesselByMMSI).not.toHaveBeenCalled();
+    expect(vesselRepository.insertVesselStubs).toHaveBeenCalledTimes(1);
+    expect(vesselRepository.insertVesselStubs).toHaveBeenCalledWith([
+      { mmsi: '244670316', aisClass: 'A' },
+      { mmsi: '366053209', aisClass: 'A' },
+    ]);
+    expect(vesselRepository.insertVesselStubs.mock.invocationCallOrder[0]).toBeLessThan(
+      vesselRepository.batchInsertPositions.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('should not stub vessels that are already known', async () => {
+    await dataPipeline.processStaticData({ mmsi: '244670316', name: 'STOLT KITE' });
+    for (let i = 0; i < 3; i++) {
+      await dataPipeline.processPosition(position('244670316', i));
+    }
+    for (let i = 0; i < 3; i++) {
+      await dataPipeline.processPosition(position('366053209', i));
+    }
+    for (let i = 3; i < 6; i++) {
+      await dataPipeline.processPosition(position('366053209', i));
+    }
+
+    expect(vesselRepository.batchInsertPositions).toHaveBeenCalledTimes(3);
+    expect(vesselRepository.insertVesselStubs).toHaveBeenCalledTimes(1);
+    expect(vesselRepository.insertVesselStubs).toHaveBeenCalledWith([
+      { mmsi: '366053209', aisClass: 'A' },
+    ]);
+  });
+
+  it('should report inserted counts with each processed batch', async () => {
+    vesselRepository.batchInsertPositions.mockResolvedValue(2);
+    const batches: Array<{ count: number; inserted: number }> = [];
+    dataPipeline.on('batchProcessed', (event) => batches.push(event));
+
+    for (let i = 0; i < 3; i++) {
+      await dataPipeline.processPosition(position('244670316', i));
+    }
+
+    expect(batches).toEqual([expect.objectContaining({ count: 3, inserted: 2 })]);
+  });
+});
@@ -0,0 +1,137 @@
+import { DeadLetterQueue, deadLetterReason } from './DeadLetterQueue';
+import { DeadLetterRepository } from '../repositories/DeadLetterRepository';
+import { NMEADecoder } from './NMEADecoder';
+import { InvalidAisMessage } from '../types';
+
+function invalidPosition(latitude: number): InvalidAisMessage {
+  return {
+    source: 'aisstream',
+    stage: 'validation',
+    messageType: 'position',
+    reason: `Latitude out of range: ${latitude} (must be -90 to 90)`,
+    mmsi: '244670316',
+    payload: { mmsi: '244670316', latitude, longitude: 4.05 },
+  };
+}
+
+describe('deadLetterReason', () => {
+  it('should strip values from the reason so messages group together', () => {
+    expect(deadLetterReason('Latitude out of range: 91.5 (must be -90 to 90)')).toBe(
+      'Latitude out of range'
+    );
+    expect(deadLetterReason('Checksum mismatch (expected 5C)')).toBe('Checksum mismatch');
+    expect(deadLetterReason('Payload too short')).toBe('Payload too short');
+  });
+});
+
+describe('DeadLetterQueue', () => {
+  let repository: { insertDeadLetters: jest.Mock; trimDeadLetters: jest.Mock };
+  let queue: DeadLetterQueue;
+
+  beforeEach(() => {
+    repository = {
+      insertDeadLetters: jest.fn().mockResolvedValue(undefined),
+      trimDeadLetters: jest.fn().mockResolvedValue(0),
+    };
+    queue = new DeadLetterQueue(repository as unknown as DeadLetterRepository, {
+      batchSize: 2,
+      maxRows: 500,
+      maxBuffered: 3,
+    });
+  });
+
+  afterEach(async () => {
+    await queue.stop();
+  });
+
+  it('should write a batch once batchSize is reached and trim to maxRows', async () => {
+    queue.record(invalidPosition(91.5));
+    expect(repository.insertDeadLetters).not.toHaveBeenCalled();
+
+    queue.record(invalidPosition(-95));
+    await queue.flush();
+
+    expect(repository.insertDeadLetters).toHaveBeenCalledTimes(1);
+    const [letters] = repository.insertDeadLetters.mock.calls[0];
+    expect(letters).toHaveLength(2);
+    expect(letters[0]).toMatchObject({
+      source: 'aisstream',
+      stage: 'validation',
+      messageType: 'position',
+      mmsi: '244670316',
+      reason: 'Latitude out of range',
+      detail: 'Latitude out of range: 91.5 (must be -90 to 90)',
+    });
+    expect(JSON.parse(letters[0].payload)).toEqual({
+      mmsi: '244670316',
+      latitude: 91.5,
+      longitude: 4.05,
+    });
+    expect(repository.trimDeadLetters).toHaveBeenCalledWith(500);
+  });
+
+  it('should store an unknown MMSI as null and keep raw payloads as they are', async () => {
+    queue.record({
+      stage: 'decode',
+      messageType: 'NMEA',
+      reason: 'Payload too short',
+      mmsi: 'unknown',
+      payload: '!AIVDM,1,1,,A,1,0*57',
+    });
+    await queue.flush();
+
+    const [letters] = repository.insertDeadLetters.mock.calls[0];
+    expect(letters[0]).toMatchObject({ source: null, mmsi: null, payload: '!AIVDM,1,1,,A,1,0*57' });
+  });
+
+  it('should keep a failed batch buffered and retry it on the next flush', async () => {
+    repository.insertDeadLetters.mockRejectedValueOnce(new Error('connection terminated'));
+
+    queue.record(invalidPosition(91.5));
+    await queue.flush();
+    expect(queue.getBufferedCount()).toBe(1);
+    expect(repository.trimDeadLetters).not.toHaveBeenCalled();
+
+    await queue.flush();
+    expect(repository.insertDeadLetters).toHaveBeenCalledTimes(2);
+    expect(queue.getBufferedCount()).toBe(0);
+  });
+
+  it('should not buffer a batch again when only trimming fails', async () => {
+    repository.trimDeadLetters.mockRejectedValueOnce(new Error('statement timeout'));
+
+    queue.record(invalidPosition(91.5));
+    await queue.flush();
+
+    expect(queue.getBufferedCount()).toBe(0);
+  });
+
+  it('should drop new dead letters while the buffer is full', async () => {
+    repository.insertDeadLetters.mockRejectedValue(new Error('connection terminated'));
+
+    for (let i = 0; i < 5; i++) {
+      queue.record(invalidPosition(91 + i));
+      await queue.flush();
+    }
+
+    expect(queue.getBufferedCount()).toBe(3);
+    expect(queue.getDroppedCount()).toBe(2);
+  });
+
+  it('should record sentences rejected by the NMEA decoder', async () => {
+    const decoder = new NMEADecoder();
+    decoder.on('error', () => undefined);
+    decoder.on('invalidMessage', (message: InvalidAisMessage) => queue.record(message));
+
+    decoder.decode('!AIVDM,1,1,,A,13u?etPv2;0n:dDPwUM1U1Cb069D,0*00');
+    await queue.flush();
+
+    const [letters] = repository.insertDeadLetters.mock.calls[0];
+    expect(letters[0]).toMatchObject({
+      stage: 'decode',
+      messageType: 'NMEA',
+      reason: 'Checksum mismatch',
+      payload: '!AIVDM,1,1,,A,13u?etPv2;0n:dDPwUM1U1Cb069D,0*00',
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { EventEmitter } from 'events';
+import { DeadLetterRepository } from '../repositories/DeadLetterRepository';
+import { DeadLetter, DeadLetterStage, InvalidAisMessage } from '../types';
+import { createComponentLogger } from '../utils';
+
+/**
+ * Configuration options for DeadLetterQueue
+ */
+export interface DeadLetterQueueConfig {
+  /** Write once this many dead letters are buffered (default: 100) */
+  batchSize?: number;
+  /** Time in milliseconds between writes (default: 5000) */
+  flushInterval?: number;
+  /** Rows kept in the dead_letters table (default: 100000) */
+  maxRows?: number;
+  /** Dead letters held in memory while writes fail; newer ones are dropped beyond this (default: 10000) */
+  maxBuffered?: number;
+}
+
+export const DEAD_LETTER_STAGES: DeadLetterStage[] = ['parse', 'decode', 'validation'];
+
+const MAX_PAYLOAD_LENGTH = 8192;
+
+/**
+ * Reduce a reason to the part that is the same for every message with that problem,
+ * e.g. "Latitude out of range: 91.5 (must be -90 to 90)" becomes "Latitude out of range"
+ */
+export function deadLetterReason(detail: string): string {
+  const reason = detail.split(/[:(]/)[0].trim();
+  return (reason || detail).slice(0, 128);
+}
+
+function serializePayload(payload: unknown): string {
+  const text = typeof payload === 'string' ? payload : JSON.stringify(payload) ?? String(payload);
+  return text.length > MAX_PAYLOAD_LENGTH ? text.slice(0, MAX_PAYLOAD_LENGTH) : text;
+}
+
+/**
+ * DeadLetterQueue buffers invalid AIS messages and writes them to the dead_letters
+ * table in batches, trimming the table to maxRows after each write
+ */
+export class DeadLetterQueue extends EventEmitter {
+  private repository: DeadLetterRepository;
+  private batchSize: number;
+  private flushInterval: number;
+  private maxRows: number;
+  private maxBuffered: number;
+
+  private buffer: Omit<DeadLetter, 'id'>[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private dropped = 0;
+
+  private logger = createComponentLogger('DeadLetterQueue');
+
+  constructor(repository: DeadLetterRepository, config: DeadLetterQueueConfig = {}) {
+    super();
+    this.repository = repository;
+    this.batchSize = config.batchSize || 100;
+    this.flushInterval = config.flushInterval || 5000;
+    this.maxRows = config.maxRows || 100000;
+    this.maxBuffered = config.maxBuffered || 10000;
+  }
+
+  /**
+   * Start periodic writes
+   */
+  start(): void {
+    if (this.flushTimer) {
+      return;
+    }
+
+    this.flushTimer = setInterval(() => {
+      this.flush();
+    }, this.flushInterval);
+    this.flushTimer.unref();
+  }
+
+  /**
+   * Stop periodic writes and write what is buffered
+   */
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    await this.flushing;
+    await this.flush();
+  }
+
+  /**
+   * Queue an invalid message for storage
+   */
+  record(message: InvalidAisMessage): void {
+    if (this.buffer.length >= this.maxBuffered) {
+      this.dropped++;
+      return;
+    }
+
+    this.buffer.push({
+      receivedAt: message.receivedAt || new Date(),
+      source: message.source || null,
+      stage: message.stage,
+      messageType: message.messageType,
+      mmsi: message.mmsi && message.mmsi !== 'unknown' ? message.mmsi : null,
+      reason: deadLetterReason(message.reason),
+      detail: message.reason,
+      payload: serializePayload(message.payload),
+    });
+
+    if (this.buffer.length >= this.batchSize) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Write buffered dead letters; failed batches stay buffered for the next attempt
+   */
+  flush(): Promise<void> {
+    if (this.flushing || this.buffer.length === 0) {
+      return this.flushing || Promise.resolve();
+    }
+
+    const batch = this.buffer;
+    this.buffer = [];
+
+    this.flushing = this.repository
+      .insertDeadLetters(batch)
+      .then(
+        async () => {
+          let trimmed = 0;
+          try {
+            trimmed = await this.repository.trimDeadLetters(this.maxRows);
+          } catch (error) {
+            this.logger.warn('Failed to trim dead letters', {
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+          this.emit('flushed', { count: batch.length, trimmed });
+        },
+        (error) => {
+          // Put the batch back in front, within the buffer limit
+          const room = Math.max(this.maxBuffered - this.buffer.length, 0);
+          this.dropped += Math.max(batch.length - room, 0);
+          this.buffer = [...batch.slice(0, room), ...this.buffer];
+          this.logger.warn('Failed to store dead letters, will retry', {
+            count: batch.length,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      )
+      .finally(() => {
+        this.flushing = null;
+      });
+
+    return this.flushing;
+  }
+
+  /**
+   * Number of dead letters waiting to be written
+   */
+  getBufferedCount(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Number of dead letters dropped because the buffer was full
+   */
+  getDroppedCount(): number {
+    return this.dropped;
+  }
+}
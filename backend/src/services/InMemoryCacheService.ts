@@ -0,0 +1,188 @@
+import { PositionReport, ShipStaticData, BoundingBox } from '../types';
+import { isInBoundingBox } from '../utils';
+import { CacheStatistics } from './CacheService';
+import { VesselCache } from './VesselCache';
+
+/**
+ * A cached value and when it expires (epoch milliseconds)
+ */
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * InMemoryCacheService keeps vessel positions and metadata in process memory
+ *
+ * Mirrors CacheService without Redis, for demos and tests with STORAGE=memory:
+ * the same TTLs, the same fields kept per entry and the same read statistics.
+ */
+export class InMemoryCacheService implements VesselCache {
+  private isConnected = false;
+  private stats: CacheStatistics = { hits: 0, misses: 0, errors: 0 };
+
+  // TTL values in seconds, as in CacheService
+  private readonly POSITION_TTL = 60; // 60 seconds for positions
+  private readonly METADATA_TTL = 3600; // 1 hour for metadata
+
+  private positions = new Map<string, CacheEntry<PositionReport>>();
+  private metadata = new Map<string, CacheEntry<ShipStaticData>>();
+  // Like the Redis set, active vessels expire together POSITION_TTL after the last update
+  private activeVessels = new Set<string>();
+  private activeVesselsExpireAt = 0;
+
+  /**
+   * Mark the cache ready; there is nothing to connect to
+   */
+  async connect(): Promise<void> {
+    this.isConnected = true;
+  }
+
+  /**
+   * Mark the cache as no longer ready; cached entries are kept
+   */
+  async disconnect(): Promise<void> {
+    this.isConnected = false;
+  }
+
+  /**
+   * Check if the cache is ready
+   */
+  isReady(): boolean {
+    return this.isConnected;
+  }
+
+  /**
+   * Set vessel position in cache with TTL
+   */
+  async setVesselPosition(mmsi: string, position: PositionReport): Promise<void> {
+    const now = Date.now();
+    this.positions.set(mmsi, {
+      value: {
+        mmsi: position.mmsi,
+        timestamp: new Date(position.timestamp),
+        latitude: position.latitude,
+        longitude: position.longitude,
+        sog: position.sog,
+        cog: position.cog,
+        true_heading: position.true_heading,
+        navigational_status: position.navigational_status,
+        rate_of_turn: position.rate_of_turn,
+        altitude: position.altitude,
+      },
+      expiresAt: now + this.POSITION_TTL * 1000,
+    });
+
+    if (now >= this.activeVesselsExpireAt) {
+      this.activeVessels.clear();
+    }
+    this.activeVessels.add(mmsi);
+    this.activeVesselsExpireAt = now + this.POSITION_TTL * 1000;
+  }
+
+  /**
+   * Get vessel position from cache
+   */
+  async getVesselPosition(mmsi: string): Promise<PositionReport | null> {
+    const position = this.read(this.positions, mmsi);
+    return position ? { ...position, timestamp: new Date(position.timestamp) } : null;
+  }
+
+  /**
+   * Set vessel metadata in cache with TTL
+   */
+  async setVesselMetadata(mmsi: string, metadata: ShipStaticData): Promise<void> {
+    this.metadata.set(mmsi, {
+      value: {
+        mmsi: metadata.mmsi,
+        name: metadata.name,
+        type: metadata.type,
+        imo: metadata.imo,
+        callSign: metadata.callSign,
+        dimensions: metadata.dimensions && { ...metadata.dimensions },
+        destination: metadata.destination,
+        eta: metadata.eta && new Date(metadata.eta),
+        draught: metadata.draught,
+      },
+      expiresAt: Date.now() + this.METADATA_TTL * 1000,
+    });
+  }
+
+  /**
+   * Get vessel metadata from cache
+   */
+  async getVesselMetadata(mmsi: string): Promise<ShipStaticData | null> {
+    const metadata = this.read(this.metadata, mmsi);
+    return metadata
+      ? {
+          ...metadata,
+          dimensions: metadata.dimensions && { ...metadata.dimensions },
+          eta: metadata.eta && new Date(metadata.eta),
+        }
+      : null;
+  }
+
+  /**
+   * Get cache hit, miss and error counts
+   */
+  getStatistics(): CacheStatistics {
+    return { ...this.stats };
+  }
+
+  /**
+   * Get count of active vessels (vessels with recent position updates)
+   */
+  async getActiveVesselCount(): Promise<number> {
+    return Date.now() < this.activeVesselsExpireAt ? this.activeVessels.size : 0;
+  }
+
+  /**
+   * Get MMSIs of cached positions within a bounding box
+   * Boxes crossing the antimeridian are supported
+   */
+  async getVesselsInBounds(bbox: BoundingBox): Promise<string[]> {
+    const vesselsInBounds: string[] = [];
+    for (const mmsi of this.positions.keys()) {
+      const position = await this.getVesselPosition(mmsi);
+      if (position && isInBoundingBox(position.latitude, position.longitude, bbox)) {
+        vesselsInBounds.push(mmsi);
+      }
+    }
+    return vesselsInBounds;
+  }
+
+  /**
+   * Clear all cache data (useful for testing)
+   */
+  async clearAll(): Promise<void> {
+    this.positions.clear();
+    this.metadata.clear();
+    this.activeVessels.clear();
+    this.activeVesselsExpireAt = 0;
+  }
+
+  /**
+   * Remove vessel from cache
+   */
+  async removeVessel(mmsi: string): Promise<void> {
+    this.positions.delete(mmsi);
+    this.metadata.delete(mmsi);
+    this.activeVessels.delete(mmsi);
+  }
+
+  /**
+   * Read an entry, counting the hit or miss; expired entries are dropped
+   */
+  private read<T>(entries: Map<string, CacheEntry<T>>, key: string): T | null {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.stats.hits++;
+      return entry.value;
+    }
+    if (entry) {
+      entries.delete(key);
+    }
+    this.stats.misses++;
+    return null;
+  }
+}
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { MessageRecorder } from './MessageRecorder';
+import { RawAisMessage } from './AisSource';
+
+function rawMessage(data: string, receivedAt = new Date('2025-12-01T10:30:00Z')): RawAisMessage {
+  return { source: 'rtl-ais', format: 'nmea', receivedAt, data };
+}
+
+function readArchive(file: string): Array<Record<string, string>> {
+  return zlib
+    .gunzipSync(fs.readFileSync(file))
+    .toString('utf8')
+    .split('\n')
+    .filter((line) => line.length > 0)
+    .map((line) => JSON.parse(line));
+}
+
+describe('MessageRecorder', () => {
+  let directory: string;
+  let recorder: MessageRecorder;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ais-recorder-'));
+  });
+
+  afterEach(async () => {
+    await recorder?.stop();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should write raw messages with their receive time as gzip JSON lines', async () => {
+    recorder = new MessageRecorder({ directory });
+    await recorder.start();
+
+    recorder.record(rawMessage('!AIVDM,1,1,,A,13aEOK?P00PD2wVMdLDRhgvL289?,0*26'));
+    recorder.record(rawMessage('!AIVDM,1,1,,B,15M67FC000G?ufbE`FepT@3n00Sa,0*5C'));
+    await recorder.stop();
+
+    const archives = await recorder.listArchives();
+    expect(archives).toHaveLength(1);
+    expect(archives[0].active).toBe(false);
+
+    const lines = readArchive(path.join(directory, archives[0].name));
+    expect(lines).toEqual([
+      {
+        receivedAt: '2025-12-01T10:30:00.000Z',
+        source: 'rtl-ais',
+        format: 'nmea',
+        data: '!AIVDM,1,1,,A,13aEOK?P00PD2wVMdLDRhgvL289?,0*26',
+      },
+      {
+        receivedAt: '2025-12-01T10:30:00.000Z',
+        source: 'rtl-ais',
+        format: 'nmea',
+        data: '!AIVDM,1,1,,B,15M67FC000G?ufbE`FepT@3n00Sa,0*5C',
+      },
+    ]);
+  });
+
+  it('should ignore messages while stopped', async () => {
+    recorder = new MessageRecorder({ directory });
+    recorder.record(rawMessage('ignored'));
+
+    expect(recorder.isRecording()).toBe(false);
+    expect(recorder.getStatus().messagesRecorded).toBe(0);
+    expect(await recorder.listArchives()).toEqual([]);
+  });
+
+  it('should rotate archives once the size limit is reached', async () => {
+    recorder = new MessageRecorder({ directory, maxFileBytes: 200 });
+    await recorder.start();
+
+    for (let i = 0; i < 5; i++) {
+      recorder.record(rawMessage(`message-${i}-${'x'.repeat(100)}`));
+    }
+    await recorder.stop();
+
+    const archives = await recorder.listArchives();
+    const status = recorder.getStatus();
+    expect(status.archivesRotated).toBeGreaterThanOrEqual(2);
+    expect(archives.length).toBe(status.archivesRotated + 1);
+
+    // Every message ends up in exactly one archive, in order
+    const data = archives
+      .reverse()
+      .flatMap((archive) => readArchive(path.join(directory, archive.name)))
+      .map((line) => line.data.split('-')[1]);
+    expect(data).toEqual(['0', '1', '2', '3', '4']);
+  });
+
+  it('should report the active archive while recording', async () => {
+    recorder = new MessageRecorder({ directory });
+    await recorder.start();
+
+    const status = recorder.getStatus();
+    const archives = await recorder.listArchives();
+
+    expect(status.isRecording).toBe(true);
+    expect(status.currentArchive).toMatch(/^ais-.*\.jsonl\.gz$/);
+    expect(archives.find((archive) => archive.active)?.name).toBe(status.currentArchive);
+  });
+
+  it('should delete archives older than the retention period', async () => {
+    const expired = path.join(directory, 'ais-2020-01-01T00-00-00-000Z.jsonl.gz');
+    const recent = path.join(directory, 'ais-2099-01-01T00-00-00-000Z.jsonl.gz');
+    const unrelated = path.join(directory, 'notes.txt');
+    fs.writeFileSync(expired, zlib.gzipSync(''));
+    fs.writeFileSync(recent, zlib.gzipSync(''));
+    fs.writeFileSync(unrelated, 'keep me');
+    const old = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    fs.utimesSync(expired, old, old);
+
+    recorder = new MessageRecorder({ directory, retentionMs: 60 * 60 * 1000 });
+    const deleted = await recorder.enforceRetention();
+
+    expect(deleted).toEqual(['ais-2020-01-01T00-00-00-000Z.jsonl.gz']);
+    expect(fs.existsSync(expired)).toBe(false);
+    expect(fs.existsSync(recent)).toBe(true);
+    expect(fs.existsSync(unrelated)).toBe(true);
+  });
+
+  it('should delete the oldest archives when over the size cap', async () => {
+    const names = [
+      'ais-2025-01-01T00-00-00-000Z.jsonl.gz',
+      'ais-2025-01-02T00-00-00-000Z.jsonl.gz',
+      'ais-2025-01-03T00-00-00-000Z.jsonl.gz',
+    ];
+    names.forEach((name) => fs.writeFileSync(path.join(directory, name), Buffer.alloc(100)));
+
+    recorder = new MessageRecorder({ directory, maxTotalBytes: 250 });
+    const deleted = await recorder.enforceRetention();
+
+    expect(deleted).toEqual([names[0]]);
+    expect((await recorder.listArchives()).map((archive) => archive.name)).toEqual([
+      names[2],
+      names[1],
+    ]);
+  });
+});
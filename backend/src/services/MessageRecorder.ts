@@ -0,0 +1,352 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { EventEmitter } from 'events';
+import { RawAisMessage } from './AisSource';
+import { createComponentLogger } from '../utils';
+
+/**
+ * Configuration options for MessageRecorder
+ */
+export interface MessageRecorderConfig {
+  /** Directory archives are written to */
+  directory: string;
+  /** Rotate after this many uncompressed bytes (default: 64 MB) */
+  maxFileBytes?: number;
+  /** Rotate after the archive has been open this long (default: 1 hour) */
+  maxFileAgeMs?: number;
+  /** Delete archives last written longer ago than this (default: 7 days) */
+  retentionMs?: number;
+  /** Delete the oldest archives once the directory exceeds this size (default: unlimited) */
+  maxTotalBytes?: number;
+}
+
+/**
+ * A recorded archive file
+ */
+export interface RecorderArchive {
+  name: string;
+  sizeBytes: number;
+  modifiedAt: Date;
+  active: boolean;
+}
+
+/**
+ * Recorder status for the API
+ */
+export interface RecorderStatus {
+  isRecording: boolean;
+  directory: string;
+  currentArchive: string | null;
+  startedAt: Date | null;
+  messagesRecorded: number;
+  bytesRecorded: number;
+  archivesRotated: number;
+}
+
+/**
+ * An open archive: JSON lines are written through gzip into the file
+ */
+interface OpenArchive {
+  name: string;
+  gzip: zlib.Gzip;
+  file: fs.WriteStream;
+  openedAt: number;
+  bytes: number;
+}
+
+const ARCHIVE_PATTERN = /^ais-([0-9T-]+Z)(?:-(\d+))?\.jsonl\.gz$/;
+const RETENTION_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Archive names embed their creation time plus an optional sequence suffix;
+ * pad the suffix so names sort chronologically
+ */
+function archiveSortKey(name: string): string {
+  const match = ARCHIVE_PATTERN.exec(name);
+  return match ? `${match[1]}-${(match[2] || '0').padStart(6, '0')}` : name;
+}
+
+/**
+ * MessageRecorder writes every raw AIS message with its receive timestamp to
+ * gzip-compressed JSON lines archives, rotated by size and age
+ *
+ * Each line is: {"receivedAt": ISO time, "source": name, "format": ..., "data": raw message}
+ */
+export class MessageRecorder extends EventEmitter {
+  private directory: string;
+  private maxFileBytes: number;
+  private maxFileAgeMs: number;
+  private retentionMs: number;
+  private maxTotalBytes: number | null;
+
+  private archive: OpenArchive | null = null;
+  private closing: Promise<void>[] = [];
+  private rotateTimer: NodeJS.Timeout | null = null;
+  private retentionTimer: NodeJS.Timeout | null = null;
+  private lastArchiveName: string | null = null;
+  private startedAt: Date | null = null;
+  private messagesRecorded = 0;
+  private bytesRecorded = 0;
+  private archivesRotated = 0;
+
+  private logger = createComponentLogger('MessageRecorder');
+
+  constructor(config: MessageRecorderConfig) {
+    super();
+    this.directory = config.directory;
+    this.maxFileBytes = config.maxFileBytes || 64 * 1024 * 1024;
+    this.maxFileAgeMs = config.maxFileAgeMs || 60 * 60 * 1000;
+    this.retentionMs = config.retentionMs || 7 * 24 * 60 * 60 * 1000;
+    this.maxTotalBytes = config.maxTotalBytes || null;
+  }
+
+  /**
+   * Start recording into a new archive
+   */
+  async start(): Promise<void> {
+    if (this.archive) {
+      return;
+    }
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    this.openArchive();
+    this.startedAt = new Date();
+    this.messagesRecorded = 0;
+    this.bytesRecorded = 0;
+
+    await this.enforceRetention();
+    this.retentionTimer = setInterval(() => {
+      this.enforceRetention().catch((error) => {
+        this.logger.error('Failed to enforce archive retention', error);
+      });
+    }, Math.min(this.retentionMs, RETENTION_CHECK_INTERVAL_MS));
+    this.retentionTimer.unref();
+
+    this.logger.info('Recorder started', {
+      directory: this.directory,
+      archive: this.lastArchiveName,
+    });
+    this.emit('started');
+  }
+
+  /**
+   * Stop recording and close the current archive
+   */
+  async stop(): Promise<void> {
+    if (this.retentionTimer) {
+      clearInterval(this.retentionTimer);
+      this.retentionTimer = null;
+    }
+
+    if (!this.archive) {
+      await Promise.all(this.closing);
+      return;
+    }
+
+    this.closeArchive();
+    await Promise.all(this.closing);
+    this.startedAt = null;
+
+    this.logger.info('Recorder stopped', { messagesRecorded: this.messagesRecorded });
+    this.emit('stopped');
+  }
+
+  /**
+   * Record a raw message; ignored while not recording
+   */
+  record(message: RawAisMessage): void {
+    if (!this.archive) {
+      return;
+    }
+
+    const line =
+      JSON.stringify({
+        receivedAt: message.receivedAt.toISOString(),
+        source: message.source,
+        format: message.format,
+        data: message.data,
+      }) + '\n';
+    const bytes = Buffer.byteLength(line);
+
+    this.archive.gzip.write(line);
+    this.archive.bytes += bytes;
+    this.bytesRecorded += bytes;
+    this.messagesRecorded++;
+
+    if (this.archive.bytes >= this.maxFileBytes) {
+      this.rotate();
+    }
+  }
+
+  /**
+   * Close the current archive and continue in a new one
+   */
+  rotate(): void {
+    if (!this.archive) {
+      return;
+    }
+
+    this.closeArchive();
+    this.openArchive();
+    this.archivesRotated++;
+    this.emit('rotated', { archive: this.lastArchiveName });
+  }
+
+  /**
+   * List archives, newest first
+   */
+  async listArchives(): Promise<RecorderArchive[]> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const archives = await Promise.all(
+      names
+        .filter((name) => ARCHIVE_PATTERN.test(name))
+        .map(async (name) => {
+          const stats = await fs.promises.stat(path.join(this.directory, name));
+          return {
+            name,
+            sizeBytes: stats.size,
+            modifiedAt: stats.mtime,
+            active: name === this.archive?.name,
+          };
+        })
+    );
+
+    return archives.sort((a, b) => {
+      const keyA = archiveSortKey(a.name);
+      const keyB = archiveSortKey(b.name);
+      return keyA < keyB ? 1 : keyA > keyB ? -1 : 0;
+    });
+  }
+
+  /**
+   * Delete archives past the retention period or over the size cap
+   * The archive being written is never deleted
+   */
+  async enforceRetention(): Promise<string[]> {
+    const archives = await this.listArchives();
+    const cutoff = Date.now() - this.retentionMs;
+    const deleted: string[] = [];
+    let totalBytes = archives.reduce((sum, archive) => sum + archive.sizeBytes, 0);
+
+    // Oldest first
+    for (const archive of [...archives].reverse()) {
+      if (archive.active) {
+        continue;
+      }
+
+      const expired = archive.modifiedAt.getTime() < cutoff;
+      const overCap = this.maxTotalBytes !== null && totalBytes > this.maxTotalBytes;
+      if (!expired && !overCap) {
+        continue;
+      }
+
+      await fs.promises.rm(path.join(this.directory, archive.name), { force: true });
+      totalBytes -= archive.sizeBytes;
+      deleted.push(archive.name);
+    }
+
+    if (deleted.length > 0) {
+      this.logger.info('Deleted expired archives', { count: deleted.length });
+      this.emit('archivesDeleted', deleted);
+    }
+    return deleted;
+  }
+
+  /**
+   * Get recorder status
+   */
+  getStatus(): RecorderStatus {
+    return {
+      isRecording: this.archive !== null,
+      directory: this.directory,
+      currentArchive: this.archive?.name || null,
+      startedAt: this.startedAt,
+      messagesRecorded: this.messagesRecorded,
+      bytesRecorded: this.bytesRecorded,
+      archivesRotated: this.archivesRotated,
+    };
+  }
+
+  /**
+   * Check if currently recording
+   */
+  isRecording(): boolean {
+    return this.archive !== null;
+  }
+
+  private openArchive(): void {
+    const name = this.nextArchiveName();
+    const file = fs.createWriteStream(path.join(this.directory, name));
+    const gzip = zlib.createGzip();
+    gzip.pipe(file);
+
+    const handleError = (error: Error): void => {
+      this.logger.error('Archive write failed', error, { archive: name });
+      if (this.archive?.name === name) {
+        this.archive = null;
+        this.clearRotateTimer();
+      }
+      this.emit('error', error);
+    };
+    file.on('error', handleError);
+    gzip.on('error', handleError);
+
+    this.archive = { name, gzip, file, openedAt: Date.now(), bytes: 0 };
+    this.lastArchiveName = name;
+
+    this.clearRotateTimer();
+    this.rotateTimer = setTimeout(() => this.rotate(), this.maxFileAgeMs);
+    this.rotateTimer.unref();
+  }
+
+  private closeArchive(): void {
+    const archive = this.archive;
+    if (!archive) {
+      return;
+    }
+
+    this.archive = null;
+    this.clearRotateTimer();
+
+    const closed = new Promise<void>((resolve) => {
+      archive.file.once('close', () => resolve());
+      archive.file.once('error', () => resolve());
+    }).then(() => {
+      this.closing = this.closing.filter((pending) => pending !== closed);
+    });
+    this.closing.push(closed);
+    archive.gzip.end();
+  }
+
+  private clearRotateTimer(): void {
+    if (this.rotateTimer) {
+      clearTimeout(this.rotateTimer);
+      this.rotateTimer = null;
+    }
+  }
+
+  /**
+   * Build a sortable, filesystem-safe archive name from the current time
+   * A sequence suffix keeps names unique when rotating within one millisecond
+   */
+  private nextArchiveName(): string {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    let name = `ais-${stamp}.jsonl.gz`;
+    let sequence = 1;
+    while (name === this.lastArchiveName || fs.existsSync(path.join(this.directory, name))) {
+      name = `ais-${stamp}-${sequence}.jsonl.gz`;
+      sequence++;
+    }
+    return name;
+  }
+}
@@ -0,0 +1,134 @@
+import { EventEmitter } from 'events';
+import { Pool } from 'pg';
+import request from 'supertest';
+import { MetricsCollector } from './MetricsCollector';
+import { AisSource } from './AisSource';
+import { CacheService } from './CacheService';
+import { DataPipeline } from './DataPipeline';
+import { WebSocketServer } from './WebSocketServer';
+import { createApp } from '../api/app';
+
+function fakeSource(name: string): AisSource {
+  return Object.assign(new EventEmitter(), {
+    name,
+    kind: 'nmea-tcp',
+    isConnectionActive: () => true,
+  }) as unknown as AisSource;
+}
+
+function fakePipeline(): DataPipeline {
+  return Object.assign(new EventEmitter(), {
+    getQueueSize: () => 42,
+    getSpoolStatus: () => null,
+  }) as unknown as DataPipeline;
+}
+
+describe('MetricsCollector', () => {
+  let metrics: MetricsCollector;
+
+  beforeEach(() => {
+    metrics = new MetricsCollector({ processMetrics: false });
+  });
+
+  it('should count source messages, invalid messages and reconnects', async () => {
+    const source = fakeSource('harbour');
+    metrics.observeSource(source);
+
+    source.emit('raw', {});
+    source.emit('raw', {});
+    source.emit('position', {});
+    source.emit('invalidMessage', { stage: 'decode' });
+    source.emit('reconnecting', { attempt: 1 });
+
+    const text = await metrics.getMetrics();
+    expect(text).toContain('aisight_ais_messages_received_total{source="harbour"} 2');
+    expect(text).toContain(
+      'aisight_ais_messages_processed_total{source="harbour",type="position"} 1'
+    );
+    expect(text).toContain('aisight_ais_invalid_messages_total{source="harbour",stage="decode"} 1');
+    expect(text).toContain('aisight_ais_source_reconnects_total{source="harbour"} 1');
+    expect(text).toContain('aisight_ais_source_connected{source="harbour"} 1');
+  });
+
+  it('should record batches, queue depth and validation failures by reason', async () => {
+    const pipeline = fakePipeline();
+    metrics.observePipeline(pipeline);
+
+    pipeline.emit('batchProcessed', { count: 100, inserted: 98, durationMs: 30 });
+    pipeline.emit('validationError', {
+      type: 'position',
+      reason: 'Latitude out of range: 91 (must be -90 to 90)',
+    });
+    pipeline.emit('validationError', {
+      type: 'position',
+      reason: 'Latitude out of range: 95 (must be -90 to 90)',
+    });
+
+    const text = await metrics.getMetrics();
+    expect(text).toContain('aisight_pipeline_queue_depth 42');
+    expect(text).toContain('aisight_pipeline_positions_inserted_total 98');
+    expect(text).toContain('aisight_pipeline_batch_size_bucket{le="100"} 1');
+    expect(text).toContain('aisight_pipeline_batch_flush_duration_seconds_bucket{le="0.05"} 1');
+    expect(text).toContain(
+      'aisight_pipeline_validation_failures_total{type="position",reason="Latitude out of range"} 2'
+    );
+  });
+
+  it('should report cache, pool and WebSocket statistics when scraped', async () => {
+    const hits = { hits: 7, misses: 3, errors: 1 };
+    metrics.observeCache({ getStatistics: () => hits } as unknown as CacheService);
+    metrics.observePool({
+      totalCount: 8,
+      idleCount: 3,
+      waitingCount: 2,
+      options: { max: 20 },
+    } as unknown as Pool);
+    metrics.observeWebSocketServer({
+      getConnectionCount: () => 4,
+      getEmittedMessageCount: () => 120,
+    } as unknown as WebSocketServer);
+
+    let text = await metrics.getMetrics();
+    expect(text).toContain('aisight_cache_requests_total{result="hit"} 7');
+    expect(text).toContain('aisight_cache_requests_total{result="miss"} 3');
+    expect(text).toContain('aisight_cache_errors_total 1');
+    expect(text).toContain('aisight_db_pool_connections{state="active"} 5');
+    expect(text).toContain('aisight_db_pool_connections{state="waiting"} 2');
+    expect(text).toContain('aisight_db_pool_utilisation_ratio 0.25');
+    expect(text).toContain('aisight_websocket_clients 4');
+    expect(text).toContain('aisight_websocket_messages_emitted_total 120');
+
+    // Counters follow the component totals instead of adding them up again
+    hits.hits = 9;
+    text = await metrics.getMetrics();
+    expect(text).toContain('aisight_cache_requests_total{result="hit"} 9');
+  });
+
+  it('should serve /metrics and record request latency per route', async () => {
+    const app = createApp(
+      {} as Pool,
+      {} as CacheService,
+      [],
+      undefined,
+      undefined,
+      undefined,
+      metrics
+    );
+
+    await request(app).get('/api/vessels/not-an-mmsi').expect(400);
+    await request(app).get('/api/admin/dead-letters?stage=bogus').expect(400);
+    await request(app).get('/unknown').expect(404);
+
+    const response = await request(app).get('/metrics').expect(200);
+    expect(response.headers['content-type']).toContain('text/plain');
+    expect(response.text).toContain(
+      'aisight_http_request_duration_seconds_count{method="GET",route="/api/vessels/:mmsi",status_code="400"} 1'
+    );
+    expect(response.text).toContain(
+      'aisight_http_request_duration_seconds_count{method="GET",route="/api/admin/dead-letters",status_code="400"} 1'
+    );
+    expect(response.text).toContain(
+      'aisight_http_request_duration_seconds_count{method="GET",route="unmatched",status_code="404"} 1'
+    );
+  });
+});
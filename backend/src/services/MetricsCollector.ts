@@ -0,0 +1,350 @@
+import { Pool } from 'pg';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { AisSource } from './AisSource';
+import { VesselCache } from './VesselCache';
+import { DataPipeline } from './DataPipeline';
+import { deadLetterReason } from './DeadLetterQueue';
+import { WebSocketServer } from './WebSocketServer';
+
+/**
+ * Configuration options for MetricsCollector
+ */
+export interface MetricsCollectorConfig {
+  /** Prefix for all metric names (default: aisight_) */
+  prefix?: string;
+  /** Include Node.js process metrics such as memory, CPU and event loop lag (default: true) */
+  processMetrics?: boolean;
+}
+
+const REPORT_TYPES = ['position', 'staticData', 'baseStation', 'aidToNavigation'];
+
+/**
+ * MetricsCollector exposes ingestion, cache, database, WebSocket and HTTP metrics
+ * in Prometheus text format
+ *
+ * Components are attached with the observe* methods. Event-driven metrics are
+ * counted from the events components already emit; depths, connection counts and
+ * component statistics are read when Prometheus scrapes.
+ */
+export class MetricsCollector {
+  readonly registry = new Registry();
+
+  private sources: AisSource[] = [];
+  private pipeline: DataPipeline | null = null;
+  private cache: VesselCache | null = null;
+  private pool: Pool | null = null;
+  private wsServer: WebSocketServer | null = null;
+
+  private messagesReceived: Counter<'source'>;
+  private messagesProcessed: Counter<'source' | 'type'>;
+  private invalidMessages: Counter<'source' | 'stage'>;
+  private sourceReconnects: Counter<'source'>;
+  private sourceErrors: Counter<'source'>;
+  private batchFlushDuration: Histogram;
+  private batchSize: Histogram;
+  private positionsInserted: Counter;
+  private validationFailures: Counter<'type' | 'reason'>;
+  private ingestionErrors: Counter<'stage'>;
+  private httpRequestDuration: Histogram<'method' | 'route' | 'status_code'>;
+
+  constructor(config: MetricsCollectorConfig = {}) {
+    const prefix = config.prefix ?? 'aisight_';
+    const registers = [this.registry];
+
+    if (config.processMetrics !== false) {
+      collectDefaultMetrics({ register: this.registry, prefix });
+    }
+
+    // AIS sources
+    this.messagesReceived = new Counter({
+      name: `${prefix}ais_messages_received_total`,
+      help: 'AIS messages received, before parsing',
+      labelNames: ['source'],
+      registers,
+    });
+    this.messagesProcessed = new Counter({
+      name: `${prefix}ais_messages_processed_total`,
+      help: 'AIS reports parsed and forwarded to the pipeline',
+      labelNames: ['source', 'type'],
+      registers,
+    });
+    this.invalidMessages = new Counter({
+      name: `${prefix}ais_invalid_messages_total`,
+      help: 'AIS messages that failed parsing or decoding',
+      labelNames: ['source', 'stage'],
+      registers,
+    });
+    this.sourceReconnects = new Counter({
+      name: `${prefix}ais_source_reconnects_total`,
+      help: 'Reconnection attempts per AIS source',
+      labelNames: ['source'],
+      registers,
+    });
+    this.sourceErrors = new Counter({
+      name: `${prefix}ais_source_errors_total`,
+      help: 'Errors reported by AIS sources',
+      labelNames: ['source'],
+      registers,
+    });
+    const sources = this.sources;
+    new Gauge({
+      name: `${prefix}ais_source_connected`,
+      help: 'Whether an AIS source is connected (1) or not (0)',
+      labelNames: ['source'],
+      registers,
+      collect() {
+        for (const source of sources) {
+          this.set({ source: source.name }, source.isConnectionActive() ? 1 : 0);
+        }
+      },
+    });
+
+    // Data pipeline
+    this.batchFlushDuration = new Histogram({
+      name: `${prefix}pipeline_batch_flush_duration_seconds`,
+      help: 'Time taken to write a position batch to the database',
+      buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+      registers,
+    });
+    this.batchSize = new Histogram({
+      name: `${prefix}pipeline_batch_size`,
+      help: 'Positions per batch written to the database',
+      buckets: [1, 10, 50, 100, 250, 500, 1000, 2500, 5000, 10000],
+      registers,
+    });
+    this.positionsInserted = new Counter({
+      name: `${prefix}pipeline_positions_inserted_total`,
+      help: 'Positions inserted into the database',
+      registers,
+    });
+    this.validationFailures = new Counter({
+      name: `${prefix}pipeline_validation_failures_total`,
+      help: 'Reports rejected by pipeline validation, by report type and reason',
+      labelNames: ['type', 'reason'],
+      registers,
+    });
+    this.ingestionErrors = new Counter({
+      name: `${prefix}pipeline_ingestion_errors_total`,
+      help: 'Ingestion errors by pipeline stage',
+      labelNames: ['stage'],
+      registers,
+    });
+    const getPipeline = () => this.pipeline;
+    new Gauge({
+      name: `${prefix}pipeline_queue_depth`,
+      help: 'Positions waiting for the next batch write',
+      registers,
+      collect() {
+        const pipeline = getPipeline();
+        if (pipeline) {
+          this.set(pipeline.getQueueSize());
+        }
+      },
+    });
+    new Gauge({
+      name: `${prefix}pipeline_spool_depth`,
+      help: 'Positions spooled to disk while the database is unavailable',
+      registers,
+      collect() {
+        const status = getPipeline()?.getSpoolStatus();
+        if (status) {
+          this.set(status.depth);
+        }
+      },
+    });
+
+    // Cache; the cache keeps the totals, so the counters are refreshed from them
+    const getCache = () => this.cache;
+    new Counter({
+      name: `${prefix}cache_requests_total`,
+      help: 'Cache reads by result (hit or miss)',
+      labelNames: ['result'],
+      registers,
+      collect() {
+        const cache = getCache();
+        if (cache) {
+          const stats = cache.getStatistics();
+          this.reset();
+          this.inc({ result: 'hit' }, stats.hits);
+          this.inc({ result: 'miss' }, stats.misses);
+        }
+      },
+    });
+    new Counter({
+      name: `${prefix}cache_errors_total`,
+      help: 'Failed Redis commands and Redis client errors',
+      registers,
+      collect() {
+        const cache = getCache();
+        if (cache) {
+          this.reset();
+          this.inc(cache.getStatistics().errors);
+        }
+      },
+    });
+
+    // Database pool
+    const getPool = () => this.pool;
+    new Gauge({
+      name: `${prefix}db_pool_connections`,
+      help: 'PostgreSQL pool connections by state',
+      labelNames: ['state'],
+      registers,
+      collect() {
+        const pool = getPool();
+        if (pool) {
+          this.set({ state: 'total' }, pool.totalCount);
+          this.set({ state: 'idle' }, pool.idleCount);
+          this.set({ state: 'active' }, pool.totalCount - pool.idleCount);
+          this.set({ state: 'waiting' }, pool.waitingCount);
+        }
+      },
+    });
+    new Gauge({
+      name: `${prefix}db_pool_utilisation_ratio`,
+      help: 'Share of the maximum pool size checked out by queries',
+      registers,
+      collect() {
+        const pool = getPool();
+        if (pool) {
+          const max = pool.options.max || 10;
+          this.set((pool.totalCount - pool.idleCount) / max);
+        }
+      },
+    });
+
+    // WebSocket server
+    const getWsServer = () => this.wsServer;
+    new Gauge({
+      name: `${prefix}websocket_clients`,
+      help: 'Connected WebSocket clients',
+      registers,
+      collect() {
+        const wsServer = getWsServer();
+        if (wsServer) {
+          this.set(wsServer.getConnectionCount());
+        }
+      },
+    });
+    new Counter({
+      name: `${prefix}websocket_messages_emitted_total`,
+      help: 'Vessel updates sent to WebSocket clients',
+      registers,
+      collect() {
+        const wsServer = getWsServer();
+        if (wsServer) {
+          this.reset();
+          this.inc(wsServer.getEmittedMessageCount());
+        }
+      },
+    });
+
+    // HTTP
+    this.httpRequestDuration = new Histogram({
+      name: `${prefix}http_request_duration_seconds`,
+      help: 'HTTP request latency by method, route and status code',
+      labelNames: ['method', 'route', 'status_code'],
+      buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+      registers,
+    });
+  }
+
+  /**
+   * Count messages, reconnects and errors of an AIS source
+   */
+  observeSource(source: AisSource): void {
+    this.sources.push(source);
+    const labels = { source: source.name };
+
+    source.on('raw', () => {
+      this.messagesReceived.inc(labels);
+    });
+    for (const type of REPORT_TYPES) {
+      source.on(type, () => {
+        this.messagesProcessed.inc({ ...labels, type });
+      });
+    }
+    source.on('invalidMessage', (message: { stage: string }) => {
+      this.invalidMessages.inc({ ...labels, stage: message.stage });
+    });
+    source.on('reconnecting', () => {
+      this.sourceReconnects.inc(labels);
+    });
+    source.on('error', () => {
+      this.sourceErrors.inc(labels);
+    });
+  }
+
+  /**
+   * Record batch writes, validation failures and ingestion errors of the pipeline
+   */
+  observePipeline(pipeline: DataPipeline): void {
+    this.pipeline = pipeline;
+
+    pipeline.on(
+      'batchProcessed',
+      (event: { count: number; inserted: number; durationMs?: number }) => {
+        this.batchSize.observe(event.count);
+        this.positionsInserted.inc(event.inserted);
+        if (event.durationMs !== undefined) {
+          this.batchFlushDuration.observe(event.durationMs / 1000);
+        }
+      }
+    );
+    pipeline.on('validationError', (event: { type: string; reason?: string }) => {
+      this.validationFailures.inc({
+        type: event.type,
+        reason: deadLetterReason(event.reason || 'unknown'),
+      });
+    });
+    pipeline.on('ingestionError', (event: { stage: string }) => {
+      this.ingestionErrors.inc({ stage: event.stage });
+    });
+  }
+
+  /**
+   * Report cache hit, miss and error counts
+   */
+  observeCache(cache: VesselCache): void {
+    this.cache = cache;
+  }
+
+  /**
+   * Report PostgreSQL pool utilisation
+   */
+  observePool(pool: Pool): void {
+    this.pool = pool;
+  }
+
+  /**
+   * Report WebSocket client count and emitted messages
+   */
+  observeWebSocketServer(wsServer: WebSocketServer): void {
+    this.wsServer = wsServer;
+  }
+
+  /**
+   * Record the latency of a completed HTTP request
+   * route is the matched route pattern, e.g. /api/vessels/:mmsi
+   */
+  observeRequest(method: string, route: string, statusCode: number, durationSeconds: number): void {
+    this.httpRequestDuration.observe(
+      { method, route, status_code: String(statusCode) },
+      durationSeconds
+    );
+  }
+
+  /**
+   * Render all metrics in Prometheus text format
+   */
+  async getMetrics(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  /**
+   * Content type of the text returned by getMetrics
+   */
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+}
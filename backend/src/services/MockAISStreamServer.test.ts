@@ -0,0 +1,222 @@
+import WebSocket from 'ws';
+import { MockAISStreamServer, MockSubscription, matchesSubscription } from './MockAISStreamServer';
+import { AISStreamManager } from './AISStreamManager';
+import { AISStreamMessage } from './AISStreamParser';
+import { PositionReport, ShipStaticData } from '../types';
+
+function positionMessage(mmsi: number, latitude: number, longitude: number): AISStreamMessage {
+  return {
+    MessageType: 'PositionReport',
+    MetaData: {
+      MMSI: mmsi,
+      latitude,
+      longitude,
+      time_utc: '2025-12-01 10:30:00.123456789 +0000 UTC',
+    },
+    Message: {
+      PositionReport: { UserID: mmsi, Latitude: latitude, Longitude: longitude, Sog: 10, Cog: 45 },
+    },
+  };
+}
+
+function classBMessage(mmsi: number, latitude: number, longitude: number): AISStreamMessage {
+  return {
+    MessageType: 'StandardClassBPositionReport',
+    MetaData: { MMSI: mmsi, latitude, longitude },
+    Message: {
+      StandardClassBPositionReport: { UserID: mmsi, Latitude: latitude, Longitude: longitude },
+    },
+  };
+}
+
+const NORTH_SEA: MockSubscription = {
+  APIKey: 'test-key',
+  BoundingBoxes: [
+    [
+      [50, 0],
+      [55, 5],
+    ],
+  ],
+};
+
+/**
+ * Open a raw client and collect everything the server sends until it closes
+ */
+function openClient(
+  port: number
+): Promise<{ socket: WebSocket; messages: string[]; closed: Promise<number> }> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(`ws://127.0.0.1:${port}`);
+    const messages: string[] = [];
+    const closed = new Promise<number>((resolveClose) => {
+      socket.on('close', (code) => resolveClose(code));
+    });
+    socket.on('message', (data) => messages.push(data.toString()));
+    socket.once('open', () => resolve({ socket, messages, closed }));
+    socket.once('error', reject);
+  });
+}
+
+function waitFor(emitter: NodeJS.EventEmitter, event: string): Promise<unknown> {
+  return new Promise((resolve) => emitter.once(event, resolve));
+}
+
+describe('MockAISStreamServer', () => {
+  let server: MockAISStreamServer;
+  let manager: AISStreamManager | null;
+
+  beforeEach(() => {
+    manager = null;
+  });
+
+  afterEach(async () => {
+    manager?.disconnect();
+    await server?.stop();
+  });
+
+  describe('matchesSubscription', () => {
+    it('should filter on bounding boxes given with corners in either order', () => {
+      const reversed: MockSubscription = {
+        ...NORTH_SEA,
+        BoundingBoxes: [
+          [
+            [55, 5],
+            [50, 0],
+          ],
+        ],
+      };
+
+      expect(matchesSubscription(positionMessage(1, 52, 3), NORTH_SEA)).toBe(true);
+      expect(matchesSubscription(positionMessage(1, 52, 3), reversed)).toBe(true);
+      expect(matchesSubscription(positionMessage(1, 40, 3), NORTH_SEA)).toBe(false);
+    });
+
+    it('should filter on message types and MMSIs', () => {
+      const subscription: MockSubscription = {
+        ...NORTH_SEA,
+        FilterMessageTypes: ['PositionReport'],
+        FiltersShipMMSI: ['244670316'],
+      };
+
+      expect(matchesSubscription(positionMessage(244670316, 52, 3), subscription)).toBe(true);
+      expect(matchesSubscription(positionMessage(366053209, 52, 3), subscription)).toBe(false);
+      expect(matchesSubscription(classBMessage(244670316, 52, 3), subscription)).toBe(false);
+    });
+  });
+
+  it('should stream fixture messages matching the subscription to AISStreamManager', async () => {
+    server = new MockAISStreamServer({
+      apiKeys: ['test-key'],
+      intervalMs: 20,
+      messages: [
+        positionMessage(244670316, 52, 3),
+        positionMessage(366053209, 40, -70),
+        classBMessage(211000001, 53, 4),
+      ],
+    });
+    const port = await server.start();
+
+    manager = new AISStreamManager('test-key', `ws://127.0.0.1:${port}`, 'mock');
+    manager.updateSubscription({
+      boundingBoxes: [{ minLat: 50, minLon: 0, maxLat: 55, maxLon: 5 }],
+      messageTypes: ['PositionReport'],
+    });
+    const positions: PositionReport[] = [];
+    manager.on('position', (position: PositionReport) => positions.push(position));
+
+    const subscribed = waitFor(server, 'subscribed');
+    await manager.connect();
+    await subscribed;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(positions.length).toBeGreaterThan(0);
+    expect(new Set(positions.map((position) => position.mmsi))).toEqual(new Set(['244670316']));
+    expect(positions[0].timestamp).toEqual(new Date('2025-12-01T10:30:00.123Z'));
+  });
+
+  it('should generate synthetic vessels inside the configured area', async () => {
+    server = new MockAISStreamServer({
+      intervalMs: 20,
+      syntheticVessels: 5,
+      syntheticArea: { minLat: 50, minLon: 0, maxLat: 55, maxLon: 5 },
+    });
+    const port = await server.start();
+
+    manager = new AISStreamManager('any-key', `ws://127.0.0.1:${port}`, 'mock');
+    const positions: PositionReport[] = [];
+    const staticData: ShipStaticData[] = [];
+    manager.on('position', (position: PositionReport) => positions.push(position));
+    manager.on('staticData', (data: ShipStaticData) => staticData.push(data));
+
+    await manager.connect();
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    expect(new Set(positions.map((position) => position.mmsi)).size).toBe(5);
+    expect(staticData.length).toBeGreaterThanOrEqual(5);
+    for (const position of positions) {
+      expect(position.latitude).toBeGreaterThanOrEqual(50);
+      expect(position.latitude).toBeLessThanOrEqual(55);
+      expect(isNaN(position.timestamp.getTime())).toBe(false);
+    }
+  });
+
+  it('should close connections that do not subscribe within the authentication window', async () => {
+    server = new MockAISStreamServer({ authTimeoutMs: 50, messages: [] });
+    const port = await server.start();
+
+    const client = await openClient(port);
+    const code = await client.closed;
+
+    expect(code).toBe(1008);
+    expect(JSON.parse(client.messages[0]).error).toMatch(/authentication window/);
+    expect(server.getStatus().connectionsRejected).toBe(1);
+  });
+
+  it('should reject unknown API keys', async () => {
+    server = new MockAISStreamServer({ apiKeys: ['test-key'], messages: [] });
+    const port = await server.start();
+
+    const client = await openClient(port);
+    client.socket.send(JSON.stringify({ ...NORTH_SEA, APIKey: 'wrong-key' }));
+    await client.closed;
+
+    expect(client.messages).toEqual([JSON.stringify({ error: 'Api Key Is Not Valid' })]);
+  });
+
+  it('should replace the subscription when a new one is sent on the same connection', async () => {
+    server = new MockAISStreamServer({
+      intervalMs: 20,
+      messages: [positionMessage(244670316, 52, 3), positionMessage(366053209, 40, -70)],
+    });
+    const port = await server.start();
+
+    const client = await openClient(port);
+    client.socket.send(JSON.stringify(NORTH_SEA));
+    await waitFor(server, 'subscribed');
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    const updated = waitFor(server, 'subscriptionUpdated');
+    client.socket.send(
+      JSON.stringify({
+        ...NORTH_SEA,
+        BoundingBoxes: [
+          [
+            [35, -75],
+            [45, -65],
+          ],
+        ],
+      })
+    );
+    await updated;
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    client.socket.close();
+
+    // Every message for the old area arrives before any for the new one
+    const mmsis = client.messages.map((message) => JSON.parse(message).MetaData.MMSI);
+    const firstUpdated = mmsis.indexOf(366053209);
+    expect(mmsis[0]).toBe(244670316);
+    expect(firstUpdated).toBeGreaterThan(0);
+    expect(mmsis.slice(firstUpdated).every((mmsi) => mmsi === 366053209)).toBe(true);
+    expect(server.getSubscriptions()).toHaveLength(1);
+  });
+});
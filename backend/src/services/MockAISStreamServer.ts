@@ -0,0 +1,614 @@
+import fs from 'fs';
+import http from 'http';
+import zlib from 'zlib';
+import { AddressInfo } from 'net';
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import { AISStreamMessage } from './AISStreamParser';
+import { BoundingBox } from '../types';
+import {
+  createComponentLogger,
+  ConfigurationError,
+  crossesAntimeridian,
+  isInBoundingBox,
+  normalizeLongitude,
+} from '../utils';
+
+/**
+ * Configuration options for MockAISStreamServer
+ */
+export interface MockAISStreamServerConfig {
+  /** Port to listen on; 0 picks a free port (default: 0) */
+  port?: number;
+  host?: string;
+  /** Accepted API keys; any non-empty key is accepted when unset */
+  apiKeys?: string[];
+  /** Close connections that have not subscribed within this time (default: 3000 ms) */
+  authTimeoutMs?: number;
+  /** Interval between message batches (default: 1000 ms) */
+  intervalMs?: number;
+  /** Fixture messages to stream, in order; replaces synthetic traffic */
+  messages?: AISStreamMessage[];
+  /** JSON lines fixture: AISStream messages or MessageRecorder archive lines (optionally gzipped) */
+  fixturePath?: string;
+  /** Fixture messages sent per interval (default: 10) */
+  fixtureBatchSize?: number;
+  /** Number of synthetic vessels when no fixture is given (default: 50) */
+  syntheticVessels?: number;
+  /** Area synthetic vessels sail in (default: whole world) */
+  syntheticArea?: BoundingBox;
+  /** Send ShipStaticData for synthetic vessels every this many intervals (default: 6) */
+  staticDataEvery?: number;
+  /** Seed for synthetic traffic, so runs are repeatable */
+  seed?: number;
+}
+
+/**
+ * A subscription as sent by the client, in AISStream wire format
+ */
+export interface MockSubscription {
+  APIKey: string;
+  BoundingBoxes: number[][][];
+  FiltersShipMMSI?: string[];
+  FilterMessageTypes?: string[];
+}
+
+/**
+ * A connected client and its current subscription
+ */
+interface MockClient {
+  socket: WebSocket;
+  subscription: MockSubscription | null;
+  authTimer: NodeJS.Timeout | null;
+  messagesSent: number;
+}
+
+interface SyntheticVessel {
+  mmsi: number;
+  name: string;
+  callSign: string;
+  imo: number;
+  shipType: number;
+  latitude: number;
+  longitude: number;
+  sog: number;
+  cog: number;
+}
+
+/**
+ * Mock server statistics
+ */
+export interface MockAISStreamServerStatus {
+  listening: boolean;
+  port: number | null;
+  clients: number;
+  subscribedClients: number;
+  messagesSent: number;
+  connectionsRejected: number;
+}
+
+// Maritime identification digits used for synthetic MMSIs
+const SYNTHETIC_MIDS = [211, 219, 235, 244, 257, 265, 311, 338, 366, 412, 477, 538, 563, 636];
+const SYNTHETIC_SHIP_TYPES = [30, 36, 52, 60, 70, 71, 79, 80, 89];
+const WORLD: BoundingBox = { minLat: -80, maxLat: 80, minLon: -180, maxLon: 180 };
+
+/**
+ * Degrees of longitude covered by an area, including areas crossing the antimeridian
+ */
+function longitudeSpan(area: BoundingBox): number {
+  return crossesAntimeridian(area) ? area.maxLon - area.minLon + 360 : area.maxLon - area.minLon;
+}
+
+/**
+ * Small deterministic PRNG (mulberry32) so synthetic traffic is repeatable
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Format a time the way AISStream does: "2025-12-01 10:30:00.123456789 +0000 UTC"
+ */
+function formatTimeUtc(time: Date): string {
+  const iso = time.toISOString();
+  return `${iso.substring(0, 10)} ${iso.substring(11, 23)}000000 +0000 UTC`;
+}
+
+/**
+ * Get the position a message would be filtered on, if it has one
+ */
+function messagePosition(message: AISStreamMessage): { lat: number; lon: number } | null {
+  const metadata = message.MetaData;
+  if (metadata?.latitude !== undefined && metadata?.longitude !== undefined) {
+    return { lat: metadata.latitude, lon: metadata.longitude };
+  }
+
+  const body = message.Message as Record<string, { Latitude?: number; Longitude?: number }>;
+  const report = body?.[message.MessageType];
+  if (report?.Latitude !== undefined && report?.Longitude !== undefined) {
+    return { lat: report.Latitude, lon: report.Longitude };
+  }
+  return null;
+}
+
+/**
+ * Check whether a message passes a subscription's filters
+ * Bounding box corners may be given in either order, as AISStream allows
+ */
+export function matchesSubscription(
+  message: AISStreamMessage,
+  subscription: MockSubscription
+): boolean {
+  if (
+    subscription.FilterMessageTypes &&
+    subscription.FilterMessageTypes.length > 0 &&
+    !subscription.FilterMessageTypes.includes(message.MessageType)
+  ) {
+    return false;
+  }
+
+  if (subscription.FiltersShipMMSI && subscription.FiltersShipMMSI.length > 0) {
+    const mmsi = message.MetaData?.MMSI?.toString();
+    if (!mmsi || !subscription.FiltersShipMMSI.includes(mmsi)) {
+      return false;
+    }
+  }
+
+  const position = messagePosition(message);
+  if (!position) {
+    return true;
+  }
+
+  return subscription.BoundingBoxes.some(([[lat1, lon1], [lat2, lon2]]) => {
+    return (
+      position.lat >= Math.min(lat1, lat2) &&
+      position.lat <= Math.max(lat1, lat2) &&
+      position.lon >= Math.min(lon1, lon2) &&
+      position.lon <= Math.max(lon1, lon2)
+    );
+  });
+}
+
+/**
+ * MockAISStreamServer is a local WebSocket server that speaks the AISStream protocol
+ *
+ * Clients must send a subscription ({APIKey, BoundingBoxes, FilterMessageTypes?,
+ * FiltersShipMMSI?}) within the authentication window or are disconnected. A later
+ * subscription message replaces the earlier one, as on AISStream. Streams fixture
+ * messages, or synthetic vessels sailing by dead reckoning when no fixture is given.
+ */
+export class MockAISStreamServer extends EventEmitter {
+  private port: number;
+  private host: string | undefined;
+  private apiKeys: string[] | null;
+  private authTimeoutMs: number;
+  private intervalMs: number;
+  private fixtureBatchSize: number;
+  private staticDataEvery: number;
+  private fixturePath: string | undefined;
+
+  private fixtures: AISStreamMessage[];
+  private fixtureCursor = 0;
+  private vessels: SyntheticVessel[] = [];
+  private syntheticArea: BoundingBox;
+  private ticks = 0;
+
+  private httpServer: http.Server | null = null;
+  private wss: WebSocket.Server | null = null;
+  private clients = new Set<MockClient>();
+  private streamTimer: NodeJS.Timeout | null = null;
+  private messagesSent = 0;
+  private connectionsRejected = 0;
+
+  private logger = createComponentLogger('MockAISStreamServer');
+
+  constructor(config: MockAISStreamServerConfig = {}) {
+    super();
+    this.port = config.port ?? 0;
+    this.host = config.host;
+    this.apiKeys = config.apiKeys && config.apiKeys.length > 0 ? config.apiKeys : null;
+    this.authTimeoutMs = config.authTimeoutMs ?? 3000;
+    this.intervalMs = config.intervalMs ?? 1000;
+    this.fixtureBatchSize = config.fixtureBatchSize ?? 10;
+    this.staticDataEvery = config.staticDataEvery ?? 6;
+    this.fixturePath = config.fixturePath;
+    this.fixtures = config.messages ? [...config.messages] : [];
+    this.syntheticArea = config.syntheticArea || WORLD;
+
+    if (!config.messages && !config.fixturePath) {
+      this.vessels = this.createVessels(
+        config.syntheticVessels ?? 50,
+        this.syntheticArea,
+        createRandom(config.seed ?? 1)
+      );
+    }
+  }
+
+  /**
+   * Start listening; resolves with the bound port
+   */
+  async start(): Promise<number> {
+    if (this.httpServer) {
+      return this.getPort() as number;
+    }
+
+    if (this.fixturePath) {
+      this.fixtures = this.loadFixture(this.fixturePath);
+    }
+
+    const httpServer = http.createServer((_req, res) => {
+      res.writeHead(426, { 'Content-Type': 'text/plain' });
+      res.end('Upgrade Required');
+    });
+    this.httpServer = httpServer;
+    this.wss = new WebSocket.Server({ server: httpServer });
+    this.wss.on('connection', (socket) => this.handleConnection(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.port, this.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.streamTimer = setInterval(() => this.tick(), this.intervalMs);
+
+    const port = this.getPort() as number;
+    this.logger.info('Mock AISStream server listening', {
+      port,
+      mode: this.vessels.length > 0 ? 'synthetic' : 'fixture',
+      messages: this.vessels.length > 0 ? this.vessels.length : this.fixtures.length,
+    });
+    this.emit('listening', port);
+    return port;
+  }
+
+  /**
+   * Disconnect every client and stop listening
+   */
+  async stop(): Promise<void> {
+    if (this.streamTimer) {
+      clearInterval(this.streamTimer);
+      this.streamTimer = null;
+    }
+
+    for (const client of this.clients) {
+      this.closeClient(client, 1001, 'Server shutting down');
+    }
+    this.clients.clear();
+
+    const wss = this.wss;
+    const httpServer = this.httpServer;
+    this.wss = null;
+    this.httpServer = null;
+
+    if (wss) {
+      await new Promise<void>((resolve) => wss.close(() => resolve()));
+    }
+    if (httpServer) {
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Disconnect every client without stopping, e.g. to exercise client reconnects
+   */
+  dropClients(code = 1006, reason = 'Connection dropped'): void {
+    for (const client of this.clients) {
+      if (code === 1006) {
+        client.socket.terminate();
+      } else {
+        this.closeClient(client, code, reason);
+      }
+    }
+  }
+
+  /**
+   * Send a message to every subscribed client whose filters it matches
+   */
+  broadcast(message: AISStreamMessage): void {
+    const data = JSON.stringify(message);
+    for (const client of this.clients) {
+      if (client.subscription && matchesSubscription(message, client.subscription)) {
+        this.send(client, data);
+      }
+    }
+  }
+
+  /**
+   * Get the current subscriptions, in connection order
+   */
+  getSubscriptions(): MockSubscription[] {
+    return Array.from(this.clients)
+      .map((client) => client.subscription)
+      .filter((subscription): subscription is MockSubscription => subscription !== null);
+  }
+
+  /**
+   * Get the bound port, or null when not listening
+   */
+  getPort(): number | null {
+    const address = this.httpServer?.address();
+    return address && typeof address === 'object' ? (address as AddressInfo).port : null;
+  }
+
+  /**
+   * Get server statistics
+   */
+  getStatus(): MockAISStreamServerStatus {
+    return {
+      listening: this.httpServer !== null,
+      port: this.getPort(),
+      clients: this.clients.size,
+      subscribedClients: this.getSubscriptions().length,
+      messagesSent: this.messagesSent,
+      connectionsRejected: this.connectionsRejected,
+    };
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const client: MockClient = { socket, subscription: null, authTimer: null, messagesSent: 0 };
+    this.clients.add(client);
+
+    client.authTimer = setTimeout(() => {
+      client.authTimer = null;
+      if (!client.subscription) {
+        this.reject(client, 'Subscription not received within the authentication window');
+      }
+    }, this.authTimeoutMs);
+
+    socket.on('message', (data: WebSocket.Data) =>
+      this.handleSubscription(client, data.toString())
+    );
+    socket.on('close', () => {
+      if (client.authTimer) {
+        clearTimeout(client.authTimer);
+      }
+      this.clients.delete(client);
+      this.emit('clientDisconnected', { messagesSent: client.messagesSent });
+    });
+    socket.on('error', (error: Error) => {
+      this.logger.warn('Mock client socket error', { error: error.message });
+    });
+
+    this.emit('clientConnected');
+  }
+
+  /**
+   * Validate a subscription message and apply it to the client
+   */
+  private handleSubscription(client: MockClient, data: string): void {
+    let subscription: MockSubscription;
+    try {
+      subscription = JSON.parse(data);
+    } catch {
+      this.reject(client, 'Malformed subscription message');
+      return;
+    }
+
+    if (!subscription.APIKey || (this.apiKeys && !this.apiKeys.includes(subscription.APIKey))) {
+      this.reject(client, 'Api Key Is Not Valid');
+      return;
+    }
+
+    const boxes = subscription.BoundingBoxes;
+    const validBoxes =
+      Array.isArray(boxes) &&
+      boxes.length > 0 &&
+      boxes.every(
+        (box) =>
+          Array.isArray(box) &&
+          box.length === 2 &&
+          box.every(
+            (corner) =>
+              Array.isArray(corner) &&
+              corner.length === 2 &&
+              corner.every((value) => typeof value === 'number' && isFinite(value))
+          )
+      );
+    if (!validBoxes) {
+      this.reject(client, 'Invalid BoundingBoxes');
+      return;
+    }
+
+    if (client.authTimer) {
+      clearTimeout(client.authTimer);
+      client.authTimer = null;
+    }
+
+    const isUpdate = client.subscription !== null;
+    client.subscription = subscription;
+    this.emit(isUpdate ? 'subscriptionUpdated' : 'subscribed', subscription);
+  }
+
+  /**
+   * Send an AISStream-style error and close the connection
+   */
+  private reject(client: MockClient, message: string): void {
+    this.connectionsRejected++;
+    this.logger.info('Rejecting mock client', { reason: message });
+    this.send(client, JSON.stringify({ error: message }));
+    this.closeClient(client, 1008, message);
+    this.emit('clientRejected', message);
+  }
+
+  private send(client: MockClient, data: string): void {
+    if (client.socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    client.socket.send(data);
+    client.messagesSent++;
+    this.messagesSent++;
+  }
+
+  private closeClient(client: MockClient, code: number, reason: string): void {
+    if (client.authTimer) {
+      clearTimeout(client.authTimer);
+      client.authTimer = null;
+    }
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.close(code, reason);
+    }
+  }
+
+  /**
+   * Send the next batch of fixture messages, or advance the synthetic fleet
+   */
+  private tick(): void {
+    this.ticks++;
+    if (this.getSubscriptions().length === 0) {
+      return;
+    }
+
+    if (this.vessels.length > 0) {
+      const now = new Date();
+      // Static data goes out on the first tick, then every staticDataEvery ticks
+      const sendStatic = (this.ticks - 1) % this.staticDataEvery === 0;
+      for (const vessel of this.vessels) {
+        this.moveVessel(vessel, this.intervalMs / 1000);
+        this.broadcast(this.positionMessage(vessel, now));
+        if (sendStatic) {
+          this.broadcast(this.staticDataMessage(vessel, now));
+        }
+      }
+      return;
+    }
+
+    for (let i = 0; i < this.fixtureBatchSize && this.fixtures.length > 0; i++) {
+      this.broadcast(this.fixtures[this.fixtureCursor]);
+      this.fixtureCursor = (this.fixtureCursor + 1) % this.fixtures.length;
+    }
+  }
+
+  private createVessels(count: number, area: BoundingBox, random: () => number): SyntheticVessel[] {
+    const vessels: SyntheticVessel[] = [];
+    for (let i = 0; i < count; i++) {
+      const mid = SYNTHETIC_MIDS[i % SYNTHETIC_MIDS.length];
+      vessels.push({
+        mmsi: mid * 1000000 + 100000 + i,
+        name: `MOCK VESSEL ${i + 1}`,
+        callSign: `MOCK${i + 1}`,
+        imo: 9000000 + i,
+        shipType: SYNTHETIC_SHIP_TYPES[Math.floor(random() * SYNTHETIC_SHIP_TYPES.length)],
+        latitude: area.minLat + random() * (area.maxLat - area.minLat),
+        longitude: normalizeLongitude(area.minLon + random() * longitudeSpan(area)),
+        sog: Math.round(random() * 200) / 10,
+        cog: Math.round(random() * 3600) / 10,
+      });
+    }
+    return vessels;
+  }
+
+  /**
+   * Dead-reckon a vessel forward, turning back at the edge of the area
+   */
+  private moveVessel(vessel: SyntheticVessel, seconds: number): void {
+    const distanceNm = (vessel.sog * seconds) / 3600;
+    const course = (vessel.cog * Math.PI) / 180;
+    const latitude = vessel.latitude + (distanceNm * Math.cos(course)) / 60;
+    const longitude = normalizeLongitude(
+      vessel.longitude +
+        (distanceNm * Math.sin(course)) / (60 * Math.cos((vessel.latitude * Math.PI) / 180))
+    );
+
+    if (!isInBoundingBox(latitude, longitude, this.syntheticArea)) {
+      vessel.cog = (vessel.cog + 180) % 360;
+      return;
+    }
+
+    vessel.latitude = latitude;
+    vessel.longitude = longitude;
+  }
+
+  private metaData(vessel: SyntheticVessel, time: Date): AISStreamMessage['MetaData'] {
+    return {
+      MMSI: vessel.mmsi,
+      ShipName: vessel.name,
+      latitude: vessel.latitude,
+      longitude: vessel.longitude,
+      time_utc: formatTimeUtc(time),
+    };
+  }
+
+  private positionMessage(vessel: SyntheticVessel, time: Date): AISStreamMessage {
+    return {
+      MessageType: 'PositionReport',
+      MetaData: this.metaData(vessel, time),
+      Message: {
+        PositionReport: {
+          UserID: vessel.mmsi,
+          Latitude: vessel.latitude,
+          Longitude: vessel.longitude,
+          Sog: vessel.sog,
+          Cog: vessel.cog,
+          TrueHeading: Math.round(vessel.cog) % 360,
+          NavigationalStatus: vessel.sog > 0.5 ? 0 : 1,
+          RateOfTurn: 0,
+        },
+      },
+    };
+  }
+
+  private staticDataMessage(vessel: SyntheticVessel, time: Date): AISStreamMessage {
+    return {
+      MessageType: 'ShipStaticData',
+      MetaData: this.metaData(vessel, time),
+      Message: {
+        ShipStaticData: {
+          UserID: vessel.mmsi,
+          Name: vessel.name,
+          Type: vessel.shipType,
+          ImoNumber: vessel.imo,
+          CallSign: vessel.callSign,
+          Dimension: { A: 120, B: 30, C: 12, D: 12 },
+          Destination: 'MOCK PORT',
+          MaximumStaticDraught: 8.5,
+        },
+      },
+    };
+  }
+
+  /**
+   * Read a JSON lines fixture of AISStream messages or recorder archive lines
+   */
+  private loadFixture(fixturePath: string): AISStreamMessage[] {
+    let content: Buffer;
+    try {
+      content = fs.readFileSync(fixturePath);
+      if (fixturePath.endsWith('.gz')) {
+        content = zlib.gunzipSync(content);
+      }
+    } catch (error) {
+      throw new ConfigurationError(`Failed to read mock AISStream fixture ${fixturePath}`, {
+        path: fixturePath,
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const messages: AISStreamMessage[] = [];
+    for (const line of content.toString('utf8').split(/\r?\n/)) {
+      if (line.trim().length === 0) {
+        continue;
+      }
+      try {
+        const parsed = JSON.parse(line);
+        if (parsed.MessageType) {
+          messages.push(parsed);
+        } else if (parsed.format === 'aisstream-json' && typeof parsed.data === 'string') {
+          messages.push(JSON.parse(parsed.data));
+        }
+      } catch {
+        this.logger.warn('Skipping unreadable fixture line', { path: fixturePath });
+      }
+    }
+    return messages;
+  }
+}
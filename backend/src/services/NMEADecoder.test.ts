@@ -0,0 +1,453 @@
+import { NMEADecoder, AISBitReader, computeNMEAChecksum } from './NMEADecoder';
+import { AidToNavigationReport, BaseStationReport, PositionReport, ShipStaticData } from '../types';
+
+const SIXBIT_ASCII = '@ABCDEFGHIJKLMNOPQRSTUVWXYZ[\\]^_ !"#$%&\'()*+,-./0123456789:;<=>?';
+
+/**
+ * Minimal AIS encoder used to build test sentences field by field
+ * Each field is [value, bits]; strings are [text, bits] in 6-bit ASCII
+ */
+function encodeSentence(fields: Array<[number | string, number]>): string {
+  let bits = '';
+  for (const [value, length] of fields) {
+    if (typeof value === 'string') {
+      const padded = value.padEnd(length / 6, '@');
+      for (const char of padded) {
+        bits += SIXBIT_ASCII.indexOf(char).toString(2).padStart(6, '0');
+      }
+    } else {
+      const unsigned = value < 0 ? Math.pow(2, length) + value : value;
+      bits += unsigned.toString(2).padStart(length, '0');
+    }
+  }
+
+  const fillBits = (6 - (bits.length % 6)) % 6;
+  bits += '0'.repeat(fillBits);
+
+  let payload = '';
+  for (let i = 0; i < bits.length; i += 6) {
+    let value = parseInt(bits.substring(i, i + 6), 2);
+    value += value > 39 ? 56 : 48;
+    payload += String.fromCharCode(value);
+  }
+
+  const body = `AIVDM,1,1,,A,${payload},${fillBits}`;
+  return `!${body}*${computeNMEAChecksum(body)}`;
+}
+
+describe('NMEADecoder', () => {
+  let decoder: NMEADecoder;
+  let positions: PositionReport[];
+  let staticData: ShipStaticData[];
+  let errors: Error[];
+
+  beforeEach(() => {
+    decoder = new NMEADecoder();
+    positions = [];
+    staticData = [];
+    errors = [];
+    decoder.on('position', (position) => positions.push(position));
+    decoder.on('staticData', (data) => staticData.push(data));
+    decoder.on('error', (error) => errors.push(error));
+  });
+
+  describe('AISBitReader', () => {
+    it('should de-armor payload characters into 6-bit values', () => {
+      const reader = new AISBitReader('0w', 0);
+      expect(reader.length).toBe(12);
+      expect(reader.getUnsigned(0, 6)).toBe(0);
+      expect(reader.getUnsigned(6, 6)).toBe(63);
+    });
+
+    it("should read two's complement signed fields", () => {
+      const reader = new AISBitReader('w', 0);
+      expect(reader.getSigned(0, 6)).toBe(-1);
+    });
+
+    it('should honour fill bits', () => {
+      const reader = new AISBitReader('ww', 2);
+      expect(reader.length).toBe(10);
+      expect(() => reader.getUnsigned(6, 6)).toThrow(RangeError);
+    });
+  });
+
+  describe('computeNMEAChecksum', () => {
+    it('should XOR all characters of the sentence body', () => {
+      expect(computeNMEAChecksum('AIVDM,1,1,,A,13aEOK?P00PD2wVMdLDRhgvL289?,0')).toBe('26');
+    });
+  });
+
+  describe('position reports', () => {
+    it('should decode a type 1 position report', () => {
+      decoder.decode('!AIVDM,1,1,,A,13aEOK?P00PD2wVMdLDRhgvL289?,0*26');
+
+      expect(errors).toHaveLength(0);
+      expect(positions).toHaveLength(1);
+      expect(positions[0]).toMatchObject({
+        mmsi: '244670316',
+        navigational_status: 15,
+        sog: 0,
+        cog: 70.6,
+        true_heading: 511,
+      });
+      expect(positions[0].latitude).toBeCloseTo(51.89475, 5);
+      expect(positions[0].longitude).toBeCloseTo(4.379285, 5);
+    });
+
+    it('should decode negative coordinates', () => {
+      decoder.decode('!AIVDM,1,1,,B,15M67FC000G?ufbE`FepT@3n00Sa,0*5C');
+
+      expect(positions).toHaveLength(1);
+      expect(positions[0].mmsi).toBe('366053209');
+      expect(positions[0].latitude).toBeCloseTo(37.802118, 5);
+      expect(positions[0].longitude).toBeCloseTo(-122.341618, 5);
+    });
+
+    it('should use the tag block timestamp when present', () => {
+      decoder.decode('\\s:rtl,c:1700000000*00\\!AIVDM,1,1,,A,13aEOK?P00PD2wVMdLDRhgvL289?,0*26');
+
+      expect(positions).toHaveLength(1);
+      expect(positions[0].timestamp.toISOString()).toBe('2023-11-14T22:13:20.000Z');
+    });
+
+    it('should use the supplied receive time when there is no tag block', () => {
+      const receivedAt = new Date('2025-12-01T10:30:00Z');
+      decoder.decodeSentence('!AIVDM,1,1,,A,13aEOK?P00PD2wVMdLDRhgvL289?,0*26', receivedAt);
+
+      expect(positions[0].timestamp).toEqual(receivedAt);
+    });
+
+    it('should accept AIVDO own-vessel sentences', () => {
+      const body = 'AIVDO,1,1,,A,13aEOK?P00PD2wVMdLDRhgvL289?,0';
+      decoder.decode(`!${body}*${computeNMEAChecksum(body)}`);
+
+      expect(positions).toHaveLength(1);
+    });
+  });
+
+  describe('multi-sentence messages', () => {
+    const part1 =
+      '!AIVDM,2,1,1,A,55?MbV02;H;s<HtKR20EHE:0@T4@Dn2222222216L961O5Gf0NSQEp6ClRp8,0*1C';
+    const part2 = '!AIVDM,2,2,1,A,88888888880,2*25';
+
+    it('should reassemble and decode type 5 static data', () => {
+      decoder.decode(`${part1}\r\n${part2}\r\n`);
+
+      expect(errors).toHaveLength(0);
+      expect(staticData).toHaveLength(1);
+      expect(staticData[0]).toMatchObject({
+        mmsi: '351759000',
+        imo: 9134270,
+        callSign: '3FOF8',
+        name: 'EVER DIADEM',
+        type: 70,
+        dimensions: { a: 225, b: 70, c: 1, d: 31 },
+        draught: 12.2,
+        destination: 'NEW YORK',
+      });
+      expect(staticData[0].eta?.getMonth()).toBe(4);
+      expect(staticData[0].eta?.getDate()).toBe(15);
+    });
+
+    it('should reassemble fragments with historical receive times', () => {
+      const receivedAt = new Date('2020-01-01T00:00:00Z');
+      decoder.decodeSentence(part1, receivedAt);
+      decoder.decodeSentence(part2, receivedAt);
+
+      expect(staticData).toHaveLength(1);
+      expect(decoder.getStatistics().droppedFragments).toBe(0);
+    });
+
+    it('should hold incomplete messages as pending fragments', () => {
+      decoder.decode(part1);
+
+      expect(staticData).toHaveLength(0);
+      expect(decoder.getStatistics().pendingFragments).toBe(1);
+    });
+
+    it('should drop fragments that arrive out of order', () => {
+      decoder.decode(part2);
+      decoder.decode(part1);
+
+      expect(staticData).toHaveLength(0);
+      expect(decoder.getStatistics().droppedFragments).toBe(1);
+    });
+
+    it('should discard fragments older than the timeout', () => {
+      jest.useFakeTimers();
+      try {
+        decoder = new NMEADecoder({ fragmentTimeoutMs: 1000 });
+        decoder.on('staticData', (data) => staticData.push(data));
+
+        decoder.decode(part1);
+        jest.advanceTimersByTime(2000);
+        decoder.decode(part2);
+
+        expect(staticData).toHaveLength(0);
+        expect(decoder.getStatistics().pendingFragments).toBe(0);
+        expect(decoder.getStatistics().droppedFragments).toBeGreaterThan(0);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('invalid input', () => {
+    it('should reject sentences with a bad checksum', () => {
+      decoder.decode('!AIVDM,1,1,,A,13aEOK?P00PD2wVMdLDRhgvL289?,0*27');
+
+      expect(positions).toHaveLength(0);
+      expect(errors).toHaveLength(1);
+      expect(decoder.getStatistics().checksumErrors).toBe(1);
+    });
+
+    it('should skip checksum validation when disabled', () => {
+      decoder = new NMEADecoder({ validateChecksum: false });
+      decoder.on('position', (position) => positions.push(position));
+      decoder.decode('!AIVDM,1,1,,A,13aEOK?P00PD2wVMdLDRhgvL289?,0*00');
+
+      expect(positions).toHaveLength(1);
+    });
+
+    it('should reject non-AIS sentences', () => {
+      decoder.decode('$GPGGA,123519,4807.038,N,01131.000,E,1,08,0.9,545.4,M,46.9,M,,*47');
+
+      expect(errors).toHaveLength(1);
+      expect(decoder.getStatistics().invalidSentences).toBe(1);
+    });
+
+    it('should reject truncated payloads', () => {
+      const body = 'AIVDM,1,1,,A,13aEOK?P00,0';
+      decoder.decode(`!${body}*${computeNMEAChecksum(body)}`);
+
+      expect(positions).toHaveLength(0);
+      expect(errors).toHaveLength(1);
+    });
+
+    it('should count unsupported message types without emitting errors', () => {
+      // Type 8 binary broadcast
+      const body = 'AIVDM,1,1,,A,85Mwp`1Kf3aCnsNvBWLi=wQuNhA5t43N`5nCuI=p<IBfVqnROgWt,0';
+      decoder.decode(`!${body}*${computeNMEAChecksum(body)}`);
+
+      expect(errors).toHaveLength(0);
+      expect(decoder.getStatistics().unsupportedMessages).toBe(1);
+    });
+  });
+
+  describe('Class B, base station, AtoN and SAR messages', () => {
+    it('should decode a type 18 Class B position report', () => {
+      decoder.decode(
+        encodeSentence([
+          [18, 6],
+          [0, 2],
+          [338123456, 30],
+          [0, 8],
+          [52, 10],
+          [1, 1],
+          [Math.round(-70.25 * 600000), 28],
+          [Math.round(41.5 * 600000), 27],
+          [1234, 12],
+          [123, 9],
+          [0, 35],
+        ])
+      );
+
+      expect(errors).toHaveLength(0);
+      expect(positions).toHaveLength(1);
+      expect(positions[0]).toMatchObject({
+        mmsi: '338123456',
+        sog: 5.2,
+        cog: 123.4,
+        true_heading: 123,
+        aisClass: 'B',
+      });
+      expect(positions[0].latitude).toBeCloseTo(41.5, 5);
+      expect(positions[0].longitude).toBeCloseTo(-70.25, 5);
+    });
+
+    it('should decode a type 19 report into a position and static data', () => {
+      decoder.decode(
+        encodeSentence([
+          [19, 6],
+          [0, 2],
+          [338123456, 30],
+          [0, 8],
+          [52, 10],
+          [1, 1],
+          [Math.round(-70.25 * 600000), 28],
+          [Math.round(41.5 * 600000), 27],
+          [1234, 12],
+          [123, 9],
+          [0, 6],
+          [0, 4],
+          ['SEA BREEZE', 120],
+          [37, 8],
+          [10, 9],
+          [4, 9],
+          [2, 6],
+          [2, 6],
+          [1, 4],
+          [0, 11],
+        ])
+      );
+
+      expect(errors).toHaveLength(0);
+      expect(positions).toHaveLength(1);
+      expect(staticData).toEqual([
+        {
+          mmsi: '338123456',
+          name: 'SEA BREEZE',
+          type: 37,
+          dimensions: { a: 10, b: 4, c: 2, d: 2 },
+          aisClass: 'B',
+        },
+      ]);
+    });
+
+    it('should decode both parts of a type 24 static data report', () => {
+      decoder.decode(
+        encodeSentence([
+          [24, 6],
+          [0, 2],
+          [338123456, 30],
+          [0, 2],
+          ['SEA BREEZE', 120],
+        ])
+      );
+      decoder.decode(
+        encodeSentence([
+          [24, 6],
+          [0, 2],
+          [338123456, 30],
+          [1, 2],
+          [36, 8],
+          [0, 42],
+          ['WDC1234', 42],
+          [8, 9],
+          [3, 9],
+          [1, 6],
+          [2, 6],
+          [0, 6],
+        ])
+      );
+
+      expect(errors).toHaveLength(0);
+      expect(staticData).toEqual([
+        { mmsi: '338123456', name: 'SEA BREEZE', aisClass: 'B' },
+        {
+          mmsi: '338123456',
+          type: 36,
+          callSign: 'WDC1234',
+          dimensions: { a: 8, b: 3, c: 1, d: 2 },
+          aisClass: 'B',
+        },
+      ]);
+    });
+
+    it('should mark Class A reports with their transponder class', () => {
+      decoder.decode('!AIVDM,1,1,,A,13aEOK?P00PD2wVMdLDRhgvL289?,0*26');
+
+      expect(positions[0].aisClass).toBe('A');
+    });
+
+    it('should decode a type 4 base station report', () => {
+      const baseStations: BaseStationReport[] = [];
+      decoder.on('baseStation', (report) => baseStations.push(report));
+
+      decoder.decode(
+        encodeSentence([
+          [4, 6],
+          [0, 2],
+          [3669987, 30],
+          [2024, 14],
+          [3, 4],
+          [15, 5],
+          [12, 5],
+          [30, 6],
+          [45, 6],
+          [1, 1],
+          [Math.round(-122.4 * 600000), 28],
+          [Math.round(37.8 * 600000), 27],
+          [7, 4],
+          [0, 30],
+        ])
+      );
+
+      expect(errors).toHaveLength(0);
+      expect(baseStations).toHaveLength(1);
+      expect(baseStations[0]).toMatchObject({ mmsi: '003669987', fixType: 7 });
+      expect(baseStations[0].latitude).toBeCloseTo(37.8, 5);
+      expect(baseStations[0].longitude).toBeCloseTo(-122.4, 5);
+      expect(baseStations[0].stationTime?.toISOString()).toBe('2024-03-15T12:30:45.000Z');
+    });
+
+    it('should decode a type 21 aid-to-navigation report with a name extension', () => {
+      const aids: AidToNavigationReport[] = [];
+      decoder.on('aidToNavigation', (report) => aids.push(report));
+
+      decoder.decode(
+        encodeSentence([
+          [21, 6],
+          [0, 2],
+          [993672085, 30],
+          [1, 5],
+          ['GOLDEN GATE BRIDGE M', 120],
+          [0, 1],
+          [Math.round(-122.47 * 600000), 28],
+          [Math.round(37.81 * 600000), 27],
+          [0, 9],
+          [0, 9],
+          [0, 6],
+          [0, 6],
+          [7, 4],
+          [60, 6],
+          [1, 1],
+          [0, 8],
+          [0, 1],
+          [1, 1],
+          [0, 1],
+          [0, 1],
+          ['ID SPAN', 42],
+        ])
+      );
+
+      expect(errors).toHaveLength(0);
+      expect(aids).toHaveLength(1);
+      expect(aids[0]).toMatchObject({
+        mmsi: '993672085',
+        aidType: 1,
+        name: 'GOLDEN GATE BRIDGE MID SPAN',
+        offPosition: true,
+        virtual: true,
+      });
+      expect(aids[0].latitude).toBeCloseTo(37.81, 5);
+    });
+
+    it('should decode a type 9 SAR aircraft report with altitude', () => {
+      decoder.decode(
+        encodeSentence([
+          [9, 6],
+          [0, 2],
+          [111232511, 30],
+          [305, 12],
+          [140, 10],
+          [1, 1],
+          [Math.round(-122.5 * 600000), 28],
+          [Math.round(37.7 * 600000), 27],
+          [2700, 12],
+          [0, 52],
+        ])
+      );
+
+      expect(errors).toHaveLength(0);
+      expect(positions).toHaveLength(1);
+      expect(positions[0]).toMatchObject({
+        mmsi: '111232511',
+        altitude: 305,
+        sog: 140,
+        cog: 270,
+      });
+      expect(positions[0].aisClass).toBeUndefined();
+    });
+  });
+});
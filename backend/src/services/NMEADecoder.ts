@@ -0,0 +1,693 @@
+import { EventEmitter } from 'events';
+import {
+  AidToNavigationReport,
+  BaseStationReport,
+  InvalidAisMessage,
+  PositionReport,
+  ShipStaticData,
+  VesselDimensions,
+} from '../types';
+import { createComponentLogger, InvalidMessageError } from '../utils';
+
+/**
+ * Configuration options for NMEADecoder
+ */
+export interface NMEADecoderConfig {
+  fragmentTimeoutMs?: number; // Discard incomplete multi-sentence messages after this time
+  validateChecksum?: boolean; // Reject sentences with a bad or missing checksum
+}
+
+/**
+ * Decoder statistics for monitoring
+ */
+export interface DecoderStatistics {
+  sentencesReceived: number;
+  messagesDecoded: number;
+  checksumErrors: number;
+  invalidSentences: number;
+  unsupportedMessages: number;
+  droppedFragments: number;
+  pendingFragments: number;
+}
+
+/**
+ * A single parsed !AIVDM/!AIVDO sentence
+ */
+interface NMEASentence {
+  fragmentCount: number;
+  fragmentNumber: number;
+  sequentialId: string;
+  channel: string;
+  payload: string;
+  fillBits: number;
+  receivedAt: Date;
+}
+
+/**
+ * Partially reassembled multi-sentence message
+ */
+interface PendingMessage {
+  fragmentCount: number;
+  payloads: string[];
+  fillBits: number;
+  firstReceivedAt: Date;
+  arrivedAt: number; // Wall-clock arrival, for expiry (report times may be historical)
+}
+
+/**
+ * 6-bit ASCII character table used for AIS text fields (ITU-R M.1371)
+ */
+const SIXBIT_ASCII = '@ABCDEFGHIJKLMNOPQRSTUVWXYZ[\\]^_ !"#$%&\'()*+,-./0123456789:;<=>?';
+
+const SENTENCE_PATTERN = /^!([A-Z]{2})VD([MO])$/;
+
+/**
+ * Bit-level reader over a de-armored AIS payload
+ */
+export class AISBitReader {
+  private bits: Uint8Array;
+
+  constructor(payload: string, fillBits = 0) {
+    const totalBits = payload.length * 6 - fillBits;
+    this.bits = new Uint8Array(Math.max(totalBits, 0));
+
+    for (let i = 0; i < payload.length; i++) {
+      let value = payload.charCodeAt(i) - 48;
+      if (value > 40) {
+        value -= 8;
+      }
+      if (value < 0 || value > 63) {
+        throw new Error(`Invalid payload character: ${payload[i]}`);
+      }
+
+      for (let bit = 0; bit < 6; bit++) {
+        const index = i * 6 + bit;
+        if (index < totalBits) {
+          this.bits[index] = (value >> (5 - bit)) & 1;
+        }
+      }
+    }
+  }
+
+  /**
+   * Number of usable bits in the payload
+   */
+  get length(): number {
+    return this.bits.length;
+  }
+
+  /**
+   * Read an unsigned integer field
+   */
+  getUnsigned(start: number, length: number): number {
+    if (start + length > this.bits.length) {
+      throw new RangeError(`Field ${start}+${length} exceeds payload length ${this.bits.length}`);
+    }
+
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = value * 2 + this.bits[start + i];
+    }
+    return value;
+  }
+
+  /**
+   * Read a two's complement signed integer field
+   */
+  getSigned(start: number, length: number): number {
+    const value = this.getUnsigned(start, length);
+    const signBit = Math.pow(2, length - 1);
+    return value >= signBit ? value - signBit * 2 : value;
+  }
+
+  /**
+   * Read a 6-bit ASCII text field, stripping '@' padding and trailing spaces
+   */
+  getString(start: number, length: number): string {
+    let text = '';
+    const available = Math.min(length, this.bits.length - start);
+    for (let i = 0; i + 6 <= available; i += 6) {
+      text += SIXBIT_ASCII[this.getUnsigned(start + i, 6)];
+    }
+    const atIndex = text.indexOf('@');
+    if (atIndex !== -1) {
+      text = text.substring(0, atIndex);
+    }
+    return text.trimEnd();
+  }
+}
+
+/**
+ * Compute the NMEA checksum (XOR of all characters between '!' and '*')
+ */
+export function computeNMEAChecksum(body: string): string {
+  let checksum = 0;
+  for (let i = 0; i < body.length; i++) {
+    checksum ^= body.charCodeAt(i);
+  }
+  return checksum.toString(16).toUpperCase().padStart(2, '0');
+}
+
+/**
+ * Extract the "c:" unix timestamp from a tag block (without the enclosing backslashes)
+ */
+export function parseTagBlockTimestamp(tagBlock: string): Date | undefined {
+  const content = tagBlock.split('*')[0];
+  for (const field of content.split(',')) {
+    if (field.startsWith('c:')) {
+      const seconds = parseInt(field.substring(2), 10);
+      if (!isNaN(seconds)) {
+        // Some receivers emit milliseconds rather than seconds
+        return new Date(seconds > 1e11 ? seconds : seconds * 1000);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * NMEADecoder decodes raw NMEA 0183 !AIVDM/!AIVDO sentences
+ * Handles checksum validation, multi-sentence reassembly and 6-bit de-armoring,
+ * and emits the same position/staticData/baseStation/aidToNavigation events
+ * as AISStreamManager, plus 'invalidMessage' (InvalidAisMessage) for rejected sentences
+ */
+export class NMEADecoder extends EventEmitter {
+  private fragmentTimeoutMs: number;
+  private validateChecksum: boolean;
+  private pending: Map<string, PendingMessage> = new Map();
+
+  private stats: DecoderStatistics = {
+    sentencesReceived: 0,
+    messagesDecoded: 0,
+    checksumErrors: 0,
+    invalidSentences: 0,
+    unsupportedMessages: 0,
+    droppedFragments: 0,
+    pendingFragments: 0,
+  };
+
+  private logger = createComponentLogger('NMEADecoder');
+
+  constructor(config: NMEADecoderConfig = {}) {
+    super();
+    this.fragmentTimeoutMs = config.fragmentTimeoutMs || 10000;
+    this.validateChecksum = config.validateChecksum ?? true;
+  }
+
+  /**
+   * Decode one or more newline-separated sentences
+   */
+  decode(data: string): void {
+    const lines = data.split(/\r?\n/);
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed.length > 0) {
+        this.decodeSentence(trimmed);
+      }
+    }
+  }
+
+  /**
+   * Decode a single sentence, optionally prefixed with an NMEA 4.0 tag block
+   * The report time is the tag block timestamp, else receivedAt, else now
+   */
+  decodeSentence(line: string, receivedAt?: Date): void {
+    this.stats.sentencesReceived++;
+    this.expirePendingFragments();
+
+    let sentenceText = line;
+    let tagTimestamp: Date | undefined;
+
+    // Strip tag block (e.g. "\s:station,c:1700000000*hh\!AIVDM,...")
+    if (sentenceText.startsWith('\\')) {
+      const end = sentenceText.indexOf('\\', 1);
+      if (end === -1) {
+        this.rejectSentence(line, 'Unterminated tag block');
+        return;
+      }
+      tagTimestamp = parseTagBlockTimestamp(sentenceText.substring(1, end));
+      sentenceText = sentenceText.substring(end + 1);
+    }
+
+    const sentence = this.parseSentence(sentenceText, line, tagTimestamp || receivedAt);
+    if (!sentence) {
+      return;
+    }
+
+    if (sentence.fragmentCount === 1) {
+      this.decodePayload(sentence.payload, sentence.fillBits, sentence.receivedAt, line);
+      return;
+    }
+
+    this.handleFragment(sentence, line);
+  }
+
+  /**
+   * Parse and validate the sentence envelope
+   */
+  private parseSentence(text: string, raw: string, timestamp?: Date): NMEASentence | null {
+    const starIndex = text.lastIndexOf('*');
+    if (!text.startsWith('!') || starIndex === -1) {
+      this.rejectSentence(raw, 'Malformed sentence envelope');
+      return null;
+    }
+
+    const body = text.substring(1, starIndex);
+    const checksum = text.substring(starIndex + 1, starIndex + 3).toUpperCase();
+
+    if (this.validateChecksum && computeNMEAChecksum(body) !== checksum) {
+      this.stats.checksumErrors++;
+      this.rejectSentence(raw, `Checksum mismatch (expected ${computeNMEAChecksum(body)})`);
+      return null;
+    }
+
+    const fields = text.substring(0, starIndex).split(',');
+    if (fields.length !== 7 || !SENTENCE_PATTERN.test(fields[0])) {
+      this.rejectSentence(raw, 'Not an AIVDM/AIVDO sentence');
+      return null;
+    }
+
+    const fragmentCount = parseInt(fields[1], 10);
+    const fragmentNumber = parseInt(fields[2], 10);
+    const fillBits = parseInt(fields[6], 10);
+
+    if (
+      isNaN(fragmentCount) ||
+      isNaN(fragmentNumber) ||
+      fragmentCount < 1 ||
+      fragmentNumber < 1 ||
+      fragmentNumber > fragmentCount ||
+      isNaN(fillBits) ||
+      fillBits < 0 ||
+      fillBits > 5
+    ) {
+      this.rejectSentence(raw, 'Invalid fragment or fill bit fields');
+      return null;
+    }
+
+    return {
+      fragmentCount,
+      fragmentNumber,
+      sequentialId: fields[3],
+      channel: fields[4],
+      payload: fields[5],
+      fillBits,
+      receivedAt: timestamp || new Date(),
+    };
+  }
+
+  /**
+   * Collect fragments of a multi-sentence message and decode when complete
+   */
+  private handleFragment(sentence: NMEASentence, raw: string): void {
+    const key = `${sentence.sequentialId}:${sentence.channel}:${sentence.fragmentCount}`;
+    let pending = this.pending.get(key);
+
+    if (sentence.fragmentNumber === 1) {
+      if (pending) {
+        this.stats.droppedFragments += pending.payloads.length;
+      }
+      pending = {
+        fragmentCount: sentence.fragmentCount,
+        payloads: [],
+        fillBits: 0,
+        firstReceivedAt: sentence.receivedAt,
+        arrivedAt: Date.now(),
+      };
+      this.pending.set(key, pending);
+    } else if (!pending || pending.payloads.length !== sentence.fragmentNumber - 1) {
+      // Out-of-order or orphaned fragment: discard the whole group
+      this.stats.droppedFragments += (pending?.payloads.length || 0) + 1;
+      this.pending.delete(key);
+      this.updatePendingCount();
+      this.logger.debug('Dropped out-of-order AIS fragment', {
+        sequentialId: sentence.sequentialId,
+        fragmentNumber: sentence.fragmentNumber,
+        fragmentCount: sentence.fragmentCount,
+      });
+      return;
+    }
+
+    pending.payloads.push(sentence.payload);
+
+    if (sentence.fragmentNumber === sentence.fragmentCount) {
+      this.pending.delete(key);
+      this.updatePendingCount();
+      this.decodePayload(
+        pending.payloads.join(''),
+        sentence.fillBits,
+        pending.firstReceivedAt,
+        raw
+      );
+      return;
+    }
+
+    this.updatePendingCount();
+  }
+
+  /**
+   * Drop multi-sentence groups that never completed
+   */
+  private expirePendingFragments(): void {
+    if (this.pending.size === 0) {
+      return;
+    }
+
+    const cutoff = Date.now() - this.fragmentTimeoutMs;
+    for (const [key, pending] of this.pending) {
+      if (pending.arrivedAt < cutoff) {
+        this.stats.droppedFragments += pending.payloads.length;
+        this.pending.delete(key);
+      }
+    }
+    this.updatePendingCount();
+  }
+
+  private updatePendingCount(): void {
+    let count = 0;
+    this.pending.forEach((pending) => {
+      count += pending.payloads.length;
+    });
+    this.stats.pendingFragments = count;
+  }
+
+  /**
+   * De-armor a complete payload and dispatch by message type
+   */
+  private decodePayload(payload: string, fillBits: number, receivedAt: Date, raw: string): void {
+    try {
+      const reader = new AISBitReader(payload, fillBits);
+      if (reader.length < 38) {
+        this.rejectSentence(raw, 'Payload too short');
+        return;
+      }
+
+      const messageType = reader.getUnsigned(0, 6);
+
+      switch (messageType) {
+        case 1:
+        case 2:
+        case 3: {
+          const position = this.parsePositionReport(reader, receivedAt);
+          this.stats.messagesDecoded++;
+          this.emit('position', position);
+          break;
+        }
+        case 4: {
+          const baseStation = this.parseBaseStationReport(reader, receivedAt);
+          this.stats.messagesDecoded++;
+          this.emit('baseStation', baseStation);
+          break;
+        }
+        case 5: {
+          const staticData = this.parseShipStaticData(reader);
+          this.stats.messagesDecoded++;
+          this.emit('staticData', staticData);
+          break;
+        }
+        case 9: {
+          const position = this.parseSearchAndRescueAircraftReport(reader, receivedAt);
+          this.stats.messagesDecoded++;
+          this.emit('position', position);
+          break;
+        }
+        case 18: {
+          const position = this.parseClassBPositionReport(reader, receivedAt);
+          this.stats.messagesDecoded++;
+          this.emit('position', position);
+          break;
+        }
+        case 19: {
+          // Extended Class B reports carry both a position and static data
+          const position = this.parseClassBPositionReport(reader, receivedAt);
+          const staticData = this.parseExtendedClassBStaticData(reader);
+          this.stats.messagesDecoded++;
+          this.emit('position', position);
+          this.emit('staticData', staticData);
+          break;
+        }
+        case 21: {
+          const aidToNavigation = this.parseAidToNavigationReport(reader, receivedAt);
+          this.stats.messagesDecoded++;
+          this.emit('aidToNavigation', aidToNavigation);
+          break;
+        }
+        case 24: {
+          const staticData = this.parseStaticDataReport(reader);
+          if (!staticData) {
+            this.stats.unsupportedMessages++;
+            this.emit('unsupported', { messageType, raw });
+            break;
+          }
+          this.stats.messagesDecoded++;
+          this.emit('staticData', staticData);
+          break;
+        }
+        default:
+          this.stats.unsupportedMessages++;
+          this.emit('unsupported', { messageType, raw });
+      }
+    } catch (error) {
+      this.rejectSentence(raw, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Parse message types 1, 2 and 3 (Class A position report)
+   * Values are scaled the same way AISStream reports them
+   */
+  private parsePositionReport(reader: AISBitReader, receivedAt: Date): PositionReport {
+    return {
+      mmsi: reader.getUnsigned(8, 30).toString().padStart(9, '0'),
+      timestamp: receivedAt,
+      navigational_status: reader.getUnsigned(38, 4),
+      rate_of_turn: reader.getSigned(42, 8),
+      sog: reader.getUnsigned(50, 10) / 10,
+      longitude: reader.getSigned(61, 28) / 600000,
+      latitude: reader.getSigned(89, 27) / 600000,
+      cog: reader.getUnsigned(116, 12) / 10,
+      true_heading: reader.getUnsigned(128, 9),
+      aisClass: 'A',
+    };
+  }
+
+  /**
+   * Parse message types 18 and 19 (Class B position report)
+   */
+  private parseClassBPositionReport(reader: AISBitReader, receivedAt: Date): PositionReport {
+    return {
+      mmsi: reader.getUnsigned(8, 30).toString().padStart(9, '0'),
+      timestamp: receivedAt,
+      sog: reader.getUnsigned(46, 10) / 10,
+      longitude: reader.getSigned(57, 28) / 600000,
+      latitude: reader.getSigned(85, 27) / 600000,
+      cog: reader.getUnsigned(112, 12) / 10,
+      true_heading: reader.getUnsigned(124, 9),
+      aisClass: 'B',
+    };
+  }
+
+  /**
+   * Parse message type 9 (standard SAR aircraft position report)
+   * Unlike vessels, SOG is reported in whole knots
+   */
+  private parseSearchAndRescueAircraftReport(
+    reader: AISBitReader,
+    receivedAt: Date
+  ): PositionReport {
+    return {
+      mmsi: reader.getUnsigned(8, 30).toString().padStart(9, '0'),
+      timestamp: receivedAt,
+      altitude: reader.getUnsigned(38, 12),
+      sog: reader.getUnsigned(50, 10),
+      longitude: reader.getSigned(61, 28) / 600000,
+      latitude: reader.getSigned(89, 27) / 600000,
+      cog: reader.getUnsigned(116, 12) / 10,
+    };
+  }
+
+  /**
+   * Parse message type 4 (base station report)
+   */
+  private parseBaseStationReport(reader: AISBitReader, receivedAt: Date): BaseStationReport {
+    const year = reader.getUnsigned(38, 14);
+    const month = reader.getUnsigned(52, 4);
+    const day = reader.getUnsigned(56, 5);
+    const hour = reader.getUnsigned(61, 5);
+    const minute = reader.getUnsigned(66, 6);
+    const second = reader.getUnsigned(72, 6);
+
+    // Zero year/month/day means the station has no UTC time available
+    let stationTime: Date | undefined;
+    if (year && month && day && hour < 24 && minute < 60 && second < 60) {
+      stationTime = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+    }
+
+    return {
+      mmsi: reader.getUnsigned(8, 30).toString().padStart(9, '0'),
+      timestamp: receivedAt,
+      longitude: reader.getSigned(79, 28) / 600000,
+      latitude: reader.getSigned(107, 27) / 600000,
+      fixType: reader.getUnsigned(134, 4),
+      stationTime,
+    };
+  }
+
+  /**
+   * Parse message type 21 (aid-to-navigation report)
+   * The name extension occupies whatever bits follow the fixed part
+   */
+  private parseAidToNavigationReport(
+    reader: AISBitReader,
+    receivedAt: Date
+  ): AidToNavigationReport {
+    let name = reader.getString(43, 120);
+    if (reader.length > 272) {
+      name += reader.getString(272, reader.length - 272);
+    }
+
+    return {
+      mmsi: reader.getUnsigned(8, 30).toString().padStart(9, '0'),
+      timestamp: receivedAt,
+      aidType: reader.getUnsigned(38, 5),
+      name: name || undefined,
+      longitude: reader.getSigned(164, 28) / 600000,
+      latitude: reader.getSigned(192, 27) / 600000,
+      dimensions: {
+        a: reader.getUnsigned(219, 9),
+        b: reader.getUnsigned(228, 9),
+        c: reader.getUnsigned(237, 6),
+        d: reader.getUnsigned(243, 6),
+      },
+      offPosition: reader.getUnsigned(259, 1) === 1,
+      virtual: reader.getUnsigned(269, 1) === 1,
+    };
+  }
+
+  /**
+   * Parse the static part of message type 19 (extended Class B report)
+   */
+  private parseExtendedClassBStaticData(reader: AISBitReader): ShipStaticData {
+    return {
+      mmsi: reader.getUnsigned(8, 30).toString().padStart(9, '0'),
+      name: reader.getString(143, 120) || undefined,
+      type: reader.getUnsigned(263, 8),
+      dimensions: {
+        a: reader.getUnsigned(271, 9),
+        b: reader.getUnsigned(280, 9),
+        c: reader.getUnsigned(289, 6),
+        d: reader.getUnsigned(295, 6),
+      },
+      aisClass: 'B',
+    };
+  }
+
+  /**
+   * Parse message type 24 (Class B static data report)
+   * Part A carries the name; part B carries type, call sign and dimensions.
+   * Returns null for the reserved part numbers 2 and 3.
+   */
+  private parseStaticDataReport(reader: AISBitReader): ShipStaticData | null {
+    const mmsi = reader.getUnsigned(8, 30).toString().padStart(9, '0');
+    const partNumber = reader.getUnsigned(38, 2);
+
+    if (partNumber === 0) {
+      return { mmsi, name: reader.getString(40, 120) || undefined, aisClass: 'B' };
+    }
+
+    if (partNumber === 1) {
+      return {
+        mmsi,
+        type: reader.getUnsigned(40, 8),
+        callSign: reader.getString(90, 42) || undefined,
+        dimensions: {
+          a: reader.getUnsigned(132, 9),
+          b: reader.getUnsigned(141, 9),
+          c: reader.getUnsigned(150, 6),
+          d: reader.getUnsigned(156, 6),
+        },
+        aisClass: 'B',
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse message type 5 (Class A static and voyage related data)
+   */
+  private parseShipStaticData(reader: AISBitReader): ShipStaticData {
+    const dimensions: VesselDimensions = {
+      a: reader.getUnsigned(240, 9),
+      b: reader.getUnsigned(249, 9),
+      c: reader.getUnsigned(258, 6),
+      d: reader.getUnsigned(264, 6),
+    };
+
+    // ETA carries no year; assume the current one as AISStreamManager does
+    let eta: Date | undefined;
+    const etaMonth = reader.getUnsigned(274, 4);
+    const etaDay = reader.getUnsigned(278, 5);
+    if (etaMonth && etaDay) {
+      const etaHour = reader.getUnsigned(283, 5);
+      const etaMinute = reader.getUnsigned(288, 6);
+      eta = new Date(
+        new Date().getFullYear(),
+        etaMonth - 1,
+        etaDay,
+        etaHour < 24 ? etaHour : 0,
+        etaMinute < 60 ? etaMinute : 0
+      );
+    }
+
+    const imo = reader.getUnsigned(40, 30);
+
+    return {
+      mmsi: reader.getUnsigned(8, 30).toString().padStart(9, '0'),
+      imo: imo || undefined,
+      callSign: reader.getString(70, 42) || undefined,
+      name: reader.getString(112, 120) || undefined,
+      type: reader.getUnsigned(232, 8),
+      dimensions,
+      eta,
+      draught: reader.getUnsigned(294, 8) / 10,
+      destination: reader.getString(302, 120) || undefined,
+      aisClass: 'A',
+    };
+  }
+
+  /**
+   * Record and report a sentence that could not be decoded
+   */
+  private rejectSentence(raw: string, reason: string): void {
+    this.stats.invalidSentences++;
+    this.logger.logInvalidMessage('NMEA', raw, reason);
+    const invalid: InvalidAisMessage = {
+      stage: 'decode',
+      messageType: 'NMEA',
+      reason,
+      payload: raw,
+    };
+    this.emit('invalidMessage', invalid);
+    this.emit(
+      'error',
+      new InvalidMessageError(`Failed to decode NMEA sentence: ${reason}`, 'NMEA', raw)
+    );
+  }
+
+  /**
+   * Discard all partially reassembled messages
+   */
+  reset(): void {
+    this.stats.droppedFragments += this.stats.pendingFragments;
+    this.pending.clear();
+    this.updatePendingCount();
+  }
+
+  /**
+   * Get decoder statistics
+   */
+  getStatistics(): DecoderStatistics {
+    return { ...this.stats };
+  }
+}
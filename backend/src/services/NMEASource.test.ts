@@ -0,0 +1,152 @@
+import net from 'net';
+import dgram from 'dgram';
+import { AddressInfo } from 'net';
+import { NMEATcpSource } from './NMEATcpSource';
+import { NMEAUdpSource } from './NMEAUdpSource';
+import { RawAisMessage } from './AisSource';
+import { PositionReport, ShipStaticData } from '../types';
+
+const POSITION_SENTENCE = '!AIVDM,1,1,,A,13aEOK?P00PD2wVMdLDRhgvL289?,0*26';
+const STATIC_SENTENCES = [
+  '!AIVDM,2,1,1,A,55?MbV02;H;s<HtKR20EHE:0@T4@Dn2222222216L961O5Gf0NSQEp6ClRp8,0*1C',
+  '!AIVDM,2,2,1,A,88888888880,2*25',
+];
+
+function waitFor<T>(emitter: NodeJS.EventEmitter, event: string): Promise<T> {
+  return new Promise((resolve) => emitter.once(event, resolve));
+}
+
+describe('NMEA sources', () => {
+  describe('NMEATcpSource', () => {
+    let server: net.Server;
+    let serverSockets: net.Socket[];
+    let source: NMEATcpSource;
+    let port: number;
+
+    beforeEach(async () => {
+      serverSockets = [];
+      server = net.createServer((socket) => serverSockets.push(socket));
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      port = (server.address() as AddressInfo).port;
+      source = new NMEATcpSource('rtl-ais', { host: '127.0.0.1', port });
+      source.on('error', () => undefined);
+    });
+
+    afterEach(async () => {
+      source.disconnect();
+      serverSockets.forEach((socket) => socket.destroy());
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it('should identify itself by name and kind', () => {
+      expect(source.name).toBe('rtl-ais');
+      expect(source.kind).toBe('nmea-tcp');
+    });
+
+    it('should connect and decode sentences split across chunks', async () => {
+      await source.connect();
+      expect(source.isConnectionActive()).toBe(true);
+
+      const positionPromise = waitFor<PositionReport>(source, 'position');
+      const half = Math.floor(POSITION_SENTENCE.length / 2);
+      serverSockets[0].write(POSITION_SENTENCE.substring(0, half));
+      serverSockets[0].write(`${POSITION_SENTENCE.substring(half)}\r\n`);
+
+      const position = await positionPromise;
+      expect(position.mmsi).toBe('244670316');
+
+      const stats = source.getStatistics();
+      expect(stats.messagesReceived).toBe(1);
+      expect(stats.messagesProcessed).toBe(1);
+      expect(stats.lastMessage).toBeInstanceOf(Date);
+    });
+
+    it('should reassemble multi-sentence static data', async () => {
+      await source.connect();
+
+      const staticPromise = waitFor<ShipStaticData>(source, 'staticData');
+      serverSockets[0].write(`${STATIC_SENTENCES.join('\r\n')}\r\n`);
+
+      const staticData = await staticPromise;
+      expect(staticData.name).toBe('EVER DIADEM');
+    });
+
+    it('should reject and schedule a reconnect when the feed is unreachable', async () => {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      server = net.createServer();
+      const reconnecting = waitFor<{ attempt: number }>(source, 'reconnecting');
+
+      await expect(source.connect()).rejects.toThrow('NMEA TCP socket error');
+      expect((await reconnecting).attempt).toBe(1);
+      expect(source.isConnectionActive()).toBe(false);
+    });
+
+    it('should emit disconnected when the feed closes the connection', async () => {
+      await source.connect();
+
+      const disconnected = waitFor(source, 'disconnected');
+      serverSockets[0].end();
+      await disconnected;
+
+      expect(source.isConnectionActive()).toBe(false);
+    });
+  });
+
+  describe('NMEAUdpSource', () => {
+    let source: NMEAUdpSource;
+    let client: dgram.Socket;
+
+    beforeEach(async () => {
+      source = new NMEAUdpSource('shore', { port: 0, bindAddress: '127.0.0.1' });
+      client = dgram.createSocket('udp4');
+      await source.connect();
+    });
+
+    afterEach(() => {
+      source.disconnect();
+      client.close();
+    });
+
+    it('should identify itself by name and kind', () => {
+      expect(source.name).toBe('shore');
+      expect(source.kind).toBe('nmea-udp');
+      expect(source.isConnectionActive()).toBe(true);
+    });
+
+    it('should decode every sentence in a datagram', async () => {
+      const received: string[] = [];
+      const done = new Promise<void>((resolve) => {
+        source.on('position', (position: PositionReport) => {
+          received.push(position.mmsi);
+        });
+        source.on('staticData', (data: ShipStaticData) => {
+          received.push(data.mmsi);
+          resolve();
+        });
+      });
+
+      const datagram = [POSITION_SENTENCE, ...STATIC_SENTENCES].join('\r\n');
+      client.send(datagram, source.getPort(), '127.0.0.1');
+      await done;
+
+      expect(received).toEqual(['244670316', '351759000']);
+      expect(source.getStatistics().messagesReceived).toBe(3);
+    });
+
+    it('should emit each sentence as a raw message', async () => {
+      const raw = waitFor<RawAisMessage>(source, 'raw');
+      client.send(`${POSITION_SENTENCE}\r\n`, source.getPort(), '127.0.0.1');
+
+      const message = await raw;
+      expect(message).toMatchObject({ source: 'shore', format: 'nmea', data: POSITION_SENTENCE });
+      expect(message.receivedAt).toBeInstanceOf(Date);
+    });
+
+    it('should report disconnected after closing', () => {
+      source.disconnect();
+
+      expect(source.isConnectionActive()).toBe(false);
+      expect(source.getStatistics().isConnected).toBe(false);
+    });
+  });
+});
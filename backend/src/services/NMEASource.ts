@@ -0,0 +1,124 @@
+import { EventEmitter } from 'events';
+import {
+  AidToNavigationReport,
+  BaseStationReport,
+  InvalidAisMessage,
+  PositionReport,
+  ShipStaticData,
+} from '../types';
+import { AisSource, AisSourceKind, RawAisMessage } from './AisSource';
+import { ConnectionStatistics } from './AISStreamManager';
+import { NMEADecoder, DecoderStatistics } from './NMEADecoder';
+import { Logger } from '../utils';
+
+/**
+ * Base class for sources that receive raw NMEA sentences
+ * Owns the decoder and statistics; subclasses only handle transport
+ */
+export abstract class NMEASource extends EventEmitter implements AisSource {
+  abstract readonly kind: AisSourceKind;
+  protected decoder: NMEADecoder;
+  protected isConnected = false;
+
+  protected stats: ConnectionStatistics = {
+    isConnected: false,
+    messagesReceived: 0,
+    messagesProcessed: 0,
+    errors: 0,
+    lastMessage: null,
+    reconnectAttempts: 0,
+  };
+
+  protected abstract logger: Logger;
+
+  constructor(readonly name: string) {
+    super();
+    this.decoder = new NMEADecoder();
+
+    this.decoder.on('position', (position: PositionReport) => {
+      this.stats.messagesProcessed++;
+      this.emit('position', position);
+    });
+
+    this.decoder.on('staticData', (staticData: ShipStaticData) => {
+      this.stats.messagesProcessed++;
+      this.emit('staticData', staticData);
+    });
+
+    this.decoder.on('baseStation', (report: BaseStationReport) => {
+      this.stats.messagesProcessed++;
+      this.emit('baseStation', report);
+    });
+
+    this.decoder.on('aidToNavigation', (report: AidToNavigationReport) => {
+      this.stats.messagesProcessed++;
+      this.emit('aidToNavigation', report);
+    });
+
+    // Invalid sentences are already logged by the decoder; radio noise is
+    // too common to surface each one as a source error
+    this.decoder.on('error', () => {
+      this.stats.errors++;
+    });
+
+    this.decoder.on('invalidMessage', (message: InvalidAisMessage) => {
+      this.emit('invalidMessage', { ...message, source: this.name });
+    });
+  }
+
+  abstract connect(): Promise<void>;
+  abstract disconnect(): void;
+
+  /**
+   * Feed received sentences into the decoder
+   */
+  protected handleSentences(lines: string[]): void {
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed.length === 0) {
+        continue;
+      }
+
+      this.stats.messagesReceived++;
+      this.stats.lastMessage = new Date();
+
+      if (this.listenerCount('raw') > 0) {
+        const raw: RawAisMessage = {
+          source: this.name,
+          format: 'nmea',
+          receivedAt: this.stats.lastMessage,
+          data: trimmed,
+        };
+        this.emit('raw', raw);
+      }
+
+      this.decoder.decodeSentence(trimmed);
+    }
+  }
+
+  protected setConnected(connected: boolean): void {
+    this.isConnected = connected;
+    this.stats.isConnected = connected;
+  }
+
+  /**
+   * Get connection statistics
+   */
+  getStatistics(): ConnectionStatistics {
+    return { ...this.stats };
+  }
+
+  /**
+   * Get decoder statistics
+   */
+  getDecoderStatistics(): DecoderStatistics {
+    return this.decoder.getStatistics();
+  }
+
+  /**
+   * Check if currently connected
+   */
+  isConnectionActive(): boolean {
+    return this.isConnected;
+  }
+}
@@ -0,0 +1,164 @@
+import net from 'net';
+import { NMEASource } from './NMEASource';
+import { createComponentLogger, AISStreamError } from '../utils';
+
+/**
+ * Configuration options for NMEATcpSource
+ */
+export interface NMEATcpSourceConfig {
+  host: string;
+  port: number;
+  connectTimeoutMs?: number;
+  maxReconnectDelayMs?: number;
+}
+
+/**
+ * NMEATcpSource connects to a TCP NMEA feed such as rtl-ais or a shore station
+ * Reconnects indefinitely with capped exponential backoff
+ */
+export class NMEATcpSource extends NMEASource {
+  readonly kind = 'nmea-tcp' as const;
+  private host: string;
+  private port: number;
+  private connectTimeoutMs: number;
+  private maxReconnectDelayMs: number;
+  private socket: net.Socket | null = null;
+  private buffer = '';
+  private reconnectAttempts = 0;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private shouldReconnect = false;
+
+  protected logger = createComponentLogger('NMEATcpSource');
+
+  constructor(name: string, config: NMEATcpSourceConfig) {
+    super(name);
+    this.host = config.host;
+    this.port = config.port;
+    this.connectTimeoutMs = config.connectTimeoutMs || 5000;
+    this.maxReconnectDelayMs = config.maxReconnectDelayMs || 60000;
+  }
+
+  /**
+   * Connect to the TCP feed
+   * A failed initial attempt rejects but still schedules reconnection
+   */
+  async connect(): Promise<void> {
+    this.shouldReconnect = true;
+
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      this.socket = socket;
+      this.buffer = '';
+      socket.setEncoding('utf8');
+      socket.setTimeout(this.connectTimeoutMs);
+
+      socket.once('connect', () => {
+        socket.setTimeout(0);
+        socket.setKeepAlive(true);
+        this.setConnected(true);
+        this.reconnectAttempts = 0;
+        this.logger.info('Connected to NMEA TCP feed', {
+          source: this.name,
+          host: this.host,
+          port: this.port,
+        });
+        this.emit('connected');
+        resolve();
+      });
+
+      socket.on('data', (chunk: string) => {
+        this.buffer += chunk;
+        const lines = this.buffer.split(/\r?\n/);
+        this.buffer = lines.pop() || '';
+        this.handleSentences(lines);
+      });
+
+      socket.on('timeout', () => {
+        socket.destroy(new Error(`Connection timeout after ${this.connectTimeoutMs}ms`));
+      });
+
+      socket.on('error', (error: Error) => {
+        this.stats.errors++;
+        const sourceError = new AISStreamError('NMEA TCP socket error', {
+          source: this.name,
+          originalError: error.message,
+          isConnected: this.isConnected,
+        });
+        this.logger.logAISStreamError(sourceError, {
+          reconnectAttempts: this.reconnectAttempts,
+        });
+        this.emit('error', sourceError);
+
+        if (!this.isConnected) {
+          reject(sourceError);
+        }
+      });
+
+      socket.on('close', () => {
+        if (this.socket !== socket) {
+          return;
+        }
+
+        const wasConnected = this.isConnected;
+        this.socket = null;
+        this.setConnected(false);
+        this.decoder.reset();
+
+        if (wasConnected) {
+          this.emit('disconnected', { host: this.host, port: this.port });
+        }
+
+        if (this.shouldReconnect) {
+          this.scheduleReconnect();
+        }
+      });
+    });
+  }
+
+  /**
+   * Schedule reconnection with capped exponential backoff
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+    }
+
+    const delay = Math.min(Math.pow(2, this.reconnectAttempts) * 1000, this.maxReconnectDelayMs);
+    this.reconnectAttempts++;
+    this.stats.reconnectAttempts = this.reconnectAttempts;
+
+    this.logger.info('Scheduling reconnection', {
+      source: this.name,
+      attempt: this.reconnectAttempts,
+      delay: `${delay}ms`,
+    });
+    this.emit('reconnecting', { attempt: this.reconnectAttempts, delay });
+
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      // Failures are reported through the 'error' event and retried on close
+      this.connect().catch(() => undefined);
+    }, delay);
+  }
+
+  /**
+   * Disconnect from the TCP feed
+   */
+  disconnect(): void {
+    this.shouldReconnect = false;
+
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.destroy();
+    }
+
+    this.setConnected(false);
+    this.decoder.reset();
+  }
+}
@@ -0,0 +1,102 @@
+import dgram from 'dgram';
+import { NMEASource } from './NMEASource';
+import { createComponentLogger, AISStreamError } from '../utils';
+
+/**
+ * Configuration options for NMEAUdpSource
+ */
+export interface NMEAUdpSourceConfig {
+  port: number;
+  bindAddress?: string;
+}
+
+/**
+ * NMEAUdpSource listens for NMEA sentences forwarded over UDP
+ * Each datagram may carry one or more newline-separated sentences
+ */
+export class NMEAUdpSource extends NMEASource {
+  readonly kind = 'nmea-udp' as const;
+  private port: number;
+  private bindAddress: string;
+  private socket: dgram.Socket | null = null;
+
+  protected logger = createComponentLogger('NMEAUdpSource');
+
+  constructor(name: string, config: NMEAUdpSourceConfig) {
+    super(name);
+    this.port = config.port;
+    this.bindAddress = config.bindAddress || '0.0.0.0';
+  }
+
+  /**
+   * Bind the UDP listener
+   */
+  async connect(): Promise<void> {
+    if (this.socket) {
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+      this.socket = socket;
+
+      socket.on('message', (message: Buffer) => {
+        this.handleSentences(message.toString('utf8').split(/\r?\n/));
+      });
+
+      socket.on('error', (error: Error) => {
+        this.stats.errors++;
+        const sourceError = new AISStreamError('NMEA UDP socket error', {
+          source: this.name,
+          originalError: error.message,
+          isConnected: this.isConnected,
+        });
+        this.logger.logAISStreamError(sourceError);
+        this.emit('error', sourceError);
+
+        if (!this.isConnected) {
+          this.socket = null;
+          socket.close();
+          reject(sourceError);
+        }
+      });
+
+      socket.once('listening', () => {
+        this.setConnected(true);
+        this.logger.info('Listening for NMEA datagrams', {
+          source: this.name,
+          address: this.bindAddress,
+          port: this.getPort(),
+        });
+        this.emit('connected');
+        resolve();
+      });
+
+      socket.bind(this.port, this.bindAddress);
+    });
+  }
+
+  /**
+   * Get the bound port (useful when configured with port 0)
+   */
+  getPort(): number {
+    return this.socket && this.isConnected ? this.socket.address().port : this.port;
+  }
+
+  /**
+   * Close the UDP listener
+   */
+  disconnect(): void {
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+
+    if (this.isConnected) {
+      this.setConnected(false);
+      this.emit('disconnected', { port: this.port });
+    }
+    this.decoder.reset();
+  }
+}
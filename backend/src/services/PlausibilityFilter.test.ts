@@ -0,0 +1,114 @@
+import { PlausibilityFilter } from './PlausibilityFilter';
+import { PositionReport } from '../types';
+
+const START = new Date('2025-12-01T10:00:00Z').getTime();
+
+/**
+ * Build a report `minutes` after START, `northNm` nautical miles north of 50N 0E
+ */
+function fix(
+  minutes: number,
+  northNm: number,
+  extra: Partial<PositionReport> = {}
+): PositionReport {
+  return {
+    mmsi: '244670316',
+    timestamp: new Date(START + minutes * 60 * 1000),
+    latitude: 50 + northNm / 60,
+    longitude: 0,
+    ...extra,
+  };
+}
+
+describe('PlausibilityFilter', () => {
+  it('should accept the first fix and normal movement', () => {
+    const filter = new PlausibilityFilter();
+
+    expect(filter.check(fix(0, 0, { sog: 12 })).accepted).toBe(true);
+    expect(filter.check(fix(10, 2, { sog: 12 })).accepted).toBe(true);
+    expect(filter.check(fix(20, 4, { sog: 12 })).accepted).toBe(true);
+  });
+
+  it('should reject a teleport beyond the vessel speed limit', () => {
+    const filter = new PlausibilityFilter();
+    filter.check(fix(0, 0));
+
+    const verdict = filter.check(fix(1, 300));
+
+    expect(verdict).toMatchObject({
+      accepted: false,
+      reason: 'speed_limit',
+      limitKnots: 50,
+      elapsedSeconds: 60,
+      previous: { latitude: 50, longitude: 0 },
+    });
+    if (!verdict.accepted) {
+      expect(verdict.impliedSpeedKnots).toBeCloseTo(18000, -2);
+    }
+  });
+
+  it('should reject movement far above the reported SOG', () => {
+    const filter = new PlausibilityFilter();
+    filter.check(fix(0, 0, { sog: 2 }));
+
+    // 0.5 nm in one minute is 30 knots for a vessel reporting 2 knots
+    const verdict = filter.check(fix(1, 0.5, { sog: 2 }));
+
+    expect(verdict).toMatchObject({ accepted: false, reason: 'sog_mismatch', limitKnots: 13 });
+  });
+
+  it('should compare against the last accepted fix, not the rejected one', () => {
+    const filter = new PlausibilityFilter();
+    filter.check(fix(0, 0));
+    filter.check(fix(1, 300));
+
+    expect(filter.check(fix(2, 0.3)).accepted).toBe(true);
+  });
+
+  it('should apply ship type and aircraft speed limits', () => {
+    const filter = new PlausibilityFilter();
+    filter.setShipType('244670316', 40);
+    filter.check(fix(0, 0));
+
+    // 1 nm per minute is 60 knots: too fast for a cargo ship, fine for a high speed craft
+    expect(filter.check(fix(1, 1)).accepted).toBe(true);
+
+    const aircraft = new PlausibilityFilter();
+    aircraft.check(fix(0, 0, { altitude: 300 }));
+    expect(aircraft.check(fix(1, 4, { altitude: 300 })).accepted).toBe(true);
+    expect(aircraft.check(fix(2, 20, { altitude: 300 })).accepted).toBe(false);
+  });
+
+  it('should accept GPS jitter within the minimum distance', () => {
+    const filter = new PlausibilityFilter({ minDistanceNm: 0.1 });
+    filter.check(fix(0, 0));
+
+    expect(filter.check(fix(0, 0.05)).accepted).toBe(true);
+  });
+
+  it('should reacquire the track after consecutive consistent rejected fixes', () => {
+    const filter = new PlausibilityFilter({ reacquireAfter: 3 });
+    filter.check(fix(0, 0));
+
+    expect(filter.check(fix(1, 300)).accepted).toBe(false);
+    expect(filter.check(fix(2, 300.1)).accepted).toBe(false);
+    expect(filter.check(fix(3, 300.2))).toEqual({ accepted: true, reacquired: true });
+    expect(filter.check(fix(4, 300.3)).accepted).toBe(true);
+  });
+
+  it('should forget tracks without a report for staleTrackMs', () => {
+    const filter = new PlausibilityFilter({ staleTrackMs: 60 * 60 * 1000 });
+    filter.setShipType('244670316', 40);
+    filter.check(fix(0, 0));
+    filter.check(fix(0, 0, { mmsi: '366053209' }));
+    expect(filter.getTrackedCount()).toBe(2);
+
+    expect(filter.evictStale(new Date(Date.now() + 30 * 60 * 1000))).toBe(0);
+    expect(filter.evictStale(new Date(Date.now() + 2 * 60 * 60 * 1000))).toBe(2);
+    expect(filter.getTrackedCount()).toBe(0);
+    expect(filter.getSpeedLimit('244670316')).toBe(50);
+
+    // The next fix starts a new track instead of being compared to the forgotten one
+    expect(filter.check(fix(1, 300)).accepted).toBe(true);
+  });
+});
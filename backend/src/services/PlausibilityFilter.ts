@@ -0,0 +1,327 @@
+import { PositionReport } from '../types';
+import { distanceNm } from '../utils';
+
+/**
+ * Why a position report was rejected
+ * - 'speed_limit': implied speed is beyond what the vessel type can do
+ * - 'sog_mismatch': implied speed is far above the speed over ground the vessel reported
+ */
+export type PlausibilityRejectionReason = 'speed_limit' | 'sog_mismatch';
+
+/**
+ * Configuration options for PlausibilityFilter
+ */
+export interface PlausibilityFilterConfig {
+  /** Speed limit for vessels without a more specific limit (default: 50 knots) */
+  defaultMaxSpeedKnots?: number;
+  /** Speed limit for SAR aircraft, i.e. reports carrying an altitude (default: 600 knots) */
+  aircraftMaxSpeedKnots?: number;
+  /** Jumps shorter than this are GPS noise and always accepted (default: 0.1 nm) */
+  minDistanceNm?: number;
+  /** Reports closer together than this are compared as if this far apart (default: 1 s) */
+  minElapsedSeconds?: number;
+  /** Compare against reported SOG only when fixes are at most this far apart (default: 600 s) */
+  sogWindowSeconds?: number;
+  /** Allowed ratio of implied speed to reported SOG (default: 1.5) */
+  sogFactor?: number;
+  /** Allowed implied speed above the scaled reported SOG (default: 10 knots) */
+  sogMarginKnots?: number;
+  /** Consecutive rejected fixes that agree with each other before the track moves to them (default: 3) */
+  reacquireAfter?: number;
+  /** Tracks without a report for this long are forgotten (default: 6 hours) */
+  staleTrackMs?: number;
+  /** Interval between checks for stale tracks once started (default: 10 minutes) */
+  sweepIntervalMs?: number;
+}
+
+/**
+ * Outcome of a plausibility check
+ */
+export type PlausibilityVerdict =
+  | {
+      accepted: true;
+      /** The fix was accepted because several rejected fixes agreed on a new location */
+      reacquired?: boolean;
+    }
+  | {
+      accepted: false;
+      reason: PlausibilityRejectionReason;
+      message: string;
+      impliedSpeedKnots: number;
+      limitKnots: number;
+      distanceNm: number;
+      elapsedSeconds: number;
+      previous: { latitude: number; longitude: number; timestamp: Date };
+    };
+
+interface TrackedFix {
+  latitude: number;
+  longitude: number;
+  timestamp: Date;
+  sog?: number;
+  aircraft: boolean;
+}
+
+interface TrackState {
+  lastAccepted: TrackedFix;
+  candidate: TrackedFix | null;
+  candidateCount: number;
+  lastSeen: number; // Time of the last report for the vessel, accepted or not
+}
+
+interface KnownShipType {
+  type: number;
+  lastSeen: number;
+}
+
+/**
+ * SOG values meaning "not available" for vessels and SAR aircraft
+ */
+const SOG_NOT_AVAILABLE = 102.3;
+const AIRCRAFT_SOG_NOT_AVAILABLE = 1023;
+
+/**
+ * Speed limits in knots by AIS ship type range
+ * Types not listed use defaultMaxSpeedKnots
+ */
+const SHIP_TYPE_SPEED_LIMITS: Array<{ from: number; to: number; knots: number }> = [
+  { from: 20, to: 29, knots: 150 }, // Wing in ground
+  { from: 35, to: 35, knots: 60 }, // Military
+  { from: 37, to: 37, knots: 60 }, // Pleasure craft
+  { from: 40, to: 49, knots: 70 }, // High speed craft
+  { from: 51, to: 51, knots: 60 }, // Search and rescue vessel
+];
+
+/**
+ * PlausibilityFilter rejects teleports and GPS jumps in a vessel's track
+ *
+ * Each report is compared to the last accepted fix for the same MMSI. The speed
+ * needed to get from there to here must stay below the limit for the vessel type
+ * and, for fixes close together in time, near the speed over ground the vessel
+ * reported. A track that genuinely moved (e.g. the last accepted fix was the bad
+ * one) is reacquired once enough consecutive rejected fixes agree with each other.
+ */
+export class PlausibilityFilter {
+  private defaultMaxSpeedKnots: number;
+  private aircraftMaxSpeedKnots: number;
+  private minDistanceNm: number;
+  private minElapsedSeconds: number;
+  private sogWindowSeconds: number;
+  private sogFactor: number;
+  private sogMarginKnots: number;
+  private reacquireAfter: number;
+  private staleTrackMs: number;
+  private sweepIntervalMs: number;
+
+  private tracks: Map<string, TrackState> = new Map();
+  private shipTypes: Map<string, KnownShipType> = new Map();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: PlausibilityFilterConfig = {}) {
+    this.defaultMaxSpeedKnots = config.defaultMaxSpeedKnots ?? 50;
+    this.aircraftMaxSpeedKnots = config.aircraftMaxSpeedKnots ?? 600;
+    this.minDistanceNm = config.minDistanceNm ?? 0.1;
+    this.minElapsedSeconds = config.minElapsedSeconds ?? 1;
+    this.sogWindowSeconds = config.sogWindowSeconds ?? 600;
+    this.sogFactor = config.sogFactor ?? 1.5;
+    this.sogMarginKnots = config.sogMarginKnots ?? 10;
+    this.reacquireAfter = Math.max(config.reacquireAfter ?? 3, 1);
+    this.staleTrackMs = config.staleTrackMs ?? 6 * 60 * 60 * 1000;
+    this.sweepIntervalMs = config.sweepIntervalMs ?? 10 * 60 * 1000;
+  }
+
+  /**
+   * Start periodic eviction of stale tracks
+   */
+  start(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => this.evictStale(), this.sweepIntervalMs);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Stop periodic eviction of stale tracks
+   */
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Record a vessel's AIS ship type so its speed limit applies
+   */
+  setShipType(mmsi: string, type: number | undefined): void {
+    if (type === undefined || type === null) {
+      return;
+    }
+    this.shipTypes.set(mmsi, { type, lastSeen: Date.now() });
+  }
+
+  /**
+   * Get the speed limit in knots for a vessel
+   */
+  getSpeedLimit(mmsi: string, aircraft = false): number {
+    if (aircraft) {
+      return this.aircraftMaxSpeedKnots;
+    }
+
+    const type = this.shipTypes.get(mmsi)?.type;
+    const limit =
+      type !== undefined
+        ? SHIP_TYPE_SPEED_LIMITS.find((range) => type >= range.from && type <= range.to)
+        : undefined;
+    return limit ? limit.knots : this.defaultMaxSpeedKnots;
+  }
+
+  /**
+   * Check a position report against the vessel's track
+   * Accepted reports become the new reference for later reports
+   */
+  check(position: PositionReport): PlausibilityVerdict {
+    const fix = this.toFix(position);
+    const track = this.tracks.get(position.mmsi);
+
+    if (!track) {
+      this.tracks.set(position.mmsi, {
+        lastAccepted: fix,
+        candidate: null,
+        candidateCount: 0,
+        lastSeen: Date.now(),
+      });
+      return { accepted: true };
+    }
+    track.lastSeen = Date.now();
+
+    const verdict = this.compare(position.mmsi, track.lastAccepted, fix);
+    if (verdict.accepted) {
+      this.accept(track, fix);
+      return verdict;
+    }
+
+    // Count consecutive rejected fixes that agree on a new location
+    if (track.candidate && this.compare(position.mmsi, track.candidate, fix).accepted) {
+      track.candidateCount++;
+    } else {
+      track.candidateCount = 1;
+    }
+    track.candidate = fix;
+
+    if (track.candidateCount >= this.reacquireAfter) {
+      this.accept(track, fix);
+      return { accepted: true, reacquired: true };
+    }
+
+    return verdict;
+  }
+
+  /**
+   * Forget the track of a vessel, e.g. when it is removed
+   */
+  forget(mmsi: string): void {
+    this.tracks.delete(mmsi);
+    this.shipTypes.delete(mmsi);
+  }
+
+  /**
+   * Forget the tracks and ship types of vessels without a report for staleTrackMs
+   * A vessel that reports again later starts a new track from its next fix.
+   * Returns the number of tracks forgotten
+   */
+  evictStale(now: Date = new Date()): number {
+    const cutoff = now.getTime() - this.staleTrackMs;
+
+    let evicted = 0;
+    for (const [mmsi, track] of this.tracks) {
+      if (track.lastSeen < cutoff) {
+        this.tracks.delete(mmsi);
+        evicted++;
+      }
+    }
+    for (const [mmsi, shipType] of this.shipTypes) {
+      if (shipType.lastSeen < cutoff && !this.tracks.has(mmsi)) {
+        this.shipTypes.delete(mmsi);
+      }
+    }
+    return evicted;
+  }
+
+  /**
+   * Number of vessels with a tracked last accepted fix
+   */
+  getTrackedCount(): number {
+    return this.tracks.size;
+  }
+
+  private accept(track: TrackState, fix: TrackedFix): void {
+    // An out-of-order report never moves the reference back in time
+    if (fix.timestamp.getTime() >= track.lastAccepted.timestamp.getTime()) {
+      track.lastAccepted = fix;
+    }
+    track.candidate = null;
+    track.candidateCount = 0;
+  }
+
+  private compare(mmsi: string, from: TrackedFix, to: TrackedFix): PlausibilityVerdict {
+    const distance = distanceNm(from.latitude, from.longitude, to.latitude, to.longitude);
+    if (distance < this.minDistanceNm) {
+      return { accepted: true };
+    }
+
+    const elapsedSeconds = Math.abs(to.timestamp.getTime() - from.timestamp.getTime()) / 1000;
+    const impliedSpeedKnots = distance / (Math.max(elapsedSeconds, this.minElapsedSeconds) / 3600);
+
+    let reason: PlausibilityRejectionReason = 'speed_limit';
+    let limitKnots = this.getSpeedLimit(mmsi, from.aircraft || to.aircraft);
+
+    if (elapsedSeconds <= this.sogWindowSeconds && from.sog !== undefined && to.sog !== undefined) {
+      const sogLimit = Math.max(from.sog, to.sog) * this.sogFactor + this.sogMarginKnots;
+      if (sogLimit < limitKnots) {
+        reason = 'sog_mismatch';
+        limitKnots = sogLimit;
+      }
+    }
+
+    if (impliedSpeedKnots <= limitKnots) {
+      return { accepted: true };
+    }
+
+    const message =
+      reason === 'sog_mismatch'
+        ? `Implied speed ${impliedSpeedKnots.toFixed(1)} kn is inconsistent with reported SOG ` +
+          `(limit ${limitKnots.toFixed(1)} kn)`
+        : `Implied speed ${impliedSpeedKnots.toFixed(1)} kn exceeds the ` +
+          `${limitKnots.toFixed(0)} kn limit for this vessel`;
+
+    return {
+      accepted: false,
+      reason,
+      message,
+      impliedSpeedKnots,
+      limitKnots,
+      distanceNm: distance,
+      elapsedSeconds,
+      previous: { latitude: from.latitude, longitude: from.longitude, timestamp: from.timestamp },
+    };
+  }
+
+  private toFix(position: PositionReport): TrackedFix {
+    const aircraft = position.altitude !== undefined;
+    const notAvailable = aircraft ? AIRCRAFT_SOG_NOT_AVAILABLE : SOG_NOT_AVAILABLE;
+    const sog =
+      position.sog !== undefined && position.sog >= 0 && position.sog < notAvailable
+        ? position.sog
+        : undefined;
+    return {
+      latitude: position.latitude,
+      longitude: position.longitude,
+      timestamp: position.timestamp,
+      sog,
+      aircraft,
+    };
+  }
+}
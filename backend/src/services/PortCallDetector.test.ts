@@ -0,0 +1,267 @@
+import { PortCallDetector } from './PortCallDetector';
+import { PortRepository } from '../repositories/PortRepository';
+import { DatabaseError } from '../utils';
+import { OpenPortCall, Port, PortCall, PositionReport } from '../types';
+
+const MINUTE = 60 * 1000;
+const START = new Date('2025-12-01T00:00:00Z').getTime();
+
+const ANTWERP: Port = {
+  locode: 'BEANR',
+  name: 'Antwerp',
+  country: 'BE',
+  latitude: 51.28,
+  longitude: 4.33,
+  radiusNm: 6,
+};
+
+const ROTTERDAM: Port = {
+  locode: 'NLRTM',
+  name: 'Rotterdam',
+  country: 'NL',
+  latitude: 51.95,
+  longitude: 4.14,
+  area: {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [3.95, 51.93],
+        [4.02, 51.99],
+        [4.55, 51.93],
+        [4.55, 51.87],
+        [4.1, 51.87],
+        [3.95, 51.93],
+      ],
+    ],
+  },
+};
+
+// North Sea, between the two ports
+const AT_SEA = { latitude: 51.7, longitude: 3.2 };
+
+function report(
+  minutes: number,
+  at: { latitude: number; longitude: number },
+  extra: Partial<PositionReport> = {}
+): PositionReport {
+  return {
+    mmsi: '244670316',
+    timestamp: new Date(START + minutes * MINUTE),
+    sog: 0.1,
+    ...at,
+    ...extra,
+  };
+}
+
+function fakeRepository(openCalls: OpenPortCall[] = []) {
+  let nextId = 1;
+  const repository = {
+    getPorts: jest.fn().mockResolvedValue([ANTWERP, ROTTERDAM]),
+    getOpenPortCalls: jest.fn().mockResolvedValue(openCalls),
+    openPortCall: jest.fn(async () => nextId++),
+    closePortCall: jest.fn().mockResolvedValue(undefined),
+  };
+  return repository;
+}
+
+describe('PortCallDetector', () => {
+  let repository: ReturnType<typeof fakeRepository>;
+  let detector: PortCallDetector;
+
+  beforeEach(async () => {
+    repository = fakeRepository();
+    detector = new PortCallDetector(repository as unknown as PortRepository, {
+      minDwellMs: 15 * MINUTE,
+    });
+    await detector.load();
+  });
+
+  it('should find ports by radius and by polygon', () => {
+    expect(detector.findPort(51.3, 4.3)?.locode).toBe('BEANR');
+    expect(detector.findPort(51.95, 4.2)?.locode).toBe('NLRTM');
+    expect(detector.findPort(AT_SEA.latitude, AT_SEA.longitude)).toBeNull();
+    // Inside the bounds of the Rotterdam polygon, but outside the polygon
+    expect(detector.findPort(51.98, 4.5)).toBeNull();
+  });
+
+  it('should record a call once the vessel has dwelled and close it when it leaves', async () => {
+    const arrivals: PortCall[] = [];
+    const departures: PortCall[] = [];
+    detector.on('portArrival', (call) => arrivals.push(call));
+    detector.on('portDeparture', (call) => departures.push(call));
+
+    await detector.observe(report(0, AT_SEA, { sog: 12 }));
+    await detector.observe(report(60, { latitude: 51.3, longitude: 4.3 }, { sog: 4 }));
+    await detector.observe(report(70, { latitude: 51.28, longitude: 4.33 }));
+    expect(repository.openPortCall).not.toHaveBeenCalled();
+
+    await detector.observe(report(75, { latitude: 51.28, longitude: 4.33 }));
+    expect(repository.openPortCall).toHaveBeenCalledWith(
+      '244670316',
+      'BEANR',
+      new Date(START + 60 * MINUTE),
+      'berth'
+    );
+
+    await detector.observe(report(600, { latitude: 51.28, longitude: 4.33 }));
+    await detector.observe(report(660, AT_SEA, { sog: 12 }));
+
+    expect(repository.closePortCall).toHaveBeenCalledWith(
+      1,
+      new Date(START + 600 * MINUTE),
+      'berth'
+    );
+    expect(arrivals).toHaveLength(1);
+    expect(departures).toEqual([
+      {
+        id: 1,
+        mmsi: '244670316',
+        locode: 'BEANR',
+        portName: 'Antwerp',
+        arrival: new Date(START + 60 * MINUTE),
+        departure: new Date(START + 600 * MINUTE),
+        durationSeconds: 540 * 60,
+        callType: 'berth',
+      },
+    ]);
+  });
+
+  it('should not record vessels passing through a port area', async () => {
+    await detector.observe(report(0, { latitude: 51.9, longitude: 4.1 }, { sog: 10 }));
+    await detector.observe(report(10, { latitude: 51.95, longitude: 4.3 }, { sog: 10 }));
+    await detector.observe(report(20, AT_SEA, { sog: 10 }));
+    await detector.observe(report(60, AT_SEA, { sog: 10 }));
+
+    expect(repository.openPortCall).not.toHaveBeenCalled();
+    expect(repository.closePortCall).not.toHaveBeenCalled();
+  });
+
+  it('should tell anchorage from berth', async () => {
+    const atAnchor = { navigational_status: 1 };
+    await detector.observe(report(0, { latitude: 51.92, longitude: 4.05 }, atAnchor));
+    await detector.observe(report(30, { latitude: 51.92, longitude: 4.05 }, atAnchor));
+    await detector.observe(report(300, AT_SEA, { sog: 12 }));
+
+    expect(repository.closePortCall).toHaveBeenLastCalledWith(
+      1,
+      new Date(START + 30 * MINUTE),
+      'anchorage'
+    );
+
+    // Anchored first, then moored alongside
+    await detector.observe(report(400, { latitude: 51.92, longitude: 4.05 }, atAnchor));
+    await detector.observe(report(500, { latitude: 51.95, longitude: 4.2 }, { sog: 3 }));
+    await detector.observe(
+      report(520, { latitude: 51.95, longitude: 4.2 }, { navigational_status: 5 })
+    );
+    await detector.observe(report(900, AT_SEA, { sog: 12 }));
+
+    expect(repository.closePortCall).toHaveBeenLastCalledWith(
+      2,
+      new Date(START + 520 * MINUTE),
+      'berth'
+    );
+  });
+
+  it('should resume calls left open at the last shutdown', async () => {
+    repository = fakeRepository([
+      {
+        id: 42,
+        mmsi: '244670316',
+        locode: 'BEANR',
+        arrival: new Date(START),
+        departure: null,
+        durationSeconds: null,
+        callType: 'anchorage',
+        lastInside: new Date(START + 60 * MINUTE),
+      },
+    ]);
+    detector = new PortCallDetector(repository as unknown as PortRepository);
+    await detector.load();
+
+    await detector.observe(report(120, { latitude: 51.28, longitude: 4.33 }));
+    await detector.observe(report(180, AT_SEA, { sog: 12 }));
+
+    expect(repository.openPortCall).not.toHaveBeenCalled();
+    expect(repository.closePortCall).toHaveBeenCalledWith(
+      42,
+      new Date(START + 120 * MINUTE),
+      'berth'
+    );
+  });
+
+  it('should close a resumed call with its last report inside when the next one is outside', async () => {
+    repository = fakeRepository([
+      {
+        id: 42,
+        mmsi: '244670316',
+        locode: 'BEANR',
+        arrival: new Date(START),
+        departure: null,
+        durationSeconds: null,
+        callType: 'berth',
+        lastInside: new Date(START + 2 * 24 * 60 * MINUTE),
+      },
+    ]);
+    detector = new PortCallDetector(repository as unknown as PortRepository);
+    await detector.load();
+
+    const departures: PortCall[] = [];
+    detector.on('portDeparture', (call: PortCall) => departures.push(call));
+    await detector.observe(report(2 * 24 * 60 + 30, AT_SEA, { sog: 12 }));
+
+    expect(repository.closePortCall).toHaveBeenCalledWith(
+      42,
+      new Date(START + 2 * 24 * 60 * MINUTE),
+      'berth'
+    );
+    expect(departures[0].durationSeconds).toBe(2 * 24 * 60 * 60);
+  });
+
+  it('should close the calls of vessels that went silent in port', async () => {
+    detector = new PortCallDetector(repository as unknown as PortRepository, {
+      staleVisitMs: 12 * 60 * MINUTE,
+    });
+    await detector.load();
+    await detector.observe(report(0, { latitude: 51.28, longitude: 4.33 }));
+    await detector.observe(report(30, { latitude: 51.28, longitude: 4.33 }));
+
+    expect(await detector.closeStaleVisits(new Date(START + 12 * 60 * MINUTE))).toBe(0);
+    expect(await detector.closeStaleVisits(new Date(START + 13 * 60 * MINUTE))).toBe(1);
+    expect(repository.closePortCall).toHaveBeenCalledWith(
+      1,
+      new Date(START + 30 * MINUTE),
+      'berth'
+    );
+
+    // Reporting again in the same port after a long silence starts a new call
+    await detector.observe(report(20 * 60, { latitude: 51.28, longitude: 4.33 }));
+    await detector.observe(report(20 * 60 + 20, { latitude: 51.28, longitude: 4.33 }));
+    await detector.observe(report(40 * 60, { latitude: 51.28, longitude: 4.33 }));
+
+    expect(repository.openPortCall).toHaveBeenCalledTimes(2);
+    expect(repository.closePortCall).toHaveBeenLastCalledWith(
+      2,
+      new Date(START + (20 * 60 + 20) * MINUTE),
+      'berth'
+    );
+  });
+
+  it('should retry a call that could not be recorded', async () => {
+    repository.openPortCall.mockRejectedValueOnce(new DatabaseError('Failed to open port call'));
+
+    await detector.observe(report(0, { latitude: 51.28, longitude: 4.33 }));
+    await expect(
+      detector.observe(report(20, { latitude: 51.28, longitude: 4.33 }))
+    ).rejects.toThrow(DatabaseError);
+    await detector.observe(report(25, { latitude: 51.28, longitude: 4.33 }));
+
+    expect(repository.openPortCall).toHaveBeenCalledTimes(2);
+    expect(repository.openPortCall).toHaveBeenLastCalledWith(
+      '244670316',
+      'BEANR',
+      new Date(START),
+      'berth'
+    );
+  });
+});
@@ -0,0 +1,339 @@
+import { EventEmitter } from 'events';
+import { BoundingBox, Port, PortCall, PortCallType, PositionReport } from '../types';
+import { PortRepository } from '../repositories/PortRepository';
+import {
+  areaBounds,
+  distanceNm,
+  isInBoundingBox,
+  isPointInArea,
+  normalizeLongitude,
+} from '../utils';
+
+/**
+ * Configuration options for PortCallDetector
+ */
+export interface PortCallDetectorConfig {
+  /** Time a vessel must stay in a port area before the call is recorded (default: 15 minutes) */
+  minDwellMs?: number;
+  /** Vessels at or below this speed are stationary, i.e. at berth or at anchor (default: 0.5 knots) */
+  stationarySpeedKnots?: number;
+  /** A visit without reports inside the port area for this long is closed (default: 12 hours) */
+  staleVisitMs?: number;
+  /** Interval between checks for stale visits once started (default: 10 minutes) */
+  sweepIntervalMs?: number;
+}
+
+/**
+ * A vessel's current stay in a port area
+ */
+interface PortVisit {
+  locode: string;
+  arrival: Date;
+  lastInside: Date;
+  anchored: boolean; // Stationary while reporting "at anchor"
+  berthed: boolean; // Moored, or stationary without reporting "at anchor"
+  call: Promise<number> | null; // Id of the recorded port call, once the dwell time has passed
+}
+
+interface PortArea {
+  port: Port;
+  bounds: BoundingBox;
+}
+
+const NAV_STATUS_AT_ANCHOR = 1;
+const NAV_STATUS_MOORED = 5;
+
+// Degrees of latitude per nautical mile, for the bounds of radius ports
+const DEGREES_PER_NM = 1 / 60;
+
+/**
+ * PortCallDetector turns position reports into port calls
+ *
+ * A vessel that stays inside a port area (its polygon, or the radius around the
+ * port position) for minDwellMs gets a port call, recorded with the time of its
+ * first report inside. The call is closed with the time of its last report inside
+ * once the vessel is seen outside the area or in another port, or once it has sent
+ * no report inside for staleVisitMs. Vessels passing through a port area faster
+ * than minDwellMs get no call.
+ *
+ * Emits 'portArrival' and 'portDeparture' with the PortCall.
+ */
+export class PortCallDetector extends EventEmitter {
+  private minDwellMs: number;
+  private stationarySpeedKnots: number;
+  private staleVisitMs: number;
+  private sweepIntervalMs: number;
+
+  private ports: PortArea[] = [];
+  private visits: Map<string, PortVisit> = new Map();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(private repository: PortRepository, config: PortCallDetectorConfig = {}) {
+    super();
+    this.minDwellMs = config.minDwellMs ?? 15 * 60 * 1000;
+    this.stationarySpeedKnots = config.stationarySpeedKnots ?? 0.5;
+    this.staleVisitMs = config.staleVisitMs ?? 12 * 60 * 60 * 1000;
+    this.sweepIntervalMs = config.sweepIntervalMs ?? 10 * 60 * 1000;
+  }
+
+  /**
+   * Load the ports and resume the calls of vessels that were in port at the last shutdown
+   * Each call resumes from the vessel's latest stored report inside the port area
+   */
+  async load(): Promise<void> {
+    this.setPorts(await this.repository.getPorts());
+
+    for (const call of await this.repository.getOpenPortCalls()) {
+      this.visits.set(call.mmsi, {
+        locode: call.locode,
+        arrival: call.arrival,
+        lastInside: call.lastInside,
+        anchored: call.callType === 'anchorage',
+        berthed: call.callType === 'berth',
+        call: Promise.resolve(call.id),
+      });
+    }
+  }
+
+  /**
+   * Start periodic checks for stale visits
+   */
+  start(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      // Repository already logs the DatabaseError; the call is closed by the next sweep
+      this.closeStaleVisits().catch(() => undefined);
+    }, this.sweepIntervalMs);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Stop periodic checks for stale visits
+   */
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Close the visits of vessels without a report inside their port for staleVisitMs,
+   * with the time of their last report inside
+   * Returns the number of port calls closed
+   */
+  async closeStaleVisits(now: Date = new Date()): Promise<number> {
+    const stale = [...this.visits].filter(([, visit]) => this.isStale(visit, now));
+
+    let closed = 0;
+    for (const [mmsi, visit] of stale) {
+      if (this.visits.get(mmsi) !== visit) {
+        // Updated by a report while an earlier call was being closed
+        continue;
+      }
+      this.visits.delete(mmsi);
+      try {
+        await this.depart(mmsi, visit);
+      } catch (error) {
+        // Keep the visit so it is closed by the next sweep or report
+        this.visits.set(mmsi, visit);
+        throw error;
+      }
+      if (visit.call) {
+        closed++;
+      }
+    }
+    return closed;
+  }
+
+  /**
+   * Replace the ports whose areas are watched
+   */
+  setPorts(ports: Port[]): void {
+    this.ports = ports.map((port) => ({ port, bounds: this.portBounds(port) }));
+  }
+
+  /**
+   * Get the number of ports watched
+   */
+  getPortCount(): number {
+    return this.ports.length;
+  }
+
+  /**
+   * Find the port whose area contains a position
+   */
+  findPort(latitude: number, longitude: number): Port | null {
+    for (const { port, bounds } of this.ports) {
+      if (!isInBoundingBox(latitude, longitude, bounds)) {
+        continue;
+      }
+      if (port.area) {
+        if (isPointInArea(latitude, longitude, port.area)) {
+          return port;
+        }
+      } else if (
+        port.radiusNm !== undefined &&
+        distanceNm(latitude, longitude, port.latitude, port.longitude) <= port.radiusNm
+      ) {
+        return port;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Update a vessel's port visit with a position report
+   * Rejects with the repository's DatabaseError when a call cannot be recorded
+   */
+  async observe(position: PositionReport): Promise<void> {
+    const port = this.findPort(position.latitude, position.longitude);
+    const previous = this.visits.get(position.mmsi);
+
+    if (previous && position.timestamp < previous.lastInside) {
+      // Out-of-order report from before the latest one in port
+      return;
+    }
+
+    if (
+      previous &&
+      (previous.locode !== port?.locode || this.isStale(previous, position.timestamp))
+    ) {
+      this.visits.delete(position.mmsi);
+      try {
+        await this.depart(position.mmsi, previous);
+      } catch (error) {
+        // Keep the visit so the departure is recorded with the next report
+        this.visits.set(position.mmsi, previous);
+        throw error;
+      }
+    }
+
+    if (!port) {
+      return;
+    }
+
+    let visit = this.visits.get(position.mmsi);
+    if (!visit) {
+      visit = {
+        locode: port.locode,
+        arrival: position.timestamp,
+        lastInside: position.timestamp,
+        anchored: false,
+        berthed: false,
+        call: null,
+      };
+      this.visits.set(position.mmsi, visit);
+    }
+
+    visit.lastInside = position.timestamp;
+    this.classify(visit, position);
+
+    if (!visit.call && visit.lastInside.getTime() - visit.arrival.getTime() >= this.minDwellMs) {
+      await this.arrive(position.mmsi, visit);
+    }
+  }
+
+  /**
+   * Forget a vessel's visit without closing its call, e.g. when it is removed
+   */
+  forget(mmsi: string): void {
+    this.visits.delete(mmsi);
+  }
+
+  private isStale(visit: PortVisit, now: Date): boolean {
+    return now.getTime() - visit.lastInside.getTime() >= this.staleVisitMs;
+  }
+
+  private async arrive(mmsi: string, visit: PortVisit): Promise<void> {
+    visit.call = this.repository.openPortCall(
+      mmsi,
+      visit.locode,
+      visit.arrival,
+      this.callType(visit)
+    );
+
+    let id: number;
+    try {
+      id = await visit.call;
+    } catch (error) {
+      // Try again with the next report inside
+      visit.call = null;
+      throw error;
+    }
+
+    this.emit('portArrival', this.toPortCall(mmsi, visit, id, null));
+  }
+
+  private async depart(mmsi: string, visit: PortVisit): Promise<void> {
+    if (!visit.call) {
+      return;
+    }
+
+    const id = await visit.call;
+    await this.repository.closePortCall(id, visit.lastInside, this.callType(visit));
+    this.emit('portDeparture', this.toPortCall(mmsi, visit, id, visit.lastInside));
+  }
+
+  /**
+   * Note whether the vessel lay at anchor or alongside
+   */
+  private classify(visit: PortVisit, position: PositionReport): void {
+    if (position.navigational_status === NAV_STATUS_MOORED) {
+      visit.berthed = true;
+      return;
+    }
+    if (position.sog === undefined || position.sog > this.stationarySpeedKnots) {
+      return;
+    }
+    if (position.navigational_status === NAV_STATUS_AT_ANCHOR) {
+      visit.anchored = true;
+    } else {
+      visit.berthed = true;
+    }
+  }
+
+  /**
+   * A call is at a berth once the vessel has been alongside, even if it anchored first
+   */
+  private callType(visit: PortVisit): PortCallType | null {
+    if (visit.berthed) {
+      return 'berth';
+    }
+    return visit.anchored ? 'anchorage' : null;
+  }
+
+  private toPortCall(mmsi: string, visit: PortVisit, id: number, departure: Date | null): PortCall {
+    return {
+      id,
+      mmsi,
+      locode: visit.locode,
+      portName: this.ports.find((area) => area.port.locode === visit.locode)?.port.name,
+      arrival: visit.arrival,
+      departure,
+      durationSeconds: departure
+        ? Math.round((departure.getTime() - visit.arrival.getTime()) / 1000)
+        : null,
+      callType: this.callType(visit),
+    };
+  }
+
+  private portBounds(port: Port): BoundingBox {
+    if (port.area) {
+      return areaBounds(port.area);
+    }
+
+    const radiusNm = port.radiusNm ?? 0;
+    const latDelta = radiusNm * DEGREES_PER_NM;
+    const lonDelta = latDelta / Math.max(Math.cos((port.latitude * Math.PI) / 180), 0.01);
+    return {
+      minLat: port.latitude - latDelta,
+      maxLat: port.latitude + latDelta,
+      minLon: normalizeLongitude(port.longitude - lonDelta),
+      maxLon: normalizeLongitude(port.longitude + lonDelta),
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import { PositionEstimator } from './PositionEstimator';
+import { PositionReport } from '../types';
+import { distanceNm } from '../utils/geo';
+
+const MINUTE = 60 * 1000;
+const START = new Date('2025-12-01T00:00:00Z').getTime();
+
+function fix(
+  minutes: number,
+  latitude: number,
+  longitude: number,
+  sog = 12,
+  cog = 90
+): PositionReport {
+  return {
+    mmsi: '244670316',
+    timestamp: new Date(START + minutes * MINUTE),
+    latitude,
+    longitude,
+    sog,
+    cog,
+  };
+}
+
+const at = (minutes: number) => new Date(START + minutes * MINUTE);
+
+describe('PositionEstimator', () => {
+  let estimator: PositionEstimator;
+
+  beforeEach(() => {
+    estimator = new PositionEstimator();
+  });
+
+  it('should return a fix at exactly the requested time as observed', () => {
+    const before = fix(0, 52.0, 4.0);
+    const result = estimator.estimate(at(0), before, fix(10, 52.0, 4.1));
+
+    expect(result).toMatchObject({
+      estimated: true,
+      estimate: {
+        latitude: 52.0,
+        longitude: 4.0,
+        method: 'observed',
+        uncertaintyNm: 0,
+        nearestFixAgeSeconds: 0,
+      },
+    });
+  });
+
+  it('should interpolate along the great circle between the surrounding fixes', () => {
+    // 0.2° east along 52°N in 60 minutes is about 7.4 nm, so 7.4 knots
+    const result = estimator.estimate(at(15), fix(0, 52.0, 4.0, 7.4), fix(60, 52.0, 4.2, 7.4));
+    if (!result.estimated) throw new Error(result.message);
+    const { estimate } = result;
+
+    expect(estimate.method).toBe('interpolated');
+    expect(estimate.longitude).toBeCloseTo(4.05, 3);
+    expect(estimate.latitude).toBeCloseTo(52.0, 3);
+    expect(estimate.nearestFixAgeSeconds).toBe(900);
+    // Could have steamed off the line for a bit, but not far
+    expect(estimate.uncertaintyNm).toBeGreaterThan(0.5);
+    expect(estimate.uncertaintyNm).toBeLessThan(2);
+  });
+
+  it('should grow the uncertainty towards the middle of the gap', () => {
+    const before = fix(0, 52.0, 4.0);
+    const after = fix(60, 52.0, 4.2);
+    const uncertainty = (minutes: number) => {
+      const result = estimator.estimate(at(minutes), before, after);
+      return result.estimated ? result.estimate.uncertaintyNm : NaN;
+    };
+
+    expect(uncertainty(1)).toBeLessThan(uncertainty(10));
+    expect(uncertainty(10)).toBeLessThan(uncertainty(30));
+    // Symmetric about the middle
+    expect(uncertainty(50)).toBeCloseTo(uncertainty(10), 6);
+  });
+
+  it('should follow the reported courses with dead reckoning', () => {
+    // Rounding a headland: heading north, then east, 12 knots
+    const before = fix(0, 52.0, 4.0, 12, 0);
+    const after = fix(20, 52.1, 4.16, 12, 90);
+    const straight = estimator.estimate(at(10), before, after);
+    const reckoned = estimator.estimate(at(10), before, after, { deadReckoning: true });
+    if (!straight.estimated || !reckoned.estimated) throw new Error('expected estimates');
+
+    expect(reckoned.estimate.method).toBe('dead_reckoning');
+    // The reckoned position lies north-west of the chord, towards the corner at 52.1°N 4.0°E
+    expect(reckoned.estimate.latitude).toBeGreaterThan(straight.estimate.latitude);
+    expect(reckoned.estimate.longitude).toBeLessThan(straight.estimate.longitude);
+  });
+
+  it('should dead reckon past the latest fix only when asked and only briefly', () => {
+    const before = fix(0, 52.0, 4.0, 12, 0);
+
+    expect(estimator.estimate(at(10), before, null)).toMatchObject({
+      estimated: false,
+      reason: 'gap_too_large',
+    });
+
+    const result = estimator.estimate(at(10), before, null, { deadReckoning: true });
+    if (!result.estimated) throw new Error(result.message);
+    // 2 nm north in 10 minutes at 12 knots
+    expect(distanceNm(52.0, 4.0, result.estimate.latitude, result.estimate.longitude)).toBeCloseTo(
+      2,
+      3
+    );
+    expect(result.estimate.longitude).toBeCloseTo(4.0, 6);
+    expect(result.estimate.uncertaintyNm).toBeCloseTo(((12 * 0.2 + 0.5) * 10) / 60, 6);
+
+    expect(estimator.estimate(at(45), before, null, { deadReckoning: true }).estimated).toBe(false);
+  });
+
+  it('should refuse when there are no fixes or they are too far apart', () => {
+    expect(estimator.estimate(at(10), null, null)).toMatchObject({
+      estimated: false,
+      reason: 'no_data',
+    });
+
+    const result = estimator.estimate(at(90), fix(0, 52.0, 4.0), fix(180, 52.0, 5.0));
+    expect(result).toMatchObject({ estimated: false, reason: 'gap_too_large', gapSeconds: 10800 });
+
+    expect(
+      estimator.estimate(at(90), fix(0, 52.0, 4.0), fix(180, 52.0, 5.0), { maxGapMs: 240 * MINUTE })
+        .estimated
+    ).toBe(true);
+  });
+});
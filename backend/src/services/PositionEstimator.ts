@@ -0,0 +1,273 @@
+import { PositionEstimate, PositionReport } from '../types';
+import { destinationPoint, distanceNm, interpolateGreatCircle } from '../utils/geo';
+
+/**
+ * Why no position could be estimated
+ * - 'no_data': no fix within maxGapMs of the requested time
+ * - 'gap_too_large': the fixes around the requested time are too far apart to interpolate
+ */
+export type PositionEstimateRefusalReason = 'no_data' | 'gap_too_large';
+
+/**
+ * Configuration options for PositionEstimator
+ */
+export interface PositionEstimatorConfig {
+  /** Fixes further apart than this are not interpolated between (default: 2 hours) */
+  maxGapMs?: number;
+  /** Dead reckon from a single fix at most this far ahead or back (default: 30 minutes) */
+  maxDeadReckoningMs?: number;
+  /** Speed assumed above the highest known speed when bounding the uncertainty (default: 1.2) */
+  speedFactor?: number;
+}
+
+export interface PositionEstimateOptions {
+  /** Follow the fixes' course and speed over ground instead of the great circle between them */
+  deadReckoning?: boolean;
+  /** Overrides the configured maxGapMs */
+  maxGapMs?: number;
+}
+
+/**
+ * Outcome of a position estimate
+ */
+export type PositionEstimateResult =
+  | { estimated: true; estimate: PositionEstimate }
+  | {
+      estimated: false;
+      reason: PositionEstimateRefusalReason;
+      message: string;
+      gapSeconds?: number;
+    };
+
+// Speed over ground of 102.3 knots and above means "not available", as does course 360
+const SOG_NOT_AVAILABLE = 102.3;
+const COG_NOT_AVAILABLE = 360;
+
+// Dead reckoning error: a share of the distance run, plus drift from current and wind
+const DEAD_RECKONING_ERROR_FRACTION = 0.2;
+const DEAD_RECKONING_DRIFT_KNOTS = 0.5;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function hasMotion(fix: PositionReport): boolean {
+  return (
+    fix.sog !== undefined &&
+    fix.sog < SOG_NOT_AVAILABLE &&
+    fix.cog !== undefined &&
+    fix.cog < COG_NOT_AVAILABLE
+  );
+}
+
+/**
+ * Where a fix's course and speed over ground take it after elapsedMs
+ * Negative elapsedMs reckons backwards
+ */
+function deadReckon(
+  fix: PositionReport,
+  elapsedMs: number
+): { latitude: number; longitude: number } {
+  const distance = ((fix.sog ?? 0) * Math.abs(elapsedMs)) / HOUR_MS;
+  const bearing = elapsedMs >= 0 ? fix.cog ?? 0 : (fix.cog ?? 0) + 180;
+  return destinationPoint(fix.latitude, fix.longitude, bearing, distance);
+}
+
+/**
+ * PositionEstimator estimates where a vessel was at a given time from the fixes around it
+ *
+ * Between two fixes at most maxGapMs apart the position is interpolated along the
+ * great circle joining them or, with dead reckoning, blended from the courses and
+ * speeds the vessel reported at both fixes. The uncertainty radius is half the
+ * width of the region the vessel can have reached from both fixes at the highest
+ * known speed, so it is zero at the fixes and largest halfway between them.
+ *
+ * With dead reckoning, a time within maxDeadReckoningMs of a single fix (e.g.
+ * after the vessel's latest report) is reckoned from that fix alone.
+ */
+export class PositionEstimator {
+  private maxGapMs: number;
+  private maxDeadReckoningMs: number;
+  private speedFactor: number;
+
+  constructor(config: PositionEstimatorConfig = {}) {
+    this.maxGapMs = config.maxGapMs ?? 2 * HOUR_MS;
+    this.maxDeadReckoningMs = config.maxDeadReckoningMs ?? 30 * 60 * 1000;
+    this.speedFactor = config.speedFactor ?? 1.2;
+  }
+
+  /**
+   * Fixes further apart than this are not interpolated between
+   * Also how far from the requested time to look for fixes
+   */
+  getMaxGapMs(): number {
+    return this.maxGapMs;
+  }
+
+  /**
+   * Estimate the position at a time
+   *
+   * @param time - Time to estimate the position at
+   * @param before - Latest fix at or before time, if any
+   * @param after - Earliest fix after time, if any
+   */
+  estimate(
+    time: Date,
+    before: PositionReport | null,
+    after: PositionReport | null,
+    options: PositionEstimateOptions = {}
+  ): PositionEstimateResult {
+    const maxGapMs = options.maxGapMs ?? this.maxGapMs;
+    const at = time.getTime();
+    const sinceBefore = before ? at - before.timestamp.getTime() : Infinity;
+    const untilAfter = after ? after.timestamp.getTime() - at : Infinity;
+
+    if (before && sinceBefore === 0) {
+      return this.result(time, before, after, 'observed', before, 0);
+    }
+
+    if (before && after && sinceBefore + untilAfter <= maxGapMs) {
+      return this.interpolate(time, before, after, options.deadReckoning ?? false);
+    }
+
+    // No fix on one side, or the fixes are too far apart: reckon from the nearer fix
+    const nearest = sinceBefore <= untilAfter ? before : after;
+    const elapsedMs = sinceBefore <= untilAfter ? sinceBefore : -untilAfter;
+    if (
+      nearest &&
+      options.deadReckoning &&
+      Math.abs(elapsedMs) <= this.maxDeadReckoningMs &&
+      hasMotion(nearest)
+    ) {
+      const hours = Math.abs(elapsedMs) / HOUR_MS;
+      const uncertaintyNm =
+        ((nearest.sog ?? 0) * DEAD_RECKONING_ERROR_FRACTION + DEAD_RECKONING_DRIFT_KNOTS) * hours;
+      return this.result(
+        time,
+        before,
+        after,
+        'dead_reckoning',
+        deadReckon(nearest, elapsedMs),
+        uncertaintyNm
+      );
+    }
+
+    if (!before && !after) {
+      return {
+        estimated: false,
+        reason: 'no_data',
+        message: `No position reports within ${Math.round(
+          maxGapMs / 60000
+        )} minutes of ${time.toISOString()}`,
+      };
+    }
+
+    if (before && after) {
+      const gapSeconds = (after.timestamp.getTime() - before.timestamp.getTime()) / 1000;
+      return {
+        estimated: false,
+        reason: 'gap_too_large',
+        message:
+          `Position reports around ${time.toISOString()} are ${Math.round(
+            gapSeconds / 60
+          )} minutes apart, ` +
+          `more than the ${Math.round(maxGapMs / 60000)} minutes that can be interpolated`,
+        gapSeconds,
+      };
+    }
+
+    return {
+      estimated: false,
+      reason: 'gap_too_large',
+      message: before
+        ? `No position report after ${time.toISOString()} to interpolate to`
+        : `No position report before ${time.toISOString()} to interpolate from`,
+    };
+  }
+
+  private interpolate(
+    time: Date,
+    before: PositionReport,
+    after: PositionReport,
+    deadReckoning: boolean
+  ): PositionEstimateResult {
+    const sinceBefore = time.getTime() - before.timestamp.getTime();
+    const untilAfter = after.timestamp.getTime() - time.getTime();
+    const fraction = sinceBefore / (sinceBefore + untilAfter);
+
+    const legNm = distanceNm(before.latitude, before.longitude, after.latitude, after.longitude);
+    const knownSpeeds = [legNm / ((sinceBefore + untilAfter) / HOUR_MS)];
+    for (const fix of [before, after]) {
+      if (fix.sog !== undefined && fix.sog < SOG_NOT_AVAILABLE) {
+        knownSpeeds.push(fix.sog);
+      }
+    }
+    const speedKnots = Math.max(...knownSpeeds) * this.speedFactor;
+    const uncertaintyNm = lensHalfWidth(
+      legNm,
+      (speedKnots * sinceBefore) / HOUR_MS,
+      (speedKnots * untilAfter) / HOUR_MS
+    );
+
+    if (deadReckoning && hasMotion(before) && hasMotion(after)) {
+      // Reckon forward from the earlier fix and back from the later one, trusting the nearer more
+      const fromBefore = deadReckon(before, sinceBefore);
+      const fromAfter = deadReckon(after, -untilAfter);
+      const position = interpolateGreatCircle(
+        fromBefore.latitude,
+        fromBefore.longitude,
+        fromAfter.latitude,
+        fromAfter.longitude,
+        fraction
+      );
+      return this.result(time, before, after, 'dead_reckoning', position, uncertaintyNm);
+    }
+
+    const position = interpolateGreatCircle(
+      before.latitude,
+      before.longitude,
+      after.latitude,
+      after.longitude,
+      fraction
+    );
+    return this.result(time, before, after, 'interpolated', position, uncertaintyNm);
+  }
+
+  private result(
+    time: Date,
+    before: PositionReport | null,
+    after: PositionReport | null,
+    method: PositionEstimate['method'],
+    position: { latitude: number; longitude: number },
+    uncertaintyNm: number
+  ): PositionEstimateResult {
+    const ages = [before, after]
+      .filter((fix): fix is PositionReport => fix !== null)
+      .map((fix) => Math.abs(time.getTime() - fix.timestamp.getTime()));
+
+    return {
+      estimated: true,
+      estimate: {
+        time,
+        latitude: position.latitude,
+        longitude: position.longitude,
+        method,
+        uncertaintyNm,
+        nearestFixAgeSeconds: Math.min(...ages) / 1000,
+        before,
+        after,
+      },
+    };
+  }
+}
+
+/**
+ * Half the width of the overlap of two circles whose centres are distance apart
+ * The circles always overlap here, as the vessel got from one centre to the other
+ */
+function lensHalfWidth(distance: number, radius1: number, radius2: number): number {
+  if (Math.abs(radius1 - radius2) >= distance) {
+    // One circle lies inside the other
+    return Math.min(radius1, radius2);
+  }
+  const along = (distance * distance + radius1 * radius1 - radius2 * radius2) / (2 * distance);
+  return Math.sqrt(Math.max(0, radius1 * radius1 - along * along));
+}
@@ -0,0 +1,147 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PositionSpool } from './PositionSpool';
+import { PositionReport } from '../types';
+
+function batch(mmsi: string, count: number): PositionReport[] {
+  return Array.from({ length: count }, (_, i) => ({
+    mmsi,
+    timestamp: new Date(Date.UTC(2025, 11, 1, 10, i)),
+    latitude: 51.9,
+    longitude: 4.05,
+  }));
+}
+
+describe('PositionSpool', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ais-spool-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should replay batches in order and delete replayed segments', async () => {
+    const spool = new PositionSpool({ directory, maxSegmentBytes: 100 });
+    await spool.open();
+
+    await spool.append(batch('244670316', 2));
+    await spool.append(batch('366053209', 1));
+    await spool.append(batch('636012345', 3));
+    expect(spool.getStatus()).toMatchObject({ depth: 6, segments: 3 });
+
+    const replayed: PositionReport[][] = [];
+    const count = await spool.replay(async (positions) => {
+      replayed.push(positions);
+    });
+
+    expect(count).toBe(6);
+    expect(replayed.map((positions) => positions[0].mmsi)).toEqual([
+      '244670316',
+      '366053209',
+      '636012345',
+    ]);
+    expect(replayed[0][1].timestamp).toEqual(new Date(Date.UTC(2025, 11, 1, 10, 1)));
+    expect(spool.hasData()).toBe(false);
+    expect(fs.readdirSync(directory)).toEqual([]);
+  });
+
+  it('should resume at the failed batch after a replay error', async () => {
+    const spool = new PositionSpool({ directory });
+    await spool.open();
+    await spool.append(batch('244670316', 1));
+    await spool.append(batch('366053209', 1));
+
+    const handled: string[] = [];
+    const failing = jest
+      .fn()
+      .mockImplementationOnce(async (positions: PositionReport[]) => {
+        handled.push(positions[0].mmsi);
+      })
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED 127.0.0.1:5432'));
+
+    await expect(spool.replay(failing)).rejects.toThrow('ECONNREFUSED');
+    expect(spool.getDepth()).toBe(1);
+
+    await spool.replay(async (positions) => {
+      handled.push(positions[0].mmsi);
+    });
+    expect(handled).toEqual(['244670316', '366053209']);
+  });
+
+  it('should recover segments left by a previous run', async () => {
+    const first = new PositionSpool({ directory });
+    await first.open();
+    await first.append(batch('244670316', 2));
+
+    const second = new PositionSpool({ directory });
+    await second.open();
+    expect(second.getStatus()).toMatchObject({ depth: 2, segments: 1 });
+    expect(second.getStatus().oldestAgeSeconds).not.toBeNull();
+
+    // New batches go to a new segment after the recovered one
+    await second.append(batch('366053209', 1));
+    const replayed: string[] = [];
+    await second.replay(async (positions) => {
+      replayed.push(positions[0].mmsi);
+    });
+    expect(replayed).toEqual(['244670316', '366053209']);
+  });
+
+  it('should drop the oldest segments when full with drop_oldest', async () => {
+    const spool = new PositionSpool({ directory, maxSegmentBytes: 150, maxTotalBytes: 400 });
+    await spool.open();
+
+    for (let i = 0; i < 5; i++) {
+      await spool.append(batch(`24467031${i}`, 1));
+    }
+
+    const status = spool.getStatus();
+    expect(status.bytes).toBeLessThanOrEqual(400);
+    expect(status.droppedPositions).toBeGreaterThan(0);
+
+    const replayed: string[] = [];
+    await spool.replay(async (positions) => {
+      replayed.push(positions[0].mmsi);
+    });
+    expect(replayed[replayed.length - 1]).toBe('244670314');
+    expect(replayed).not.toContain('244670310');
+  });
+
+  it('should drop a batch larger than maxTotalBytes with drop_oldest', async () => {
+    const spool = new PositionSpool({ directory, maxTotalBytes: 300 });
+    await spool.open();
+
+    expect(await spool.append(batch('244670316', 1))).toBe(true);
+    expect(await spool.append(batch('366053209', 10))).toBe(false);
+
+    expect(spool.getStatus()).toMatchObject({ depth: 1, droppedPositions: 10 });
+  });
+
+  it('should refuse new batches when full with drop_newest', async () => {
+    const spool = new PositionSpool({
+      directory,
+      maxTotalBytes: 300,
+      overflowPolicy: 'drop_newest',
+    });
+    await spool.open();
+
+    const results: boolean[] = [];
+    for (let i = 0; i < 5; i++) {
+      results.push(await spool.append(batch(`24467031${i}`, 1)));
+    }
+
+    expect(results[0]).toBe(true);
+    expect(results[results.length - 1]).toBe(false);
+    expect(spool.getStatus().droppedPositions).toBe(results.filter((ok) => !ok).length);
+
+    const replayed: string[] = [];
+    await spool.replay(async (positions) => {
+      replayed.push(positions[0].mmsi);
+    });
+    expect(replayed[0]).toBe('244670310');
+  });
+});
@@ -0,0 +1,351 @@
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { PositionReport } from '../types';
+import { createComponentLogger } from '../utils';
+
+/**
+ * What to do when the spool reaches its size limit
+ * - drop_oldest: delete the oldest segments to make room (keeps the most recent data)
+ * - drop_newest: refuse new batches until replay frees space (keeps the oldest data)
+ */
+export type SpoolOverflowPolicy = 'drop_oldest' | 'drop_newest';
+
+export const SPOOL_OVERFLOW_POLICIES: SpoolOverflowPolicy[] = ['drop_oldest', 'drop_newest'];
+
+/**
+ * Configuration options for PositionSpool
+ */
+export interface PositionSpoolConfig {
+  /** Directory segment files are written to */
+  directory: string;
+  /** Start a new segment after this many bytes (default: 16 MB) */
+  maxSegmentBytes?: number;
+  /** Total size limit across all segments (default: 1 GB) */
+  maxTotalBytes?: number;
+  /** Policy applied when maxTotalBytes is reached (default: drop_oldest) */
+  overflowPolicy?: SpoolOverflowPolicy;
+}
+
+/**
+ * Spool status for the health endpoint
+ */
+export interface SpoolStatus {
+  directory: string;
+  depth: number;
+  bytes: number;
+  segments: number;
+  oldestSpooledAt: Date | null;
+  oldestAgeSeconds: number | null;
+  droppedPositions: number;
+  overflowPolicy: SpoolOverflowPolicy;
+  maxTotalBytes: number;
+}
+
+/**
+ * A segment file and what it holds
+ * replayedLines counts batches already handed to the replay handler, so a retry
+ * after a failed replay resumes where it stopped
+ */
+interface Segment {
+  name: string;
+  bytes: number;
+  positions: number;
+  firstSpooledAt: Date | null;
+  replayedLines: number;
+}
+
+/**
+ * One spooled batch, stored as a single JSON line
+ */
+interface SpoolEntry {
+  spooledAt: string;
+  positions: PositionReport[];
+}
+
+const SEGMENT_PATTERN = /^segment-(\d{12})\.jsonl$/;
+
+function segmentName(sequence: number): string {
+  return `segment-${String(sequence).padStart(12, '0')}.jsonl`;
+}
+
+/**
+ * Parse one spool line, restoring Date timestamps; returns null for a torn write
+ */
+function parseEntry(line: string): SpoolEntry | null {
+  try {
+    const entry = JSON.parse(line) as SpoolEntry;
+    entry.positions = entry.positions.map((position) => ({
+      ...position,
+      timestamp: new Date(position.timestamp),
+    }));
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * PositionSpool is a disk-backed FIFO of position batches for database outages
+ *
+ * Batches are appended as JSON lines to numbered, append-only segment files.
+ * Replay hands batches back oldest first and deletes each segment once all of its
+ * batches were handled. Segments left behind by a previous run are picked up on open.
+ */
+export class PositionSpool extends EventEmitter {
+  private directory: string;
+  private maxSegmentBytes: number;
+  private maxTotalBytes: number;
+  private overflowPolicy: SpoolOverflowPolicy;
+
+  private segments: Segment[] = [];
+  private activeSegment: Segment | null = null;
+  private replayingSegment: Segment | null = null;
+  private nextSequence = 1;
+  private droppedPositions = 0;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  private logger = createComponentLogger('PositionSpool');
+
+  constructor(config: PositionSpoolConfig) {
+    super();
+    this.directory = config.directory;
+    this.maxTotalBytes = config.maxTotalBytes || 1024 * 1024 * 1024;
+    this.maxSegmentBytes = Math.min(config.maxSegmentBytes || 16 * 1024 * 1024, this.maxTotalBytes);
+    this.overflowPolicy = config.overflowPolicy || 'drop_oldest';
+  }
+
+  /**
+   * Create the spool directory and recover segments left by a previous run
+   */
+  async open(): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const names: string[] = [];
+    let lastSequence = 0;
+    for (const name of (await fs.promises.readdir(this.directory)).sort()) {
+      const match = SEGMENT_PATTERN.exec(name);
+      if (match) {
+        names.push(name);
+        lastSequence = parseInt(match[1], 10);
+      }
+    }
+
+    this.segments = [];
+    for (const name of names) {
+      const content = await fs.promises.readFile(path.join(this.directory, name), 'utf8');
+      const segment: Segment = {
+        name,
+        bytes: Buffer.byteLength(content),
+        positions: 0,
+        firstSpooledAt: null,
+        replayedLines: 0,
+      };
+      for (const line of content.split('\n')) {
+        const entry = line ? parseEntry(line) : null;
+        if (entry) {
+          segment.positions += entry.positions.length;
+          segment.firstSpooledAt = segment.firstSpooledAt || new Date(entry.spooledAt);
+        }
+      }
+      this.segments.push(segment);
+    }
+
+    this.nextSequence = lastSequence + 1;
+    this.activeSegment = null;
+
+    if (this.segments.length > 0) {
+      this.logger.info('Recovered spooled positions', {
+        directory: this.directory,
+        segments: this.segments.length,
+        positions: this.getDepth(),
+      });
+    }
+  }
+
+  /**
+   * Append a batch to the newest segment
+   * Returns false when the batch was dropped because it does not fit within maxTotalBytes
+   */
+  async append(positions: PositionReport[]): Promise<boolean> {
+    if (positions.length === 0) {
+      return true;
+    }
+
+    return this.exclusive(async () => {
+      const entry: SpoolEntry = { spooledAt: new Date().toISOString(), positions };
+      const line = JSON.stringify(entry) + '\n';
+      const bytes = Buffer.byteLength(line);
+
+      if (!(await this.makeRoom(bytes, positions.length))) {
+        return false;
+      }
+
+      if (!this.activeSegment || this.activeSegment.bytes >= this.maxSegmentBytes) {
+        this.activeSegment = {
+          name: segmentName(this.nextSequence++),
+          bytes: 0,
+          positions: 0,
+          firstSpooledAt: null,
+          replayedLines: 0,
+        };
+        this.segments.push(this.activeSegment);
+      }
+
+      const segment = this.activeSegment;
+      await fs.promises.appendFile(path.join(this.directory, segment.name), line);
+      segment.bytes += bytes;
+      segment.positions += positions.length;
+      segment.firstSpooledAt = segment.firstSpooledAt || new Date(entry.spooledAt);
+
+      this.emit('spooled', { count: positions.length, depth: this.getDepth() });
+      return true;
+    });
+  }
+
+  /**
+   * Hand spooled batches to the handler in the order they were spooled
+   * Each segment is deleted once all of its batches were handled. A handler error stops
+   * the replay and is rethrown; the next replay resumes at the failed batch.
+   * Returns the number of positions replayed
+   */
+  async replay(handler: (positions: PositionReport[]) => Promise<void>): Promise<number> {
+    let replayed = 0;
+
+    for (;;) {
+      // Seal the segment being written so appends during replay go to a new one
+      const segment = await this.exclusive(async () => {
+        const oldest = this.segments[0] || null;
+        if (oldest && oldest === this.activeSegment) {
+          this.activeSegment = null;
+        }
+        this.replayingSegment = oldest;
+        return oldest;
+      });
+      if (!segment) {
+        return replayed;
+      }
+
+      try {
+        const content = await fs.promises.readFile(path.join(this.directory, segment.name), 'utf8');
+        const lines = content.split('\n').filter((line) => line.length > 0);
+
+        for (let i = segment.replayedLines; i < lines.length; i++) {
+          const entry = parseEntry(lines[i]);
+          if (!entry) {
+            this.logger.warn('Skipping unreadable spool entry', { segment: segment.name, line: i });
+          } else {
+            await handler(entry.positions);
+            replayed += entry.positions.length;
+            segment.positions -= entry.positions.length;
+          }
+          segment.replayedLines = i + 1;
+        }
+      } finally {
+        this.replayingSegment = null;
+      }
+
+      await this.exclusive(async () => {
+        await fs.promises.rm(path.join(this.directory, segment.name), { force: true });
+        this.segments = this.segments.filter((s) => s !== segment);
+      });
+      this.emit('segmentReplayed', { segment: segment.name, depth: this.getDepth() });
+    }
+  }
+
+  /**
+   * Check if the spool holds positions that have not been replayed yet
+   */
+  hasData(): boolean {
+    return this.segments.length > 0;
+  }
+
+  /**
+   * Number of positions waiting in the spool
+   */
+  getDepth(): number {
+    return this.segments.reduce((sum, segment) => sum + segment.positions, 0);
+  }
+
+  /**
+   * Get spool status
+   */
+  getStatus(): SpoolStatus {
+    const oldestSpooledAt = this.segments.find((s) => s.firstSpooledAt)?.firstSpooledAt || null;
+    return {
+      directory: this.directory,
+      depth: this.getDepth(),
+      bytes: this.getTotalBytes(),
+      segments: this.segments.length,
+      oldestSpooledAt,
+      oldestAgeSeconds: oldestSpooledAt
+        ? Math.round((Date.now() - oldestSpooledAt.getTime()) / 1000)
+        : null,
+      droppedPositions: this.droppedPositions,
+      overflowPolicy: this.overflowPolicy,
+      maxTotalBytes: this.maxTotalBytes,
+    };
+  }
+
+  private getTotalBytes(): number {
+    return this.segments.reduce((sum, segment) => sum + segment.bytes, 0);
+  }
+
+  /**
+   * Apply the overflow policy so that `bytes` more fit within maxTotalBytes
+   * The segment being replayed is never deleted. Returns false, counting the batch as
+   * dropped, when the batch does not fit
+   */
+  private async makeRoom(bytes: number, positions: number): Promise<boolean> {
+    if (this.getTotalBytes() + bytes <= this.maxTotalBytes) {
+      return true;
+    }
+
+    if (this.overflowPolicy === 'drop_newest' || bytes > this.maxTotalBytes) {
+      this.droppedPositions += positions;
+      this.logger.warn('Spool full, dropping new positions', { count: positions });
+      this.emit('overflow', { policy: this.overflowPolicy, droppedPositions: positions });
+      return false;
+    }
+
+    let dropped = 0;
+    for (const segment of [...this.segments]) {
+      if (this.getTotalBytes() + bytes <= this.maxTotalBytes) {
+        break;
+      }
+      if (segment === this.replayingSegment) {
+        continue;
+      }
+
+      await fs.promises.rm(path.join(this.directory, segment.name), { force: true });
+      this.segments = this.segments.filter((s) => s !== segment);
+      if (segment === this.activeSegment) {
+        this.activeSegment = null;
+      }
+      dropped += segment.positions;
+    }
+
+    // Only the segment being replayed is left and it leaves no room
+    const fits = this.getTotalBytes() + bytes <= this.maxTotalBytes;
+    if (!fits) {
+      dropped += positions;
+    }
+
+    this.droppedPositions += dropped;
+    this.logger.warn('Spool full, dropped oldest positions', {
+      count: dropped,
+      batchDropped: !fits,
+    });
+    this.emit('overflow', { policy: this.overflowPolicy, droppedPositions: dropped });
+    return fits;
+  }
+
+  /**
+   * Run segment bookkeeping one operation at a time
+   */
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(operation);
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,127 @@
+import { ReconnectPolicy } from './ReconnectPolicy';
+
+describe('ReconnectPolicy', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should back off exponentially up to the cap', () => {
+    const policy = new ReconnectPolicy({ initialDelayMs: 1000, maxDelayMs: 5000, jitter: 0 });
+
+    const delays = [1, 2, 3, 4, 5].map(() => policy.nextDelay());
+
+    expect(delays).toEqual([1000, 2000, 4000, 5000, 5000]);
+    expect(policy.getState().attempts).toBe(5);
+  });
+
+  it('should remove up to the jitter fraction of each delay', () => {
+    const policy = new ReconnectPolicy({ initialDelayMs: 1000, jitter: 0.5, random: () => 0.5 });
+
+    expect(policy.nextDelay()).toBe(750);
+  });
+
+  it('should retry forever by default and stop after maxAttempts when set', () => {
+    const unlimited = new ReconnectPolicy({ maxDelayMs: 10 });
+    for (let i = 0; i < 100; i++) {
+      expect(unlimited.nextDelay()).not.toBeNull();
+    }
+
+    const limited = new ReconnectPolicy({ maxAttempts: 2 });
+    expect(limited.nextDelay()).not.toBeNull();
+    expect(limited.nextDelay()).not.toBeNull();
+    expect(limited.nextDelay()).toBeNull();
+    expect(limited.getState().exhausted).toBe(true);
+  });
+
+  it('should start backoff over once a connection stays up', () => {
+    jest.useFakeTimers();
+    const policy = new ReconnectPolicy({
+      initialDelayMs: 1000,
+      jitter: 0,
+      stableConnectionMs: 10000,
+    });
+    policy.nextDelay();
+    policy.nextDelay();
+
+    policy.recordConnected();
+    jest.advanceTimersByTime(10000);
+    policy.recordFailure('network', 'Connection closed (1006)');
+
+    expect(policy.nextDelay()).toBe(1000);
+  });
+
+  it('should keep backing off when connections close right after opening', () => {
+    jest.useFakeTimers();
+    const policy = new ReconnectPolicy({ initialDelayMs: 1000, jitter: 0 });
+
+    const delays = [1, 2, 3].map(() => {
+      policy.recordConnected();
+      jest.advanceTimersByTime(100);
+      policy.recordFailure('network', 'Connection closed (1008)');
+      return policy.nextDelay();
+    });
+
+    expect(delays).toEqual([1000, 2000, 4000]);
+  });
+
+  it('should start backoff over once the server sends data', () => {
+    const policy = new ReconnectPolicy({ initialDelayMs: 1000, jitter: 0 });
+    policy.nextDelay();
+    policy.nextDelay();
+
+    policy.recordConnected();
+    policy.recordAuthenticated();
+
+    expect(policy.nextDelay()).toBe(1000);
+  });
+
+  it('should not open the circuit for network failures', () => {
+    const policy = new ReconnectPolicy({ authFailureThreshold: 2 });
+
+    for (let i = 0; i < 5; i++) {
+      policy.recordFailure('network', 'ECONNREFUSED');
+    }
+
+    expect(policy.getState()).toMatchObject({
+      circuit: 'closed',
+      lastFailure: 'network',
+      lastFailureReason: 'ECONNREFUSED',
+    });
+  });
+
+  it('should open the circuit after repeated auth failures and wait before a half-open trial', () => {
+    jest.useFakeTimers({ now: new Date('2025-12-01T10:00:00Z') });
+    const policy = new ReconnectPolicy({ authFailureThreshold: 2, circuitOpenMs: 60000 });
+
+    policy.recordFailure('auth', 'Api Key Is Not Valid');
+    expect(policy.getState().circuit).toBe('closed');
+    policy.recordFailure('auth', 'Api Key Is Not Valid');
+
+    expect(policy.getState().circuit).toBe('open');
+    expect(policy.nextDelay()).toBe(60000);
+
+    jest.advanceTimersByTime(60000);
+    policy.beginAttempt();
+    expect(policy.getState().circuit).toBe('half-open');
+  });
+
+  it('should reopen on a failed half-open trial and close once authenticated', () => {
+    jest.useFakeTimers({ now: new Date('2025-12-01T10:00:00Z') });
+    const policy = new ReconnectPolicy({ authFailureThreshold: 1, circuitOpenMs: 1000 });
+
+    policy.recordFailure('auth', 'rejected');
+    jest.advanceTimersByTime(1000);
+    policy.beginAttempt();
+    policy.recordFailure('auth', 'rejected');
+    expect(policy.getState().circuit).toBe('open');
+
+    jest.advanceTimersByTime(1000);
+    policy.beginAttempt();
+    policy.recordAuthenticated();
+    expect(policy.getState()).toMatchObject({
+      circuit: 'closed',
+      consecutiveAuthFailures: 0,
+      circuitOpenUntil: null,
+    });
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Why a connection attempt or connection failed
+ * - 'auth': the server rejected the API key or subscription
+ * - 'network': anything else (refused, dropped, timed out)
+ */
+export type ReconnectFailureKind = 'auth' | 'network';
+
+/**
+ * Circuit breaker state
+ * - 'closed': reconnecting normally with backoff
+ * - 'open': authentication keeps failing; reconnects are paused until circuitOpenMs passes
+ * - 'half-open': a single trial connection is in progress after the pause
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Configuration options for ReconnectPolicy
+ */
+export interface ReconnectPolicyConfig {
+  /** Delay before the first retry (default: 1000 ms) */
+  initialDelayMs?: number;
+  /** Upper bound for the backoff delay (default: 60000 ms) */
+  maxDelayMs?: number;
+  /** Backoff growth factor per attempt (default: 2) */
+  multiplier?: number;
+  /** Fraction of the delay randomly removed to spread out retries, 0-1 (default: 0.5) */
+  jitter?: number;
+  /** Give up after this many consecutive attempts; 0 retries forever (default: 0) */
+  maxAttempts?: number;
+  /** Consecutive auth failures that open the circuit (default: 3) */
+  authFailureThreshold?: number;
+  /** How long the circuit stays open before a trial connection (default: 300000 ms) */
+  circuitOpenMs?: number;
+  /** A connection that stays up this long starts network backoff over (default: 30000 ms) */
+  stableConnectionMs?: number;
+  /** Random source in [0, 1), for tests */
+  random?: () => number;
+}
+
+/**
+ * Reconnect policy state, as reported in ConnectionStatistics
+ */
+export interface ReconnectPolicyState {
+  circuit: CircuitState;
+  attempts: number;
+  consecutiveAuthFailures: number;
+  lastFailure: ReconnectFailureKind | null;
+  lastFailureReason: string | null;
+  lastFailureAt: Date | null;
+  nextAttemptAt: Date | null;
+  circuitOpenUntil: Date | null;
+  exhausted: boolean;
+}
+
+/**
+ * ReconnectPolicy decides when to retry a dropped connection
+ *
+ * Network failures back off exponentially with jitter, capped at maxDelayMs.
+ * Backoff starts over once a connection delivers data or stays up for
+ * stableConnectionMs, so a server that accepts and immediately closes connections
+ * keeps getting longer delays.
+ * Repeated authentication failures open a circuit breaker: retrying a rejected
+ * API key quickly is pointless, so reconnects pause for circuitOpenMs and then a
+ * single half-open trial decides whether to close the circuit or open it again.
+ */
+export class ReconnectPolicy {
+  private initialDelayMs: number;
+  private maxDelayMs: number;
+  private multiplier: number;
+  private jitter: number;
+  private maxAttempts: number;
+  private authFailureThreshold: number;
+  private circuitOpenMs: number;
+  private stableConnectionMs: number;
+  private random: () => number;
+
+  private circuit: CircuitState = 'closed';
+  private attempts = 0;
+  private consecutiveAuthFailures = 0;
+  private lastFailure: ReconnectFailureKind | null = null;
+  private lastFailureReason: string | null = null;
+  private lastFailureAt: Date | null = null;
+  private nextAttemptAt: Date | null = null;
+  private circuitOpenUntil: Date | null = null;
+  private connectedAt: number | null = null;
+
+  constructor(config: ReconnectPolicyConfig = {}) {
+    this.initialDelayMs = config.initialDelayMs ?? 1000;
+    this.maxDelayMs = config.maxDelayMs ?? 60000;
+    this.multiplier = config.multiplier ?? 2;
+    this.jitter = Math.min(Math.max(config.jitter ?? 0.5, 0), 1);
+    this.maxAttempts = config.maxAttempts ?? 0;
+    this.authFailureThreshold = config.authFailureThreshold ?? 3;
+    this.circuitOpenMs = config.circuitOpenMs ?? 5 * 60 * 1000;
+    this.stableConnectionMs = config.stableConnectionMs ?? 30000;
+    this.random = config.random || Math.random;
+  }
+
+  /**
+   * The connection opened; network backoff starts over if it stays up for stableConnectionMs
+   */
+  recordConnected(): void {
+    this.connectedAt = Date.now();
+    this.nextAttemptAt = null;
+  }
+
+  /**
+   * The server accepted the credentials and sent data; closes the circuit and
+   * starts network backoff over
+   */
+  recordAuthenticated(): void {
+    this.attempts = 0;
+    this.consecutiveAuthFailures = 0;
+    this.circuit = 'closed';
+    this.circuitOpenUntil = null;
+    this.nextAttemptAt = null;
+  }
+
+  /**
+   * A connection attempt or an open connection failed
+   */
+  recordFailure(kind: ReconnectFailureKind, reason: string): void {
+    this.lastFailure = kind;
+    this.lastFailureReason = reason;
+    this.lastFailureAt = new Date();
+
+    if (
+      this.connectedAt !== null &&
+      this.lastFailureAt.getTime() - this.connectedAt >= this.stableConnectionMs
+    ) {
+      this.attempts = 0;
+    }
+    this.connectedAt = null;
+
+    if (kind === 'auth') {
+      this.consecutiveAuthFailures++;
+      if (
+        this.circuit === 'half-open' ||
+        this.consecutiveAuthFailures >= this.authFailureThreshold
+      ) {
+        this.openCircuit();
+      }
+    }
+  }
+
+  /**
+   * Get the delay before the next attempt, or null once maxAttempts is exhausted
+   * While the circuit is open the delay runs until the half-open trial
+   */
+  nextDelay(): number | null {
+    if (this.isExhausted()) {
+      this.nextAttemptAt = null;
+      return null;
+    }
+
+    let delay: number;
+    if (this.circuit === 'open' && this.circuitOpenUntil) {
+      delay = Math.max(this.circuitOpenUntil.getTime() - Date.now(), 0);
+    } else {
+      const base = Math.min(
+        this.initialDelayMs * Math.pow(this.multiplier, this.attempts),
+        this.maxDelayMs
+      );
+      delay = Math.round(base * (1 - this.jitter * this.random()));
+    }
+
+    this.attempts++;
+    this.nextAttemptAt = new Date(Date.now() + delay);
+    return delay;
+  }
+
+  /**
+   * Called when a scheduled attempt starts; an expired open circuit becomes half-open
+   */
+  beginAttempt(): void {
+    this.nextAttemptAt = null;
+    if (
+      this.circuit === 'open' &&
+      this.circuitOpenUntil &&
+      Date.now() >= this.circuitOpenUntil.getTime()
+    ) {
+      this.circuit = 'half-open';
+    }
+  }
+
+  /**
+   * Forget all failures, e.g. after the configuration changed
+   */
+  reset(): void {
+    this.recordAuthenticated();
+    this.lastFailure = null;
+    this.lastFailureReason = null;
+    this.lastFailureAt = null;
+  }
+
+  /**
+   * Get the current policy state
+   */
+  getState(): ReconnectPolicyState {
+    return {
+      circuit: this.circuit,
+      attempts: this.attempts,
+      consecutiveAuthFailures: this.consecutiveAuthFailures,
+      lastFailure: this.lastFailure,
+      lastFailureReason: this.lastFailureReason,
+      lastFailureAt: this.lastFailureAt,
+      nextAttemptAt: this.nextAttemptAt,
+      circuitOpenUntil: this.circuitOpenUntil,
+      exhausted: this.isExhausted(),
+    };
+  }
+
+  private isExhausted(): boolean {
+    return this.maxAttempts > 0 && this.attempts >= this.maxAttempts;
+  }
+
+  private openCircuit(): void {
+    this.circuit = 'open';
+    this.circuitOpenUntil = new Date(Date.now() + this.circuitOpenMs);
+  }
+}
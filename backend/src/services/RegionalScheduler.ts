@@ -12,7 +12,7 @@
  */
 
 import { EventEmitter } from 'events';
-import { createComponentLogger } from '../utils';
+import { createComponentLogger, isInBoundingBox } from '../utils';
 
 /**
  * Geographic region definition
@@ -89,15 +89,10 @@ const DEFAULT_REGIONS: Region[] = [
     priority: 1,
   },
   {
-    id: 'pacific-west',
-    name: 'Pacific West',
-    bounds: { minLat: -50, maxLat: 60, minLon: 145, maxLon: 180 },
-    priority: 2,
-  },
-  {
-    id: 'pacific-east',
-    name: 'Pacific East',
-    bounds: { minLat: -50, maxLat: 60, minLon: -180, maxLon: -100 },
+    id: 'pacific',
+    name: 'Pacific',
+    // Crosses the antimeridian (minLon > maxLon)
+    bounds: { minLat: -50, maxLat: 60, minLon: 145, maxLon: -100 },
     priority: 2,
   },
   {
@@ -319,13 +314,7 @@ export class RegionalScheduler extends EventEmitter {
     const uniqueRegions = this.config.regions ?? DEFAULT_REGIONS;
 
     for (const region of uniqueRegions) {
-      const { minLat, maxLat, minLon, maxLon } = region.bounds;
-      if (
-        latitude >= minLat &&
-        latitude <= maxLat &&
-        longitude >= minLon &&
-        longitude <= maxLon
-      ) {
+      if (isInBoundingBox(latitude, longitude, region.bounds)) {
         return region;
       }
     }
@@ -0,0 +1,240 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { ReplaySource } from './ReplaySource';
+import { PositionReport } from '../types';
+import { ConfigurationError } from '../utils';
+
+const POSITION_A = '!AIVDM,1,1,,A,13aEOK?P00PD2wVMdLDRhgvL289?,0*26';
+const POSITION_B = '!AIVDM,1,1,,B,15M67FC000G?ufbE`FepT@3n00Sa,0*5C';
+
+function recorderLine(data: string, receivedAt: string): string {
+  return JSON.stringify({ receivedAt, source: 'rtl-ais', format: 'nmea', data });
+}
+
+function aisStreamMessage(mmsi: number, timeUtc: string): string {
+  return JSON.stringify({
+    MessageType: 'PositionReport',
+    MetaData: { MMSI: mmsi, latitude: 51.5, longitude: -0.1, time_utc: timeUtc },
+    Message: {
+      PositionReport: {
+        UserID: mmsi,
+        Latitude: 51.5,
+        Longitude: -0.1,
+        Sog: 12.3,
+        Cog: 90,
+        TrueHeading: 91,
+        NavigationalStatus: 0,
+        RateOfTurn: 0,
+      },
+    },
+  });
+}
+
+function collectPositions(source: ReplaySource): PositionReport[] {
+  const positions: PositionReport[] = [];
+  source.on('position', (position: PositionReport) => positions.push(position));
+  return positions;
+}
+
+function waitFor(source: ReplaySource, event: string): Promise<void> {
+  return new Promise((resolve) => source.once(event, () => resolve()));
+}
+
+describe('ReplaySource', () => {
+  let directory: string;
+  let source: ReplaySource;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ais-replay-'));
+  });
+
+  afterEach(() => {
+    source?.disconnect();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should replay recorder archives and NMEA logs from a directory in name order', async () => {
+    fs.writeFileSync(
+      path.join(directory, 'ais-2025-12-01T10-00-00-000Z.jsonl.gz'),
+      zlib.gzipSync(
+        [
+          recorderLine(POSITION_A, '2025-12-01T10:00:00.000Z'),
+          aisStreamMessage(123456789, '2025-12-01T10:00:05.000Z'),
+        ].join('\n')
+      )
+    );
+    fs.writeFileSync(path.join(directory, 'ais-2025-12-01T11.nmea'), `${POSITION_B}\n`);
+    fs.writeFileSync(path.join(directory, 'notes.md'), 'not a recording');
+
+    source = new ReplaySource('replay', { path: directory, speed: 'max', timestamps: 'preserve' });
+    const positions = collectPositions(source);
+    const finished = waitFor(source, 'finished');
+    await source.connect();
+    await finished;
+
+    expect(positions.map((position) => position.mmsi)).toEqual([
+      '244670316',
+      '123456789',
+      '366053209',
+    ]);
+    expect(positions.map((position) => position.timestamp.toISOString())).toEqual([
+      '2025-12-01T10:00:00.000Z',
+      '2025-12-01T10:00:05.000Z',
+      // Untimed lines inherit the time of the line before them
+      '2025-12-01T10:00:05.000Z',
+    ]);
+    expect(source.getReplayStatus()).toMatchObject({ state: 'finished', position: 3, total: 3 });
+  });
+
+  it('should use NMEA tag block times and shift them to now by default', async () => {
+    const file = path.join(directory, 'day.nmea');
+    fs.writeFileSync(file, `\\c:1764583200*5D\\${POSITION_A}\n`);
+
+    source = new ReplaySource('replay', { path: file, speed: 'max' });
+    const positions = collectPositions(source);
+    const finished = waitFor(source, 'finished');
+    const before = Date.now();
+    await source.connect();
+    await finished;
+
+    expect(source.getReplayStatus().startTime).toEqual(new Date(1764583200 * 1000));
+    expect(positions).toHaveLength(1);
+    expect(positions[0].timestamp.getTime()).toBeGreaterThanOrEqual(before);
+  });
+
+  it('should pace messages by their recorded spacing', async () => {
+    const file = path.join(directory, 'paced.jsonl');
+    fs.writeFileSync(
+      file,
+      [
+        recorderLine(POSITION_A, '2025-12-01T10:00:00.000Z'),
+        recorderLine(POSITION_B, '2025-12-01T10:00:10.000Z'),
+      ].join('\n')
+    );
+
+    // Streams need real ticks
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      source = new ReplaySource('replay', { path: file, speed: 10 });
+      const positions = collectPositions(source);
+      await source.connect();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(positions).toHaveLength(1);
+
+      await jest.advanceTimersByTimeAsync(900);
+      expect(positions).toHaveLength(1);
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(positions).toHaveLength(2);
+    } finally {
+      source.disconnect();
+      jest.useRealTimers();
+    }
+  });
+
+  it('should pause, seek and resume', async () => {
+    const file = path.join(directory, 'seek.jsonl');
+    fs.writeFileSync(
+      file,
+      [
+        recorderLine(POSITION_A, '2025-12-01T10:00:00.000Z'),
+        recorderLine(POSITION_B, '2025-12-01T10:01:00.000Z'),
+        recorderLine(POSITION_A, '2025-12-01T10:02:00.000Z'),
+      ].join('\n')
+    );
+
+    // Streams need real ticks
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      source = new ReplaySource('replay', { path: file });
+      const positions = collectPositions(source);
+      await source.connect();
+      await jest.advanceTimersByTimeAsync(0);
+      source.pause();
+      expect(source.getReplayStatus().state).toBe('paused');
+
+      await jest.advanceTimersByTimeAsync(120000);
+      expect(positions).toHaveLength(1);
+
+      await source.seek(new Date('2025-12-01T10:01:30.000Z'));
+      expect(source.getReplayStatus().position).toBe(2);
+
+      source.resume();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(positions.map((position) => position.mmsi)).toEqual(['244670316', '244670316']);
+      expect(source.getReplayStatus().state).toBe('finished');
+    } finally {
+      source.disconnect();
+      jest.useRealTimers();
+    }
+  });
+
+  it('should stream recordings longer than the read-ahead and seek into a later file', async () => {
+    const archiveLines = (hour: number) =>
+      Array.from({ length: 600 }, (_, i) =>
+        recorderLine(POSITION_A, new Date(Date.UTC(2025, 11, 1, hour, 0, i)).toISOString())
+      ).join('\n');
+    fs.writeFileSync(path.join(directory, 'ais-10.jsonl.gz'), zlib.gzipSync(archiveLines(10)));
+    fs.writeFileSync(path.join(directory, 'ais-11.jsonl.gz'), zlib.gzipSync(archiveLines(11)));
+
+    source = new ReplaySource('replay', { path: directory, speed: 'max' });
+    const positions = collectPositions(source);
+    const finished = waitFor(source, 'finished');
+    await source.connect();
+    await finished;
+
+    expect(positions).toHaveLength(1200);
+    expect(source.getReplayStatus()).toMatchObject({
+      position: 1200,
+      total: 1200,
+      startTime: new Date('2025-12-01T10:00:00.000Z'),
+      endTime: new Date('2025-12-01T11:09:59.000Z'),
+    });
+
+    await source.seek(new Date('2025-12-01T11:05:00.000Z'));
+    expect(source.getReplayStatus()).toMatchObject({
+      state: 'paused',
+      position: 900,
+      currentTime: new Date('2025-12-01T11:05:00.000Z'),
+    });
+
+    const replayed = waitFor(source, 'finished');
+    source.resume();
+    await replayed;
+    expect(positions).toHaveLength(1500);
+  });
+
+  it('should reject a corrupt archive', async () => {
+    fs.writeFileSync(path.join(directory, 'broken.jsonl.gz'), 'not gzip');
+    source = new ReplaySource('replay', { path: directory });
+
+    await expect(source.connect()).rejects.toThrow(ConfigurationError);
+    expect(source.isConnectionActive()).toBe(false);
+  });
+
+  it('should start over at the end when looping', async () => {
+    const file = path.join(directory, 'loop.nmea');
+    fs.writeFileSync(file, `${POSITION_A}\n`);
+
+    source = new ReplaySource('replay', { path: file, speed: 'max', loop: true });
+    const positions = collectPositions(source);
+    const looped = new Promise<void>((resolve) => {
+      source.on('looped', ({ loops }: { loops: number }) => loops === 2 && resolve());
+    });
+    await source.connect();
+    await looped;
+    source.pause();
+
+    expect(positions.length).toBeGreaterThanOrEqual(2);
+    expect(source.getReplayStatus().loops).toBe(2);
+  });
+
+  it('should reject a missing recording', async () => {
+    source = new ReplaySource('replay', { path: path.join(directory, 'missing.nmea') });
+
+    await expect(source.connect()).rejects.toThrow(ConfigurationError);
+    expect(source.isConnectionActive()).toBe(false);
+  });
+});
@@ -0,0 +1,729 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import zlib from 'zlib';
+import { EventEmitter } from 'events';
+import {
+  AidToNavigationReport,
+  BaseStationReport,
+  InvalidAisMessage,
+  PositionReport,
+  ShipStaticData,
+} from '../types';
+import { AisSource, RawAisMessageFormat } from './AisSource';
+import { ConnectionStatistics } from './AISStreamManager';
+import { AISStreamParser, parseTimeUtc } from './AISStreamParser';
+import { NMEADecoder, parseTagBlockTimestamp } from './NMEADecoder';
+import { createComponentLogger, ConfigurationError } from '../utils';
+
+/**
+ * Playback speed: a multiple of real time, or 'max' for as fast as possible
+ */
+export type ReplaySpeed = number | 'max';
+
+/**
+ * How replayed report times are set:
+ * - 'preserve': keep the recorded times
+ * - 'now': stamp each report with the time it is replayed
+ */
+export type ReplayTimestampMode = 'preserve' | 'now';
+
+export type ReplayState = 'idle' | 'playing' | 'paused' | 'finished';
+
+/**
+ * Configuration options for ReplaySource
+ */
+export interface ReplaySourceConfig {
+  /** Recorded file, or a directory whose files are replayed in name order */
+  path: string;
+  speed?: ReplaySpeed;
+  loop?: boolean;
+  timestamps?: ReplayTimestampMode;
+}
+
+/**
+ * Replay status for the API
+ */
+export interface ReplayStatus {
+  state: ReplayState;
+  path: string;
+  speed: ReplaySpeed;
+  loop: boolean;
+  timestamps: ReplayTimestampMode;
+  position: number;
+  total: number;
+  currentTime: Date | null;
+  startTime: Date | null;
+  endTime: Date | null;
+  loops: number;
+}
+
+/**
+ * A single recorded message; time is null when the recording carries none
+ */
+interface ReplayEntry {
+  time: number | null;
+  format: RawAisMessageFormat;
+  data: string;
+}
+
+/**
+ * Index entry of one recorded file, built by streaming it once on connect
+ */
+interface ReplayFile {
+  path: string;
+  start: number; // Position of the file's first message in the recording
+  count: number;
+  firstTime: number | null;
+  lastTime: number | null; // Also carried into untimed lines at the start of the next file
+}
+
+const REPLAY_FILE_PATTERN = /\.(jsonl|json|nmea|txt|log)(\.gz)?$/;
+// Messages emitted per tick when catching up, so the event loop stays responsive
+const MAX_BATCH_SIZE = 200;
+// Messages read ahead of playback
+const READ_AHEAD = 500;
+
+/**
+ * ReplaySource plays recorded AIS traffic back as if it were a live source
+ *
+ * Reads MessageRecorder archives (gzip JSON lines), plain AISStream JSON lines
+ * and NMEA logs (optionally gzipped). NMEA lines are timed by their tag block
+ * "c:" timestamp; lines without one replay together with the preceding line.
+ *
+ * Files are streamed line by line. Only a per-file index (message count and
+ * time range) and a small read-ahead buffer are kept in memory, so recordings
+ * can be larger than the heap; seeking streams the file that holds the time.
+ */
+export class ReplaySource extends EventEmitter implements AisSource {
+  readonly kind = 'replay' as const;
+  private path: string;
+  private speed: ReplaySpeed;
+  private loop: boolean;
+  private timestamps: ReplayTimestampMode;
+
+  private files: ReplayFile[] = [];
+  private total = 0;
+  // Upcoming messages; the first one is at position cursor
+  private buffer: ReplayEntry[] = [];
+  private reader: AsyncGenerator<ReplayEntry> | null = null;
+  private reading: Promise<void> | null = null;
+  private waitingForRead = false;
+  private exhausted = true;
+  // Bumped whenever the reader is replaced, so reads of an earlier reader are dropped
+  private generation = 0;
+  private cursor = 0;
+  private currentTime: number | null = null;
+  private state: ReplayState = 'idle';
+  private loops = 0;
+  private timer: NodeJS.Timeout | null = null;
+  // Wall-clock time and recording time that playback is measured from
+  private anchorWallTime = 0;
+  private anchorRecordTime = 0;
+  private anchored = false;
+  private isConnected = false;
+
+  private decoder = new NMEADecoder();
+  private parser = new AISStreamParser();
+
+  private stats: ConnectionStatistics = {
+    isConnected: false,
+    messagesReceived: 0,
+    messagesProcessed: 0,
+    errors: 0,
+    lastMessage: null,
+    reconnectAttempts: 0,
+  };
+
+  private logger = createComponentLogger('ReplaySource');
+
+  constructor(readonly name: string, config: ReplaySourceConfig) {
+    super();
+    this.path = config.path;
+    this.speed = config.speed ?? 1;
+    this.loop = config.loop ?? false;
+    this.timestamps = config.timestamps || 'now';
+
+    for (const emitter of [this.decoder, this.parser]) {
+      emitter.on('position', (position: PositionReport) => {
+        this.forward('position', position);
+      });
+      emitter.on('staticData', (staticData: ShipStaticData) => {
+        this.forward('staticData', staticData);
+      });
+      emitter.on('baseStation', (report: BaseStationReport) => {
+        this.forward('baseStation', report);
+      });
+      emitter.on('aidToNavigation', (report: AidToNavigationReport) => {
+        this.forward('aidToNavigation', report);
+      });
+      // Already logged by the decoder/parser
+      emitter.on('error', () => {
+        this.stats.errors++;
+      });
+      emitter.on('invalidMessage', (message: InvalidAisMessage) => {
+        this.emit('invalidMessage', { ...message, source: this.name });
+      });
+    }
+  }
+
+  /**
+   * Index the recording and start playing
+   */
+  async connect(): Promise<void> {
+    if (this.isConnected) {
+      return;
+    }
+
+    this.files = await this.indexFiles(await this.listFiles());
+    this.total = this.files.reduce((total, file) => total + file.count, 0);
+    this.rewind();
+    await this.fill();
+    this.loops = 0;
+    this.isConnected = true;
+    this.stats.isConnected = true;
+
+    this.logger.info('Replay loaded', {
+      source: this.name,
+      path: this.path,
+      files: this.files.length,
+      messages: this.total,
+      speed: this.speed,
+    });
+    this.emit('connected');
+    this.play();
+  }
+
+  /**
+   * Stop playback and release the recording
+   */
+  disconnect(): void {
+    this.clearTimer();
+    this.state = 'idle';
+    this.openReader(this.files.length);
+    this.files = [];
+    this.total = 0;
+    this.cursor = 0;
+    this.currentTime = null;
+    this.decoder.reset();
+
+    if (this.isConnected) {
+      this.isConnected = false;
+      this.stats.isConnected = false;
+      this.emit('disconnected', { path: this.path });
+    }
+  }
+
+  /**
+   * Pause playback at the current message
+   */
+  pause(): void {
+    if (this.state !== 'playing') {
+      return;
+    }
+    this.clearTimer();
+    this.state = 'paused';
+    this.emit('paused');
+  }
+
+  /**
+   * Resume playback after a pause, or restart after finishing
+   */
+  resume(): void {
+    if (!this.isConnected || this.state === 'playing') {
+      return;
+    }
+    if (this.state === 'finished') {
+      this.rewind();
+    }
+    this.play();
+  }
+
+  /**
+   * Jump to the first message recorded at or after the given time
+   * Streams the file holding that time up to the message
+   */
+  async seek(time: Date): Promise<void> {
+    const target = time.getTime();
+    this.clearTimer();
+
+    const index = this.files.findIndex(
+      (file) => file.count > 0 && (file.lastTime ?? -Infinity) >= target
+    );
+    const fileIndex = index === -1 ? this.files.length : index;
+    this.openReader(fileIndex);
+    this.cursor = this.files[fileIndex]?.start ?? this.total;
+    const generation = this.generation;
+
+    try {
+      for (;;) {
+        if (this.buffer.length === 0) {
+          if (this.exhausted) {
+            break;
+          }
+          await this.fill();
+          if (generation !== this.generation) {
+            // Superseded by another seek or a disconnect
+            return;
+          }
+          continue;
+        }
+        const entryTime = this.buffer[0].time;
+        if (entryTime !== null && entryTime >= target) {
+          break;
+        }
+        this.buffer.shift();
+        this.cursor++;
+      }
+    } catch (error) {
+      this.readFailed(error);
+      throw error;
+    }
+
+    this.currentTime = this.buffer[0]?.time ?? this.files[fileIndex - 1]?.lastTime ?? null;
+    this.decoder.reset();
+    this.emit('seeked', { position: this.cursor, time });
+
+    if (this.state === 'playing') {
+      this.play();
+    } else if (this.state === 'finished' && this.cursor < this.total) {
+      this.state = 'paused';
+    }
+  }
+
+  /**
+   * Change playback speed without losing the current position
+   */
+  setSpeed(speed: ReplaySpeed): void {
+    if (speed !== 'max' && !(speed > 0)) {
+      throw new ConfigurationError(`Invalid replay speed: ${speed}`, { speed });
+    }
+    this.speed = speed;
+    if (this.state === 'playing') {
+      this.clearTimer();
+      this.play();
+    }
+  }
+
+  /**
+   * Enable or disable looping at the end of the recording
+   */
+  setLoop(loop: boolean): void {
+    this.loop = loop;
+  }
+
+  /**
+   * Get replay status
+   */
+  getReplayStatus(): ReplayStatus {
+    return {
+      state: this.state,
+      path: this.path,
+      speed: this.speed,
+      loop: this.loop,
+      timestamps: this.timestamps,
+      position: this.cursor,
+      total: this.total,
+      currentTime: this.toDate(this.buffer[0]?.time ?? this.currentTime),
+      startTime: this.toDate(this.files.find((file) => file.firstTime !== null)?.firstTime),
+      endTime: this.toDate(this.files[this.files.length - 1]?.lastTime),
+      loops: this.loops,
+    };
+  }
+
+  /**
+   * Get connection statistics
+   */
+  getStatistics(): ConnectionStatistics {
+    return { ...this.stats };
+  }
+
+  /**
+   * Check if a recording is loaded
+   */
+  isConnectionActive(): boolean {
+    return this.isConnected;
+  }
+
+  private play(): void {
+    this.state = 'playing';
+    this.anchored = false;
+    this.scheduleNext();
+  }
+
+  /**
+   * Emit every message that is due, then wait for the next one
+   */
+  private scheduleNext(): void {
+    this.timer = null;
+    if (this.state !== 'playing') {
+      return;
+    }
+
+    let emitted = 0;
+    while (emitted < MAX_BATCH_SIZE) {
+      if (this.buffer.length === 0) {
+        if (this.exhausted) {
+          break;
+        }
+        this.waitForRead();
+        return;
+      }
+
+      const entry = this.buffer[0];
+      if (!this.anchored) {
+        this.anchorWallTime = Date.now();
+        this.anchorRecordTime = entry.time ?? 0;
+        this.anchored = true;
+      }
+      const delay = this.delayUntil(entry);
+      if (delay > 0) {
+        this.timer = setTimeout(() => this.scheduleNext(), delay);
+        return;
+      }
+
+      this.buffer.shift();
+      this.replayEntry(entry);
+      this.cursor++;
+      this.currentTime = entry.time;
+      emitted++;
+    }
+
+    if (this.buffer.length > 0 || !this.exhausted) {
+      this.timer = setTimeout(() => this.scheduleNext(), 0);
+      return;
+    }
+
+    if (this.loop && this.total > 0) {
+      this.loops++;
+      this.rewind();
+      this.decoder.reset();
+      this.emit('looped', { loops: this.loops });
+      this.timer = setTimeout(() => this.play(), 0);
+      return;
+    }
+
+    this.finish();
+  }
+
+  private finish(): void {
+    this.state = 'finished';
+    this.logger.info('Replay finished', { source: this.name, messages: this.cursor });
+    this.emit('finished');
+  }
+
+  /**
+   * Continue playback once the next messages have been read
+   */
+  private waitForRead(): void {
+    if (this.waitingForRead) {
+      return;
+    }
+    this.waitingForRead = true;
+    const generation = this.generation;
+
+    this.fill().then(
+      () => {
+        if (generation !== this.generation) {
+          return;
+        }
+        this.waitingForRead = false;
+        if (!this.timer) {
+          this.scheduleNext();
+        }
+      },
+      (error) => {
+        if (generation !== this.generation) {
+          return;
+        }
+        this.waitingForRead = false;
+        this.readFailed(error);
+      }
+    );
+  }
+
+  /**
+   * End playback at a file that can no longer be read
+   */
+  private readFailed(error: unknown): void {
+    this.stats.errors++;
+    this.logger.error('Replay file could not be read', {
+      source: this.name,
+      position: this.cursor,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    this.clearTimer();
+    this.openReader(this.files.length);
+    if (this.state === 'playing') {
+      this.finish();
+    }
+  }
+
+  /**
+   * Start reading from the beginning of the recording
+   */
+  private rewind(): void {
+    this.openReader(0);
+    this.cursor = 0;
+    this.currentTime = null;
+  }
+
+  /**
+   * Replace the reader with one starting at a file; past the last file nothing is read
+   */
+  private openReader(fileIndex: number): void {
+    // A pending read finishes first; its messages are dropped by the generation check
+    this.reader?.return(undefined).catch(() => undefined);
+    this.generation++;
+    this.buffer = [];
+    this.reading = null;
+    this.waitingForRead = false;
+    this.exhausted = fileIndex >= this.files.length;
+    this.reader = this.exhausted ? null : this.readEntries(fileIndex);
+  }
+
+  /**
+   * Read up to READ_AHEAD messages into the buffer
+   */
+  private fill(): Promise<void> {
+    const reader = this.reader;
+    if (!reader || this.exhausted) {
+      return Promise.resolve();
+    }
+
+    if (!this.reading) {
+      const generation = this.generation;
+      const read = async (): Promise<void> => {
+        const entries: ReplayEntry[] = [];
+        let done = false;
+        while (entries.length < READ_AHEAD) {
+          const next = await reader.next();
+          if (next.done) {
+            done = true;
+            break;
+          }
+          entries.push(next.value);
+        }
+
+        if (generation === this.generation) {
+          this.buffer.push(...entries);
+          this.exhausted = done;
+        }
+      };
+      this.reading = read().finally(() => {
+        if (generation === this.generation) {
+          this.reading = null;
+        }
+      });
+    }
+    return this.reading;
+  }
+
+  private delayUntil(entry: ReplayEntry): number {
+    if (this.speed === 'max' || entry.time === null) {
+      return 0;
+    }
+    const due = this.anchorWallTime + (entry.time - this.anchorRecordTime) / this.speed;
+    return due - Date.now();
+  }
+
+  private replayEntry(entry: ReplayEntry): void {
+    this.stats.messagesReceived++;
+    this.stats.lastMessage = new Date();
+
+    const receivedAt =
+      this.timestamps === 'preserve' && entry.time !== null ? new Date(entry.time) : new Date();
+
+    if (entry.format === 'nmea') {
+      this.decoder.decodeSentence(entry.data, receivedAt);
+    } else {
+      this.parser.parse(entry.data, receivedAt);
+    }
+  }
+
+  /**
+   * Forward a decoded report, restamping it when replaying in 'now' mode
+   */
+  private forward(
+    event: string,
+    report: PositionReport | ShipStaticData | BaseStationReport | AidToNavigationReport
+  ): void {
+    if (this.timestamps === 'now' && 'timestamp' in report) {
+      report.timestamp = new Date();
+    }
+    this.stats.messagesProcessed++;
+    this.emit(event, report);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private toDate(time: number | null | undefined): Date | null {
+    return time !== null && time !== undefined ? new Date(time) : null;
+  }
+
+  /**
+   * List the configured file, or the recordings in the configured directory in name order
+   */
+  private async listFiles(): Promise<string[]> {
+    try {
+      const stats = await fs.promises.stat(this.path);
+      return stats.isDirectory()
+        ? (await fs.promises.readdir(this.path))
+            .filter((name) => REPLAY_FILE_PATTERN.test(name))
+            .sort()
+            .map((name) => path.join(this.path, name))
+        : [this.path];
+    } catch (error) {
+      throw new ConfigurationError(`Replay path ${this.path} is not readable`, {
+        source: this.name,
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Stream every file once to count its messages and find its time range
+   */
+  private async indexFiles(paths: string[]): Promise<ReplayFile[]> {
+    const files: ReplayFile[] = [];
+    let start = 0;
+    let lastTime: number | null = null;
+
+    for (const file of paths) {
+      const indexed: ReplayFile = { path: file, start, count: 0, firstTime: null, lastTime };
+      try {
+        for await (const line of this.readLines(file)) {
+          const entry = this.parseLine(line, false);
+          if (!entry) {
+            continue;
+          }
+          if (entry.time !== null) {
+            lastTime = entry.time;
+          }
+          if (indexed.count === 0) {
+            indexed.firstTime = lastTime;
+          }
+          indexed.count++;
+        }
+      } catch (error) {
+        throw new ConfigurationError(`Replay file ${file} is not readable`, {
+          source: this.name,
+          originalError: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      indexed.lastTime = lastTime;
+      start += indexed.count;
+      files.push(indexed);
+    }
+
+    return files;
+  }
+
+  /**
+   * Messages of the recording from the start of a file to the end of the last one
+   */
+  private async *readEntries(fileIndex: number): AsyncGenerator<ReplayEntry> {
+    let lastTime = this.files[fileIndex - 1]?.lastTime ?? null;
+
+    for (const file of this.files.slice(fileIndex)) {
+      for await (const line of this.readLines(file.path)) {
+        const entry = this.parseLine(line, true);
+        if (!entry) {
+          this.stats.errors++;
+          continue;
+        }
+
+        // Untimed lines replay together with the line before them
+        if (entry.time === null) {
+          entry.time = lastTime;
+        } else {
+          lastTime = entry.time;
+        }
+        yield entry;
+      }
+    }
+  }
+
+  /**
+   * Non-empty lines of a file, decompressed while streaming when it is gzipped
+   */
+  private async *readLines(file: string): AsyncGenerator<string> {
+    const input = fs.createReadStream(file);
+    let stream: NodeJS.ReadableStream = input;
+    if (file.endsWith('.gz')) {
+      const gunzip = zlib.createGunzip();
+      input.on('error', (error) => gunzip.destroy(error));
+      stream = input.pipe(gunzip);
+    }
+
+    const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+    try {
+      for await (const line of lines) {
+        const trimmed = line.trim();
+        if (trimmed.length > 0) {
+          yield trimmed;
+        }
+      }
+    } finally {
+      lines.close();
+      input.destroy();
+    }
+  }
+
+  /**
+   * Parse one line of a recording: a MessageRecorder line, a bare AISStream
+   * message or an NMEA sentence
+   * Unrecognised lines are reported as invalid messages when report is set
+   */
+  private parseLine(line: string, report: boolean): ReplayEntry | null {
+    if (!line.startsWith('{')) {
+      let time: Date | undefined;
+      if (line.startsWith('\\')) {
+        const end = line.indexOf('\\', 1);
+        time = end > 0 ? parseTagBlockTimestamp(line.substring(1, end)) : undefined;
+      }
+      return { time: time ? time.getTime() : null, format: 'nmea', data: line };
+    }
+
+    try {
+      const parsed = JSON.parse(line);
+
+      if (typeof parsed.data === 'string' && parsed.format) {
+        const time = Date.parse(parsed.receivedAt);
+        return {
+          time: isNaN(time) ? null : time,
+          format: parsed.format === 'nmea' ? 'nmea' : 'aisstream-json',
+          data: parsed.data,
+        };
+      }
+
+      if (parsed.MessageType) {
+        const time = parseTimeUtc(parsed.MetaData?.time_utc, new Date(NaN)).getTime();
+        return { time: isNaN(time) ? null : time, format: 'aisstream-json', data: line };
+      }
+    } catch {
+      // Fall through to report the line as invalid
+    }
+
+    if (!report) {
+      return null;
+    }
+
+    this.logger.logInvalidMessage('Replay', line, 'Unrecognised recording line');
+    const invalid: InvalidAisMessage = {
+      source: this.name,
+      stage: 'parse',
+      messageType: 'Replay',
+      reason: 'Unrecognised recording line',
+      payload: line,
+    };
+    this.emit('invalidMessage', invalid);
+    return null;
+  }
+}
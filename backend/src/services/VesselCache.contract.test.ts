@@ -0,0 +1,168 @@
+import { CacheService } from './CacheService';
+import { InMemoryCacheService } from './InMemoryCacheService';
+import { VesselCache } from './VesselCache';
+import { PositionReport, ShipStaticData } from '../types';
+
+/**
+ * Contract tests shared by every VesselCache implementation
+ * The Redis implementation runs when TEST_REDIS_URL is set; its database is flushed before each test
+ */
+
+const ROTTERDAM = { minLat: 51.8, maxLat: 52.1, minLon: 3.9, maxLon: 4.3 };
+const ANTIMERIDIAN = { minLat: 0, maxLat: 20, minLon: 170, maxLon: -170 };
+
+function position(mmsi: string, latitude: number, longitude: number): PositionReport {
+  return {
+    mmsi,
+    timestamp: new Date('2025-12-01T10:30:00Z'),
+    latitude,
+    longitude,
+    sog: 12.5,
+    cog: 285,
+    true_heading: 290,
+    navigational_status: 0,
+    rate_of_turn: 0,
+  };
+}
+
+function vesselCacheContract(getCache: () => VesselCache): void {
+  let cache: VesselCache;
+
+  beforeEach(() => {
+    cache = getCache();
+  });
+
+  it('should store and retrieve a vessel position', async () => {
+    await cache.setVesselPosition('244660000', position('244660000', 51.95, 4.05));
+
+    expect(await cache.getVesselPosition('244660000')).toMatchObject({
+      mmsi: '244660000',
+      timestamp: new Date('2025-12-01T10:30:00Z'),
+      latitude: 51.95,
+      longitude: 4.05,
+      sog: 12.5,
+      true_heading: 290,
+    });
+    expect(await cache.getVesselPosition('211000001')).toBeNull();
+  });
+
+  it('should store and retrieve vessel metadata', async () => {
+    const metadata: ShipStaticData = {
+      mmsi: '244660000',
+      name: 'MAASSTROOM',
+      type: 70,
+      imo: 9321483,
+      callSign: 'PDAB',
+      dimensions: { a: 100, b: 20, c: 10, d: 10 },
+      destination: 'ROTTERDAM',
+      eta: new Date('2025-12-02T06:00:00Z'),
+      draught: 7.5,
+    };
+
+    await cache.setVesselMetadata('244660000', metadata);
+
+    expect(await cache.getVesselMetadata('244660000')).toEqual(metadata);
+    expect(await cache.getVesselMetadata('211000001')).toBeNull();
+  });
+
+  it('should find cached positions within a bounding box', async () => {
+    await cache.setVesselPosition('244660000', position('244660000', 51.95, 4.05));
+    await cache.setVesselPosition('211000001', position('211000001', 53.54, 9.97));
+    await cache.setVesselPosition('477000001', position('477000001', 10, 179.5));
+
+    expect(await cache.getVesselsInBounds(ROTTERDAM)).toEqual(['244660000']);
+    expect(await cache.getVesselsInBounds(ANTIMERIDIAN)).toEqual(['477000001']);
+  });
+
+  it('should count active vessels', async () => {
+    await cache.setVesselPosition('244660000', position('244660000', 51.95, 4.05));
+    await cache.setVesselPosition('211000001', position('211000001', 53.54, 9.97));
+    await cache.setVesselPosition('244660000', position('244660000', 51.96, 4.06));
+
+    expect(await cache.getActiveVesselCount()).toBe(2);
+  });
+
+  it('should remove a vessel and clear everything', async () => {
+    await cache.setVesselPosition('244660000', position('244660000', 51.95, 4.05));
+    await cache.setVesselMetadata('244660000', { mmsi: '244660000', name: 'MAASSTROOM' });
+    await cache.setVesselPosition('211000001', position('211000001', 53.54, 9.97));
+
+    await cache.removeVessel('244660000');
+    expect(await cache.getVesselPosition('244660000')).toBeNull();
+    expect(await cache.getVesselMetadata('244660000')).toBeNull();
+    expect(await cache.getActiveVesselCount()).toBe(1);
+
+    await cache.clearAll();
+    expect(await cache.getVesselPosition('211000001')).toBeNull();
+    expect(await cache.getActiveVesselCount()).toBe(0);
+  });
+
+  it('should count hits and misses', async () => {
+    const before = cache.getStatistics();
+    await cache.setVesselPosition('244660000', position('244660000', 51.95, 4.05));
+    await cache.getVesselPosition('244660000');
+    await cache.getVesselPosition('211000001');
+    await cache.getVesselMetadata('211000001');
+
+    const after = cache.getStatistics();
+    expect(after.hits - before.hits).toBe(1);
+    expect(after.misses - before.misses).toBe(2);
+  });
+}
+
+describe('InMemoryCacheService', () => {
+  let cache: InMemoryCacheService;
+
+  beforeEach(async () => {
+    cache = new InMemoryCacheService();
+    await cache.connect();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  vesselCacheContract(() => cache);
+
+  it('should be ready only while connected', async () => {
+    expect(cache.isReady()).toBe(true);
+    await cache.disconnect();
+    expect(cache.isReady()).toBe(false);
+  });
+
+  it('should expire positions after 60 seconds and metadata after an hour', async () => {
+    jest.useFakeTimers({ now: new Date('2025-12-01T10:30:00Z') });
+    await cache.setVesselPosition('244660000', position('244660000', 51.95, 4.05));
+    await cache.setVesselMetadata('244660000', { mmsi: '244660000', name: 'MAASSTROOM' });
+
+    jest.advanceTimersByTime(61 * 1000);
+    expect(await cache.getVesselPosition('244660000')).toBeNull();
+    expect(await cache.getActiveVesselCount()).toBe(0);
+    expect(await cache.getVesselsInBounds(ROTTERDAM)).toEqual([]);
+    expect(await cache.getVesselMetadata('244660000')).not.toBeNull();
+
+    jest.advanceTimersByTime(3600 * 1000);
+    expect(await cache.getVesselMetadata('244660000')).toBeNull();
+  });
+});
+
+const describeWithRedis = process.env.TEST_REDIS_URL ? describe : describe.skip;
+
+describeWithRedis('CacheService', () => {
+  let cache: CacheService;
+
+  beforeAll(async () => {
+    cache = new CacheService(process.env.TEST_REDIS_URL as string);
+    await cache.connect();
+  });
+
+  afterAll(async () => {
+    await cache.disconnect();
+  });
+
+  beforeEach(async () => {
+    await cache.clearAll();
+  });
+
+  vesselCacheContract(() => cache);
+});
@@ -0,0 +1,31 @@
+import { PositionReport, ShipStaticData, BoundingBox } from '../types';
+import { CacheStatistics } from './CacheService';
+
+/**
+ * Short-lived cache of the latest vessel positions and metadata
+ *
+ * Implementations:
+ * - CacheService: Redis
+ * - InMemoryCacheService: process memory, for demos and tests (STORAGE=memory)
+ *
+ * Positions expire after 60 seconds and metadata after an hour in both; see
+ * VesselCache.contract.test.ts
+ */
+export interface VesselCache {
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  isReady(): boolean;
+  /** Cache a position and index it for getVesselsInBounds */
+  setVesselPosition(mmsi: string, position: PositionReport): Promise<void>;
+  getVesselPosition(mmsi: string): Promise<PositionReport | null>;
+  setVesselMetadata(mmsi: string, metadata: ShipStaticData): Promise<void>;
+  getVesselMetadata(mmsi: string): Promise<ShipStaticData | null>;
+  /** Hit, miss and error counts of reads */
+  getStatistics(): CacheStatistics;
+  /** Vessels with a position update in the last 60 seconds */
+  getActiveVesselCount(): Promise<number>;
+  /** MMSIs of cached positions within a bounding box */
+  getVesselsInBounds(bbox: BoundingBox): Promise<string[]>;
+  clearAll(): Promise<void>;
+  removeVessel(mmsi: string): Promise<void>;
+}
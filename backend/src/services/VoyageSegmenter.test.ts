@@ -0,0 +1,135 @@
+import { VoyageSegmenter } from './VoyageSegmenter';
+import { PortCall, PositionReport } from '../types';
+
+const HOUR = 60 * 60 * 1000;
+const START = new Date('2025-12-01T00:00:00Z').getTime();
+const MMSI = '244670316';
+
+function fix(
+  hours: number,
+  latitude: number,
+  longitude: number,
+  sog: number,
+  extra: Partial<PositionReport> = {}
+): PositionReport {
+  return {
+    mmsi: MMSI,
+    timestamp: new Date(START + hours * HOUR),
+    latitude,
+    longitude,
+    sog,
+    ...extra,
+  };
+}
+
+function portCall(locode: string, arrivalHours: number, departureHours: number | null): PortCall {
+  return {
+    id: arrivalHours,
+    mmsi: MMSI,
+    locode,
+    portName: locode === 'NLRTM' ? 'Rotterdam' : 'Hamburg',
+    arrival: new Date(START + arrivalHours * HOUR),
+    departure: departureHours === null ? null : new Date(START + departureHours * HOUR),
+    durationSeconds: null,
+    callType: 'berth',
+  };
+}
+
+describe('VoyageSegmenter', () => {
+  const segmenter = new VoyageSegmenter();
+
+  it('should split a track at port calls', () => {
+    const track = [
+      fix(0, 51.95, 4.14, 0), // Rotterdam
+      fix(2, 51.95, 4.14, 0),
+      fix(3, 52.2, 4.0, 12),
+      fix(8, 53.5, 6.5, 14),
+      fix(14, 53.54, 9.97, 0), // Hamburg
+      fix(30, 53.54, 9.97, 0),
+      fix(32, 53.8, 8.7, 11),
+    ];
+    const voyages = segmenter.segment(MMSI, track, [
+      portCall('NLRTM', 0, 2),
+      portCall('DEHAM', 14, 30),
+    ]);
+
+    expect(voyages).toHaveLength(2);
+
+    const [underWay, passage] = voyages;
+    expect(passage).toMatchObject({
+      mmsi: MMSI,
+      origin: { locode: 'NLRTM', portName: 'Rotterdam', latitude: 51.95, longitude: 4.14 },
+      destination: { locode: 'DEHAM', portName: 'Hamburg', latitude: 53.54, longitude: 9.97 },
+      departure: new Date(START + 2 * HOUR),
+      arrival: new Date(START + 14 * HOUR),
+      durationSeconds: 12 * 3600,
+      maxSpeedKnots: 14,
+      anchorSeconds: 0,
+      positionCount: 4,
+    });
+    expect(passage.distanceNm).toBeGreaterThan(250);
+    expect(passage.distanceNm).toBeLessThan(300);
+    expect(passage.averageSpeedKnots).toBeCloseTo(passage.distanceNm / 12, 0);
+
+    expect(underWay).toMatchObject({
+      origin: { locode: 'DEHAM' },
+      destination: null,
+      departure: new Date(START + 30 * HOUR),
+      arrival: null,
+      positionCount: 2,
+    });
+  });
+
+  it('should end voyages at long stationary periods outside port', () => {
+    const track = [
+      fix(0, 50.0, 0.0, 10),
+      fix(5, 50.8, 0.0, 10),
+      fix(6, 50.9, 0.0, 0.1),
+      fix(9, 50.9, 0.0, 0.2),
+      fix(13, 50.9, 0.0, 0.1),
+      fix(14, 51.0, 0.3, 8),
+      fix(18, 51.5, 1.0, 8),
+    ];
+
+    const voyages = segmenter.segment(MMSI, track, []);
+
+    expect(voyages).toHaveLength(2);
+    expect(voyages[1]).toMatchObject({
+      origin: null,
+      destination: { locode: null, latitude: 50.9, longitude: 0.0 },
+      departure: new Date(START),
+      arrival: new Date(START + 6 * HOUR),
+    });
+    expect(voyages[0]).toMatchObject({
+      origin: { locode: null, time: new Date(START + 13 * HOUR) },
+      destination: null,
+    });
+  });
+
+  it('should count time at anchor without ending the voyage', () => {
+    const atAnchor = { navigational_status: 1 };
+    const track = [
+      fix(0, 51.95, 4.14, 0),
+      fix(1, 52.0, 3.8, 10),
+      fix(4, 52.1, 3.0, 0, atAnchor),
+      fix(16, 52.1, 3.0, 0.2, atAnchor),
+      fix(17, 52.2, 2.8, 10),
+      fix(20, 52.5, 2.0, 10),
+    ];
+
+    const voyages = segmenter.segment(MMSI, track, [portCall('NLRTM', -10, 0)]);
+
+    expect(voyages).toHaveLength(1);
+    expect(voyages[0].anchorSeconds).toBe(12 * 3600);
+    // Average over the 8 hours under way
+    expect(voyages[0].averageSpeedKnots).toBeCloseTo(voyages[0].distanceNm / 8, 0);
+  });
+
+  it('should drop movements within a stop and tracks still in port', () => {
+    const track = [fix(0, 51.95, 4.14, 0), fix(5, 51.951, 4.141, 0.4), fix(10, 51.95, 4.14, 0)];
+
+    expect(segmenter.segment(MMSI, track, [])).toEqual([]);
+    expect(segmenter.segment(MMSI, track, [portCall('NLRTM', 0, null)])).toEqual([]);
+    expect(segmenter.segment(MMSI, [], [])).toEqual([]);
+  });
+});
@@ -0,0 +1,221 @@
+import { PortCall, PositionReport, Voyage, VoyageEndpoint } from '../types';
+import { distanceNm } from '../utils/geo';
+
+/**
+ * Configuration options for VoyageSegmenter
+ */
+export interface VoyageSegmenterConfig {
+  /** Vessels at or below this speed are stationary (default: 0.5 knots) */
+  stationarySpeedKnots?: number;
+  /** Stationary periods outside port at least this long end a voyage (default: 6 hours) */
+  minStopMs?: number;
+  /** Voyages shorter than this are dropped, e.g. drifting between two stops (default: 1 nm) */
+  minDistanceNm?: number;
+}
+
+/**
+ * A period a voyage starts or ends at
+ * end is null for a port call the vessel has not left yet
+ */
+interface Stop {
+  start: Date;
+  end: Date | null;
+  locode: string | null;
+  portName?: string;
+}
+
+const NAV_STATUS_AT_ANCHOR = 1;
+
+// Speed over ground of 102.3 knots and above means "not available"
+const SOG_NOT_AVAILABLE = 102.3;
+
+/**
+ * VoyageSegmenter splits a vessel's track into voyages
+ *
+ * Voyages run from one stop to the next. Stops are the vessel's port calls and
+ * stationary periods of at least minStopMs outside port, e.g. waiting offshore
+ * or lying idle. Time at anchor does not end a voyage: it is added up as the
+ * voyage's anchorSeconds instead.
+ *
+ * A track starting under way gives a first voyage without origin, and a vessel
+ * under way at the end of the track a last voyage without destination.
+ */
+export class VoyageSegmenter {
+  private stationarySpeedKnots: number;
+  private minStopMs: number;
+  private minDistanceNm: number;
+
+  constructor(config: VoyageSegmenterConfig = {}) {
+    this.stationarySpeedKnots = config.stationarySpeedKnots ?? 0.5;
+    this.minStopMs = config.minStopMs ?? 6 * 60 * 60 * 1000;
+    this.minDistanceNm = config.minDistanceNm ?? 1;
+  }
+
+  /**
+   * Segment a track into voyages, most recent departure first
+   *
+   * @param mmsi - Vessel the track belongs to
+   * @param track - Position reports, in any order
+   * @param portCalls - The vessel's port calls overlapping the track
+   */
+  segment(mmsi: string, track: PositionReport[], portCalls: PortCall[]): Voyage[] {
+    const fixes = [...track].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    if (fixes.length === 0) {
+      return [];
+    }
+
+    const stops = this.findStops(fixes, portCalls);
+    const voyages: Voyage[] = [];
+    let origin: Stop | null = null;
+
+    for (const stop of stops) {
+      const voyage = this.buildVoyage(mmsi, fixes, origin, stop);
+      if (voyage) {
+        voyages.push(voyage);
+      }
+      if (!stop.end) {
+        // Still in port at the end of the track
+        return this.keepVoyages(voyages);
+      }
+      origin = stop;
+    }
+
+    const underWay = this.buildVoyage(mmsi, fixes, origin, null);
+    if (underWay) {
+      voyages.push(underWay);
+    }
+    return this.keepVoyages(voyages);
+  }
+
+  /**
+   * Port calls and long stationary periods outside port, in time order
+   */
+  private findStops(fixes: PositionReport[], portCalls: PortCall[]): Stop[] {
+    const portStops: Stop[] = portCalls.map((call) => ({
+      start: call.arrival,
+      end: call.departure,
+      locode: call.locode,
+      portName: call.portName,
+    }));
+
+    const overlapsPortCall = (start: Date, end: Date) =>
+      portStops.some((stop) => stop.start <= end && (stop.end === null || stop.end >= start));
+
+    const stationaryStops: Stop[] = [];
+    let runStart: PositionReport | null = null;
+    let runEnd: PositionReport | null = null;
+
+    const closeRun = () => {
+      if (
+        runStart &&
+        runEnd &&
+        runEnd.timestamp.getTime() - runStart.timestamp.getTime() >= this.minStopMs &&
+        !overlapsPortCall(runStart.timestamp, runEnd.timestamp)
+      ) {
+        stationaryStops.push({ start: runStart.timestamp, end: runEnd.timestamp, locode: null });
+      }
+      runStart = null;
+      runEnd = null;
+    };
+
+    for (const fix of fixes) {
+      if (this.isStationary(fix) && fix.navigational_status !== NAV_STATUS_AT_ANCHOR) {
+        runStart = runStart ?? fix;
+        runEnd = fix;
+      } else {
+        closeRun();
+      }
+    }
+    closeRun();
+
+    return [...portStops, ...stationaryStops].sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Build the voyage between two stops from the fixes in between
+   * A null origin starts at the first fix, a null destination ends at the last fix
+   */
+  private buildVoyage(
+    mmsi: string,
+    fixes: PositionReport[],
+    origin: Stop | null,
+    destination: Stop | null
+  ): Voyage | null {
+    const from = origin?.end ?? null;
+    const to = destination?.start ?? null;
+    const leg = fixes.filter(
+      (fix) => (!from || fix.timestamp >= from) && (!to || fix.timestamp <= to)
+    );
+
+    if (leg.length < 2) {
+      // Not under way, or no fixes between the stops
+      return null;
+    }
+
+    let distance = 0;
+    let anchorMs = 0;
+    let maxSpeed: number | null = null;
+
+    for (let i = 0; i < leg.length; i++) {
+      const fix = leg[i];
+      if (fix.sog !== undefined && fix.sog < SOG_NOT_AVAILABLE) {
+        maxSpeed = Math.max(maxSpeed ?? 0, fix.sog);
+      }
+      if (i === 0) {
+        continue;
+      }
+      const previous = leg[i - 1];
+      distance += distanceNm(previous.latitude, previous.longitude, fix.latitude, fix.longitude);
+      if (this.isAtAnchor(previous) && this.isAtAnchor(fix)) {
+        anchorMs += fix.timestamp.getTime() - previous.timestamp.getTime();
+      }
+    }
+
+    const departure = from ?? leg[0].timestamp;
+    const end = to ?? leg[leg.length - 1].timestamp;
+    const durationMs = end.getTime() - departure.getTime();
+    const underWayHours = (durationMs - anchorMs) / (60 * 60 * 1000);
+
+    return {
+      mmsi,
+      origin: origin ? this.toEndpoint(origin, departure, leg[0]) : null,
+      destination: destination ? this.toEndpoint(destination, end, leg[leg.length - 1]) : null,
+      departure,
+      arrival: to,
+      durationSeconds: Math.round(durationMs / 1000),
+      distanceNm: Math.round(distance * 100) / 100,
+      averageSpeedKnots:
+        underWayHours > 0 ? Math.round((distance / underWayHours) * 10) / 10 : null,
+      maxSpeedKnots: maxSpeed,
+      anchorSeconds: Math.round(anchorMs / 1000),
+      positionCount: leg.length,
+    };
+  }
+
+  private keepVoyages(voyages: Voyage[]): Voyage[] {
+    return voyages
+      .filter((voyage) => voyage.distanceNm >= this.minDistanceNm)
+      .sort((a, b) => b.departure.getTime() - a.departure.getTime());
+  }
+
+  /**
+   * The stop as seen from the voyage: where the vessel left it or reached it
+   */
+  private toEndpoint(stop: Stop, time: Date, fix: PositionReport): VoyageEndpoint {
+    return {
+      locode: stop.locode,
+      portName: stop.portName,
+      latitude: fix.latitude,
+      longitude: fix.longitude,
+      time,
+    };
+  }
+
+  private isStationary(fix: PositionReport): boolean {
+    return fix.sog !== undefined && fix.sog <= this.stationarySpeedKnots;
+  }
+
+  private isAtAnchor(fix: PositionReport): boolean {
+    return fix.navigational_status === NAV_STATUS_AT_ANCHOR && this.isStationary(fix);
+  }
+}
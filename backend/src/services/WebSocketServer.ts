@@ -1,6 +1,7 @@
 import { Server as HTTPServer } from 'http';
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { BoundingBox, PositionReport, ShipStaticData } from '../types';
+import { isInBoundingBox } from '../utils';
 
 /**
  * Client subscription information
@@ -16,6 +17,7 @@ interface ClientSubscription {
 export class WebSocketServer {
   private io: SocketIOServer | null = null;
   private clients: Map<string, ClientSubscription> = new Map();
+  private messagesEmitted = 0;
 
   /**
    * Initialize the WebSocket server
@@ -140,6 +142,7 @@ export class WebSocketServer {
       data,
       timestamp: new Date().toISOString(),
     });
+    this.messagesEmitted += this.clients.size;
   }
 
   /**
@@ -176,6 +179,7 @@ export class WebSocketServer {
               data,
               timestamp: new Date().toISOString(),
             });
+            this.messagesEmitted++;
           }
         }
       });
@@ -186,6 +190,7 @@ export class WebSocketServer {
         data,
         timestamp: new Date().toISOString(),
       });
+      this.messagesEmitted += this.io.sockets.adapter.rooms.get(region)?.size || 0;
     }
   }
 
@@ -193,12 +198,7 @@ export class WebSocketServer {
    * Check if a position is within a bounding box
    */
   private isPositionInBoundingBox(position: PositionReport, bbox: BoundingBox): boolean {
-    return (
-      position.latitude >= bbox.minLat &&
-      position.latitude <= bbox.maxLat &&
-      position.longitude >= bbox.minLon &&
-      position.longitude <= bbox.maxLon
-    );
+    return isInBoundingBox(position.latitude, position.longitude, bbox);
   }
 
   /**
@@ -208,6 +208,13 @@ export class WebSocketServer {
     return this.clients.size;
   }
 
+  /**
+   * Get the number of vesselUpdate messages sent to clients since startup
+   */
+  getEmittedMessageCount(): number {
+    return this.messagesEmitted;
+  }
+
   /**
    * Get the Socket.io server instance
    */
@@ -1,5 +1,19 @@
-export { CacheService } from './CacheService';
-export { AISStreamManager, SubscriptionOptions, ConnectionStatistics } from './AISStreamManager';
+export { CacheService, CacheStatistics } from './CacheService';
+export { VesselCache } from './VesselCache';
+export { InMemoryCacheService } from './InMemoryCacheService';
+export {
+  AISStreamManager,
+  AISStreamManagerOptions,
+  SubscriptionOptions,
+  ConnectionStatistics,
+} from './AISStreamManager';
+export {
+  ReconnectPolicy,
+  ReconnectPolicyConfig,
+  ReconnectPolicyState,
+  ReconnectFailureKind,
+  CircuitState,
+} from './ReconnectPolicy';
 export { DataPipeline, DataPipelineConfig } from './DataPipeline';
 export { WebSocketServer } from './WebSocketServer';
 export {
@@ -8,3 +22,68 @@ export {
   Region,
   SchedulerStatus,
 } from './RegionalScheduler';
+export { NMEADecoder, NMEADecoderConfig, DecoderStatistics } from './NMEADecoder';
+export {
+  AisSource,
+  AisSourceKind,
+  AisSourceConfig,
+  AisSourceStatus,
+  RawAisMessage,
+  RawAisMessageFormat,
+  getAisSourceStatus,
+} from './AisSource';
+export { loadAisSourceConfigs, createAisSource } from './AisSourceFactory';
+export {
+  MessageRecorder,
+  MessageRecorderConfig,
+  RecorderArchive,
+  RecorderStatus,
+} from './MessageRecorder';
+export { NMEASource } from './NMEASource';
+export { NMEATcpSource, NMEATcpSourceConfig } from './NMEATcpSource';
+export { NMEAUdpSource, NMEAUdpSourceConfig } from './NMEAUdpSource';
+export { AISStreamParser, AISStreamMessage, parseTimeUtc } from './AISStreamParser';
+export {
+  MockAISStreamServer,
+  MockAISStreamServerConfig,
+  MockAISStreamServerStatus,
+  MockSubscription,
+  matchesSubscription,
+} from './MockAISStreamServer';
+export {
+  ReplaySource,
+  ReplaySourceConfig,
+  ReplaySpeed,
+  ReplayState,
+  ReplayStatus,
+  ReplayTimestampMode,
+} from './ReplaySource';
+export {
+  PlausibilityFilter,
+  PlausibilityFilterConfig,
+  PlausibilityRejectionReason,
+  PlausibilityVerdict,
+} from './PlausibilityFilter';
+export {
+  PositionSpool,
+  PositionSpoolConfig,
+  SpoolOverflowPolicy,
+  SpoolStatus,
+  SPOOL_OVERFLOW_POLICIES,
+} from './PositionSpool';
+export {
+  DeadLetterQueue,
+  DeadLetterQueueConfig,
+  DEAD_LETTER_STAGES,
+  deadLetterReason,
+} from './DeadLetterQueue';
+export { MetricsCollector, MetricsCollectorConfig } from './MetricsCollector';
+export { PortCallDetector, PortCallDetectorConfig } from './PortCallDetector';
+export { VoyageSegmenter, VoyageSegmenterConfig } from './VoyageSegmenter';
+export {
+  PositionEstimator,
+  PositionEstimatorConfig,
+  PositionEstimateOptions,
+  PositionEstimateRefusalReason,
+  PositionEstimateResult,
+} from './PositionEstimator';
@@ -1,5 +1,37 @@
 // Type definitions for Smart AIS MVP
 
+/**
+ * AIS transponder class (A = SOLAS vessels, B = smaller craft)
+ */
+export type AisClass = 'A' | 'B';
+
+/**
+ * What kind of station an MMSI identifies
+ * - 'ship': MIDXXXXXX
+ * - 'group_call': 0MIDXXXXX, a group of ships
+ * - 'coast_station': 00MIDXXXX
+ * - 'sar_aircraft': 111MIDXXX
+ * - 'handheld': 8MIDXXXXX, handheld VHF with DSC and GNSS
+ * - 'auxiliary_craft': 98MIDXXXX, craft associated with a parent ship (tenders, lifeboats)
+ * - 'aid_to_navigation': 99MIDXXXX
+ * - 'sart': 970XXYYYY, AIS search and rescue transmitter
+ * - 'mob': 972XXYYYY, man overboard device
+ * - 'epirb': 974XXYYYY, EPIRB with AIS
+ * - 'unknown': anything else, including malformed MMSIs
+ */
+export type MMSICategory =
+  | 'ship'
+  | 'group_call'
+  | 'coast_station'
+  | 'sar_aircraft'
+  | 'handheld'
+  | 'auxiliary_craft'
+  | 'aid_to_navigation'
+  | 'sart'
+  | 'mob'
+  | 'epirb'
+  | 'unknown';
+
 export interface VesselDimensions {
   a: number; // Distance from reference point to bow
   b: number; // Distance from reference point to stern
@@ -20,10 +52,26 @@ export interface Vessel {
   draught?: number;
   destination?: string;
   eta?: Date;
+  aisClass?: AisClass;
+  flag?: string; // ISO 3166-1 alpha-2 flag state decoded from the MMSI
+  flagCountry?: string; // Flag state or territory name
+  stationCategory?: MMSICategory; // Station category decoded from the MMSI
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+/**
+ * One change to a vessel's static data, from vessel_static_history
+ * Values are stored as text; dimensions are 'A/B/C/D'
+ */
+export interface VesselStaticChange {
+  mmsi: string;
+  field: string; // name, call_sign, imo_number, vessel_type, draught, destination, eta, ais_class, dimensions, mmsi, flag
+  oldValue: string | null;
+  newValue: string | null;
+  changedAt: Date;
+}
+
 export interface PositionReport {
   mmsi: string;
   timestamp: Date;
@@ -34,6 +82,8 @@ export interface PositionReport {
   true_heading?: number; // True heading
   navigational_status?: number; // Navigational status
   rate_of_turn?: number;
+  altitude?: number; // Altitude in meters (SAR aircraft only)
+  aisClass?: AisClass; // Transponder class, when known from the message type
 }
 
 export interface VesselWithPosition extends Vessel {
@@ -47,17 +97,64 @@ export interface BoundingBox {
   maxLon: number;
 }
 
+/**
+ * GeoJSON geometries, positions in [longitude, latitude] order (WGS84)
+ */
+export interface GeoJsonPolygon {
+  type: 'Polygon';
+  coordinates: number[][][];
+}
+
+export interface GeoJsonMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: number[][][][];
+}
+
+export interface GeoJsonLineString {
+  type: 'LineString';
+  coordinates: number[][];
+}
+
+export type GeoJsonArea = GeoJsonPolygon | GeoJsonMultiPolygon;
+
+/**
+ * Vessels within radiusNm nautical miles of a point
+ */
+export interface RadiusFilter {
+  latitude: number;
+  longitude: number;
+  radiusNm: number;
+}
+
+/**
+ * Vessels within distanceNm nautical miles of a track: either a given line, or the
+ * track of vessel mmsi between startTime and endTime (that vessel is excluded)
+ */
+export interface TrackProximityFilter {
+  distanceNm: number;
+  line?: GeoJsonLineString;
+  mmsi?: string;
+  startTime?: Date;
+  endTime?: Date;
+}
+
 export interface VesselQuery {
   mmsi?: string;
   name?: string;
   type?: number;
   bbox?: BoundingBox;
+  radius?: RadiusFilter; // Filter by distance from a point
+  area?: GeoJsonArea; // Filter by polygon, e.g. a port area or EEZ
+  nearTrack?: TrackProximityFilter; // Filter by distance from a track
   speedMin?: number;
   speedMax?: number;
   limit?: number;
   offset?: number;
   hasPosition?: boolean; // Filter by position availability
   maxPositionAgeHours?: number; // Filter by position age (in hours)
+  aisClass?: AisClass; // Filter by transponder class
+  flag?: string; // Filter by flag state (ISO 3166-1 alpha-2)
+  category?: MMSICategory; // Filter by station category
 }
 
 export interface ShipStaticData {
@@ -70,4 +167,252 @@ export interface ShipStaticData {
   destination?: string;
   eta?: Date;
   draught?: number;
+  aisClass?: AisClass;
+}
+
+/**
+ * Placeholder vessel created when position reports arrive before static data
+ */
+export interface VesselStub {
+  mmsi: string;
+  aisClass?: AisClass;
+}
+
+/**
+ * Base station report (message type 4)
+ */
+export interface BaseStationReport {
+  mmsi: string;
+  timestamp: Date; // Receive time
+  latitude: number;
+  longitude: number;
+  fixType?: number; // Type of electronic position fixing device
+  stationTime?: Date; // UTC time reported by the station
+}
+
+export interface BaseStation {
+  mmsi: string;
+  latitude: number;
+  longitude: number;
+  fixType?: number;
+  stationTime?: Date;
+  lastSeen: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Aid-to-navigation report (message type 21)
+ */
+export interface AidToNavigationReport {
+  mmsi: string;
+  timestamp: Date; // Receive time
+  name?: string;
+  aidType?: number; // Type of aid to navigation (0-31)
+  latitude: number;
+  longitude: number;
+  dimensions?: VesselDimensions;
+  virtual?: boolean; // Virtual AtoN (no physical aid at the position)
+  offPosition?: boolean;
+}
+
+export interface AidToNavigation {
+  mmsi: string;
+  name?: string;
+  aidType?: number;
+  latitude: number;
+  longitude: number;
+  dimensionA?: number;
+  dimensionB?: number;
+  dimensionC?: number;
+  dimensionD?: number;
+  virtual?: boolean;
+  offPosition?: boolean;
+  lastSeen: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Position report quarantined by the plausibility filter
+ */
+export interface RejectedPosition {
+  id?: number;
+  position: PositionReport;
+  reason: string; // PlausibilityRejectionReason
+  impliedSpeedKnots: number;
+  limitKnots: number;
+  distanceNm: number;
+  elapsedSeconds: number;
+  previousLatitude: number;
+  previousLongitude: number;
+  previousTimestamp: Date;
+  createdAt?: Date;
+}
+
+export interface RejectedPositionQuery {
+  mmsi?: string;
+  reason?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Pipeline stage at which an AIS message was found invalid
+ */
+export type DeadLetterStage = 'parse' | 'decode' | 'validation';
+
+/**
+ * An AIS message that could not be parsed, decoded or validated
+ */
+export interface InvalidAisMessage {
+  source?: string; // Name of the AIS source it came from
+  stage: DeadLetterStage;
+  messageType: string; // e.g. PositionReport, NMEA, position, staticData
+  reason: string;
+  mmsi?: string;
+  payload: unknown; // Raw sentence or JSON message, or the rejected report
+  receivedAt?: Date;
+}
+
+export interface DeadLetter {
+  id: number;
+  receivedAt: Date;
+  source: string | null;
+  stage: DeadLetterStage;
+  messageType: string;
+  mmsi: string | null;
+  reason: string; // Reason with message-specific values removed, for grouping
+  detail: string; // Full reason
+  payload: string;
+}
+
+export interface DeadLetterQuery {
+  reason?: string;
+  stage?: DeadLetterStage;
+  mmsi?: string;
+  source?: string;
+  startTime?: Date;
+  endTime?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface DeadLetterReasonCount {
+  reason: string;
+  stage: DeadLetterStage;
+  count: number;
+  lastSeen: Date;
+}
+
+/**
+ * A port from the ports table, identified by its UN/LOCODE
+ * The port area is the polygon when set, otherwise radiusNm around the position
+ */
+export interface Port {
+  locode: string; // UN/LOCODE, e.g. NLRTM
+  name: string;
+  country: string; // ISO 3166-1 alpha-2
+  latitude: number;
+  longitude: number;
+  radiusNm?: number;
+  area?: GeoJsonArea;
+}
+
+/**
+ * Where a vessel stayed during a port call
+ * - 'berth': moored alongside, or stationary without reporting "at anchor"
+ * - 'anchorage': stationary and reporting "at anchor" throughout
+ */
+export type PortCallType = 'berth' | 'anchorage';
+
+/**
+ * A vessel's stay in a port area, detected from its position reports
+ * departure is null while the vessel is still in port
+ */
+export interface PortCall {
+  id: number;
+  mmsi: string;
+  locode: string;
+  portName?: string;
+  arrival: Date;
+  departure: Date | null;
+  durationSeconds: number | null;
+  callType: PortCallType | null; // null until the vessel has been stationary
+}
+
+/**
+ * A port call without departure, as restored after a restart
+ */
+export interface OpenPortCall extends PortCall {
+  lastInside: Date; // Latest stored report inside the port area, or the arrival
+}
+
+export interface PortCallQuery {
+  startTime?: Date; // Calls still in port at or after this time
+  endTime?: Date; // Calls that arrived before this time
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Where a voyage started or ended: a port call, or a long stationary period outside any port
+ * locode is null for stops outside a port
+ */
+export interface VoyageEndpoint {
+  locode: string | null;
+  portName?: string;
+  latitude: number;
+  longitude: number;
+  time: Date; // Departure from the origin, arrival at the destination
+}
+
+/**
+ * A vessel's passage between two stops, segmented from its track and port calls
+ */
+export interface Voyage {
+  mmsi: string;
+  origin: VoyageEndpoint | null; // null when the track starts under way
+  destination: VoyageEndpoint | null; // null while the vessel is under way
+  departure: Date;
+  arrival: Date | null;
+  durationSeconds: number; // Until arrival, or the latest fix while under way
+  distanceNm: number;
+  averageSpeedKnots: number | null; // Over the time not spent at anchor
+  maxSpeedKnots: number | null; // Highest reported speed over ground
+  anchorSeconds: number;
+  positionCount: number;
+}
+
+/**
+ * How a position at a given time was obtained
+ * - 'observed': a position report at exactly that time
+ * - 'interpolated': along the great circle between the fixes before and after
+ * - 'dead_reckoning': from the course and speed over ground reported at the nearest fixes
+ */
+export type PositionEstimateMethod = 'observed' | 'interpolated' | 'dead_reckoning';
+
+/**
+ * A vessel's estimated position at a time between or near its position reports
+ */
+export interface PositionEstimate {
+  time: Date;
+  latitude: number;
+  longitude: number;
+  method: PositionEstimateMethod;
+  uncertaintyNm: number; // Radius around the estimate the vessel was within
+  nearestFixAgeSeconds: number; // Time between the estimate and the nearest position report
+  before: PositionReport | null; // Latest fix at or before time
+  after: PositionReport | null; // Earliest fix after time
+}
+
+/**
+ * Historical snapshot: the last known position of every vessel in an area at a past time
+ * Fixes older than lookbackMs before time are not considered
+ */
+export interface SnapshotQuery {
+  time: Date;
+  lookbackMs: number;
+  bbox: BoundingBox;
+  limit?: number;
 }
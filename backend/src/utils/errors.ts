@@ -124,6 +124,15 @@ export class ConfigurationError extends ApplicationError {
   }
 }
 
+/**
+ * Schema migration errors: checksum drift, missing files or a failed migration
+ */
+export class MigrationError extends ApplicationError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(message, 'MIGRATION_ERROR', 500, false, context);
+  }
+}
+
 /**
  * Error response format for API responses
  */
@@ -165,3 +174,50 @@ export function isOperationalError(error: Error): boolean {
   }
   return false;
 }
+
+// Node socket errors and PostgreSQL SQLSTATEs that mean the server could not be reached
+const CONNECTION_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'ETIMEDOUT',
+  'EHOSTUNREACH',
+  'EPIPE',
+  '53300', // too_many_connections
+  '57P01', // admin_shutdown
+  '57P02', // crash_shutdown
+  '57P03', // cannot_connect_now
+]);
+
+/**
+ * Check if an error may carry the PostgreSQL driver's code and detail fields
+ */
+export function isPgError(error: unknown): error is { code?: string; detail?: string } {
+  return typeof error === 'object' && error !== null && 'code' in error;
+}
+
+/**
+ * Check if a database error means the database is unavailable, as opposed to rejecting the data
+ * Looks at the driver error code and at the errorCode/originalError context of wrapped errors
+ */
+export function isDatabaseUnavailableError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  const code =
+    error instanceof ApplicationError
+      ? error.context?.errorCode
+      : (error as NodeJS.ErrnoException).code;
+  if (typeof code === 'string' && (CONNECTION_ERROR_CODES.has(code) || code.startsWith('08'))) {
+    return true;
+  }
+
+  const message =
+    error instanceof ApplicationError && typeof error.context?.originalError === 'string'
+      ? error.context.originalError
+      : error.message;
+  return /connection terminated|connect ECONNREFUSED|timeout exceeded when trying to connect/i.test(
+    message
+  );
+}
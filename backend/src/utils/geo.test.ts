@@ -0,0 +1,219 @@
+import {
+  destinationPoint,
+  distanceNm,
+  distanceToLineNm,
+  interpolateGreatCircle,
+  isInBoundingBox,
+  isPointInArea,
+  nauticalMilesToMeters,
+  normalizeLongitude,
+  parseGeoJsonArea,
+  parseGeoJsonLineString,
+  splitAtAntimeridian,
+} from './geo';
+
+// Rotterdam port area
+const PORT_AREA = [
+  [
+    [4.0, 51.9],
+    [4.5, 51.9],
+    [4.5, 52.0],
+    [4.0, 52.0],
+    [4.0, 51.9],
+  ],
+];
+
+describe('nauticalMilesToMeters', () => {
+  it('should use the international nautical mile', () => {
+    expect(nauticalMilesToMeters(1)).toBe(1852);
+    expect(nauticalMilesToMeters(12)).toBe(22224);
+  });
+});
+
+describe('parseGeoJsonArea', () => {
+  it('should accept polygons, multipolygons and features holding them', () => {
+    expect(parseGeoJsonArea({ type: 'Polygon', coordinates: PORT_AREA })).toEqual({
+      type: 'Polygon',
+      coordinates: PORT_AREA,
+    });
+    expect(
+      parseGeoJsonArea({ type: 'MultiPolygon', coordinates: [PORT_AREA, PORT_AREA] })
+    ).toMatchObject({ type: 'MultiPolygon' });
+    expect(
+      parseGeoJsonArea({
+        type: 'Feature',
+        properties: { name: 'Maasvlakte' },
+        geometry: { type: 'Polygon', coordinates: PORT_AREA },
+      })
+    ).toMatchObject({ type: 'Polygon' });
+  });
+
+  it('should reject open rings, out-of-range positions and other geometries', () => {
+    expect(parseGeoJsonArea({ type: 'Polygon', coordinates: [PORT_AREA[0].slice(0, 4)] })).toBe(
+      null
+    );
+    expect(
+      parseGeoJsonArea({
+        type: 'Polygon',
+        coordinates: [
+          [
+            [4.0, 91],
+            [4.5, 51.9],
+            [4.5, 52.0],
+            [4.0, 91],
+          ],
+        ],
+      })
+    ).toBe(null);
+    expect(parseGeoJsonArea({ type: 'Point', coordinates: [4.0, 51.9] })).toBe(null);
+    expect(parseGeoJsonArea('POLYGON((4 51.9, 4.5 51.9, 4.5 52, 4 51.9))')).toBe(null);
+  });
+});
+
+describe('parseGeoJsonLineString', () => {
+  it('should accept lines with at least two positions', () => {
+    const line = {
+      type: 'LineString',
+      coordinates: [
+        [4.0, 51.98],
+        [3.5, 52.1],
+      ],
+    };
+    expect(parseGeoJsonLineString(line)).toEqual(line);
+    expect(parseGeoJsonLineString({ type: 'Feature', geometry: line })).toEqual(line);
+  });
+
+  it('should reject single positions and non-numeric coordinates', () => {
+    expect(parseGeoJsonLineString({ type: 'LineString', coordinates: [[4.0, 51.98]] })).toBe(null);
+    expect(
+      parseGeoJsonLineString({
+        type: 'LineString',
+        coordinates: [
+          ['4.0', '51.98'],
+          [3.5, 52.1],
+        ],
+      })
+    ).toBe(null);
+  });
+});
+
+describe('antimeridian bounding boxes', () => {
+  // Fiji and Tonga, from 170°E to 170°W
+  const FIJI = { minLat: -25, maxLat: -10, minLon: 170, maxLon: -170 };
+
+  it('should match positions on either side of the antimeridian', () => {
+    expect(isInBoundingBox(-18, 178.4, FIJI)).toBe(true);
+    expect(isInBoundingBox(-21, -175.2, FIJI)).toBe(true);
+    expect(isInBoundingBox(-18, 0, FIJI)).toBe(false);
+    expect(isInBoundingBox(-5, 178.4, FIJI)).toBe(false);
+    expect(isInBoundingBox(51.9, 4.05, { minLat: 50, maxLat: 55, minLon: 0, maxLon: 5 })).toBe(
+      true
+    );
+  });
+
+  it('should split crossing boxes into eastern and western parts', () => {
+    expect(splitAtAntimeridian(FIJI)).toEqual([
+      { minLat: -25, maxLat: -10, minLon: 170, maxLon: 180 },
+      { minLat: -25, maxLat: -10, minLon: -180, maxLon: -170 },
+    ]);
+    const northSea = { minLat: 50, maxLat: 55, minLon: 0, maxLon: 5 };
+    expect(splitAtAntimeridian(northSea)).toEqual([northSea]);
+  });
+
+  it('should wrap longitudes into [-180, 180]', () => {
+    expect(normalizeLongitude(190)).toBe(-170);
+    expect(normalizeLongitude(-190)).toBe(170);
+    expect(normalizeLongitude(540)).toBe(-180);
+    expect(normalizeLongitude(180)).toBe(180);
+    expect(normalizeLongitude(4.05)).toBe(4.05);
+  });
+});
+
+describe('isPointInArea', () => {
+  it('should test polygons with holes and multipolygons', () => {
+    const withHole = {
+      type: 'Polygon' as const,
+      coordinates: [
+        PORT_AREA[0],
+        [
+          [4.2, 51.94],
+          [4.3, 51.94],
+          [4.3, 51.96],
+          [4.2, 51.96],
+          [4.2, 51.94],
+        ],
+      ],
+    };
+
+    expect(isPointInArea(51.95, 4.1, withHole)).toBe(true);
+    expect(isPointInArea(51.95, 4.25, withHole)).toBe(false);
+    expect(isPointInArea(52.1, 4.1, withHole)).toBe(false);
+    expect(
+      isPointInArea(51.95, 4.25, {
+        type: 'MultiPolygon',
+        coordinates: [withHole.coordinates, PORT_AREA],
+      })
+    ).toBe(true);
+  });
+});
+
+describe('great-circle navigation', () => {
+  it('should measure distances in nautical miles', () => {
+    expect(distanceNm(50, 0, 51, 0)).toBeCloseTo(60, 0);
+    expect(distanceNm(0, 179.5, 0, -179.5)).toBeCloseTo(60, 0);
+  });
+
+  it('should interpolate along the great circle', () => {
+    const start = interpolateGreatCircle(52, 4, 53, 5, 0);
+    expect(start.latitude).toBeCloseTo(52, 9);
+    expect(start.longitude).toBeCloseTo(4, 9);
+    const end = interpolateGreatCircle(52, 4, 53, 5, 1);
+    expect(end.latitude).toBeCloseTo(53, 9);
+    expect(end.longitude).toBeCloseTo(5, 9);
+
+    // Halfway along the equator is the average longitude; across the antimeridian it wraps
+    const middle = interpolateGreatCircle(0, 10, 0, 20, 0.5);
+    expect(middle.latitude).toBeCloseTo(0, 9);
+    expect(middle.longitude).toBeCloseTo(15, 9);
+    const crossing = interpolateGreatCircle(10, 179.5, 10, -179.5, 0.5);
+    expect(Math.abs(crossing.longitude)).toBeCloseTo(180, 6);
+    expect(crossing.latitude).toBeGreaterThan(10);
+  });
+
+  it('should dead reckon from a bearing and distance', () => {
+    // 60 nm due north is one degree of latitude
+    const north = destinationPoint(52, 4, 0, 60);
+    expect(north.latitude).toBeCloseTo(53, 1);
+    expect(north.longitude).toBeCloseTo(4, 9);
+
+    const east = destinationPoint(0, 179.9, 90, 12);
+    expect(east.latitude).toBeCloseTo(0, 9);
+    expect(east.longitude).toBeCloseTo(-179.9, 1);
+  });
+});
+
+describe('distanceToLineNm', () => {
+  const segment = [
+    [4, 52],
+    [5, 52],
+  ];
+  const crossing = [
+    [179.5, 0],
+    [-179.5, 0],
+  ];
+
+  it('should measure to the closest point of a line', () => {
+    // One minute of latitude north of the middle of the segment
+    expect(distanceToLineNm(52 + 1 / 60, 4.5, segment)).toBeCloseTo(1, 2);
+    // Past the end of the segment the end point is closest
+    const oneMinuteEast = 1 / 60 / Math.cos((52 * Math.PI) / 180);
+    expect(distanceToLineNm(52, 5 + oneMinuteEast, segment)).toBeCloseTo(1, 2);
+    // A single position is a point
+    expect(distanceToLineNm(53, 4, [[4, 52]])).toBeCloseTo(60, 0);
+  });
+
+  it('should measure across the antimeridian', () => {
+    expect(distanceToLineNm(0, 180, crossing)).toBeCloseTo(0, 6);
+    expect(distanceToLineNm(1 / 60, -179.9, crossing)).toBeCloseTo(1, 2);
+  });
+});
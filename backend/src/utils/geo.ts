@@ -0,0 +1,317 @@
+/**
+ * Geographic helpers: units, GeoJSON validation, bounding boxes for spatial queries, distances
+ * and great-circle navigation
+ */
+
+import { BoundingBox, GeoJsonArea, GeoJsonLineString } from '../types';
+
+export const METERS_PER_NAUTICAL_MILE = 1852;
+
+const EARTH_RADIUS_NM = 3440.065;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Convert nautical miles to meters, the unit PostGIS uses for geography distances
+ */
+export function nauticalMilesToMeters(nauticalMiles: number): number {
+  return nauticalMiles * METERS_PER_NAUTICAL_MILE;
+}
+
+function isPosition(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    typeof value[0] === 'number' &&
+    typeof value[1] === 'number' &&
+    value[0] >= -180 &&
+    value[0] <= 180 &&
+    value[1] >= -90 &&
+    value[1] <= 90
+  );
+}
+
+/**
+ * A linear ring: at least four positions, the last equal to the first
+ */
+function isLinearRing(value: unknown): boolean {
+  if (!Array.isArray(value) || value.length < 4 || !value.every(isPosition)) {
+    return false;
+  }
+  const first = value[0];
+  const last = value[value.length - 1];
+  return first[0] === last[0] && first[1] === last[1];
+}
+
+function isPolygonCoordinates(value: unknown): boolean {
+  return Array.isArray(value) && value.length > 0 && value.every(isLinearRing);
+}
+
+/**
+ * Unwrap a GeoJSON Feature to its geometry
+ */
+function geometryOf(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const object = value as Record<string, unknown>;
+  if (object.type === 'Feature') {
+    return geometryOf(object.geometry);
+  }
+  return object;
+}
+
+/**
+ * Validate a GeoJSON Polygon or MultiPolygon (or a Feature holding one)
+ * Returns null when the value is not a valid area
+ */
+export function parseGeoJsonArea(value: unknown): GeoJsonArea | null {
+  const geometry = geometryOf(value);
+  if (!geometry) {
+    return null;
+  }
+
+  if (geometry.type === 'Polygon' && isPolygonCoordinates(geometry.coordinates)) {
+    return { type: 'Polygon', coordinates: geometry.coordinates as number[][][] };
+  }
+  if (
+    geometry.type === 'MultiPolygon' &&
+    Array.isArray(geometry.coordinates) &&
+    geometry.coordinates.length > 0 &&
+    geometry.coordinates.every(isPolygonCoordinates)
+  ) {
+    return { type: 'MultiPolygon', coordinates: geometry.coordinates as number[][][][] };
+  }
+  return null;
+}
+
+/**
+ * Validate a GeoJSON LineString (or a Feature holding one) with at least two positions
+ * Returns null when the value is not a valid line
+ */
+export function parseGeoJsonLineString(value: unknown): GeoJsonLineString | null {
+  const geometry = geometryOf(value);
+  if (
+    !geometry ||
+    geometry.type !== 'LineString' ||
+    !Array.isArray(geometry.coordinates) ||
+    geometry.coordinates.length < 2 ||
+    !geometry.coordinates.every(isPosition)
+  ) {
+    return null;
+  }
+  return { type: 'LineString', coordinates: geometry.coordinates as number[][] };
+}
+
+/**
+ * Wrap a longitude into [-180, 180]
+ * Map libraries report longitudes beyond ±180 once the view has been panned across the antimeridian
+ */
+export function normalizeLongitude(longitude: number): number {
+  if (longitude >= -180 && longitude <= 180) {
+    return longitude;
+  }
+  return ((((longitude + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Whether a bounding box crosses the antimeridian
+ * Such boxes are given with minLon > maxLon, e.g. minLon=170, maxLon=-170 for the 20° around ±180
+ */
+export function crossesAntimeridian(bbox: BoundingBox): boolean {
+  return bbox.minLon > bbox.maxLon;
+}
+
+/**
+ * Check whether a position lies inside a bounding box, including boxes crossing the antimeridian
+ */
+export function isInBoundingBox(latitude: number, longitude: number, bbox: BoundingBox): boolean {
+  if (latitude < bbox.minLat || latitude > bbox.maxLat) {
+    return false;
+  }
+  if (crossesAntimeridian(bbox)) {
+    return longitude >= bbox.minLon || longitude <= bbox.maxLon;
+  }
+  return longitude >= bbox.minLon && longitude <= bbox.maxLon;
+}
+
+/**
+ * Split a bounding box crossing the antimeridian into its eastern and western parts
+ * Boxes that do not cross are returned unchanged
+ */
+export function splitAtAntimeridian(bbox: BoundingBox): BoundingBox[] {
+  if (!crossesAntimeridian(bbox)) {
+    return [bbox];
+  }
+  return [
+    { ...bbox, maxLon: 180 },
+    { ...bbox, minLon: -180 },
+  ];
+}
+
+/**
+ * Ray casting test against one ring of [longitude, latitude] positions
+ */
+function isPointInRing(latitude: number, longitude: number, ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lonI, latI] = ring[i];
+    const [lonJ, latJ] = ring[j];
+    if (
+      latI > latitude !== latJ > latitude &&
+      longitude < ((lonJ - lonI) * (latitude - latI)) / (latJ - latI) + lonI
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Check whether a position lies inside a GeoJSON Polygon or MultiPolygon
+ * The first ring of each polygon is its outline, further rings are holes
+ */
+export function isPointInArea(latitude: number, longitude: number, area: GeoJsonArea): boolean {
+  const polygons = area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+  return polygons.some(
+    ([outline, ...holes]) =>
+      isPointInRing(latitude, longitude, outline) &&
+      !holes.some((hole) => isPointInRing(latitude, longitude, hole))
+  );
+}
+
+/**
+ * Smallest bounding box around a GeoJSON Polygon or MultiPolygon
+ */
+export function areaBounds(area: GeoJsonArea): BoundingBox {
+  const polygons = area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+  const positions = polygons.flatMap((polygon) => polygon[0]);
+  const longitudes = positions.map((position) => position[0]);
+  const latitudes = positions.map((position) => position[1]);
+  return {
+    minLat: Math.min(...latitudes),
+    maxLat: Math.max(...latitudes),
+    minLon: Math.min(...longitudes),
+    maxLon: Math.max(...longitudes),
+  };
+}
+
+/**
+ * Great-circle distance between two points in nautical miles
+ */
+export function distanceNm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const a =
+    Math.sin(toRadians(lat2 - lat1) / 2) ** 2 +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(toRadians(lon2 - lon1) / 2) ** 2;
+  return 2 * EARTH_RADIUS_NM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Shortest distance in nautical miles from a position to a line of GeoJSON [lon, lat] positions
+ * A single position gives the distance to that point. The closest point of each segment is
+ * found in a flat projection around the position, which is close enough for segments of up to
+ * a few hundred nautical miles
+ */
+export function distanceToLineNm(
+  latitude: number,
+  longitude: number,
+  coordinates: number[][]
+): number {
+  const scale = Math.cos(toRadians(latitude));
+  let shortest = Infinity;
+
+  for (let i = 0; i < coordinates.length; i++) {
+    const [lonA, latA] = coordinates[i];
+    const [lonB, latB] = coordinates[Math.min(i + 1, coordinates.length - 1)];
+    const segmentLon = normalizeLongitude(lonB - lonA);
+    const ax = normalizeLongitude(lonA - longitude) * scale;
+    const ay = latA - latitude;
+    const dx = segmentLon * scale;
+    const dy = latB - latA;
+    const lengthSquared = dx * dx + dy * dy;
+    const fraction =
+      lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+
+    shortest = Math.min(
+      shortest,
+      distanceNm(
+        latitude,
+        longitude,
+        latA + fraction * dy,
+        normalizeLongitude(lonA + fraction * segmentLon)
+      )
+    );
+  }
+
+  return shortest;
+}
+
+/**
+ * Point at a fraction of the way along the great circle between two points
+ * A fraction of 0 gives the first point, 1 the second
+ */
+export function interpolateGreatCircle(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+  fraction: number
+): { latitude: number; longitude: number } {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const lambda1 = toRadians(lon1);
+  const lambda2 = toRadians(lon2);
+
+  // Angular distance between the points (haversine)
+  const a =
+    Math.sin((phi2 - phi1) / 2) ** 2 +
+    Math.cos(phi1) * Math.cos(phi2) * Math.sin((lambda2 - lambda1) / 2) ** 2;
+  const delta = 2 * Math.asin(Math.min(1, Math.sqrt(a)));
+  if (delta < 1e-12) {
+    return { latitude: lat1, longitude: lon1 };
+  }
+
+  const weight1 = Math.sin((1 - fraction) * delta) / Math.sin(delta);
+  const weight2 = Math.sin(fraction * delta) / Math.sin(delta);
+  const x =
+    weight1 * Math.cos(phi1) * Math.cos(lambda1) + weight2 * Math.cos(phi2) * Math.cos(lambda2);
+  const y =
+    weight1 * Math.cos(phi1) * Math.sin(lambda1) + weight2 * Math.cos(phi2) * Math.sin(lambda2);
+  const z = weight1 * Math.sin(phi1) + weight2 * Math.sin(phi2);
+
+  return {
+    latitude: toDegrees(Math.atan2(z, Math.hypot(x, y))),
+    longitude: normalizeLongitude(toDegrees(Math.atan2(y, x))),
+  };
+}
+
+/**
+ * Point reached from a start point after a distance on an initial bearing along a great circle
+ * Used for dead reckoning from a fix's course and speed over ground
+ */
+export function destinationPoint(
+  latitude: number,
+  longitude: number,
+  bearingDegrees: number,
+  distanceNm: number
+): { latitude: number; longitude: number } {
+  const phi1 = toRadians(latitude);
+  const lambda1 = toRadians(longitude);
+  const theta = toRadians(bearingDegrees);
+  const delta = distanceNm / EARTH_RADIUS_NM;
+
+  const phi2 = Math.asin(
+    Math.sin(phi1) * Math.cos(delta) + Math.cos(phi1) * Math.sin(delta) * Math.cos(theta)
+  );
+  const lambda2 =
+    lambda1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(delta) * Math.cos(phi1),
+      Math.cos(delta) - Math.sin(phi1) * Math.sin(phi2)
+    );
+
+  return { latitude: toDegrees(phi2), longitude: normalizeLongitude(toDegrees(lambda2)) };
+}
@@ -4,3 +4,6 @@
 
 export * from './logger';
 export * from './errors';
+export * from './mmsi';
+export * from './geo';
+export * from './track';
@@ -0,0 +1,36 @@
+import { decodeMMSI } from './mmsi';
+
+describe('decodeMMSI', () => {
+  it('should decode ship MMSIs to their flag state', () => {
+    expect(decodeMMSI('244670316')).toEqual({
+      mmsi: '244670316',
+      category: 'ship',
+      mid: 244,
+      flag: 'NL',
+      country: 'Netherlands',
+    });
+    expect(decodeMMSI('366053209')).toMatchObject({ category: 'ship', flag: 'US' });
+    expect(decodeMMSI('636012345')).toMatchObject({ category: 'ship', flag: 'LR' });
+  });
+
+  it('should classify station categories and read the MID at the right offset', () => {
+    expect(decodeMMSI('002442000')).toMatchObject({ category: 'coast_station', flag: 'NL' });
+    expect(decodeMMSI('023212345')).toMatchObject({ category: 'group_call', flag: 'GB' });
+    expect(decodeMMSI('111232501')).toMatchObject({ category: 'sar_aircraft', flag: 'GB' });
+    expect(decodeMMSI('822712345')).toMatchObject({ category: 'handheld', flag: 'FR' });
+    expect(decodeMMSI('982441234')).toMatchObject({ category: 'auxiliary_craft', flag: 'NL' });
+    expect(decodeMMSI('992446001')).toMatchObject({ category: 'aid_to_navigation', flag: 'NL' });
+  });
+
+  it('should classify distress devices without a flag', () => {
+    expect(decodeMMSI('970012345')).toMatchObject({ category: 'sart', mid: null, flag: null });
+    expect(decodeMMSI('972012345')).toMatchObject({ category: 'mob', flag: null });
+    expect(decodeMMSI('974012345')).toMatchObject({ category: 'epirb', flag: null });
+  });
+
+  it('should leave unassigned MIDs and malformed MMSIs without a flag', () => {
+    expect(decodeMMSI('200123456')).toMatchObject({ category: 'ship', mid: null, flag: null });
+    expect(decodeMMSI('12345')).toMatchObject({ category: 'unknown', flag: null });
+    expect(decodeMMSI('123456789')).toMatchObject({ category: 'unknown', flag: null });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  formatTrackCursor,
+  nextTrackCursor,
+  parseTrackCursor,
+  simplifyTrack,
+  skipSeenFixes,
+  trackSignificance,
+  TrackPoint,
+} from './track';
+
+const MINUTE = 60 * 1000;
+const START = new Date('2025-12-01T00:00:00Z').getTime();
+
+function point(minutes: number, latitude: number, longitude: number): TrackPoint {
+  return { latitude, longitude, timestamp: new Date(START + minutes * MINUTE) };
+}
+
+// Heading east along 52°N, then turning north at 4.5°E
+const TRACK = [
+  point(0, 52.0, 4.0),
+  point(5, 52.0001, 4.1),
+  point(10, 51.9999, 4.2),
+  point(15, 52.0, 4.3),
+  point(20, 52.0002, 4.4),
+  point(25, 52.0, 4.5),
+  point(30, 52.1, 4.5),
+  point(35, 52.2, 4.5001),
+  point(40, 52.3, 4.5),
+];
+
+describe('simplifyTrack', () => {
+  it('should drop fixes within the tolerance and keep turning points', () => {
+    const simplified = simplifyTrack(TRACK, { toleranceNm: 0.05 });
+
+    expect(simplified).toEqual([TRACK[0], TRACK[5], TRACK[8]]);
+  });
+
+  it('should keep every fix at zero tolerance unless it lies on the line', () => {
+    const straight = [point(0, 52.0, 4.0), point(5, 52.0, 4.1), point(10, 52.0, 4.2)];
+
+    expect(simplifyTrack(TRACK, { toleranceNm: 0 })).toHaveLength(TRACK.length);
+    expect(simplifyTrack(straight, { toleranceNm: 0 })).toEqual([straight[0], straight[2]]);
+  });
+
+  it('should keep the most significant fixes up to maxPoints', () => {
+    expect(simplifyTrack(TRACK, { maxPoints: 3 })).toEqual([TRACK[0], TRACK[5], TRACK[8]]);
+    expect(simplifyTrack(TRACK, { maxPoints: 100 })).toHaveLength(TRACK.length);
+  });
+
+  it('should keep the fixes on both sides of a gap', () => {
+    const withGap = [
+      point(0, 52.0, 4.0),
+      point(5, 52.0, 4.1),
+      point(10, 52.0, 4.2),
+      point(120, 52.0, 4.3),
+      point(125, 52.0, 4.4),
+    ];
+
+    expect(simplifyTrack(withGap, { toleranceNm: 1, maxPoints: 2 })).toEqual([
+      withGap[0],
+      withGap[2],
+      withGap[3],
+      withGap[4],
+    ]);
+  });
+
+  it('should measure distances across the antimeridian', () => {
+    const crossing = [point(0, 10.0, 179.9), point(5, 10.0, -180.0), point(10, 10.0, -179.9)];
+
+    expect(trackSignificance(crossing)[1]).toBeCloseTo(0, 5);
+    expect(simplifyTrack(crossing, { toleranceNm: 0.01 })).toHaveLength(2);
+  });
+});
+
+describe('track cursors', () => {
+  const fixes = [point(0, 52.0, 4.0), point(1, 52.0, 4.1), point(1, 52.0, 4.2)];
+
+  it('should count the fixes sharing the last timestamp', () => {
+    expect(nextTrackCursor(fixes)).toEqual({ timestamp: fixes[2].timestamp, seen: 2 });
+    expect(nextTrackCursor(fixes.slice(0, 2))).toEqual({ timestamp: fixes[1].timestamp, seen: 1 });
+  });
+
+  it('should add to the previous cursor when a whole page shares its timestamp', () => {
+    const previous = { timestamp: fixes[1].timestamp, seen: 2 };
+
+    expect(nextTrackCursor([point(1, 52.0, 4.3)], previous)).toEqual({
+      timestamp: fixes[1].timestamp,
+      seen: 3,
+    });
+  });
+
+  it('should skip only the fixes the previous page returned', () => {
+    const cursor = { timestamp: fixes[1].timestamp, seen: 1 };
+
+    expect(skipSeenFixes(fixes.slice(1), cursor)).toEqual([fixes[2]]);
+    expect(skipSeenFixes(fixes.slice(1))).toEqual(fixes.slice(1));
+  });
+
+  it('should round-trip cursors and reject malformed ones', () => {
+    const cursor = { timestamp: fixes[2].timestamp, seen: 2 };
+
+    expect(formatTrackCursor(cursor)).toBe('2025-12-01T00:01:00.000Z_2');
+    expect(parseTrackCursor(formatTrackCursor(cursor))).toEqual(cursor);
+    expect(parseTrackCursor('2025-12-01T00:01:00.000Z')).toBeNull();
+    expect(parseTrackCursor('next_1')).toBeNull();
+    expect(parseTrackCursor('2025-12-01T00:01:00.000Z_0')).toBeNull();
+  });
+});
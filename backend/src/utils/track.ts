@@ -0,0 +1,213 @@
+/**
+ * Track simplification: Douglas–Peucker on position reports, keeping gaps in reception,
+ * and paging through tracks whose fixes can share a timestamp
+ */
+
+import { normalizeLongitude } from './geo';
+
+/**
+ * A fix of a track, e.g. a PositionReport
+ */
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  timestamp: Date;
+}
+
+export interface TrackSimplificationOptions {
+  /** Fixes closer than this to the simplified track are dropped (nautical miles) */
+  toleranceNm?: number;
+  /** Keep at most this many fixes, dropping the least significant first */
+  maxPoints?: number;
+  /** Consecutive fixes further apart in time are a gap; the fixes on both sides are kept (default: 30 minutes) */
+  maxGapMs?: number;
+}
+
+const DEFAULT_MAX_GAP_MS = 30 * 60 * 1000;
+
+// Nautical miles per degree of latitude
+const NM_PER_DEGREE = 60;
+
+/**
+ * Distance in nautical miles from a fix to the line between two others
+ * Uses a flat projection around the line, which is accurate for the short legs between fixes
+ */
+function distanceToLegNm(point: TrackPoint, start: TrackPoint, end: TrackPoint): number {
+  const lonScale = Math.cos((start.latitude * Math.PI) / 180) * NM_PER_DEGREE;
+  const project = (fix: TrackPoint) => ({
+    x: normalizeLongitude(fix.longitude - start.longitude) * lonScale,
+    y: (fix.latitude - start.latitude) * NM_PER_DEGREE,
+  });
+
+  const p = project(point);
+  const e = project(end);
+  const lengthSquared = e.x * e.x + e.y * e.y;
+  // Fraction along the leg of the closest point, clamped to the leg's ends
+  const t =
+    lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, (p.x * e.x + p.y * e.y) / lengthSquared));
+  return Math.hypot(p.x - t * e.x, p.y - t * e.y);
+}
+
+/**
+ * Douglas–Peucker significance of every fix of a track
+ *
+ * A fix is kept by Douglas–Peucker at any tolerance below its significance.
+ * First and last fixes and the fixes on both sides of a gap never go.
+ */
+export function trackSignificance(track: TrackPoint[], maxGapMs = DEFAULT_MAX_GAP_MS): number[] {
+  const significance = new Array<number>(track.length).fill(0);
+  if (track.length === 0) {
+    return significance;
+  }
+
+  const anchors = [0];
+  for (let i = 1; i < track.length; i++) {
+    if (track[i].timestamp.getTime() - track[i - 1].timestamp.getTime() > maxGapMs) {
+      anchors.push(i - 1, i);
+    }
+  }
+  anchors.push(track.length - 1);
+  for (const index of anchors) {
+    significance[index] = Infinity;
+  }
+
+  // Iterative, as long tracks would overflow the call stack
+  const stack: Array<[number, number, number]> = [];
+  for (let i = 1; i < anchors.length; i++) {
+    stack.push([anchors[i - 1], anchors[i], Infinity]);
+  }
+
+  for (let leg = stack.pop(); leg; leg = stack.pop()) {
+    const [first, last, parent] = leg;
+    let farthest = -1;
+    let maxDistance = -1;
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToLegNm(track[i], track[first], track[last]);
+      if (distance > maxDistance) {
+        farthest = i;
+        maxDistance = distance;
+      }
+    }
+    if (farthest === -1) {
+      continue;
+    }
+
+    // A fix cannot outlast the fix that split its leg
+    const value = Math.min(maxDistance, parent);
+    significance[farthest] = value;
+    stack.push([first, farthest, value], [farthest, last, value]);
+  }
+
+  return significance;
+}
+
+/**
+ * Simplify a track with Douglas–Peucker, keeping its turning points and gaps
+ *
+ * With toleranceNm, fixes that lie within the tolerance of the simplified track
+ * are dropped. With maxPoints, the least significant fixes are dropped until at
+ * most maxPoints remain. The first and last fixes and the fixes on both sides of
+ * a gap in reception are always kept, so the result can exceed maxPoints for
+ * tracks with more gaps than that.
+ *
+ * @param track - Fixes, oldest first
+ * @returns The kept fixes, oldest first
+ */
+export function simplifyTrack<T extends TrackPoint>(
+  track: T[],
+  options: TrackSimplificationOptions
+): T[] {
+  const significance = trackSignificance(track, options.maxGapMs);
+  let kept = track.map((_, index) => index);
+
+  if (options.toleranceNm !== undefined) {
+    const tolerance = options.toleranceNm;
+    kept = kept.filter((index) => significance[index] > tolerance);
+  }
+
+  if (options.maxPoints !== undefined && kept.length > options.maxPoints) {
+    const limit = Math.max(options.maxPoints, 0);
+    kept = kept
+      .sort((a, b) => significance[b] - significance[a] || a - b)
+      .filter((index, rank) => rank < limit || significance[index] === Infinity)
+      .sort((a, b) => a - b);
+  }
+
+  return kept.map((index) => track[index]);
+}
+
+/**
+ * Where the previous page of a track ended: the timestamp of its last fix and how many
+ * fixes with that timestamp were already returned
+ * The next page reads from the timestamp on and skips those, so fixes sharing the
+ * boundary timestamp are neither repeated nor lost.
+ */
+export interface TrackCursor {
+  timestamp: Date;
+  seen: number;
+}
+
+/**
+ * Drop the fixes at the start of a page that the cursor's page already returned
+ *
+ * @param fixes - Fixes at or after cursor.timestamp, oldest first
+ */
+export function skipSeenFixes<T extends TrackPoint>(fixes: T[], cursor?: TrackCursor): T[] {
+  if (!cursor) {
+    return fixes;
+  }
+
+  const time = cursor.timestamp.getTime();
+  let skipped = 0;
+  while (
+    skipped < cursor.seen &&
+    skipped < fixes.length &&
+    fixes[skipped].timestamp.getTime() === time
+  ) {
+    skipped++;
+  }
+  return fixes.slice(skipped);
+}
+
+/**
+ * Cursor for the page after `fixes`, which were read with `previous`
+ *
+ * @param fixes - A non-empty page of fixes, oldest first
+ */
+export function nextTrackCursor(fixes: TrackPoint[], previous?: TrackCursor): TrackCursor {
+  const timestamp = fixes[fixes.length - 1].timestamp;
+  let seen = 0;
+  while (
+    seen < fixes.length &&
+    fixes[fixes.length - 1 - seen].timestamp.getTime() === timestamp.getTime()
+  ) {
+    seen++;
+  }
+
+  // The whole page shares the timestamp the previous page ended with
+  if (seen === fixes.length && previous?.timestamp.getTime() === timestamp.getTime()) {
+    seen += previous.seen;
+  }
+  return { timestamp, seen };
+}
+
+/**
+ * Encode a cursor for an API response, e.g. "2025-12-01T10:00:00.000Z_2"
+ */
+export function formatTrackCursor(cursor: TrackCursor): string {
+  return `${cursor.timestamp.toISOString()}_${cursor.seen}`;
+}
+
+/**
+ * Decode a cursor from formatTrackCursor; returns null when it is malformed
+ */
+export function parseTrackCursor(value: string): TrackCursor | null {
+  const match = /^(.+)_(\d+)$/.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const timestamp = new Date(match[1]);
+  const seen = parseInt(match[2], 10);
+  return isNaN(timestamp.getTime()) || seen < 1 ? null : { timestamp, seen };
+}
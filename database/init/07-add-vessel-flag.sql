@@ -0,0 +1,6 @@
+-- Flag state and station category decoded from the MMSI (ITU-R M.585)
+ALTER TABLE vessels ADD COLUMN IF NOT EXISTS flag CHAR(2);
+ALTER TABLE vessels ADD COLUMN IF NOT EXISTS station_category VARCHAR(32);
+
+CREATE INDEX IF NOT EXISTS idx_vessels_flag ON vessels(flag);
+CREATE INDEX IF NOT EXISTS idx_vessels_station_category ON vessels(station_category);
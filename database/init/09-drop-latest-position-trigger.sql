@@ -0,0 +1,3 @@
+-- vessel_latest_positions is maintained by VesselRepository.batchInsertPositions,
+-- which upserts the latest report per vessel once per batch instead of once per row
+DROP TRIGGER IF EXISTS trg_update_latest_position ON position_reports;
@@ -0,0 +1,17 @@
+-- AIS messages that failed parsing, decoding or validation, with the raw payload
+-- Capped by the backend (DEAD_LETTER_MAX_ROWS), which deletes the oldest rows
+CREATE TABLE IF NOT EXISTS dead_letters (
+  id BIGSERIAL PRIMARY KEY,
+  received_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  source VARCHAR(64),
+  stage VARCHAR(16) NOT NULL,
+  message_type VARCHAR(32) NOT NULL,
+  mmsi VARCHAR(20),
+  reason VARCHAR(128) NOT NULL,
+  detail TEXT NOT NULL,
+  payload TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letters_time ON dead_letters(received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_dead_letters_reason_time ON dead_letters(reason, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_dead_letters_mmsi ON dead_letters(mmsi) WHERE mmsi IS NOT NULL;
@@ -0,0 +1,45 @@
+-- One fix per vessel per 10 minutes, read by long-range track queries (see VesselRepository)
+-- Retention and compression ages are set by the backend on startup (POSITION_* settings)
+CREATE MATERIALIZED VIEW IF NOT EXISTS position_reports_10m
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+  mmsi,
+  time_bucket(INTERVAL '10 minutes', timestamp) AS bucket,
+  last(timestamp, timestamp) AS timestamp,
+  last(latitude, timestamp) AS latitude,
+  last(longitude, timestamp) AS longitude,
+  last(sog, timestamp) AS sog,
+  last(cog, timestamp) AS cog,
+  last(true_heading, timestamp) AS true_heading,
+  last(navigational_status, timestamp) AS navigational_status,
+  last(rate_of_turn, timestamp) AS rate_of_turn,
+  last(altitude, timestamp) AS altitude
+FROM position_reports
+GROUP BY mmsi, bucket
+WITH DATA;
+
+CREATE INDEX IF NOT EXISTS idx_position_reports_10m_mmsi_bucket
+  ON position_reports_10m(mmsi, bucket DESC);
+
+-- Refreshes the last 3 days, so raw retention must stay longer than that; refreshing a
+-- range whose raw chunks were dropped would empty the aggregate there
+SELECT add_continuous_aggregate_policy('position_reports_10m',
+  start_offset => INTERVAL '3 days',
+  end_offset => INTERVAL '10 minutes',
+  schedule_interval => INTERVAL '10 minutes',
+  if_not_exists => TRUE);
+
+-- Compressed chunks are stored per vessel in time order, matching track queries
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM timescaledb_information.hypertables
+    WHERE hypertable_name = 'position_reports' AND compression_enabled
+  ) THEN
+    ALTER TABLE position_reports SET (
+      timescaledb.compress,
+      timescaledb.compress_segmentby = 'mmsi',
+      timescaledb.compress_orderby = 'timestamp DESC'
+    );
+  END IF;
+END $$;
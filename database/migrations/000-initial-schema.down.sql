@@ -0,0 +1,8 @@
+-- Revert: Initial schema
+-- Drops all vessel and position data
+
+DROP VIEW IF EXISTS active_vessels;
+DROP VIEW IF EXISTS latest_vessel_positions;
+DROP TABLE IF EXISTS position_reports;
+DROP TABLE IF EXISTS vessels;
+DROP FUNCTION IF EXISTS update_updated_at_column();
@@ -0,0 +1,100 @@
+-- Migration: Initial schema (vessels, position_reports hypertable and views)
+-- Creates the schema of database/init/01-03 on an empty database
+-- This is safe to run multiple times (idempotent)
+
+CREATE EXTENSION IF NOT EXISTS timescaledb;
+
+CREATE TABLE IF NOT EXISTS vessels (
+  mmsi VARCHAR(20) PRIMARY KEY,
+  imo_number INTEGER,
+  name VARCHAR(255),
+  call_sign VARCHAR(50),
+  vessel_type INTEGER,
+  dimension_a INTEGER,
+  dimension_b INTEGER,
+  dimension_c INTEGER,
+  dimension_d INTEGER,
+  draught DECIMAL(4,1),
+  destination VARCHAR(255),
+  eta TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vessels_name ON vessels(name);
+CREATE INDEX IF NOT EXISTS idx_vessels_type ON vessels(vessel_type);
+CREATE INDEX IF NOT EXISTS idx_vessels_imo ON vessels(imo_number);
+
+CREATE TABLE IF NOT EXISTS position_reports (
+  id BIGSERIAL,
+  mmsi VARCHAR(20) NOT NULL,
+  timestamp TIMESTAMP NOT NULL,
+  latitude DECIMAL(9,6) NOT NULL,
+  longitude DECIMAL(10,6) NOT NULL,
+  sog DECIMAL(4,1),
+  cog DECIMAL(5,1),
+  true_heading INTEGER,
+  navigational_status INTEGER,
+  rate_of_turn INTEGER,
+  PRIMARY KEY (mmsi, timestamp)
+);
+
+SELECT create_hypertable('position_reports', 'timestamp', if_not_exists => TRUE);
+
+CREATE INDEX IF NOT EXISTS idx_position_mmsi_time ON position_reports(mmsi, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_position_latitude ON position_reports(latitude);
+CREATE INDEX IF NOT EXISTS idx_position_longitude ON position_reports(longitude);
+CREATE INDEX IF NOT EXISTS idx_position_timestamp ON position_reports(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_position_mmsi_timestamp ON position_reports(mmsi, timestamp DESC);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fk_position_vessel') THEN
+    ALTER TABLE position_reports
+      ADD CONSTRAINT fk_position_vessel
+      FOREIGN KEY (mmsi)
+      REFERENCES vessels(mmsi)
+      ON DELETE CASCADE
+      ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_vessels_updated_at ON vessels;
+CREATE TRIGGER update_vessels_updated_at
+  BEFORE UPDATE ON vessels
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Replaced by a join on vessel_latest_positions in 001
+CREATE OR REPLACE VIEW latest_vessel_positions AS
+SELECT DISTINCT ON (p.mmsi)
+  v.mmsi,
+  v.name,
+  v.vessel_type,
+  v.call_sign,
+  p.timestamp,
+  p.latitude,
+  p.longitude,
+  p.sog,
+  p.cog,
+  p.true_heading,
+  p.navigational_status
+FROM vessels v
+LEFT JOIN position_reports p ON v.mmsi = p.mmsi
+ORDER BY p.mmsi, p.timestamp DESC;
+
+CREATE OR REPLACE VIEW active_vessels AS
+SELECT *
+FROM latest_vessel_positions
+WHERE timestamp > NOW() - INTERVAL '1 hour';
+
+GRANT ALL PRIVILEGES ON ALL TABLES IN SCHEMA public TO ais_user;
+GRANT ALL PRIVILEGES ON ALL SEQUENCES IN SCHEMA public TO ais_user;
@@ -0,0 +1,24 @@
+-- Revert: Optimize latest vessel positions
+-- Restores the DISTINCT ON view over position_reports
+
+CREATE OR REPLACE VIEW latest_vessel_positions AS
+SELECT DISTINCT ON (p.mmsi)
+  v.mmsi,
+  v.name,
+  v.vessel_type,
+  v.call_sign,
+  p.timestamp,
+  p.latitude,
+  p.longitude,
+  p.sog,
+  p.cog,
+  p.true_heading,
+  p.navigational_status
+FROM vessels v
+LEFT JOIN position_reports p ON v.mmsi = p.mmsi
+ORDER BY p.mmsi, p.timestamp DESC;
+
+DROP TRIGGER IF EXISTS trg_update_latest_position ON position_reports;
+DROP FUNCTION IF EXISTS update_latest_position_trigger();
+DROP FUNCTION IF EXISTS upsert_latest_position(VARCHAR, TIMESTAMP, DECIMAL, DECIMAL, DECIMAL, DECIMAL, INTEGER, INTEGER);
+DROP TABLE IF EXISTS vessel_latest_positions;
@@ -0,0 +1,7 @@
+-- Revert: Add Class B vessels, SAR aircraft, base stations and aids to navigation
+
+DROP TABLE IF EXISTS aids_to_navigation;
+DROP TABLE IF EXISTS base_stations;
+ALTER TABLE position_reports DROP COLUMN IF EXISTS altitude;
+DROP INDEX IF EXISTS idx_vessels_ais_class;
+ALTER TABLE vessels DROP COLUMN IF EXISTS ais_class;
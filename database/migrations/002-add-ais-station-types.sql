@@ -0,0 +1,62 @@
+-- Migration: Add Class B vessels, SAR aircraft, base stations and aids to navigation
+-- Run this on existing databases to store the additional AIS message types
+-- This is safe to run multiple times (idempotent)
+
+-- Transponder class of each vessel ('A' or 'B')
+ALTER TABLE vessels ADD COLUMN IF NOT EXISTS ais_class CHAR(1);
+CREATE INDEX IF NOT EXISTS idx_vessels_ais_class ON vessels(ais_class);
+
+-- Altitude in meters reported by SAR aircraft (message type 9)
+ALTER TABLE position_reports ADD COLUMN IF NOT EXISTS altitude INTEGER;
+
+-- Base stations (message type 4)
+CREATE TABLE IF NOT EXISTS base_stations (
+  mmsi VARCHAR(20) PRIMARY KEY,
+  latitude DECIMAL(9,6) NOT NULL,
+  longitude DECIMAL(10,6) NOT NULL,
+  fix_type INTEGER,
+  station_time TIMESTAMP,
+  last_seen TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_base_stations_lat_lon ON base_stations(latitude, longitude);
+
+-- Aids to navigation (message type 21)
+CREATE TABLE IF NOT EXISTS aids_to_navigation (
+  mmsi VARCHAR(20) PRIMARY KEY,
+  name VARCHAR(255),
+  aid_type INTEGER,
+  latitude DECIMAL(9,6) NOT NULL,
+  longitude DECIMAL(10,6) NOT NULL,
+  dimension_a INTEGER,
+  dimension_b INTEGER,
+  dimension_c INTEGER,
+  dimension_d INTEGER,
+  is_virtual BOOLEAN,
+  off_position BOOLEAN,
+  last_seen TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_aids_to_navigation_lat_lon ON aids_to_navigation(latitude, longitude);
+CREATE INDEX IF NOT EXISTS idx_aids_to_navigation_name ON aids_to_navigation(name);
+
+-- Keep updated_at current
+DROP TRIGGER IF EXISTS update_base_stations_updated_at ON base_stations;
+CREATE TRIGGER update_base_stations_updated_at
+  BEFORE UPDATE ON base_stations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_aids_to_navigation_updated_at ON aids_to_navigation;
+CREATE TRIGGER update_aids_to_navigation_updated_at
+  BEFORE UPDATE ON aids_to_navigation
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Grant permissions
+GRANT ALL PRIVILEGES ON base_stations TO ais_user;
+GRANT ALL PRIVILEGES ON aids_to_navigation TO ais_user;
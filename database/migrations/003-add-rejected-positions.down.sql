@@ -0,0 +1,3 @@
+-- Revert: Add quarantine table for implausible position reports
+
+DROP TABLE IF EXISTS rejected_positions;
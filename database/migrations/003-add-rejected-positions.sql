@@ -0,0 +1,28 @@
+-- Migration: Add quarantine table for implausible position reports
+-- Run this on existing databases to keep rejected fixes for review
+-- This is safe to run multiple times (idempotent)
+
+CREATE TABLE IF NOT EXISTS rejected_positions (
+  id BIGSERIAL PRIMARY KEY,
+  mmsi VARCHAR(20) NOT NULL,
+  timestamp TIMESTAMP NOT NULL,
+  latitude DECIMAL(9,6) NOT NULL,
+  longitude DECIMAL(10,6) NOT NULL,
+  sog DECIMAL(5,1),
+  cog DECIMAL(5,1),
+  true_heading INTEGER,
+  navigational_status INTEGER,
+  altitude INTEGER,
+  reason VARCHAR(32) NOT NULL,
+  implied_speed DECIMAL(10,1) NOT NULL,
+  speed_limit DECIMAL(6,1) NOT NULL,
+  distance_nm DECIMAL(10,3) NOT NULL,
+  elapsed_seconds DECIMAL(12,3) NOT NULL,
+  previous_latitude DECIMAL(9,6) NOT NULL,
+  previous_longitude DECIMAL(10,6) NOT NULL,
+  previous_timestamp TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rejected_positions_mmsi_time ON rejected_positions(mmsi, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_rejected_positions_time ON rejected_positions(timestamp DESC);
@@ -0,0 +1,6 @@
+-- Revert: Add flag state and station category decoded from the MMSI
+
+DROP INDEX IF EXISTS idx_vessels_station_category;
+DROP INDEX IF EXISTS idx_vessels_flag;
+ALTER TABLE vessels DROP COLUMN IF EXISTS station_category;
+ALTER TABLE vessels DROP COLUMN IF EXISTS flag;
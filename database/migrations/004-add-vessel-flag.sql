@@ -0,0 +1,10 @@
+-- Migration: Add flag state and station category decoded from the MMSI
+-- Run this on existing databases to make vessels filterable by flag and category
+-- This is safe to run multiple times (idempotent)
+-- Existing vessels are filled in by the backend on their next upsert
+
+ALTER TABLE vessels ADD COLUMN IF NOT EXISTS flag CHAR(2);
+ALTER TABLE vessels ADD COLUMN IF NOT EXISTS station_category VARCHAR(32);
+
+CREATE INDEX IF NOT EXISTS idx_vessels_flag ON vessels(flag);
+CREATE INDEX IF NOT EXISTS idx_vessels_station_category ON vessels(station_category);
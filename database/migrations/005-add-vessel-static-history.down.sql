@@ -0,0 +1,5 @@
+-- Revert: Add vessel static data change history
+
+DROP TRIGGER IF EXISTS trg_record_vessel_static_changes ON vessels;
+DROP FUNCTION IF EXISTS record_vessel_static_changes();
+DROP TABLE IF EXISTS vessel_static_history;
@@ -0,0 +1,78 @@
+-- Migration: Add vessel static data change history
+-- Run this on existing databases to keep name, destination, draught and other changes
+-- This is safe to run multiple times (idempotent)
+
+CREATE TABLE IF NOT EXISTS vessel_static_history (
+  id BIGSERIAL PRIMARY KEY,
+  mmsi VARCHAR(20) NOT NULL REFERENCES vessels(mmsi) ON DELETE CASCADE ON UPDATE CASCADE,
+  field VARCHAR(32) NOT NULL,
+  old_value TEXT,
+  new_value TEXT,
+  changed_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vessel_static_history_mmsi_time ON vessel_static_history(mmsi, changed_at DESC);
+
+-- Append a row for every static field that changed
+-- Fields seen for the first time (NULL before) are not changes and are skipped
+-- An IMO number already known under another MMSI records a re-registration ('mmsi', and 'flag' when it differs)
+CREATE OR REPLACE FUNCTION record_vessel_static_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB;
+  new_row JSONB;
+  tracked_field TEXT;
+  old_dimensions TEXT;
+  new_dimensions TEXT;
+  previous RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    old_row := to_jsonb(OLD);
+    new_row := to_jsonb(NEW);
+
+    FOREACH tracked_field IN ARRAY ARRAY[
+      'name', 'call_sign', 'imo_number', 'vessel_type', 'draught', 'destination', 'eta', 'ais_class'
+    ] LOOP
+      IF old_row->>tracked_field IS NOT NULL
+        AND old_row->>tracked_field IS DISTINCT FROM new_row->>tracked_field THEN
+        INSERT INTO vessel_static_history (mmsi, field, old_value, new_value)
+        VALUES (NEW.mmsi, tracked_field, old_row->>tracked_field, new_row->>tracked_field);
+      END IF;
+    END LOOP;
+
+    -- Dimensions change together, so they are recorded as one 'A/B/C/D' value
+    old_dimensions := NULLIF(concat_ws('/', OLD.dimension_a, OLD.dimension_b, OLD.dimension_c, OLD.dimension_d), '');
+    new_dimensions := NULLIF(concat_ws('/', NEW.dimension_a, NEW.dimension_b, NEW.dimension_c, NEW.dimension_d), '');
+    IF old_dimensions IS NOT NULL AND old_dimensions IS DISTINCT FROM new_dimensions THEN
+      INSERT INTO vessel_static_history (mmsi, field, old_value, new_value)
+      VALUES (NEW.mmsi, 'dimensions', old_dimensions, new_dimensions);
+    END IF;
+  END IF;
+
+  IF NEW.imo_number IS NOT NULL
+    AND (TG_OP = 'INSERT' OR OLD.imo_number IS DISTINCT FROM NEW.imo_number) THEN
+    SELECT mmsi, flag INTO previous
+    FROM vessels
+    WHERE imo_number = NEW.imo_number AND mmsi <> NEW.mmsi
+    ORDER BY updated_at DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+      INSERT INTO vessel_static_history (mmsi, field, old_value, new_value)
+      VALUES (NEW.mmsi, 'mmsi', previous.mmsi, NEW.mmsi);
+      IF previous.flag IS DISTINCT FROM NEW.flag THEN
+        INSERT INTO vessel_static_history (mmsi, field, old_value, new_value)
+        VALUES (NEW.mmsi, 'flag', previous.flag, NEW.flag);
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_record_vessel_static_changes ON vessels;
+CREATE TRIGGER trg_record_vessel_static_changes
+  AFTER INSERT OR UPDATE ON vessels
+  FOR EACH ROW
+  EXECUTE FUNCTION record_vessel_static_changes();
@@ -0,0 +1,8 @@
+-- Revert: Replace the per-row latest position trigger with batch upserts
+-- Only needed when rolling back to a backend without the COPY-based ingestion path
+
+DROP TRIGGER IF EXISTS trg_update_latest_position ON position_reports;
+CREATE TRIGGER trg_update_latest_position
+  AFTER INSERT ON position_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION update_latest_position_trigger();
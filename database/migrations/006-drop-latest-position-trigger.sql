@@ -0,0 +1,7 @@
+-- Migration: Replace the per-row latest position trigger with batch upserts
+-- Run this on existing databases before deploying the COPY-based ingestion path
+-- This is safe to run multiple times (idempotent)
+
+-- batchInsertPositions now updates vessel_latest_positions with one statement per batch;
+-- keeping the trigger would upsert every row a second time
+DROP TRIGGER IF EXISTS trg_update_latest_position ON position_reports;
@@ -0,0 +1,3 @@
+-- Revert: Add dead-letter table for invalid AIS messages
+
+DROP TABLE IF EXISTS dead_letters;
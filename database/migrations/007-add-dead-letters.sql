@@ -0,0 +1,19 @@
+-- Migration: Add dead-letter table for invalid AIS messages
+-- Run this on existing databases to keep invalid messages for GET /api/admin/dead-letters
+-- This is safe to run multiple times (idempotent)
+
+CREATE TABLE IF NOT EXISTS dead_letters (
+  id BIGSERIAL PRIMARY KEY,
+  received_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  source VARCHAR(64),
+  stage VARCHAR(16) NOT NULL,
+  message_type VARCHAR(32) NOT NULL,
+  mmsi VARCHAR(20),
+  reason VARCHAR(128) NOT NULL,
+  detail TEXT NOT NULL,
+  payload TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letters_time ON dead_letters(received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_dead_letters_reason_time ON dead_letters(reason, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_dead_letters_mmsi ON dead_letters(mmsi) WHERE mmsi IS NOT NULL;
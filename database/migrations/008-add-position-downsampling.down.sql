@@ -0,0 +1,3 @@
+-- Revert: Add a downsampled continuous aggregate of position_reports
+
+DROP MATERIALIZED VIEW IF EXISTS position_reports_10m;
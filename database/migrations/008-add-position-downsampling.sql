@@ -0,0 +1,25 @@
+-- Migration: Add a downsampled continuous aggregate of position_reports
+-- Run this on existing databases to keep one fix per vessel per 10 minutes for long-range tracks
+-- This is safe to run multiple times (idempotent)
+-- migrate:no-transaction
+-- Created WITH DATA so that existing history is materialized, which cannot run in a transaction
+
+-- Last fix of each vessel in each 10-minute bucket; materialized_only = false adds the
+-- newest, not yet materialized buckets from position_reports at query time
+CREATE MATERIALIZED VIEW IF NOT EXISTS position_reports_10m
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+  mmsi,
+  time_bucket(INTERVAL '10 minutes', timestamp) AS bucket,
+  last(timestamp, timestamp) AS timestamp,
+  last(latitude, timestamp) AS latitude,
+  last(longitude, timestamp) AS longitude,
+  last(sog, timestamp) AS sog,
+  last(cog, timestamp) AS cog,
+  last(true_heading, timestamp) AS true_heading,
+  last(navigational_status, timestamp) AS navigational_status,
+  last(rate_of_turn, timestamp) AS rate_of_turn,
+  last(altitude, timestamp) AS altitude
+FROM position_reports
+GROUP BY mmsi, bucket
+WITH DATA;
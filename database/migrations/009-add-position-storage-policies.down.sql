@@ -0,0 +1,11 @@
+-- Revert: Refresh the downsampled aggregate and enable compression on position_reports
+
+SELECT remove_retention_policy('position_reports', if_exists => TRUE);
+SELECT remove_compression_policy('position_reports', if_exists => TRUE);
+SELECT remove_continuous_aggregate_policy('position_reports_10m', if_exists => TRUE);
+SELECT remove_retention_policy('position_reports_10m', if_exists => TRUE);
+
+SELECT decompress_chunk(chunk, if_compressed => TRUE) FROM show_chunks('position_reports') AS chunk;
+ALTER TABLE position_reports SET (timescaledb.compress = FALSE);
+
+DROP INDEX IF EXISTS idx_position_reports_10m_mmsi_bucket;
@@ -0,0 +1,30 @@
+-- Migration: Refresh the downsampled aggregate and enable compression on position_reports
+-- Run this on existing databases to keep position_reports_10m current and allow compression policies
+-- This is safe to run multiple times (idempotent)
+-- Retention and compression ages are set by the backend on startup (POSITION_* settings)
+
+CREATE INDEX IF NOT EXISTS idx_position_reports_10m_mmsi_bucket
+  ON position_reports_10m(mmsi, bucket DESC);
+
+-- Refreshes the last 3 days, so raw retention must stay longer than that; refreshing a
+-- range whose raw chunks were dropped would empty the aggregate there
+SELECT add_continuous_aggregate_policy('position_reports_10m',
+  start_offset => INTERVAL '3 days',
+  end_offset => INTERVAL '10 minutes',
+  schedule_interval => INTERVAL '10 minutes',
+  if_not_exists => TRUE);
+
+-- Compressed chunks are stored per vessel in time order, matching track queries
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM timescaledb_information.hypertables
+    WHERE hypertable_name = 'position_reports' AND compression_enabled
+  ) THEN
+    ALTER TABLE position_reports SET (
+      timescaledb.compress,
+      timescaledb.compress_segmentby = 'mmsi',
+      timescaledb.compress_orderby = 'timestamp DESC'
+    );
+  END IF;
+END $$;
@@ -0,0 +1,25 @@
+-- Revert: Add PostGIS geography points to vessel_latest_positions and position_reports
+-- The postgis extension is left installed
+
+DROP VIEW IF EXISTS latest_vessel_positions;
+CREATE VIEW latest_vessel_positions AS
+SELECT
+  v.mmsi,
+  v.name,
+  v.vessel_type,
+  v.call_sign,
+  lp.timestamp,
+  lp.latitude,
+  lp.longitude,
+  lp.sog,
+  lp.cog,
+  lp.true_heading,
+  lp.navigational_status
+FROM vessels v
+LEFT JOIN vessel_latest_positions lp ON v.mmsi = lp.mmsi;
+
+DROP INDEX IF EXISTS idx_position_geog;
+ALTER TABLE position_reports DROP COLUMN IF EXISTS geog;
+
+DROP INDEX IF EXISTS idx_latest_pos_geog;
+ALTER TABLE vessel_latest_positions DROP COLUMN IF EXISTS geog;
@@ -0,0 +1,38 @@
+-- Migration: Add PostGIS geography points to vessel_latest_positions and position_reports
+-- Run this on existing databases to enable radius, polygon and near-track vessel queries
+-- This is safe to run multiple times (idempotent)
+
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+-- Latest positions: generated from latitude/longitude, so writers need no changes
+ALTER TABLE vessel_latest_positions
+  ADD COLUMN IF NOT EXISTS geog geography(Point, 4326)
+  GENERATED ALWAYS AS (ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_latest_pos_geog ON vessel_latest_positions USING GIST (geog);
+
+-- Position history: a plain column written by batchInsertPositions, because compressed
+-- hypertables cannot add generated columns. Existing rows are not backfilled: updating
+-- compressed chunks fails on older TimescaleDB and decompresses every chunk on newer
+-- versions, so queries fall back to latitude/longitude where geog is NULL
+ALTER TABLE position_reports ADD COLUMN IF NOT EXISTS geog geography(Point, 4326);
+
+CREATE INDEX IF NOT EXISTS idx_position_geog ON position_reports USING GIST (geog);
+
+-- Expose the point through the view used by vessel queries
+CREATE OR REPLACE VIEW latest_vessel_positions AS
+SELECT
+  v.mmsi,
+  v.name,
+  v.vessel_type,
+  v.call_sign,
+  lp.timestamp,
+  lp.latitude,
+  lp.longitude,
+  lp.sog,
+  lp.cog,
+  lp.true_heading,
+  lp.navigational_status,
+  lp.geog
+FROM vessels v
+LEFT JOIN vessel_latest_positions lp ON v.mmsi = lp.mmsi;
@@ -0,0 +1,4 @@
+-- Revert: Add ports and detected port calls
+
+DROP TABLE IF EXISTS port_calls;
+DROP TABLE IF EXISTS ports;
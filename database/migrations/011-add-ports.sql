@@ -0,0 +1,65 @@
+-- Migration: Add ports and detected port calls
+-- Run this on existing databases to record port calls for GET /api/vessels/:mmsi/port-calls
+-- This is safe to run multiple times (idempotent)
+
+CREATE TABLE IF NOT EXISTS ports (
+  locode CHAR(5) PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  country CHAR(2) NOT NULL,
+  latitude DECIMAL(9,6) NOT NULL,
+  longitude DECIMAL(10,6) NOT NULL,
+  radius_nm DECIMAL(5,2),
+  area geography(Geometry, 4326),
+  created_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT ports_area_or_radius CHECK (area IS NOT NULL OR radius_nm > 0)
+);
+
+CREATE TABLE IF NOT EXISTS port_calls (
+  id BIGSERIAL PRIMARY KEY,
+  mmsi VARCHAR(20) NOT NULL,
+  locode CHAR(5) NOT NULL REFERENCES ports(locode) ON DELETE CASCADE,
+  arrival TIMESTAMP NOT NULL,
+  departure TIMESTAMP,
+  call_type VARCHAR(16),
+  created_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT port_calls_departure_after_arrival CHECK (departure IS NULL OR departure >= arrival)
+);
+
+CREATE INDEX IF NOT EXISTS idx_port_calls_mmsi_arrival ON port_calls(mmsi, arrival DESC);
+CREATE INDEX IF NOT EXISTS idx_port_calls_locode_arrival ON port_calls(locode, arrival DESC);
+-- A vessel is in at most one port at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_port_calls_open ON port_calls(mmsi) WHERE departure IS NULL;
+
+-- Major ports; the area is a polygon where a radius around the port position fits poorly
+INSERT INTO ports (locode, name, country, latitude, longitude, radius_nm, area) VALUES
+  ('NLRTM', 'Rotterdam', 'NL', 51.950000, 4.140000, NULL,
+    ST_GeogFromText('SRID=4326;POLYGON((3.95 51.93, 4.02 51.99, 4.55 51.93, 4.55 51.87, 4.10 51.87, 3.95 51.93))')),
+  ('BEANR', 'Antwerp', 'BE', 51.280000, 4.330000, 6, NULL),
+  ('DEHAM', 'Hamburg', 'DE', 53.540000, 9.930000, 5, NULL),
+  ('DEBRV', 'Bremerhaven', 'DE', 53.560000, 8.550000, 4, NULL),
+  ('GBFXT', 'Felixstowe', 'GB', 51.950000, 1.320000, 3, NULL),
+  ('GBSOU', 'Southampton', 'GB', 50.900000, -1.400000, 4, NULL),
+  ('FRLEH', 'Le Havre', 'FR', 49.480000, 0.150000, 5, NULL),
+  ('ESALG', 'Algeciras', 'ES', 36.130000, -5.430000, 4, NULL),
+  ('ESVLC', 'Valencia', 'ES', 39.440000, -0.320000, 4, NULL),
+  ('ITGOA', 'Genoa', 'IT', 44.400000, 8.910000, 3, NULL),
+  ('GRPIR', 'Piraeus', 'GR', 37.940000, 23.620000, 4, NULL),
+  ('EGPSD', 'Port Said', 'EG', 31.260000, 32.300000, 4, NULL),
+  ('AEJEA', 'Jebel Ali', 'AE', 25.010000, 55.060000, 5, NULL),
+  ('SGSIN', 'Singapore', 'SG', 1.260000, 103.840000, 10, NULL),
+  ('CNSHA', 'Shanghai', 'CN', 31.360000, 121.600000, 8, NULL),
+  ('CNNGB', 'Ningbo', 'CN', 29.930000, 121.850000, 8, NULL),
+  ('HKHKG', 'Hong Kong', 'HK', 22.300000, 114.150000, 6, NULL),
+  ('KRPUS', 'Busan', 'KR', 35.100000, 129.040000, 6, NULL),
+  ('JPTYO', 'Tokyo', 'JP', 35.620000, 139.790000, 5, NULL),
+  ('AUSYD', 'Sydney', 'AU', -33.950000, 151.210000, 4, NULL),
+  ('NZAKL', 'Auckland', 'NZ', -36.840000, 174.780000, 3, NULL),
+  ('FJSUV', 'Suva', 'FJ', -18.130000, 178.420000, 3, NULL),
+  ('USLAX', 'Los Angeles', 'US', 33.730000, -118.260000, 5, NULL),
+  ('CAVAN', 'Vancouver', 'CA', 49.290000, -123.100000, 5, NULL),
+  ('PABLB', 'Balboa', 'PA', 8.950000, -79.570000, 4, NULL),
+  ('USHOU', 'Houston', 'US', 29.730000, -95.020000, 6, NULL),
+  ('USNYC', 'New York', 'US', 40.670000, -74.050000, 6, NULL),
+  ('BRSSZ', 'Santos', 'BR', -23.970000, -46.300000, 5, NULL),
+  ('ZADUR', 'Durban', 'ZA', -29.870000, 31.030000, 4, NULL)
+ON CONFLICT (locode) DO NOTHING;
@@ -20,6 +20,7 @@ import {
   CRTEffect,
   TerminalLayout,
   StatusBar,
+  SnapshotTimeSlider,
 } from './components';
 import { TerminalThemeProvider, useTerminalTheme } from './hooks/useTerminalTheme';
 import { TerminalAIDialog } from './components/terminal/TerminalAIDialog';
@@ -28,14 +29,24 @@ import { TerminalPanels } from './components/terminal/TerminalPanels';
 import { LeftFunctionBlock } from './components/visualizations/LeftFunctionBlock';
 import { RadarScan } from './components/visualizations/RadarScan';
 import { TrackChart } from './components/visualizations/TrackChart';
+import { VoyagePicker } from './components/visualizations/VoyagePicker';
 import type { SearchFilterCriteria } from './types';
 import type { AIPosition, StatusBarPanel } from './components/terminal';
 import { useVesselTracking, useMapVisualizations, useAI, useVesselSearch, useContinuousTracking, useReducedMotion, useEvaEffects, usePersistedState } from './hooks';
-import type { VesselWithPosition, VesselPosition, BoundingBox, LookupVesselOutput, MapVisualization } from './types';
+import type {
+  VesselWithPosition,
+  VesselPosition,
+  BoundingBox,
+  LookupVesselOutput,
+  MapVisualization,
+  Voyage,
+} from './types';
 import type { RecentVesselEntry } from './components/cards/SearchCard';
 import { filterVessels } from './utils/filterUtils';
 import { VesselAPI } from './services';
+import { MAP_CONFIG } from './config';
 import { hasValidPosition } from './utils/positionUtils';
+import { expandBoundingBox, isInBoundingBox } from './utils/geoUtils';
 import { toast } from 'sonner';
 
 /**
@@ -54,6 +65,9 @@ function AppContent() {
   const [vesselTrack, setVesselTrack] = useState<VesselPosition[]>([]);
   const [loadingTrack, setLoadingTrack] = useState(false);
   const [trackUnavailableMessage, setTrackUnavailableMessage] = useState<string | null>(null);
+  const [voyages, setVoyages] = useState<Voyage[]>([]);
+  const [loadingVoyages, setLoadingVoyages] = useState(false);
+  const [selectedVoyage, setSelectedVoyage] = useState<Voyage | null>(null);
   const [centerMapPosition, setCenterMapPosition] = useState<{ lat: number; lon: number } | null>(null);
 
   // State for search/filter
@@ -247,6 +261,13 @@ function AppContent() {
   const [viewportBounds, setViewportBounds] = useState<{ north: number; south: number; east: number; west: number } | undefined>();
   const [isMapPanning, setIsMapPanning] = useState(false);
 
+  // Historical snapshot shown instead of the live vessels while the time slider is moved back
+  const [snapshotTime, setSnapshotTime] = useState<Date | null>(null);
+  const [snapshotVessels, setSnapshotVessels] = useState<Map<string, VesselWithPosition> | null>(
+    null
+  );
+  const [loadingSnapshot, setLoadingSnapshot] = useState(false);
+
   // State for database total vessels count
   const [databaseTotalVessels, setDatabaseTotalVessels] = useState<number | undefined>(undefined);
   
@@ -333,25 +354,18 @@ function AppContent() {
           
           // Calculate buffer zone (20% beyond visible bounds) to prevent edge drift
           // This keeps vessels slightly outside the viewport to avoid flickering during pan
-          const latBuffer = (mapBounds.maxLat - mapBounds.minLat) * 0.2;
-          const lonBuffer = (mapBounds.maxLon - mapBounds.minLon) * 0.2;
-          const bufferBounds = {
-            minLat: mapBounds.minLat - latBuffer,
-            maxLat: mapBounds.maxLat + latBuffer,
-            minLon: mapBounds.minLon - lonBuffer,
-            maxLon: mapBounds.maxLon + lonBuffer,
-          };
+          const bufferBounds = expandBoundingBox(mapBounds, 0.2);
           
           // Only remove vessels that are significantly outside the buffer zone
           // This prevents markers from being removed during panning
           for (const [mmsi, vessel] of updatedVessels.entries()) {
             if (!newVesselMMSIs.has(mmsi) && vessel.position) {
               // Check if vessel is outside the buffer zone
-              const isOutsideBuffer = 
-                vessel.position.latitude < bufferBounds.minLat ||
-                vessel.position.latitude > bufferBounds.maxLat ||
-                vessel.position.longitude < bufferBounds.minLon ||
-                vessel.position.longitude > bufferBounds.maxLon;
+              const isOutsideBuffer = !isInBoundingBox(
+                vessel.position.latitude,
+                vessel.position.longitude,
+                bufferBounds
+              );
               
               // Only remove if outside buffer zone
               if (isOutsideBuffer) {
@@ -378,6 +392,48 @@ function AppContent() {
     return () => clearTimeout(timeoutId);
   }, [mapBounds, isMapPanning]);
 
+  // Fetch the snapshot at the time slider's time for the visible area
+  // Debounced so that dragging the slider fetches once it comes to rest
+  useEffect(() => {
+    if (!snapshotTime) {
+      setSnapshotVessels(null);
+      setLoadingSnapshot(false);
+      return;
+    }
+    if (!mapBounds || isMapPanning) {
+      return;
+    }
+
+    let cancelled = false;
+    const timeoutId = setTimeout(async () => {
+      setLoadingSnapshot(true);
+      try {
+        const snapshot = await VesselAPI.getSnapshot(
+          snapshotTime,
+          mapBounds,
+          MAP_CONFIG.snapshotLookbackMinutes
+        );
+        if (!cancelled) {
+          setSnapshotVessels(new Map(snapshot.map((vessel) => [vessel.mmsi, vessel])));
+        }
+      } catch (err) {
+        console.error('Error fetching vessel snapshot:', err);
+        if (!cancelled) {
+          toast.error('Could not load vessel positions for this time');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoadingSnapshot(false);
+        }
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [snapshotTime, mapBounds, isMapPanning]);
+
   // Trigger search when search text changes
   useEffect(() => {
     const performSearch = async () => {
@@ -426,55 +482,126 @@ function AppContent() {
     }
   }, [vessels, filterCriteria, searchResults]);
 
-  // Handle vessel selection
-  const handleVesselSelect = useCallback(async (mmsi: string) => {
-    if (!mmsi) {
-      setSelectedVesselMmsi(null);
-      setVesselTrack([]);
-      setLoadingTrack(false);
-      setTrackUnavailableMessage(null);
+  // Load the voyages of the selected vessel for the voyage picker
+  useEffect(() => {
+    setVoyages([]);
+    setSelectedVoyage(null);
+    if (!selectedVesselMmsi) {
+      setLoadingVoyages(false);
       return;
     }
 
-    setSelectedVesselMmsi(mmsi);
-    setTrackUnavailableMessage(null);
+    let cancelled = false;
+    setLoadingVoyages(true);
+    VesselAPI.getVesselVoyages(selectedVesselMmsi)
+      .then((result) => {
+        if (!cancelled) setVoyages(result);
+      })
+      .catch((err) => {
+        console.error('Error fetching vessel voyages:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingVoyages(false);
+      });
 
-    const vessel = vessels.get(mmsi);
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedVesselMmsi]);
 
-    if (!vessel || !hasValidPosition(vessel)) {
-      setVesselTrack([]);
-      setTrackUnavailableMessage('No track data available. This vessel does not have position data.');
-      return;
-    }
+  // Handle vessel selection
+  const handleVesselSelect = useCallback(
+    async (mmsi: string) => {
+      if (!mmsi) {
+        setSelectedVesselMmsi(null);
+        setVesselTrack([]);
+        setLoadingTrack(false);
+        setTrackUnavailableMessage(null);
+        return;
+      }
 
-    setLoadingTrack(true);
-    setError(null);
+      setSelectedVesselMmsi(mmsi);
+      setTrackUnavailableMessage(null);
 
-    try {
-      const endTime = new Date();
-      const startTime = new Date(endTime.getTime() - 24 * 60 * 60 * 1000);
-      const track = await VesselAPI.getVesselTrack(mmsi, startTime, endTime);
+      const vessel = vessels.get(mmsi);
 
-      if (track.length === 0) {
+      if (!vessel || !hasValidPosition(vessel)) {
         setVesselTrack([]);
-        setTrackUnavailableMessage('No track data available for the last 24 hours.');
-      } else {
-        setVesselTrack(track);
-        setTrackUnavailableMessage(null);
+        setTrackUnavailableMessage(
+          'No track data available. This vessel does not have position data.'
+        );
+        return;
       }
-    } catch (err) {
-      console.error('Error fetching vessel track:', err);
-      const error = err as Error;
-      if (error.message.includes('404') || error.message.includes('Not Found')) {
-        setTrackUnavailableMessage('No track data available for this vessel.');
-      } else {
-        setError(error);
+
+      setLoadingTrack(true);
+      setError(null);
+
+      try {
+        const endTime = new Date();
+        const startTime = new Date(endTime.getTime() - 24 * 60 * 60 * 1000);
+        const track = await VesselAPI.getVesselTrack(mmsi, startTime, endTime, {
+          maxPoints: MAP_CONFIG.trackMaxPoints,
+        });
+
+        if (track.length === 0) {
+          setVesselTrack([]);
+          setTrackUnavailableMessage('No track data available for the last 24 hours.');
+        } else {
+          setVesselTrack(track);
+          setTrackUnavailableMessage(null);
+        }
+      } catch (err) {
+        console.error('Error fetching vessel track:', err);
+        const error = err as Error;
+        if (error.message.includes('404') || error.message.includes('Not Found')) {
+          setTrackUnavailableMessage('No track data available for this vessel.');
+        } else {
+          setError(error);
+        }
+        setVesselTrack([]);
+      } finally {
+        setLoadingTrack(false);
       }
-      setVesselTrack([]);
-    } finally {
-      setLoadingTrack(false);
-    }
-  }, [vessels]);
+    },
+    [vessels]
+  );
+
+  // Load a voyage picked next to the track chart, or the last 24 hours for null
+  const handleVoyageSelect = useCallback(
+    async (voyage: Voyage | null) => {
+      if (!selectedVesselMmsi) return;
+
+      setSelectedVoyage(voyage);
+      setLoadingTrack(true);
+      setTrackUnavailableMessage(null);
+
+      try {
+        const endTime = voyage?.arrival ? new Date(voyage.arrival) : new Date();
+        const startTime = voyage
+          ? new Date(voyage.departure)
+          : new Date(endTime.getTime() - 24 * 60 * 60 * 1000);
+        const track = await VesselAPI.getVesselTrack(selectedVesselMmsi, startTime, endTime, {
+          maxPoints: MAP_CONFIG.trackMaxPoints,
+        });
+
+        setVesselTrack(track);
+        if (track.length === 0) {
+          setTrackUnavailableMessage(
+            voyage
+              ? 'No track data available for this voyage.'
+              : 'No track data available for the last 24 hours.'
+          );
+        }
+      } catch (err) {
+        console.error('Error fetching voyage track:', err);
+        setError(err as Error);
+        setVesselTrack([]);
+      } finally {
+        setLoadingTrack(false);
+      }
+    },
+    [selectedVesselMmsi]
+  );
 
   // Add vessel to recent list
   const addRecentVessel = useCallback(
@@ -948,7 +1075,7 @@ Please provide collision risk assessment and navigation safety analysis.`;
               selectedVesselMmsi={selectedVesselMmsi || undefined}
               vesselTrack={vesselTrack}
               autoConnect={false}
-              vessels={vessels}
+              vessels={snapshotVessels ?? vessels}
               centerOnPosition={centerMapPosition}
               visualizations={visualizations}
               onClearVisualizations={clearVisualizations}
@@ -958,6 +1085,17 @@ Please provide collision risk assessment and navigation safety analysis.`;
               onPanningStateChange={setIsMapPanning}
               isLoadingVessels={isLoading}
             />
+
+            {/* Historical Snapshot Time Slider */}
+            <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-40">
+              <SnapshotTimeSlider
+                time={snapshotTime}
+                onChange={setSnapshotTime}
+                rangeHours={MAP_CONFIG.snapshotRangeHours}
+                isLoading={loadingSnapshot}
+                vesselCount={snapshotVessels?.size}
+              />
+            </div>
           </div>
         }
         rightBlock={
@@ -971,7 +1109,17 @@ Please provide collision risk assessment and navigation safety analysis.`;
                 showLabels={true}
                 width={200}
                 height={140}
+                endLabel={selectedVoyage?.arrival ? 'ARR' : 'NOW'}
               />
+              {selectedVesselMmsi && (
+                <VoyagePicker
+                  voyages={voyages}
+                  selectedDeparture={selectedVoyage?.departure ?? null}
+                  onSelect={handleVoyageSelect}
+                  colorScheme={colorScheme}
+                  isLoading={loadingVoyages}
+                />
+              )}
             </TerminalWindow>
 
             {/* Radar Scan - Requirements: 8.1 */}
@@ -1041,7 +1189,18 @@ Please provide collision risk assessment and navigation safety analysis.`;
                     showLabels={true}
                     width={200}
                     height={120}
+                    endLabel={selectedVoyage?.arrival ? 'ARR' : 'NOW'}
                   />
+                  {selectedVesselMmsi && (
+                    <VoyagePicker
+                      voyages={voyages}
+                      selectedDeparture={selectedVoyage?.departure ?? null}
+                      onSelect={handleVoyageSelect}
+                      colorScheme={colorScheme}
+                      isLoading={loadingVoyages}
+                      maxHeight={72}
+                    />
+                  )}
                 </TerminalWindow>
 
                 {/* Radar Scan - Requirements: 8.1 */}
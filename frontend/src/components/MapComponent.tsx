@@ -33,6 +33,7 @@ import { EmptyMapState } from './EmptyMapState';
 import { MapVisualizations } from './MapVisualizations';
 import { DirectionalVesselMarker } from './DirectionalVesselMarker';
 import { hasValidPosition, getVesselPosition } from '../utils/positionUtils';
+import { boundsFromMapView } from '../utils/geoUtils';
 
 /**
  * Props for MapComponent
@@ -127,16 +128,16 @@ const MapUpdater: React.FC<MapUpdaterProps> = ({ centerPosition, onCenteringFail
 
       if (onBoundsChange) {
         const bounds = map.getBounds();
-        const bbox = {
-          minLat: bounds.getSouth(),
-          maxLat: bounds.getNorth(),
-          minLon: bounds.getWest(),
-          maxLon: bounds.getEast(),
-        };
+        // Wraps longitudes beyond ±180 after panning across the antimeridian;
+        // null when the map is not fully initialized, which prevents 400 errors
+        const bbox = boundsFromMapView(
+          bounds.getSouth(),
+          bounds.getWest(),
+          bounds.getNorth(),
+          bounds.getEast()
+        );
         
-        // Validate bounds before emitting - ensure min < max (not equal)
-        // This prevents 400 errors when map is not fully initialized
-        if (bbox.minLat < bbox.maxLat && bbox.minLon < bbox.maxLon) {
+        if (bbox) {
           onBoundsChange(bbox);
         }
       }
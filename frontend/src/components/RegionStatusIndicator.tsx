@@ -312,11 +312,22 @@ export const RegionStatusIndicator: React.FC<RegionStatusIndicatorProps> = ({
                 status={healthStatus.services.redis}
                 icon={<Server className="w-3.5 h-3.5" />}
               />
-              <ServiceStatus
-                name="AIS Stream"
-                status={healthStatus.services.aisStream}
-                icon={<Radio className="w-3.5 h-3.5" />}
-              />
+              {Object.keys(healthStatus.services.aisSources).length === 0 ? (
+                <ServiceStatus
+                  name="AIS Sources"
+                  status="not_configured"
+                  icon={<Radio className="w-3.5 h-3.5" />}
+                />
+              ) : (
+                Object.entries(healthStatus.services.aisSources).map(([name, source]) => (
+                  <ServiceStatus
+                    key={name}
+                    name={`AIS ${name}`}
+                    status={source.status}
+                    icon={<Radio className="w-3.5 h-3.5" />}
+                  />
+                ))
+              )}
             </div>
           )}
 
@@ -0,0 +1,51 @@
+/**
+ * SnapshotTimeSlider Component Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { SnapshotTimeSlider } from './SnapshotTimeSlider';
+
+const NOW = new Date('2025-12-01T12:00:00Z');
+
+describe('SnapshotTimeSlider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shows live positions until moved back in time', () => {
+    const onChange = vi.fn();
+    render(<SnapshotTimeSlider time={null} onChange={onChange} />);
+
+    expect(screen.getByText('LIVE POSITIONS')).toBeDefined();
+    expect(screen.getByText('[LIVE]').getAttribute('aria-pressed')).toBe('true');
+
+    fireEvent.change(screen.getByLabelText('Snapshot time'), { target: { value: '-90' } });
+    expect(onChange).toHaveBeenLastCalledWith(new Date('2025-12-01T10:30:00Z'));
+  });
+
+  it('shows the snapshot time and vessel count, and returns to live', () => {
+    const onChange = vi.fn();
+    render(
+      <SnapshotTimeSlider
+        time={new Date('2025-12-01T09:00:00Z')}
+        onChange={onChange}
+        vesselCount={42}
+      />
+    );
+
+    expect(screen.getByText(/T-03:00 2025-12-01 09:00Z/)).toBeDefined();
+    expect(screen.getByText(/42 VESSELS/)).toBeDefined();
+
+    fireEvent.change(screen.getByLabelText('Snapshot time'), { target: { value: '0' } });
+    expect(onChange).toHaveBeenLastCalledWith(null);
+
+    fireEvent.click(screen.getByText('[LIVE]'));
+    expect(onChange).toHaveBeenLastCalledWith(null);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * SnapshotTimeSlider Component - Historical snapshot ("time travel") control
+ *
+ * Slider over the map that moves the displayed vessels back in time. Each
+ * position replaces the live vessels with the last known positions at that
+ * time, fetched from /api/snapshot. Dragging to the right end or pressing
+ * [LIVE] returns to live tracking.
+ */
+
+import { useState } from 'react';
+
+export interface SnapshotTimeSliderProps {
+  /** Time of the displayed snapshot, or null while showing live positions */
+  time: Date | null;
+  /** Called with the picked time, or null to go back to live positions */
+  onChange: (time: Date | null) => void;
+  /** How far back the slider reaches */
+  rangeHours?: number;
+  /** Slider step */
+  stepMinutes?: number;
+  /** Whether a snapshot is being fetched */
+  isLoading?: boolean;
+  /** Number of vessels in the displayed snapshot */
+  vesselCount?: number;
+  /** Test ID for testing */
+  'data-testid'?: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Format a snapshot time as YYYY-MM-DD HH:MMZ
+ */
+function formatSnapshotTime(time: Date): string {
+  return `${time.toISOString().slice(0, 16).replace('T', ' ')}Z`;
+}
+
+/**
+ * Format minutes before now as T-HH:MM
+ */
+function formatOffset(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return `T-${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+export function SnapshotTimeSlider({
+  time,
+  onChange,
+  rangeHours = 24,
+  stepMinutes = 5,
+  isLoading = false,
+  vesselCount,
+  'data-testid': testId,
+}: SnapshotTimeSliderProps): JSX.Element {
+  // The slider's right end; fixed while browsing so the handle does not drift
+  const [anchor, setAnchor] = useState(() => Date.now());
+  const rangeMinutes = rangeHours * 60;
+  const offsetMinutes = time === null ? 0 : Math.round((anchor - time.getTime()) / MINUTE_MS);
+
+  const handleChange = (value: number) => {
+    if (value >= 0) {
+      onChange(null);
+      return;
+    }
+    // Browsing from live starts at the current time
+    const base = time === null ? Date.now() : anchor;
+    if (time === null) {
+      setAnchor(base);
+    }
+    onChange(new Date(base + value * MINUTE_MS));
+  };
+
+  return (
+    <div
+      className="snapshot-time-slider font-mono text-xs"
+      data-testid={testId}
+      style={{
+        backgroundColor: 'var(--terminal-bg)',
+        border: `1px solid ${time === null ? 'var(--terminal-dim)' : 'var(--terminal-accent)'}`,
+        color: 'var(--terminal-fg)',
+        padding: '4px 8px',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+      }}
+    >
+      <span style={{ color: 'var(--terminal-dim)' }}>-{rangeHours}H</span>
+      <input
+        type="range"
+        min={-rangeMinutes}
+        max={0}
+        step={stepMinutes}
+        value={-Math.min(offsetMinutes, rangeMinutes)}
+        onChange={(event) => handleChange(Number(event.target.value))}
+        aria-label="Snapshot time"
+        style={{ width: 240, accentColor: 'var(--terminal-accent)' }}
+      />
+      <button
+        type="button"
+        onClick={() => onChange(null)}
+        aria-pressed={time === null}
+        style={{
+          color: time === null ? 'var(--terminal-accent)' : 'var(--terminal-fg)',
+          background: 'none',
+          border: 'none',
+          cursor: 'pointer',
+        }}
+      >
+        [LIVE]
+      </button>
+      <span style={{ minWidth: 200 }}>
+        {time === null ? (
+          'LIVE POSITIONS'
+        ) : (
+          <>
+            {formatOffset(offsetMinutes)} {formatSnapshotTime(time)}
+            <span style={{ color: 'var(--terminal-dim)' }}>
+              {' '}
+              {isLoading ? 'LOADING...' : `${vesselCount ?? 0} VESSELS`}
+            </span>
+          </>
+        )}
+      </span>
+    </div>
+  );
+}
+
+export default SnapshotTimeSlider;
@@ -0,0 +1,60 @@
+/**
+ * VesselChangesTimeline Component Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { VesselChangesTimeline } from './VesselChangesTimeline';
+import * as VesselAPI from '../services/VesselAPI';
+
+vi.mock('../services/VesselAPI', () => ({
+  getVesselStaticHistory: vi.fn(),
+}));
+
+describe('VesselChangesTimeline', () => {
+  beforeEach(() => {
+    vi.mocked(VesselAPI.getVesselStaticHistory).mockReset();
+  });
+
+  it('does not fetch history until opened', () => {
+    render(<VesselChangesTimeline mmsi="244670316" />);
+
+    expect(screen.getByText('[Changes]')).toBeDefined();
+    expect(VesselAPI.getVesselStaticHistory).not.toHaveBeenCalled();
+  });
+
+  it('lists changes with their old and new values when opened', async () => {
+    vi.mocked(VesselAPI.getVesselStaticHistory).mockResolvedValue([
+      {
+        mmsi: '244670316',
+        field: 'destination',
+        oldValue: 'ROTTERDAM',
+        newValue: 'HAMBURG',
+        changedAt: '2025-12-01T10:30:00Z',
+      },
+      {
+        mmsi: '244670316',
+        field: 'name',
+        oldValue: 'OLD NAME',
+        newValue: 'NEW NAME',
+        changedAt: '2025-11-01T08:00:00Z',
+      },
+    ]);
+
+    render(<VesselChangesTimeline mmsi="244670316" />);
+    fireEvent.click(screen.getByText('[Changes]'));
+
+    expect(await screen.findByText(/ROTTERDAM → HAMBURG/)).toBeDefined();
+    expect(screen.getByText(/OLD NAME → NEW NAME/)).toBeDefined();
+    expect(VesselAPI.getVesselStaticHistory).toHaveBeenCalledWith('244670316');
+  });
+
+  it('shows an empty state when nothing changed', async () => {
+    vi.mocked(VesselAPI.getVesselStaticHistory).mockResolvedValue([]);
+
+    render(<VesselChangesTimeline mmsi="244670316" />);
+    fireEvent.click(screen.getByText('[Changes]'));
+
+    expect(await screen.findByText('No changes recorded')).toBeDefined();
+  });
+});
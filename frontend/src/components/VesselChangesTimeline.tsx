@@ -0,0 +1,115 @@
+/**
+ * VesselChangesTimeline Component - Static data change history
+ *
+ * Collapsible "[Changes]" section for VesselDetailPopup listing name, call sign,
+ * destination, draught and re-registration changes, most recent first.
+ * History is fetched the first time the section is opened.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { ChevronDown, ChevronUp, History } from 'lucide-react';
+import { getVesselStaticHistory } from '../services/VesselAPI';
+import { VesselStaticChange } from '../types';
+
+export interface VesselChangesTimelineProps {
+  mmsi: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  call_sign: 'Call Sign',
+  imo_number: 'IMO',
+  vessel_type: 'Type',
+  draught: 'Draught',
+  destination: 'Destination',
+  eta: 'ETA',
+  ais_class: 'AIS Class',
+  dimensions: 'Dimensions',
+  mmsi: 'MMSI',
+  flag: 'Flag',
+};
+
+function formatChangeTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${year}-${month}-${day} ${hours}:${minutes}`;
+}
+
+export const VesselChangesTimeline: React.FC<VesselChangesTimelineProps> = ({ mmsi }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [changes, setChanges] = useState<VesselStaticChange[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start over when another vessel is selected
+  useEffect(() => {
+    setIsExpanded(false);
+    setChanges(null);
+    setError(null);
+  }, [mmsi]);
+
+  useEffect(() => {
+    if (!isExpanded || changes !== null) return;
+
+    let cancelled = false;
+    getVesselStaticHistory(mmsi)
+      .then((history) => {
+        if (!cancelled) setChanges(history);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isExpanded, changes, mmsi]);
+
+  return (
+    <div>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between text-sm font-medium text-eva-text-secondary hover:text-eva-accent-orange transition-colors py-3 px-1 eva-clip-corner-sm hover:bg-eva-bg-secondary uppercase tracking-eva-tight"
+      >
+        <span className="flex items-center gap-2">
+          <History className="w-4 h-4" />
+          [Changes]
+        </span>
+        {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-3 text-sm bg-eva-bg-secondary eva-clip-corner-sm p-4 border border-eva-border-default font-eva-mono">
+          {error ? (
+            <p className="text-xs text-eva-accent-red">History unavailable: {error}</p>
+          ) : changes === null ? (
+            <p className="text-xs text-eva-text-secondary">Loading...</p>
+          ) : changes.length === 0 ? (
+            <p className="text-xs text-eva-text-secondary">No changes recorded</p>
+          ) : (
+            <ol className="space-y-3 border-l border-eva-border-accent pl-3">
+              {changes.map((change, index) => (
+                <li key={`${change.changedAt}-${change.field}-${index}`}>
+                  <div className="text-[10px] text-eva-text-secondary">
+                    {formatChangeTime(change.changedAt)}
+                  </div>
+                  <div className="text-xs text-eva-text-primary">
+                    <span className="text-eva-accent-orange uppercase">
+                      {FIELD_LABELS[change.field] || change.field}
+                    </span>{' '}
+                    {change.oldValue ?? '—'} → {change.newValue ?? '—'}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VesselChangesTimeline;
@@ -78,6 +78,28 @@ describe('VesselDetailPopup', () => {
     expect(naElements.length).toBeGreaterThan(0);
   });
 
+  it('shows the flag state and non-ship station category decoded from the MMSI', () => {
+    const aidToNavigation: VesselWithPosition = {
+      ...mockVessel,
+      mmsi: '992446001',
+      name: 'Test Buoy',
+      vessel_type: 0,
+      flag: 'NL',
+      flagCountry: 'Netherlands',
+      stationCategory: 'aid_to_navigation',
+    };
+
+    render(
+      <MapContainer center={[37.7749, -122.4194]} zoom={10}>
+        <TileLayer url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png" />
+        <VesselDetailPopup vessel={aidToNavigation} {...mockCallbacks} />
+      </MapContainer>
+    );
+
+    expect(screen.getByText('AID TO NAVIGATION')).toBeDefined();
+    expect(screen.getByTitle('Netherlands').textContent).toBe('NL');
+  });
+
   it('disables action buttons when no position data', () => {
     const vesselWithoutPosition: VesselWithPosition = {
       mmsi: '987654321',
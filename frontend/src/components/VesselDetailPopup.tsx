@@ -9,7 +9,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { useMap } from 'react-leaflet';
-import { VesselWithPosition } from '../types';
+import { StationCategory, VesselWithPosition } from '../types';
 import {
   getVesselPosition,
   hasValidPosition,
@@ -22,6 +22,7 @@ import {
   decodeRateOfTurn,
   classifyVesselBehavior,
 } from '../utils/navigationUtils';
+import { VesselChangesTimeline } from './VesselChangesTimeline';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import {
@@ -129,6 +130,29 @@ function getVesselTypeName(type: number | undefined | null): string {
   return types[type] || '';
 }
 
+// Ships are the common case; only other station categories get a badge
+function getStationCategoryName(category: StationCategory | undefined): string {
+  const names: Record<StationCategory, string> = {
+    ship: '',
+    group_call: 'Group Call',
+    coast_station: 'Coast Station',
+    sar_aircraft: 'SAR Aircraft',
+    handheld: 'Handheld',
+    auxiliary_craft: 'Auxiliary Craft',
+    aid_to_navigation: 'Aid to Navigation',
+    sart: 'AIS-SART',
+    mob: 'Man Overboard',
+    epirb: 'EPIRB',
+    unknown: '',
+  };
+  return category ? names[category] : '';
+}
+
+function formatFlag(vessel: VesselWithPosition): string | null {
+  if (!vessel.flag) return null;
+  return vessel.flagCountry ? `${vessel.flagCountry} (${vessel.flag})` : vessel.flag;
+}
+
 function getVesselDimensions(vessel: VesselWithPosition): string | null {
   const { dimension_a, dimension_b, dimension_c, dimension_d } = vessel;
   if (!dimension_a && !dimension_b && !dimension_c && !dimension_d) return null;
@@ -183,6 +207,8 @@ export const VesselDetailPopup: React.FC<VesselDetailPopupProps> = ({
     positionStatus === PositionDataStatus.VERY_STALE;
   const dimensions = getVesselDimensions(vessel);
   const vesselTypeName = getVesselTypeName(vessel.vessel_type);
+  const stationCategoryName = getStationCategoryName(vessel.stationCategory);
+  const flag = formatFlag(vessel);
 
   const handleCopyMmsi = async () => {
     try {
@@ -257,6 +283,16 @@ export const VesselDetailPopup: React.FC<VesselDetailPopupProps> = ({
                   {vesselTypeName.toUpperCase()}
                 </Badge>
               )}
+              {stationCategoryName && (
+                <Badge variant="eva-purple" className="text-xs">
+                  {stationCategoryName.toUpperCase()}
+                </Badge>
+              )}
+              {vessel.flag && (
+                <Badge variant="eva-cyan" className="text-xs" title={vessel.flagCountry}>
+                  {vessel.flag}
+                </Badge>
+              )}
             </div>
           </SheetHeader>
 
@@ -339,6 +375,20 @@ export const VesselDetailPopup: React.FC<VesselDetailPopupProps> = ({
               {vesselTypeName.toUpperCase()}
             </Badge>
           )}
+          {stationCategoryName && (
+            <Badge variant="eva-purple" className="text-xs font-medium px-3 py-1">
+              {stationCategoryName.toUpperCase()}
+            </Badge>
+          )}
+          {vessel.flag && (
+            <Badge
+              variant="eva-cyan"
+              className="text-xs font-medium px-3 py-1"
+              title={vessel.flagCountry}
+            >
+              {vessel.flag}
+            </Badge>
+          )}
         </div>
 
         {/* Navigational Status & Behavior - Prominent placement */}
@@ -422,7 +472,7 @@ export const VesselDetailPopup: React.FC<VesselDetailPopupProps> = ({
         )}
 
         {/* Expandable Details */}
-        {(vessel.call_sign || vessel.imo_number || dimensions || vessel.draught) && (
+        {(flag || vessel.call_sign || vessel.imo_number || dimensions || vessel.draught) && (
           <div className="mb-6">
             <button
               onClick={() => setIsExpanded(!isExpanded)}
@@ -437,6 +487,7 @@ export const VesselDetailPopup: React.FC<VesselDetailPopupProps> = ({
 
             {isExpanded && (
               <div className="mt-3 space-y-3 text-sm bg-eva-bg-secondary eva-clip-corner-sm p-4 border border-eva-border-default">
+                {flag && <DetailRow label="Flag" value={flag} />}
                 {vessel.call_sign && (
                   <DetailRow label="Call Sign" value={vessel.call_sign} mono />
                 )}
@@ -452,6 +503,11 @@ export const VesselDetailPopup: React.FC<VesselDetailPopupProps> = ({
           </div>
         )}
 
+        {/* Static data changes */}
+        <div className="mb-6">
+          <VesselChangesTimeline mmsi={vessel.mmsi} />
+        </div>
+
         {/* Quick Actions */}
         <div className="flex gap-3 mb-4">
           <Button
@@ -729,7 +785,7 @@ const MobileContent: React.FC<{
     )}
 
     {/* Expandable Details */}
-    {(vessel.call_sign || vessel.imo_number || dimensions || vessel.draught) && (
+    {(vessel.flag || vessel.call_sign || vessel.imo_number || dimensions || vessel.draught) && (
       <div>
         <button
           onClick={onToggleExpanded}
@@ -744,6 +800,7 @@ const MobileContent: React.FC<{
 
         {isExpanded && (
           <div className="mt-3 space-y-3 text-sm bg-eva-bg-secondary eva-clip-corner-sm p-4 border border-eva-border-default">
+            {vessel.flag && <DetailRow label="Flag" value={formatFlag(vessel) || vessel.flag} />}
             {vessel.call_sign && <DetailRow label="Call Sign" value={vessel.call_sign} mono />}
             {vessel.imo_number && <DetailRow label="IMO" value={String(vessel.imo_number)} mono />}
             {dimensions && <DetailRow label="Dimensions" value={dimensions} />}
@@ -755,6 +812,9 @@ const MobileContent: React.FC<{
       </div>
     )}
 
+    {/* Static data changes */}
+    <VesselChangesTimeline mmsi={vessel.mmsi} />
+
     {/* Quick Actions */}
     <div className="flex gap-3">
       <Button variant="eva-ghost" size="sm" onClick={onCopyMmsi} className="flex-1 h-11">
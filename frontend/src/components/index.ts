@@ -36,6 +36,12 @@ export type { VirtualizedVesselListProps } from './VirtualizedVesselList';
 export { VesselDetailPopup } from './VesselDetailPopup';
 export type { VesselDetailPopupProps } from './VesselDetailPopup';
 
+export { VesselChangesTimeline } from './VesselChangesTimeline';
+export type { VesselChangesTimelineProps } from './VesselChangesTimeline';
+
+export { SnapshotTimeSlider } from './SnapshotTimeSlider';
+export type { SnapshotTimeSliderProps } from './SnapshotTimeSlider';
+
 export { DirectionalVesselMarker } from './DirectionalVesselMarker';
 export type { DirectionalVesselMarkerProps } from './DirectionalVesselMarker';
 
@@ -337,7 +337,13 @@ export const TerminalCoverageDisplay: React.FC<TerminalCoverageDisplayProps> = (
                 <div className="terminal-text-dim text-xs mb-2">--- SERVICES ---</div>
                 <TerminalServiceStatus name="DATABASE" status={healthStatus.services.database} />
                 <TerminalServiceStatus name="CACHE" status={healthStatus.services.redis} />
-                <TerminalServiceStatus name="AIS STREAM" status={healthStatus.services.aisStream} />
+                {Object.keys(healthStatus.services.aisSources).length === 0 ? (
+                  <TerminalServiceStatus name="AIS SOURCES" status="not_configured" />
+                ) : (
+                  Object.entries(healthStatus.services.aisSources).map(([name, source]) => (
+                    <TerminalServiceStatus key={name} name={`AIS ${name}`} status={source.status} />
+                  ))
+                )}
               </div>
             )}
 
@@ -1141,13 +1141,21 @@ function CoveragePanelContent({ mapCenter: _mapCenter }: CoveragePanelContentPro
             [SERVICES]
           </div>
           <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', fontSize: '0.75rem' }}>
-            {(['database', 'redis', 'aisStream'] as const).map((service) => {
-              const status = getServiceStatus(healthStatus.services[service]);
-              const label = service === 'aisStream' ? 'AIS STREAM' : service === 'redis' ? 'CACHE' : 'DATABASE';
+            {[
+              { label: 'DATABASE', value: healthStatus.services.database },
+              { label: 'CACHE', value: healthStatus.services.redis },
+              ...(Object.keys(healthStatus.services.aisSources).length === 0
+                ? [{ label: 'AIS SOURCES', value: 'not_configured' }]
+                : Object.entries(healthStatus.services.aisSources).map(([name, source]) => ({
+                    label: `AIS ${name.toUpperCase()}`,
+                    value: source.status,
+                  }))),
+            ].map(({ label, value }) => {
+              const status = getServiceStatus(value);
               return (
-                <div key={service} style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <div key={label} style={{ display: 'flex', justifyContent: 'space-between' }}>
                   <span style={{ color: 'var(--terminal-dim)' }}>[{label}]:</span>
-                  <span style={{ color: status.color }}>{status.symbol} {healthStatus.services[service].toUpperCase().replace('_', ' ')}</span>
+                  <span style={{ color: status.color }}>{status.symbol} {value.toUpperCase().replace('_', ' ')}</span>
                 </div>
               );
             })}
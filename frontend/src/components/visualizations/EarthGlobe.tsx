@@ -334,10 +334,12 @@ export function EarthGlobe({
           
           // Draw viewport rectangle on globe
           const highlightRadius = radius * 1.02;
+          // A viewport crossing the antimeridian has west > east; continue past 180°
+          const east = bounds.east < bounds.west ? bounds.east + 360 : bounds.east;
           
           // Top edge
           p.beginShape();
-          for (let lon = bounds.west; lon <= bounds.east; lon += 5) {
+          for (let lon = bounds.west; lon <= east; lon += 5) {
             const [x, y, z] = latLonToXYZ(bounds.north, lon, highlightRadius);
             p.vertex(x, y, z);
           }
@@ -345,7 +347,7 @@ export function EarthGlobe({
           
           // Bottom edge
           p.beginShape();
-          for (let lon = bounds.west; lon <= bounds.east; lon += 5) {
+          for (let lon = bounds.west; lon <= east; lon += 5) {
             const [x, y, z] = latLonToXYZ(bounds.south, lon, highlightRadius);
             p.vertex(x, y, z);
           }
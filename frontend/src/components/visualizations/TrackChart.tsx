@@ -42,6 +42,8 @@ export interface TrackChartProps {
   width?: number;
   /** Chart height */
   height?: number;
+  /** Label of the last position, e.g. ARR for a completed voyage */
+  endLabel?: string;
   /** Additional CSS classes */
   className?: string;
   /** Test ID for testing */
@@ -118,6 +120,7 @@ export function TrackChart({
   showLabels = true,
   width = 280,
   height = 200,
+  endLabel = 'NOW',
   className = '',
   'data-testid': testId,
 }: TrackChartProps): JSX.Element {
@@ -365,7 +368,7 @@ export function TrackChart({
               fontSize="8px"
               fontFamily="'Share Tech Mono', monospace"
             >
-              NOW
+              {endLabel}
             </text>
           )}
 
@@ -0,0 +1,116 @@
+/**
+ * VoyagePicker Component Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { VoyagePicker } from './VoyagePicker';
+import { TERMINAL_SCHEMES } from '../../types/terminal-theme';
+import type { Voyage } from '../../types';
+
+const colorScheme = TERMINAL_SCHEMES[0];
+
+const voyages: Voyage[] = [
+  {
+    mmsi: '244670316',
+    origin: {
+      locode: 'DEHAM',
+      portName: 'Hamburg',
+      latitude: 53.54,
+      longitude: 9.97,
+      time: '2025-12-02T06:00:00Z',
+    },
+    destination: null,
+    departure: '2025-12-02T06:00:00Z',
+    arrival: null,
+    durationSeconds: 7200,
+    distanceNm: 21.4,
+    averageSpeedKnots: 10.7,
+    maxSpeedKnots: 12,
+    anchorSeconds: 0,
+    positionCount: 40,
+  },
+  {
+    mmsi: '244670316',
+    origin: {
+      locode: 'NLRTM',
+      portName: 'Rotterdam',
+      latitude: 51.95,
+      longitude: 4.14,
+      time: '2025-12-01T02:00:00Z',
+    },
+    destination: {
+      locode: 'DEHAM',
+      portName: 'Hamburg',
+      latitude: 53.54,
+      longitude: 9.97,
+      time: '2025-12-01T14:00:00Z',
+    },
+    departure: '2025-12-01T02:00:00Z',
+    arrival: '2025-12-01T14:00:00Z',
+    durationSeconds: 43200,
+    distanceNm: 268.3,
+    averageSpeedKnots: 22.4,
+    maxSpeedKnots: 14,
+    anchorSeconds: 0,
+    positionCount: 120,
+  },
+];
+
+describe('VoyagePicker', () => {
+  it('lists voyages by origin and destination', () => {
+    render(
+      <VoyagePicker
+        voyages={voyages}
+        selectedDeparture={null}
+        onSelect={vi.fn()}
+        colorScheme={colorScheme}
+      />
+    );
+
+    expect(screen.getByText(/DEHAM → UNDERWAY/)).toBeDefined();
+    expect(screen.getByText(/NLRTM → DEHAM/)).toBeDefined();
+    expect(screen.getByText(/LAST 24H/).getAttribute('aria-pressed')).toBe('true');
+  });
+
+  it('calls onSelect with the picked voyage, or null for the last 24 hours', () => {
+    const onSelect = vi.fn();
+    render(
+      <VoyagePicker
+        voyages={voyages}
+        selectedDeparture={voyages[1].departure}
+        onSelect={onSelect}
+        colorScheme={colorScheme}
+      />
+    );
+
+    fireEvent.click(screen.getByText(/NLRTM → DEHAM/));
+    expect(onSelect).toHaveBeenLastCalledWith(voyages[1]);
+
+    fireEvent.click(screen.getByText(/LAST 24H/));
+    expect(onSelect).toHaveBeenLastCalledWith(null);
+  });
+
+  it('shows loading and empty states', () => {
+    const { rerender } = render(
+      <VoyagePicker
+        voyages={[]}
+        selectedDeparture={null}
+        onSelect={vi.fn()}
+        colorScheme={colorScheme}
+        isLoading={true}
+      />
+    );
+    expect(screen.getByText('LOADING VOYAGES...')).toBeDefined();
+
+    rerender(
+      <VoyagePicker
+        voyages={[]}
+        selectedDeparture={null}
+        onSelect={vi.fn()}
+        colorScheme={colorScheme}
+      />
+    );
+    expect(screen.getByText('NO VOYAGES IN 30 DAYS')).toBeDefined();
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * VoyagePicker Component
+ *
+ * Lists the selected vessel's voyages next to the TrackChart so one voyage can
+ * be loaded as the track instead of a fixed time window. The first entry goes
+ * back to the default track of the last 24 hours.
+ */
+
+import type { CSSProperties } from 'react';
+import type { Voyage, VoyageEndpoint } from '../../types';
+import { TerminalColorScheme } from '../../types/terminal-theme';
+
+/**
+ * Props for VoyagePicker component
+ */
+export interface VoyagePickerProps {
+  /** Voyages, most recent first */
+  voyages: Voyage[];
+  /** Departure of the selected voyage, or null for the last 24 hours */
+  selectedDeparture: string | null;
+  /** Called with the picked voyage, or null for the last 24 hours */
+  onSelect: (voyage: Voyage | null) => void;
+  /** Terminal color scheme */
+  colorScheme: TerminalColorScheme;
+  /** Whether voyages are being fetched */
+  isLoading?: boolean;
+  /** Maximum height of the list before it scrolls */
+  maxHeight?: number;
+  /** Test ID for testing */
+  'data-testid'?: string;
+}
+
+/**
+ * Short name of a voyage end: the port's UN/LOCODE, SEA for stops outside port
+ */
+function formatEndpoint(endpoint: VoyageEndpoint | null, fallback: string): string {
+  if (!endpoint) return fallback;
+  return endpoint.locode ?? 'SEA';
+}
+
+/**
+ * Format a departure as DD/MM HH:MM
+ */
+function formatDeparture(timestamp: string): string {
+  const date = new Date(timestamp);
+  const day = String(date.getDate()).padStart(2, '0');
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${day}/${month} ${hours}:${minutes}`;
+}
+
+/**
+ * Format a voyage duration as hours, or days past two days
+ */
+function formatDuration(seconds: number): string {
+  const hours = seconds / 3600;
+  return hours >= 48 ? `${(hours / 24).toFixed(1)}D` : `${Math.round(hours)}H`;
+}
+
+/**
+ * VoyagePicker Component
+ *
+ * Renders the voyages as terminal-style rows; the selected row is highlighted.
+ */
+export function VoyagePicker({
+  voyages,
+  selectedDeparture,
+  onSelect,
+  colorScheme,
+  isLoading = false,
+  maxHeight = 96,
+  'data-testid': testId,
+}: VoyagePickerProps): JSX.Element {
+  const rowStyle = (selected: boolean): CSSProperties => ({
+    display: 'block',
+    width: '100%',
+    textAlign: 'left',
+    padding: '2px 4px',
+    fontSize: '10px',
+    lineHeight: 1.4,
+    color: selected ? colorScheme.colors.accent : colorScheme.colors.foreground,
+    backgroundColor: selected ? 'rgba(255, 255, 255, 0.08)' : 'transparent',
+    border: 'none',
+    cursor: 'pointer',
+  });
+
+  return (
+    <div
+      className="voyage-picker"
+      data-testid={testId}
+      style={{
+        fontFamily: "'Share Tech Mono', monospace",
+        border: `1px solid ${colorScheme.colors.dim}`,
+        maxHeight,
+        overflowY: 'auto',
+      }}
+    >
+      <button
+        type="button"
+        onClick={() => onSelect(null)}
+        style={rowStyle(selectedDeparture === null)}
+        aria-pressed={selectedDeparture === null}
+      >
+        {selectedDeparture === null ? '> ' : '  '}LAST 24H
+      </button>
+
+      {isLoading ? (
+        <div style={{ padding: '2px 4px', fontSize: '10px', color: colorScheme.colors.dim }}>
+          LOADING VOYAGES...
+        </div>
+      ) : voyages.length === 0 ? (
+        <div style={{ padding: '2px 4px', fontSize: '10px', color: colorScheme.colors.dim }}>
+          NO VOYAGES IN 30 DAYS
+        </div>
+      ) : (
+        voyages.map((voyage) => {
+          const selected = voyage.departure === selectedDeparture;
+          return (
+            <button
+              key={voyage.departure}
+              type="button"
+              onClick={() => onSelect(voyage)}
+              style={rowStyle(selected)}
+              aria-pressed={selected}
+              title={`${voyage.distanceNm.toFixed(1)} NM, max ${voyage.maxSpeedKnots ?? '-'} KN`}
+            >
+              {selected ? '> ' : '  '}
+              {formatEndpoint(voyage.origin, '???')} →{' '}
+              {formatEndpoint(voyage.destination, 'UNDERWAY')}
+              <span style={{ color: colorScheme.colors.dim }}>
+                {' '}
+                {formatDeparture(voyage.departure)} {formatDuration(voyage.durationSeconds)}{' '}
+                {Math.round(voyage.distanceNm)}NM
+              </span>
+            </button>
+          );
+        })
+      )}
+    </div>
+  );
+}
+
+export default VoyagePicker;
@@ -20,5 +20,8 @@ export type {
 export { TrackChart } from './TrackChart';
 export type { TrackChartProps, TrackPosition } from './TrackChart';
 
+export { VoyagePicker } from './VoyagePicker';
+export type { VoyagePickerProps } from './VoyagePicker';
+
 export { RadarScan } from './RadarScan';
 export type { RadarScanProps, RadarVessel } from './RadarScan';
@@ -26,6 +26,9 @@ export const MAP_CONFIG = {
   defaultZoom: Number(import.meta.env.VITE_MAP_DEFAULT_ZOOM) || 10,
   minZoom: 2,
   maxZoom: 18,
+  trackMaxPoints: 2000, // longer tracks are simplified by the backend
+  snapshotRangeHours: 24, // how far back the time slider reaches
+  snapshotLookbackMinutes: 60, // fixes older than this count as no position in a snapshot
 } as const;
 
 /**
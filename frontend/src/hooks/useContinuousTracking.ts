@@ -16,6 +16,7 @@ import { useState, useCallback, useEffect, useRef } from 'react';
 import { usePersistedState } from './usePersistedState';
 import { VesselAPI } from '../services';
 import type { VesselWithPosition } from '../types';
+import { normalizeLongitude } from '../utils/geoUtils';
 
 export interface TrackedVesselInfo {
   mmsi: string;
@@ -124,11 +125,12 @@ export function useContinuousTracking(
     ): Promise<VesselWithPosition | null> => {
       try {
         // Create a small bounding box around the vessel's position
+        // (crossing the antimeridian when the vessel is within TRACKING_BBOX_SIZE of it)
         const bbox = {
           minLat: position.lat - TRACKING_BBOX_SIZE,
           maxLat: position.lat + TRACKING_BBOX_SIZE,
-          minLon: position.lon - TRACKING_BBOX_SIZE,
-          maxLon: position.lon + TRACKING_BBOX_SIZE,
+          minLon: normalizeLongitude(position.lon - TRACKING_BBOX_SIZE),
+          maxLon: normalizeLongitude(position.lon + TRACKING_BBOX_SIZE),
         };
 
         // Query vessels in the small area
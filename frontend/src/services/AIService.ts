@@ -7,6 +7,7 @@
 
 import OpenAI from 'openai';
 import { AI_CONFIG, isAIConfigured } from '../config';
+import { boundingBoxCenter, longitudeSpan } from '../utils/geoUtils';
 import type {
   AIResponse,
   AIError,
@@ -14,6 +15,7 @@ import type {
   ToolDefinition,
   ToolCallResult,
   LookupVesselInput,
+  LookupVesselOutput,
   FindNearbyVesselsInput,
   AnalyzeCollisionRiskInput,
   AnalyzeNavigationSafetyInput,
@@ -266,7 +268,7 @@ You help users query vessel information, analyze collision risks, understand mar
 IMPORTANT: Use plain text only. Do NOT use emojis or pictographic Unicode characters in your responses. The terminal interface requires ASCII-compatible text only.
 
 You have access to tools to:
-- Look up vessel information by MMSI or IMO number
+- Look up vessel information by MMSI or IMO number, now or at a past time
 - Find vessels near a location
 - Analyze collision risks between vessels (enhanced with Rate of Turn data)
 - Analyze vessel behavior patterns (transiting, anchored, fishing, maneuvering, etc.)
@@ -280,6 +282,7 @@ Be concise and helpful in your responses.`;
 
     if (context) {
       systemMessage += `\n\nCurrent context:`;
+      systemMessage += `\n- Current time (UTC): ${new Date().toISOString()}`;
       systemMessage += `\n- Total vessels in view: ${context.vessels.size}`;
       if (context.selectedVessel) {
         systemMessage += `\n- Selected vessel MMSI: ${context.selectedVessel}`;
@@ -297,7 +300,7 @@ Be concise and helpful in your responses.`;
     return [
       {
         name: 'lookupVessel',
-        description: 'Look up vessel information by MMSI (9-digit Maritime Mobile Service Identity) or IMO number (7-digit International Maritime Organization number). Returns vessel details including name, type, position, speed, and course.',
+        description: 'Look up vessel information by MMSI (9-digit Maritime Mobile Service Identity) or IMO number (7-digit International Maritime Organization number). Returns vessel details including name, type, position, speed, and course. Pass a time to get where the vessel was at that past time instead: the position is estimated from the surrounding position reports, with an uncertainty radius and the age of the nearest real report.',
         parameters: {
           type: 'object',
           properties: {
@@ -311,6 +314,10 @@ Be concise and helpful in your responses.`;
               description: 'The 7-digit IMO number of the vessel (use this OR mmsi, not both)',
               pattern: '^\\d{7}$',
             },
+            time: {
+              type: 'string',
+              description: 'ISO 8601 UTC time for historical questions, e.g. "where was the vessel at 14:32 yesterday" (omit for the current position)',
+            },
           },
           required: [],
         },
@@ -649,6 +656,34 @@ Be concise and helpful in your responses.`;
 
     try {
       switch (toolResult.tool) {
+        case 'lookupVessel': {
+          const output = toolResult.output as unknown as LookupVesselOutput;
+          const estimate = output.vessel?.estimate;
+
+          // Show how far off a historical position may be
+          if (output.vessel && estimate && estimate.uncertaintyNm > 0) {
+            visualizations.push({
+              id: `position-uncertainty-${Date.now()}`,
+              type: 'circle',
+              data: {
+                center: output.vessel.position,
+                radiusMeters: estimate.uncertaintyNm * 1852,
+              },
+              style: {
+                color: '#f59e0b', // Amber
+                opacity: 0.6,
+                weight: 2,
+                fillColor: '#f59e0b',
+                fillOpacity: 0.1,
+              },
+              label: `${output.vessel.name || output.vessel.mmsi} at ${
+                estimate.time
+              }: +/- ${estimate.uncertaintyNm.toFixed(1)} nm`,
+            });
+          }
+          break;
+        }
+
         case 'findNearbyVessels': {
           const output = toolResult.output as unknown as FindNearbyVesselsOutput;
           
@@ -795,11 +830,11 @@ Be concise and helpful in your responses.`;
         const args = JSON.parse(match3[1]);
         // Convert findVesselsNearLocation args to findNearbyVessels format
         if (args.minLat !== undefined && args.maxLat !== undefined) {
-          const centerLat = (args.minLat + args.maxLat) / 2;
-          const centerLon = (args.minLon + args.maxLon) / 2;
+          // minLon > maxLon is a box crossing the antimeridian
+          const { lat: centerLat, lon: centerLon } = boundingBoxCenter(args);
           const radiusNm = Math.max(
             Math.abs(args.maxLat - args.minLat) * 60 / 2,
-            Math.abs(args.maxLon - args.minLon) * 60 * Math.cos(centerLat * Math.PI / 180) / 2
+            longitudeSpan(args) * 60 * Math.cos(centerLat * Math.PI / 180) / 2
           );
           toolCalls.push({
             name: 'findNearbyVessels',
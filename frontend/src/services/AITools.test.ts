@@ -0,0 +1,103 @@
+/**
+ * AITools Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { lookupVessel } from './AITools';
+import * as VesselAPI from './VesselAPI';
+import type { VesselWithPosition } from '../types';
+
+vi.mock('./VesselAPI', () => ({
+  getVesselByMMSI: vi.fn(),
+  getVesselByIMO: vi.fn(),
+  getVesselPositionAt: vi.fn(),
+}));
+
+const vessels = new Map<string, VesselWithPosition>([
+  [
+    '244670316',
+    {
+      mmsi: '244670316',
+      name: 'MAASSTROOM',
+      vessel_type: 70,
+      position: {
+        mmsi: '244670316',
+        timestamp: '2025-12-02T10:00:00Z',
+        latitude: 53.5,
+        longitude: 9.9,
+        sog: 0,
+        cog: 0,
+      },
+    },
+  ],
+]);
+
+describe('lookupVessel at a past time', () => {
+  beforeEach(() => {
+    vi.mocked(VesselAPI.getVesselPositionAt).mockReset();
+  });
+
+  it('returns the estimated position with its uncertainty', async () => {
+    vi.mocked(VesselAPI.getVesselPositionAt).mockResolvedValue({
+      mmsi: '244670316',
+      time: '2025-12-01T14:32:00.000Z',
+      position: { latitude: 52.0004, longitude: 4.1067 },
+      method: 'interpolated',
+      uncertaintyNm: 1.42,
+      nearestFixAgeSeconds: 480,
+      before: {
+        mmsi: '244670316',
+        timestamp: '2025-12-01T14:00:00.000Z',
+        latitude: 52.0,
+        longitude: 4.0,
+        sog: 7.4,
+        cog: 90,
+      },
+      after: {
+        mmsi: '244670316',
+        timestamp: '2025-12-01T14:40:00.000Z',
+        latitude: 52.0,
+        longitude: 4.1333,
+        sog: 7.6,
+        cog: 91,
+      },
+    });
+
+    const output = await lookupVessel({ mmsi: '244670316', time: '2025-12-01T14:32:00Z' }, vessels);
+
+    expect(VesselAPI.getVesselPositionAt).toHaveBeenCalledWith(
+      '244670316',
+      new Date('2025-12-01T14:32:00Z'),
+      true
+    );
+    expect(output.found).toBe(true);
+    expect(output.vessel?.position).toEqual({ latitude: 52.0004, longitude: 4.1067 });
+    // Speed and course of the nearer fix, 8 minutes after
+    expect(output.vessel?.speed).toBe(7.6);
+    expect(output.vessel?.lastUpdate).toBe('2025-12-01T14:40:00.000Z');
+    expect(output.vessel?.estimate).toEqual({
+      time: '2025-12-01T14:32:00.000Z',
+      method: 'interpolated',
+      uncertaintyNm: 1.42,
+      nearestFixAgeSeconds: 480,
+    });
+  });
+
+  it('passes on why no position could be estimated', async () => {
+    vi.mocked(VesselAPI.getVesselPositionAt).mockRejectedValue(
+      new Error('No position reports within 120 minutes of 2025-11-01T00:00:00.000Z')
+    );
+
+    const output = await lookupVessel({ mmsi: '244670316', time: '2025-11-01T00:00:00Z' }, vessels);
+
+    expect(output.found).toBe(false);
+    expect(output.error).toContain('No position reports within 120 minutes');
+  });
+
+  it('rejects times that are not ISO 8601', async () => {
+    const output = await lookupVessel({ mmsi: '244670316', time: 'yesterday' }, vessels);
+
+    expect(output.found).toBe(false);
+    expect(VesselAPI.getVesselPositionAt).not.toHaveBeenCalled();
+  });
+});
@@ -9,6 +9,7 @@ import type {
   VesselWithPosition,
   LookupVesselInput,
   LookupVesselOutput,
+  PositionAtTime,
   FindNearbyVesselsInput,
   FindNearbyVesselsOutput,
   AnalyzeCollisionRiskInput,
@@ -41,6 +42,7 @@ function isValidIMO(imo: string): boolean {
  *
  * Look up vessel information by MMSI or IMO number
  * First checks local cache, then queries backend if not found
+ * With a time, returns the position estimated from the reports around that time
  *
  * Requirements: 7.1, 7.4, 11.5
  */
@@ -127,6 +129,10 @@ export async function lookupVessel(
     };
   }
 
+  if (input.time) {
+    return lookupVesselAt(vessel, new Date(input.time));
+  }
+
   // Check if vessel has position data
   if (!vessel.position) {
     return {
@@ -153,6 +159,59 @@ export async function lookupVessel(
   };
 }
 
+/**
+ * Historical lookupVessel: the vessel's position at a past time
+ * Speed and course are those of the real fix nearest to that time
+ */
+async function lookupVesselAt(vessel: VesselWithPosition, time: Date): Promise<LookupVesselOutput> {
+  if (isNaN(time.getTime())) {
+    return {
+      found: false,
+      error: 'Invalid time format. Use ISO 8601, e.g. 2025-12-01T14:32:00Z.',
+    };
+  }
+
+  let estimate: PositionAtTime;
+  try {
+    estimate = await VesselAPI.getVesselPositionAt(vessel.mmsi, time, true);
+  } catch (error) {
+    return {
+      found: false,
+      error: `No position for ${vessel.name || vessel.mmsi} at ${time.toISOString()}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    };
+  }
+
+  const { before, after } = estimate;
+  const nearestFix =
+    before &&
+    (!after ||
+      time.getTime() - new Date(before.timestamp).getTime() <=
+        new Date(after.timestamp).getTime() - time.getTime())
+      ? before
+      : after;
+
+  return {
+    found: true,
+    vessel: {
+      mmsi: vessel.mmsi,
+      name: vessel.name,
+      type: vessel.vessel_type,
+      position: estimate.position,
+      speed: nearestFix?.sog ?? 0,
+      course: nearestFix?.cog ?? 0,
+      lastUpdate: nearestFix?.timestamp ?? estimate.time,
+      estimate: {
+        time: estimate.time,
+        method: estimate.method,
+        uncertaintyNm: estimate.uncertaintyNm,
+        nearestFixAgeSeconds: estimate.nearestFixAgeSeconds,
+      },
+    },
+  };
+}
+
 /**
  * Calculate distance between two points using Haversine formula
  * Returns distance in nautical miles
@@ -5,7 +5,15 @@
  */
 
 import { API_CONFIG } from '../config';
-import type { VesselWithPosition, VesselQuery, VesselPosition } from '../types';
+import type {
+  VesselWithPosition,
+  VesselQuery,
+  VesselPosition,
+  VesselStaticChange,
+  Voyage,
+  PositionAtTime,
+  BoundingBox,
+} from '../types';
 
 /**
  * Search vessels by name or MMSI
@@ -166,13 +174,25 @@ export async function getVesselByIMO(
   return vessel;
 }
 
+/**
+ * Server-side simplification of a vessel track
+ */
+export interface TrackSimplification {
+  /** Keep at most this many positions, dropping the least significant */
+  maxPoints?: number;
+  /** Drop positions within this many nautical miles of the simplified track */
+  tolerance?: number;
+}
+
 /**
  * Get vessel track history
+ * Turning points and gaps in reception survive simplification
  */
 export async function getVesselTrack(
   mmsi: string,
   startTime?: Date,
-  endTime?: Date
+  endTime?: Date,
+  simplification: TrackSimplification = {}
 ): Promise<VesselPosition[]> {
   const params = new URLSearchParams();
 
@@ -184,6 +204,14 @@ export async function getVesselTrack(
     params.append('endTime', endTime.toISOString());
   }
 
+  if (simplification.maxPoints !== undefined) {
+    params.append('maxPoints', simplification.maxPoints.toString());
+  }
+
+  if (simplification.tolerance !== undefined) {
+    params.append('tolerance', simplification.tolerance.toString());
+  }
+
   const response = await fetch(
     `${API_CONFIG.baseUrl}/api/vessels/${mmsi}/track?${params.toString()}`,
     {
@@ -206,6 +234,142 @@ export async function getVesselTrack(
   return data.track || [];
 }
 
+/**
+ * Get the static data change history of a vessel, most recent first
+ */
+export async function getVesselStaticHistory(mmsi: string): Promise<VesselStaticChange[]> {
+  const response = await fetch(`${API_CONFIG.baseUrl}/api/vessels/${mmsi}/history/static`, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (response.status === 404) {
+    return [];
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch vessel history: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.changes || [];
+}
+
+/**
+ * Get a vessel's voyages between port calls and long stops, most recent first
+ * The backend looks back 30 days when no start time is given
+ */
+export async function getVesselVoyages(
+  mmsi: string,
+  startTime?: Date,
+  endTime?: Date
+): Promise<Voyage[]> {
+  const params = new URLSearchParams();
+
+  if (startTime) {
+    params.append('startTime', startTime.toISOString());
+  }
+
+  if (endTime) {
+    params.append('endTime', endTime.toISOString());
+  }
+
+  const response = await fetch(
+    `${API_CONFIG.baseUrl}/api/vessels/${mmsi}/voyages?${params.toString()}`,
+    {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+  if (response.status === 404) {
+    return [];
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch vessel voyages: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.voyages || [];
+}
+
+/**
+ * Estimate where a vessel was at a past time from the position reports around it
+ * Throws with the backend's explanation when the reports are too sparse to estimate
+ */
+export async function getVesselPositionAt(
+  mmsi: string,
+  time: Date,
+  deadReckoning: boolean = false
+): Promise<PositionAtTime> {
+  const params = new URLSearchParams({
+    time: time.toISOString(),
+    deadReckoning: String(deadReckoning),
+  });
+
+  const response = await fetch(
+    `${API_CONFIG.baseUrl}/api/vessels/${mmsi}/position-at?${params.toString()}`,
+    {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+  if (response.status === 404) {
+    const data = await response.json().catch(() => null);
+    throw new Error(
+      data?.error?.message ?? `No position reports for ${mmsi} near ${time.toISOString()}`
+    );
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch vessel position: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Get the last known position of every vessel in an area at a past time
+ * Fixes older than lookbackMinutes before time are not considered
+ */
+export async function getSnapshot(
+  time: Date,
+  bbox: BoundingBox,
+  lookbackMinutes: number = 60,
+  limit: number = 5000
+): Promise<VesselWithPosition[]> {
+  const params = new URLSearchParams({
+    time: time.toISOString(),
+    minLat: bbox.minLat.toString(),
+    maxLat: bbox.maxLat.toString(),
+    minLon: bbox.minLon.toString(),
+    maxLon: bbox.maxLon.toString(),
+    lookbackMinutes: lookbackMinutes.toString(),
+    limit: limit.toString(),
+  });
+
+  const response = await fetch(`${API_CONFIG.baseUrl}/api/snapshot?${params.toString()}`, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch vessel snapshot: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.vessels || [];
+}
 
 /**
  * Scheduler status response
@@ -300,6 +464,33 @@ export async function focusSchedulerOnLocation(
   }
 }
 
+/**
+ * Status of a single AIS source (AISStream, NMEA TCP or UDP feed)
+ */
+export interface AisSourceHealth {
+  kind: 'aisstream' | 'nmea-tcp' | 'nmea-udp' | 'replay';
+  status: 'connected' | 'disconnected';
+  statistics: {
+    isConnected: boolean;
+    messagesReceived: number;
+    messagesProcessed: number;
+    errors: number;
+    lastMessage: string | null;
+    reconnectAttempts: number;
+    reconnect?: {
+      circuit: 'closed' | 'open' | 'half-open';
+      attempts: number;
+      consecutiveAuthFailures: number;
+      lastFailure: 'auth' | 'network' | null;
+      lastFailureReason: string | null;
+      lastFailureAt: string | null;
+      nextAttemptAt: string | null;
+      circuitOpenUntil: string | null;
+      exhausted: boolean;
+    };
+  };
+}
+
 /**
  * Health status response
  */
@@ -309,7 +500,7 @@ export interface HealthStatus {
   services: {
     database: 'connected' | 'disconnected' | 'unknown';
     redis: 'connected' | 'disconnected' | 'unknown';
-    aisStream: 'connected' | 'disconnected' | 'not_configured';
+    aisSources: Record<string, AisSourceHealth>;
   };
   dataStatus: {
     totalVessels: number;
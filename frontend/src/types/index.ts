@@ -17,6 +17,22 @@ export {
   DEFAULT_TERMINAL_SCHEME_ID,
 } from './terminal-theme';
 
+/**
+ * Station category decoded from the MMSI (ITU-R M.585)
+ */
+export type StationCategory =
+  | 'ship'
+  | 'group_call'
+  | 'coast_station'
+  | 'sar_aircraft'
+  | 'handheld'
+  | 'auxiliary_craft'
+  | 'aid_to_navigation'
+  | 'sart'
+  | 'mob'
+  | 'epirb'
+  | 'unknown';
+
 /**
  * Vessel metadata from Ship Static Data
  */
@@ -33,6 +49,9 @@ export interface Vessel {
   draught?: number;
   destination?: string;
   eta?: string;
+  flag?: string; // ISO 3166-1 alpha-2 flag state decoded from the MMSI
+  flagCountry?: string;
+  stationCategory?: StationCategory;
   created_at?: string;
   updated_at?: string;
 }
@@ -52,6 +71,67 @@ export interface VesselPosition {
   rate_of_turn?: number;
 }
 
+/**
+ * One change to a vessel's static data
+ * Values are text as stored by the backend; dimensions are 'A/B/C/D'
+ */
+export interface VesselStaticChange {
+  mmsi: string;
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+  changedAt: string;
+}
+
+/**
+ * Where a voyage started or ended
+ * locode is null for a long stationary period outside any port
+ */
+export interface VoyageEndpoint {
+  locode: string | null;
+  portName?: string;
+  latitude: number;
+  longitude: number;
+  time: string;
+}
+
+/**
+ * A vessel's passage between two port calls or long stops
+ * origin is null when the track starts under way, destination and arrival
+ * while the vessel is still under way
+ */
+export interface Voyage {
+  mmsi: string;
+  origin: VoyageEndpoint | null;
+  destination: VoyageEndpoint | null;
+  departure: string;
+  arrival: string | null;
+  durationSeconds: number;
+  distanceNm: number;
+  averageSpeedKnots: number | null;
+  maxSpeedKnots: number | null;
+  anchorSeconds: number;
+  positionCount: number;
+}
+
+/**
+ * A vessel's estimated position at a past time, from the position reports around it
+ * before and after are the fixes the estimate was made from
+ */
+export interface PositionAtTime {
+  mmsi: string;
+  time: string;
+  position: {
+    latitude: number;
+    longitude: number;
+  };
+  method: 'observed' | 'interpolated' | 'dead_reckoning';
+  uncertaintyNm: number;
+  nearestFixAgeSeconds: number;
+  before: VesselPosition | null;
+  after: VesselPosition | null;
+}
+
 /**
  * Combined vessel with current position
  */
@@ -321,6 +401,7 @@ export interface VisualizationStyle {
 export interface LookupVesselInput {
   mmsi?: string;
   imo?: string;
+  time?: string; // ISO 8601; look up the position at this past time instead of the latest
 }
 
 export interface LookupVesselOutput {
@@ -336,6 +417,13 @@ export interface LookupVesselOutput {
     speed: number;
     course: number;
     lastUpdate: string;
+    // Set for lookups at a past time
+    estimate?: {
+      time: string;
+      method: PositionAtTime['method'];
+      uncertaintyNm: number;
+      nearestFixAgeSeconds: number;
+    };
   };
   error?: string;
 }
@@ -8,6 +8,7 @@
  */
 
 import type { VesselWithPosition, BoundingBox } from '../types';
+import { isInBoundingBox } from './geoUtils';
 
 /**
  * Filter criteria interface
@@ -88,12 +89,7 @@ export function filterByBoundingBox(
 
     const { latitude, longitude } = vessel.position;
     
-    return (
-      latitude >= boundingBox.minLat &&
-      latitude <= boundingBox.maxLat &&
-      longitude >= boundingBox.minLon &&
-      longitude <= boundingBox.maxLon
-    );
+    return isInBoundingBox(latitude, longitude, boundingBox);
   });
 }
 
@@ -0,0 +1,93 @@
+/**
+ * Geo Utility Tests
+ *
+ * Unit tests for antimeridian-aware bounding box helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeLongitude,
+  isInBoundingBox,
+  boundingBoxCenter,
+  boundsFromMapView,
+  expandBoundingBox,
+} from './geoUtils';
+import { filterByBoundingBox } from './filterUtils';
+import type { VesselWithPosition } from '../types';
+
+// Fiji and Tonga, from 170°E to 170°W
+const FIJI = { minLat: -25, maxLat: -10, minLon: 170, maxLon: -170 };
+
+describe('normalizeLongitude', () => {
+  it('should wrap longitudes into [-180, 180]', () => {
+    expect(normalizeLongitude(190)).toBe(-170);
+    expect(normalizeLongitude(-190)).toBe(170);
+    expect(normalizeLongitude(180)).toBe(180);
+    expect(normalizeLongitude(4.05)).toBe(4.05);
+  });
+});
+
+describe('isInBoundingBox', () => {
+  it('should match positions on either side of the antimeridian', () => {
+    expect(isInBoundingBox(-18, 178.4, FIJI)).toBe(true);
+    expect(isInBoundingBox(-21, -175.2, FIJI)).toBe(true);
+    expect(isInBoundingBox(-18, 0, FIJI)).toBe(false);
+    expect(isInBoundingBox(-5, 178.4, FIJI)).toBe(false);
+  });
+});
+
+describe('boundingBoxCenter', () => {
+  it('should find the center of a box crossing the antimeridian', () => {
+    expect(boundingBoxCenter(FIJI)).toEqual({ lat: -17.5, lon: 180 });
+    expect(boundingBoxCenter({ minLat: 50, maxLat: 55, minLon: 0, maxLon: 5 })).toEqual({
+      lat: 52.5,
+      lon: 2.5,
+    });
+  });
+});
+
+describe('boundsFromMapView', () => {
+  it('should wrap view edges panned past the antimeridian', () => {
+    expect(boundsFromMapView(-25, 170, -10, 190)).toEqual(FIJI);
+    expect(boundsFromMapView(-25, -190, -10, -170)).toEqual(FIJI);
+  });
+
+  it('should cover every longitude when the view is wider than the world', () => {
+    expect(boundsFromMapView(-80, -250, 80, 200)).toEqual({
+      minLat: -80,
+      maxLat: 80,
+      minLon: -180,
+      maxLon: 180,
+    });
+  });
+
+  it('should return null for views without area', () => {
+    expect(boundsFromMapView(0, 0, 0, 0)).toBeNull();
+  });
+});
+
+describe('expandBoundingBox', () => {
+  it('should grow boxes across the antimeridian and clamp at the poles', () => {
+    expect(expandBoundingBox({ minLat: 80, maxLat: 89, minLon: 175, maxLon: 179 }, 0.5)).toEqual({
+      minLat: 75.5,
+      maxLat: 90,
+      minLon: 173,
+      maxLon: -179,
+    });
+  });
+});
+
+describe('filterByBoundingBox', () => {
+  it('should keep vessels on both sides of a box crossing the antimeridian', () => {
+    const vessels = [
+      { mmsi: '520123000', position: { latitude: -18, longitude: 178.4 } },
+      { mmsi: '529456000', position: { latitude: -21, longitude: -175.2 } },
+      { mmsi: '244670316', position: { latitude: 51.9, longitude: 4.05 } },
+    ] as VesselWithPosition[];
+
+    expect(filterByBoundingBox(vessels, FIJI).map((vessel) => vessel.mmsi)).toEqual([
+      '520123000',
+      '529456000',
+    ]);
+  });
+});
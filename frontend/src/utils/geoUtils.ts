@@ -0,0 +1,127 @@
+/**
+ * Geo Utilities - Bounding box helpers that handle the antimeridian
+ *
+ * A bounding box crossing the antimeridian is given with minLon > maxLon,
+ * e.g. minLon=170, maxLon=-170 for the 20° around ±180. The backend API,
+ * WebSocket subscriptions and cache all accept boxes in this form.
+ */
+
+import type { BoundingBox } from '../types';
+
+/**
+ * Wrap a longitude into [-180, 180]
+ *
+ * Leaflet reports longitudes beyond ±180 once the map has been panned
+ * across the antimeridian.
+ *
+ * @param longitude - Longitude in degrees, possibly outside [-180, 180]
+ * @returns The same meridian within [-180, 180]
+ */
+export function normalizeLongitude(longitude: number): number {
+  if (longitude >= -180 && longitude <= 180) {
+    return longitude;
+  }
+  return ((((longitude + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Check whether a bounding box crosses the antimeridian
+ */
+export function crossesAntimeridian(boundingBox: BoundingBox): boolean {
+  return boundingBox.minLon > boundingBox.maxLon;
+}
+
+/**
+ * Degrees of longitude covered by a bounding box
+ */
+export function longitudeSpan(boundingBox: BoundingBox): number {
+  const span = boundingBox.maxLon - boundingBox.minLon;
+  return crossesAntimeridian(boundingBox) ? span + 360 : span;
+}
+
+/**
+ * Check whether a position lies inside a bounding box, including boxes
+ * crossing the antimeridian
+ */
+export function isInBoundingBox(
+  latitude: number,
+  longitude: number,
+  boundingBox: BoundingBox
+): boolean {
+  if (latitude < boundingBox.minLat || latitude > boundingBox.maxLat) {
+    return false;
+  }
+  if (crossesAntimeridian(boundingBox)) {
+    return longitude >= boundingBox.minLon || longitude <= boundingBox.maxLon;
+  }
+  return longitude >= boundingBox.minLon && longitude <= boundingBox.maxLon;
+}
+
+/**
+ * Center of a bounding box, on the correct side of the antimeridian
+ */
+export function boundingBoxCenter(boundingBox: BoundingBox): { lat: number; lon: number } {
+  return {
+    lat: (boundingBox.minLat + boundingBox.maxLat) / 2,
+    lon: normalizeLongitude(boundingBox.minLon + longitudeSpan(boundingBox) / 2),
+  };
+}
+
+/**
+ * Convert map view edges to a bounding box
+ *
+ * West and east may lie beyond ±180 when the map has been panned across the
+ * antimeridian; they are wrapped, giving minLon > maxLon when the view
+ * crosses it. A view at least 360° wide covers every longitude.
+ *
+ * @returns The bounding box, or null when the view has no area yet
+ */
+export function boundsFromMapView(
+  south: number,
+  west: number,
+  north: number,
+  east: number
+): BoundingBox | null {
+  if (!(south < north) || !(west < east)) {
+    return null;
+  }
+
+  if (east - west >= 360) {
+    return { minLat: south, maxLat: north, minLon: -180, maxLon: 180 };
+  }
+
+  return {
+    minLat: south,
+    maxLat: north,
+    minLon: normalizeLongitude(west),
+    maxLon: normalizeLongitude(east),
+  };
+}
+
+/**
+ * Grow a bounding box by a fraction of its size on every side
+ *
+ * Latitudes are clamped to the poles; longitudes wrap across the antimeridian.
+ *
+ * @param boundingBox - Box to grow
+ * @param fraction - Fraction of the box height and width added on each side
+ */
+export function expandBoundingBox(boundingBox: BoundingBox, fraction: number): BoundingBox {
+  const latBuffer = (boundingBox.maxLat - boundingBox.minLat) * fraction;
+  const span = longitudeSpan(boundingBox);
+  const lonBuffer = span * fraction;
+
+  const minLat = Math.max(-90, boundingBox.minLat - latBuffer);
+  const maxLat = Math.min(90, boundingBox.maxLat + latBuffer);
+
+  if (span + 2 * lonBuffer >= 360) {
+    return { minLat, maxLat, minLon: -180, maxLon: 180 };
+  }
+
+  return {
+    minLat,
+    maxLat,
+    minLon: normalizeLongitude(boundingBox.minLon - lonBuffer),
+    maxLon: normalizeLongitude(boundingBox.maxLon + lonBuffer),
+  };
+}
@@ -22,6 +22,17 @@ export {
   type FilterCriteria,
 } from './filterUtils';
 
+// Export geo utilities
+export {
+  normalizeLongitude,
+  crossesAntimeridian,
+  longitudeSpan,
+  isInBoundingBox,
+  boundingBoxCenter,
+  boundsFromMapView,
+  expandBoundingBox,
+} from './geoUtils';
+
 // Export position utilities
 export {
   PositionDataStatus,